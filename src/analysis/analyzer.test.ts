@@ -5,8 +5,12 @@
  * Feature: auto-doc-sync, Property 3: Analysis output structure consistency
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import * as fc from 'fast-check';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
 import { CodeAnalyzer } from './analyzer';
 import { ChangeAnalysis } from '../types';
 import { AnalysisConfig } from './types';
@@ -344,4 +348,182 @@ index 1234567..0000000
       { numRuns: 100 }
     );
   });
-});
\ No newline at end of file
+
+  it('should surface exported interfaces, type aliases and enums as extracted types', async () => {
+    const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'analyzer-types-'));
+    const source = `/** A user record */
+export interface User { id: string; name?: string; }
+export type UserId = User['id'];
+export enum Role { Admin, Member }
+`;
+    await fs.mkdir(path.join(workspace, 'src'));
+    await fs.writeFile(path.join(workspace, 'src/model.ts'), source);
+
+    const analyzer = new CodeAnalyzer(config, relativePath => path.join(workspace, relativePath));
+    const diff = `
+diff --git a/src/model.ts b/src/model.ts
+new file mode 100644
+index 0000000..1234567
+--- /dev/null
++++ b/src/model.ts
+@@ -0,0 +1,4 @@
++/** A user record */
++export interface User { id: string; name?: string; }
++export type UserId = User['id'];
++export enum Role { Admin, Member }
+`;
+
+    const result = await analyzer.analyze([diff]);
+    await fs.rm(workspace, { recursive: true, force: true });
+
+    expect(result.extractedTypes?.map(t => `${t.kind}:${t.name}`)).toEqual([
+      'interface:User', 'type:UserId', 'enum:Role'
+    ]);
+    expect(result.extractedTypes?.[0]).toMatchObject({ description: 'A user record', sourceFile: 'src/model.ts' });
+    expect(result.extractedTypes?.[0].definition).toContain('name?: string;');
+    expect(result.documentationRequirements.some(req => req.type === 'api-spec')).toBe(true);
+  });
+
+  it('should classify features and architectural changes from symbol deltas against the base ref', async () => {
+    const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'analyzer-deltas-'));
+    const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: workspace, stdio: 'pipe' });
+
+    await fs.writeFile(path.join(workspace, 'api.ts'), `
+export function stable(): void {}
+export function widen(a: string): void {}
+export function legacy(): void {}
+`);
+    git('init', '-q');
+    git('add', '.');
+    git('commit', '-q', '-m', 'base');
+
+    await fs.writeFile(path.join(workspace, 'api.ts'), `
+export function stable(): void { console.log('body only'); }
+export function widen(a: string, b?: number): void {}
+export function fresh(): void {}
+`);
+    const diff = `
+diff --git a/api.ts b/api.ts
+index 1111111..2222222 100644
+--- a/api.ts
++++ b/api.ts
+@@ -1,4 +1,4 @@
++export function fresh(): void {}
+`;
+
+    const analyzer = new CodeAnalyzer({ ...config, analysisDepth: 'deep' }, relativePath => path.join(workspace, relativePath));
+    const result = await analyzer.analyze([diff], 'HEAD');
+    await fs.rm(workspace, { recursive: true, force: true });
+
+    expect(result.newFeatures.map(f => `${f.category}:${f.name}`)).toEqual([
+      'enhanced:widen',
+      'new:fresh',
+      'deprecated:legacy'
+    ]);
+    expect(result.architecturalChanges.map(c => c.type)).toEqual(['component-modified', 'breaking-change']);
+    expect(result.architecturalChanges[0]).toMatchObject({
+      impact: 'high',
+      description: 'Component modified: api (1 added, 1 changed, 1 removed)'
+    });
+    expect(result.symbolDeltas).toHaveLength(3);
+    expect(result.breakingChanges?.map(c => `${c.reason}:${c.symbol}`)).toEqual(['export-removed:legacy']);
+    expect(result.semverRecommendation).toBe('major');
+    // Relative to the workspace, which the orchestrator resolves them against; they are sent to the AI
+    expect(result.documentationRequirements.map(req => req.targetFile)).toEqual(['.kiro/specs/api.md', 'README.md']);
+  });
+
+  it('should drop files outside the include and exclude patterns from a combined diff', async () => {
+    const analyzer = new CodeAnalyzer({ ...config, excludePatterns: ['node_modules/**', 'dist/**', '**/fixtures/**'] });
+    const diff = `
+diff --git a/src/api.ts b/src/api.ts
+new file mode 100644
+--- /dev/null
++++ b/src/api.ts
+@@ -0,0 +1 @@
++export function api(): void {}
+diff --git a/dist/api.js b/dist/api.js
+new file mode 100644
+--- /dev/null
++++ b/dist/api.js
+@@ -0,0 +1 @@
++export function api() {}
+diff --git a/test/fixtures/sample.ts b/test/fixtures/sample.ts
+--- a/test/fixtures/sample.ts
++++ b/test/fixtures/sample.ts
+@@ -1 +1 @@
++export function sample(): void {}
+diff --git a/docs/guide.md b/docs/guide.md
+--- a/docs/guide.md
++++ b/docs/guide.md
+@@ -1 +1 @@
++# Guide
+diff --git a/src/util.js b/src/util.js
+deleted file mode 100644
+--- a/src/util.js
++++ /dev/null
+@@ -1 +0,0 @@
+-export function util() {}
+`;
+
+    const result = await analyzer.analyze([diff]);
+
+    expect(result.changedFiles.map(file => `${file.changeType}:${file.path}`)).toEqual([
+      'added:src/api.ts',
+      'deleted:src/util.js'
+    ]);
+    expect(result.extractedAPIs.map(api => api.name)).toEqual(['api']);
+  });
+
+  it('should skip files larger than maxFileSize with a warning', async () => {
+    const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'analyzer-size-'));
+    await fs.writeFile(path.join(workspace, 'big.ts'), `export function big(): void {}\n${'// padding\n'.repeat(100)}`);
+    await fs.writeFile(path.join(workspace, 'small.ts'), 'export function small(): void {}\n');
+    const diff = ['big.ts', 'small.ts'].map(file => `
+diff --git a/${file} b/${file}
+--- a/${file}
++++ b/${file}
+@@ -1 +1 @@
++// touched
+`).join('');
+
+    const analyzer = new CodeAnalyzer({ ...config, maxFileSize: 512, analysisDepth: 'deep' }, relativePath => path.join(workspace, relativePath));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = await analyzer.analyze([diff]);
+    await fs.rm(workspace, { recursive: true, force: true });
+
+    expect(result.changedFiles.map(file => file.path)).toEqual(['big.ts', 'small.ts']);
+    expect(result.changedFiles[0].extractedFunctions).toEqual([]);
+    expect(result.changedFiles[1].extractedFunctions.map(f => f.name)).toEqual(['small']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping big.ts'));
+    warn.mockRestore();
+  });
+
+  it('should analyze only diff hunks in shallow mode without reading the file', async () => {
+    const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'analyzer-shallow-'));
+    await fs.mkdir(path.join(workspace, 'src'));
+    await fs.writeFile(path.join(workspace, 'src/api.ts'), 'export function onDiskOnly(): void {}\n');
+    const analyzer = new CodeAnalyzer(config, relativePath => path.join(workspace, relativePath));
+    const diff = `
+diff --git a/src/api.ts b/src/api.ts
+--- a/src/api.ts
++++ b/src/api.ts
+@@ -10,3 +10,3 @@
+ export function keep(): void {}
+-export function rename(a: string): void {}
++export function renamed(a: string): void {}
+-export function widen(a: string): void {}
++export function widen(a: string, b?: number): void {}
+`;
+
+    const result = await analyzer.analyze([diff], 'HEAD');
+    await fs.rm(workspace, { recursive: true, force: true });
+
+    expect(result.changedFiles[0].extractedFunctions.map(f => f.name)).toEqual(['keep', 'renamed', 'widen']);
+    expect(result.symbolDeltas?.map(d => `${d.change}:${d.name}`)).toEqual([
+      'added:renamed',
+      'signature-changed:widen',
+      'removed:rename'
+    ]);
+    expect(result.breakingChanges?.map(c => `${c.reason}:${c.symbol}`)).toEqual(['export-removed:rename']);
+  });
+});
@@ -4,17 +4,25 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import { 
   ChangeAnalysis, 
   ChangedFile, 
-  FunctionDefinition, 
-  ClassDefinition, 
   APIDefinition, 
+  TypeDefinition,
+  InterfaceDefinition,
   FeatureDescription, 
   ArchitecturalChange,
-  DocumentationRequirement 
+  DocumentationRequirement,
+  SymbolDelta,
+  BreakingChange
 } from '../types';
 import { AnalysisConfig, AnalysisResult, DiffEntry, KiroContext } from './types';
+import { SymbolExtractor, ExtractedSymbols } from './symbol-extractor';
+import { SymbolDiffer } from './symbol-diff';
+import { BreakingChangeDetector } from './breaking-changes';
+import { matchesAnyGlob } from './glob';
 import { 
   ParseError, 
   FileOperationError, 
@@ -22,26 +30,42 @@ import {
   ErrorHandler 
 } from '../templates/errors';
 
+const execFileAsync = promisify(execFile);
+
 export class CodeAnalyzer {
   private errorHandler: ErrorHandler = new ErrorHandler();
+  private symbolExtractor: SymbolExtractor = new SymbolExtractor();
+  private symbolDiffer: SymbolDiffer = new SymbolDiffer();
+  private breakingChangeDetector: BreakingChangeDetector = new BreakingChangeDetector();
   private pathResolver: (relativePath: string) => string;
 
   constructor(private config: AnalysisConfig, pathResolver?: (relativePath: string) => string) {
     this.pathResolver = pathResolver || ((relativePath: string) => relativePath);
   }
 
-  async analyze(changes: string[]): Promise<ChangeAnalysis> {
+  /**
+   * Analyze diffs. `baseRef` holds the pre-change version of the files; `headRef` the post-change
+   * version, which is read from the working tree when omitted.
+   */
+  async analyze(changes: string[], baseRef?: string, headRef?: string): Promise<ChangeAnalysis> {
     try {
       const timestamp = new Date().toISOString();
       const diffEntries = await this.parseDiffWithErrorHandling(changes);
-      const changedFiles = await this.analyzeChangedFilesWithErrorHandling(diffEntries);
+      const changedFiles = await this.analyzeChangedFilesWithErrorHandling(diffEntries, baseRef, headRef);
       const extractedAPIs = await this.extractAPIsWithErrorHandling(changedFiles);
+      const extractedTypes = await this.extractTypesWithErrorHandling(changedFiles);
       const newFeatures = await this.identifyNewFeaturesWithErrorHandling(changedFiles);
-      const architecturalChanges = await this.identifyArchitecturalChangesWithErrorHandling(changedFiles);
+      const symbolDeltas = changedFiles.flatMap(file => file.symbolDeltas || []);
+      const breakingChanges = this.breakingChangeDetector.detect(symbolDeltas);
+      const architecturalChanges = [
+        ...await this.identifyArchitecturalChangesWithErrorHandling(changedFiles),
+        ...this.describeBreakingChanges(breakingChanges)
+      ];
       const documentationRequirements = this.generateDocumentationRequirements(
         extractedAPIs, 
         newFeatures, 
-        architecturalChanges
+        architecturalChanges,
+        extractedTypes
       );
 
       return {
@@ -49,9 +73,13 @@ export class CodeAnalyzer {
         triggerType: 'manual',
         changedFiles,
         extractedAPIs,
+        extractedTypes,
         newFeatures,
         architecturalChanges,
-        documentationRequirements
+        documentationRequirements,
+        symbolDeltas,
+        breakingChanges,
+        semverRecommendation: this.breakingChangeDetector.recommendBump(changedFiles.length, symbolDeltas, breakingChanges)
       };
     } catch (error) {
       // Graceful degradation - return minimal analysis if complete analysis fails
@@ -66,9 +94,12 @@ export class CodeAnalyzer {
       triggerType: 'manual',
       changedFiles: [],
       extractedAPIs: [],
+      extractedTypes: [],
       newFeatures: [],
       architecturalChanges: [],
-      documentationRequirements: []
+      documentationRequirements: [],
+      symbolDeltas: [],
+      breakingChanges: []
     };
   }
 
@@ -92,7 +123,8 @@ export class CodeAnalyzer {
   }
 
   /**
-   * Parse diff output into structured entries
+   * Parse diff output into structured entries, one per file.
+   * Files outside the configured include/exclude patterns are dropped here so they never reach analysis.
    */
   private parseDiff(changes: string[]): DiffEntry[] {
     const entries: DiffEntry[] = [];
@@ -104,8 +136,24 @@ export class CodeAnalyzer {
         let changeType: 'added' | 'modified' | 'deleted' = 'modified';
         let diffContent = '';
 
+        const flush = () => {
+          if (currentFile && this.isIncludedPath(currentFile)) {
+            entries.push({
+              path: currentFile,
+              changeType,
+              diffContent: diffContent.trim()
+            });
+          }
+        };
+
         for (const line of lines) {
           if (line.startsWith('diff --git')) {
+            // A combined diff holds several files; each header starts a new entry
+            flush();
+            currentFile = '';
+            changeType = 'modified';
+            diffContent = '';
+
             // Extract file path from git diff header
             const match = line.match(/diff --git a\/(.+) b\/(.+)/);
             if (match) {
@@ -126,13 +174,7 @@ export class CodeAnalyzer {
           }
         }
 
-        if (currentFile) {
-          entries.push({
-            path: currentFile,
-            changeType,
-            diffContent: diffContent.trim()
-          });
-        }
+        flush();
       } catch (error) {
         // Skip malformed diff entries but continue processing others
         console.warn(`Failed to parse diff entry: ${error}`);
@@ -143,12 +185,25 @@ export class CodeAnalyzer {
     return entries;
   }
 
+  /**
+   * Whether a repository-relative path passes the configured include and exclude patterns.
+   * An empty include list includes everything.
+   */
+  private isIncludedPath(filePath: string): boolean {
+    const { includePatterns = [], excludePatterns = [] } = this.config;
+
+    if (includePatterns.length > 0 && !matchesAnyGlob(filePath, includePatterns)) {
+      return false;
+    }
+    return !matchesAnyGlob(filePath, excludePatterns);
+  }
+
   /**
    * Analyze changed files to extract functions and classes with error handling
    */
-  private async analyzeChangedFilesWithErrorHandling(diffEntries: DiffEntry[]): Promise<ChangedFile[]> {
+  private async analyzeChangedFilesWithErrorHandling(diffEntries: DiffEntry[], baseRef?: string, headRef?: string): Promise<ChangedFile[]> {
     try {
-      return await this.analyzeChangedFiles(diffEntries);
+      return await this.analyzeChangedFiles(diffEntries, baseRef, headRef);
     } catch (error) {
       const analysisError = new AnalysisError(
         'Failed to analyze changed files',
@@ -170,20 +225,29 @@ export class CodeAnalyzer {
   }
 
   /**
-   * Analyze changed files to extract functions and classes
+   * Analyze changed files to extract functions and classes.
+   * When a base ref is given, the pre-change version is parsed as well to compute symbol deltas.
    */
-  private async analyzeChangedFiles(diffEntries: DiffEntry[]): Promise<ChangedFile[]> {
+  private async analyzeChangedFiles(diffEntries: DiffEntry[], baseRef?: string, headRef?: string): Promise<ChangedFile[]> {
     const changedFiles: ChangedFile[] = [];
 
     for (const entry of diffEntries) {
       try {
         if (entry.changeType === 'deleted') {
+          let symbolDeltas: SymbolDelta[] | undefined;
+          if (this.isAnalyzableFile(entry.path)) {
+            symbolDeltas = this.config.analysisDepth === 'shallow'
+              ? (await this.analyzeHunks(entry)).symbolDeltas
+              : baseRef ? await this.computeSymbolDeltas(entry, baseRef, this.createEmptySymbols()) : undefined;
+          }
+
           changedFiles.push({
             path: entry.path,
             changeType: entry.changeType,
             diffContent: entry.diffContent,
             extractedFunctions: [],
-            extractedClasses: []
+            extractedClasses: [],
+            ...(symbolDeltas ? { symbolDeltas } : {})
           });
           continue;
         }
@@ -200,16 +264,29 @@ export class CodeAnalyzer {
           continue;
         }
 
-        const fileContent = await this.getFileContentWithErrorHandling(entry.path);
-        const extractedFunctions = await this.extractFunctionsWithErrorHandling(fileContent, entry.path);
-        const extractedClasses = await this.extractClassesWithErrorHandling(fileContent, entry.path);
+        const fileSize = await this.getAnalyzedSize(entry, headRef);
+        if (fileSize > this.config.maxFileSize) {
+          console.warn(`Skipping ${entry.path}: ${fileSize} bytes exceeds maxFileSize (${this.config.maxFileSize} bytes)`);
+          changedFiles.push({
+            path: entry.path,
+            changeType: entry.changeType,
+            diffContent: entry.diffContent,
+            extractedFunctions: [],
+            extractedClasses: []
+          });
+          continue;
+        }
+
+        const { symbols, symbolDeltas } = this.config.analysisDepth === 'shallow'
+          ? await this.analyzeHunks(entry)
+          : await this.analyzeFullFile(entry, baseRef, headRef);
 
         changedFiles.push({
           path: entry.path,
           changeType: entry.changeType,
           diffContent: entry.diffContent,
-          extractedFunctions,
-          extractedClasses
+          ...symbols,
+          ...(symbolDeltas ? { symbolDeltas } : {})
         });
       } catch (error) {
         // If individual file analysis fails, include it with empty extractions
@@ -227,45 +304,146 @@ export class CodeAnalyzer {
   }
 
   /**
-   * Extract function definitions from TypeScript/JavaScript code using regex with error handling
+   * Deep analysis: parse the whole file at the head ref (or in the working tree) and diff it
+   * against its version at the base ref
+   */
+  private async analyzeFullFile(
+    entry: DiffEntry,
+    baseRef: string | undefined,
+    headRef: string | undefined
+  ): Promise<{ symbols: ExtractedSymbols; symbolDeltas?: SymbolDelta[] }> {
+    const fileContent = await this.getFileContentWithErrorHandling(entry.path, headRef);
+    const symbols = await this.extractSymbolsWithErrorHandling(fileContent, entry.path);
+    const symbolDeltas = await this.computeSymbolDeltas(entry, baseRef, symbols);
+    return { symbols, symbolDeltas };
+  }
+
+  /**
+   * Shallow analysis: parse only the code visible in the diff hunks, without reading the file
+   * or its history. Deltas compare the pre- and post-change sides of the hunks, so symbols
+   * whose declarations fall outside the hunks are not reported.
+   */
+  private async analyzeHunks(entry: DiffEntry): Promise<{ symbols: ExtractedSymbols; symbolDeltas: SymbolDelta[] }> {
+    const symbols = entry.changeType === 'deleted'
+      ? this.createEmptySymbols()
+      : await this.extractSymbolsWithErrorHandling(this.getHunkSource(entry.diffContent, '+'), entry.path);
+    const previousSymbols = entry.changeType === 'added'
+      ? this.createEmptySymbols()
+      : await this.extractSymbolsWithErrorHandling(this.getHunkSource(entry.diffContent, '-'), entry.path);
+
+    return { symbols, symbolDeltas: this.symbolDiffer.diff(previousSymbols, symbols, entry.path) };
+  }
+
+  /**
+   * Reconstruct one side of the diff from its hunks: context lines plus the lines added ('+')
+   * or removed ('-') on that side
    */
-  private async extractFunctionsWithErrorHandling(code: string, filePath: string): Promise<FunctionDefinition[]> {
+  private getHunkSource(diffContent: string, side: '+' | '-'): string {
+    return diffContent
+      .split('\n')
+      .filter(line => line.startsWith(side) || line.startsWith(' '))
+      .map(line => line.slice(1))
+      .join('\n');
+  }
+
+  /**
+   * Size of what analysis would read: the file at the head ref or on disk in deep mode, the diff
+   * itself in shallow mode
+   */
+  private async getAnalyzedSize(entry: DiffEntry, headRef?: string): Promise<number> {
+    if (this.config.analysisDepth === 'shallow') {
+      return Buffer.byteLength(entry.diffContent, 'utf-8');
+    }
+
     try {
-      return this.extractFunctions(code);
-    } catch (error) {
-      const parseError = new ParseError(
-        'Failed to extract functions',
-        filePath,
-        error instanceof Error ? error : undefined
-      );
-      
-      return await this.errorHandler.handleError(parseError, []);
+      if (headRef) {
+        const { stdout } = await execFileAsync('git', ['cat-file', '-s', `${headRef}:${entry.path}`], { cwd: this.pathResolver('.') });
+        return Number(stdout.trim());
+      }
+      return (await fs.promises.stat(this.pathResolver(entry.path))).size;
+    } catch {
+      // Unreadable files fall through to the regular read error handling
+      return 0;
     }
   }
 
   /**
-   * Extract class definitions from TypeScript/JavaScript code using regex with error handling
+   * Extract function and class definitions from TypeScript/JavaScript code with error handling
    */
-  private async extractClassesWithErrorHandling(code: string, filePath: string): Promise<ClassDefinition[]> {
+  private async extractSymbolsWithErrorHandling(code: string, filePath: string): Promise<ExtractedSymbols> {
     try {
-      return this.extractClasses(code);
+      return this.symbolExtractor.extract(code, filePath);
     } catch (error) {
       const parseError = new ParseError(
-        'Failed to extract classes',
+        'Failed to extract symbols',
         filePath,
         error instanceof Error ? error : undefined
       );
       
-      return await this.errorHandler.handleError(parseError, []);
+      const recovered = await this.errorHandler.handleError<Partial<ExtractedSymbols>>(parseError, {});
+      return { ...this.createEmptySymbols(), ...recovered };
     }
   }
 
+  private createEmptySymbols(): ExtractedSymbols {
+    return {
+      extractedFunctions: [],
+      extractedClasses: [],
+      extractedInterfaces: [],
+      extractedTypeAliases: [],
+      extractedEnums: [],
+      extractedConstants: []
+    };
+  }
+
   /**
-   * Get file content with error handling
+   * Compare a file's exported symbols against its pre-change version.
+   * Returns undefined when no pre-change version is available to compare against.
    */
-  private async getFileContentWithErrorHandling(filePath: string): Promise<string> {
+  private async computeSymbolDeltas(
+    entry: DiffEntry,
+    baseRef: string | undefined,
+    currentSymbols: ExtractedSymbols
+  ): Promise<SymbolDelta[] | undefined> {
+    if (entry.changeType === 'added') {
+      return this.symbolDiffer.diff(this.createEmptySymbols(), currentSymbols, entry.path);
+    }
+
+    if (!baseRef) {
+      return undefined;
+    }
+
+    const previousContent = await this.getContentAtRef(baseRef, entry.path);
+    if (previousContent === undefined) {
+      return undefined;
+    }
+
+    const previousSymbols = await this.extractSymbolsWithErrorHandling(previousContent, entry.path);
+    return this.symbolDiffer.diff(previousSymbols, currentSymbols, entry.path);
+  }
+
+  /**
+   * Read a file as it was at the given ref via `git show <ref>:<path>`
+   */
+  private async getContentAtRef(ref: string, filePath: string): Promise<string | undefined> {
     try {
-      return await this.getFileContent(filePath);
+      const { stdout } = await execFileAsync('git', ['show', `${ref}:${filePath}`], {
+        cwd: this.pathResolver('.'),
+        maxBuffer: 10 * 1024 * 1024
+      });
+      return stdout;
+    } catch {
+      // The ref may not exist (first commit) or the file may be untracked at that ref
+      return undefined;
+    }
+  }
+
+  /**
+   * Get file content at the head ref, or from the working tree, with error handling
+   */
+  private async getFileContentWithErrorHandling(filePath: string, headRef?: string): Promise<string> {
+    try {
+      return await this.getFileContent(filePath, headRef);
     } catch (error) {
       const fileError = new FileOperationError(
         'Failed to read file',
@@ -295,6 +473,23 @@ export class CodeAnalyzer {
     }
   }
 
+  /**
+   * Extract type definitions with error handling
+   */
+  private async extractTypesWithErrorHandling(changedFiles: ChangedFile[]): Promise<TypeDefinition[]> {
+    try {
+      return this.extractTypes(changedFiles);
+    } catch (error) {
+      const analysisError = new AnalysisError(
+        'Failed to extract types',
+        'classification',
+        error instanceof Error ? error : undefined
+      );
+      
+      return await this.errorHandler.handleError(analysisError, []);
+    }
+  }
+
   /**
    * Identify new features with error handling
    */
@@ -328,146 +523,6 @@ export class CodeAnalyzer {
       return await this.errorHandler.handleError(analysisError, []);
     }
   }
-  /**
-   * Extract function definitions from TypeScript/JavaScript code using regex
-   */
-  private extractFunctions(code: string): FunctionDefinition[] {
-    const functions: FunctionDefinition[] = [];
-    
-    // JavaScript/TypeScript reserved keywords that should not be treated as function names
-    const reservedKeywords = new Set([
-      'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'break', 'continue',
-      'return', 'throw', 'try', 'catch', 'finally', 'new', 'delete', 'typeof',
-      'instanceof', 'void', 'this', 'super', 'class', 'extends', 'import', 'export',
-      'default', 'from', 'as', 'async', 'await', 'yield', 'let', 'const', 'var',
-      'function', 'get', 'set', 'static', 'public', 'private', 'protected',
-      'implements', 'interface', 'type', 'enum', 'namespace', 'module', 'declare',
-      'abstract', 'readonly', 'override', 'in', 'of', 'with', 'debugger'
-    ]);
-    
-    // Pattern for function declarations: function name() {}
-    const functionDeclRegex = /(?:export\s+)?(?:async\s+)?function\s+(\w+)\s*\(([^)]*)\)(?:\s*:\s*([^{]+))?\s*\{/g;
-    let match;
-    while ((match = functionDeclRegex.exec(code)) !== null) {
-      const name = match[1];
-      if (reservedKeywords.has(name)) continue;
-      if (functions.some(f => f.name === name)) continue;
-      
-      functions.push({
-        name,
-        parameters: this.parseParameters(match[2] || ''),
-        returnType: match[3]?.trim() || 'any',
-        isExported: match[0].includes('export'),
-        documentation: this.extractDocumentationForFunction(code, name)
-      });
-    }
-    
-    // Pattern for arrow functions: const name = () => {} or const name = async () => {}
-    const arrowFuncRegex = /(?:export\s+)?(?:const|let|var)\s+(\w+)\s*=\s*(?:async\s+)?\(([^)]*)\)(?:\s*:\s*([^=]+))?\s*=>/g;
-    while ((match = arrowFuncRegex.exec(code)) !== null) {
-      const name = match[1];
-      if (reservedKeywords.has(name)) continue;
-      if (functions.some(f => f.name === name)) continue;
-      
-      functions.push({
-        name,
-        parameters: this.parseParameters(match[2] || ''),
-        returnType: match[3]?.trim() || 'any',
-        isExported: match[0].includes('export'),
-        documentation: this.extractDocumentationForFunction(code, name)
-      });
-    }
-
-    return functions;
-  }
-
-  /**
-   * Extract class definitions from TypeScript/JavaScript code using regex
-   */
-  private extractClasses(code: string): ClassDefinition[] {
-    const classes: ClassDefinition[] = [];
-    const classRegex = /(?:export\s+)?class\s+(\w+)(?:\s+extends\s+\w+)?\s*\{([^}]*)\}/g;
-    
-    let match;
-    while ((match = classRegex.exec(code)) !== null) {
-      const className = match[1];
-      const classBody = match[2];
-      const isExported = match[0].includes('export');
-      
-      // Extract methods from class body
-      const methods = this.extractMethodsFromClassBody(classBody);
-      
-      classes.push({
-        name: className,
-        methods,
-        properties: [], // Property extraction would be more complex
-        isExported,
-        documentation: this.extractDocumentationForClass(code, className)
-      });
-    }
-
-    return classes;
-  }
-
-  /**
-   * Extract methods from class body
-   */
-  private extractMethodsFromClassBody(classBody: string): FunctionDefinition[] {
-    const methods: FunctionDefinition[] = [];
-    
-    // Reserved keywords that should not be treated as method names
-    const reservedKeywords = new Set([
-      'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'break', 'continue',
-      'return', 'throw', 'try', 'catch', 'finally', 'new', 'delete', 'typeof',
-      'instanceof', 'void', 'this', 'super', 'class', 'extends', 'import', 'export',
-      'default', 'from', 'as', 'async', 'await', 'yield', 'let', 'const', 'var',
-      'function', 'constructor', 'get', 'set', 'static', 'public', 'private', 'protected'
-    ]);
-    
-    // Pattern for method definitions: methodName() {} or async methodName() {}
-    // Must start with a valid identifier character (letter, underscore, or $)
-    const methodRegex = /(?:async\s+)?(?:public\s+|private\s+|protected\s+)?([a-zA-Z_$][a-zA-Z0-9_$]*)\s*\(([^)]*)\)(?:\s*:\s*([^{]+))?\s*\{/g;
-    
-    let match;
-    while ((match = methodRegex.exec(classBody)) !== null) {
-      const methodName = match[1];
-      
-      // Skip reserved keywords and constructor
-      if (reservedKeywords.has(methodName)) continue;
-      // Skip if already found
-      if (methods.some(m => m.name === methodName)) continue;
-      
-      methods.push({
-        name: methodName,
-        parameters: this.parseParameters(match[2] || ''),
-        returnType: match[3]?.trim() || 'any',
-        isExported: false,
-        documentation: undefined
-      });
-    }
-
-    return methods;
-  }
-
-  /**
-   * Parse parameter string into parameter objects
-   */
-  private parseParameters(paramString: string): any[] {
-    if (!paramString.trim()) return [];
-    
-    return paramString.split(',').map(param => {
-      const trimmed = param.trim();
-      const [name, type] = trimmed.split(':').map(s => s.trim());
-      
-      return {
-        name: name || 'unknown',
-        type: type || 'any',
-        optional: name?.includes('?') || false,
-        description: undefined
-      };
-    });
-  }
-
   /**
    * Extract API definitions from changed files
    */
@@ -498,6 +553,9 @@ export class CodeAnalyzer {
       for (const cls of file.extractedClasses) {
         if (cls.isExported) {
           for (const method of cls.methods) {
+            // Private and protected members are not part of the public API
+            if (method.visibility && method.visibility !== 'public') continue;
+
             // Generate meaningful description if documentation is missing
             let description = method.documentation;
             if (!description || description.trim().length === 0) {
@@ -519,6 +577,77 @@ export class CodeAnalyzer {
     return apis;
   }
 
+  /**
+   * Extract exported interfaces, type aliases, enums and constants from changed files
+   */
+  private extractTypes(changedFiles: ChangedFile[]): TypeDefinition[] {
+    const types: TypeDefinition[] = [];
+
+    for (const file of changedFiles) {
+      for (const iface of file.extractedInterfaces || []) {
+        if (!iface.isExported) continue;
+        types.push({
+          name: iface.name,
+          kind: 'interface',
+          definition: this.renderInterface(iface),
+          description: iface.documentation,
+          sourceFile: file.path
+        });
+      }
+
+      for (const alias of file.extractedTypeAliases || []) {
+        if (!alias.isExported) continue;
+        const typeParams = alias.typeParameters ? `<${alias.typeParameters.join(', ')}>` : '';
+        types.push({
+          name: alias.name,
+          kind: 'type',
+          definition: `type ${alias.name}${typeParams} = ${alias.type};`,
+          description: alias.documentation,
+          sourceFile: file.path
+        });
+      }
+
+      for (const enumDef of file.extractedEnums || []) {
+        if (!enumDef.isExported) continue;
+        const members = enumDef.members.map(m => `  ${m.name}${m.value !== undefined ? ` = ${m.value}` : ''},`);
+        types.push({
+          name: enumDef.name,
+          kind: 'enum',
+          definition: [`${enumDef.isConst ? 'const ' : ''}enum ${enumDef.name} {`, ...members, '}'].join('\n'),
+          description: enumDef.documentation,
+          sourceFile: file.path
+        });
+      }
+
+      for (const constant of file.extractedConstants || []) {
+        if (!constant.isExported) continue;
+        types.push({
+          name: constant.name,
+          kind: 'const',
+          definition: `const ${constant.name}: ${constant.type}${constant.value !== undefined ? ` = ${constant.value}` : ''};`,
+          description: constant.documentation,
+          sourceFile: file.path
+        });
+      }
+    }
+
+    return types;
+  }
+
+  private renderInterface(iface: InterfaceDefinition): string {
+    const typeParams = iface.typeParameters ? `<${iface.typeParameters.join(', ')}>` : '';
+    const heritage = iface.extends ? ` extends ${iface.extends.join(', ')}` : '';
+    const members = [
+      ...iface.properties.map(p => `  ${p.isReadonly ? 'readonly ' : ''}${p.name}${p.optional ? '?' : ''}: ${p.type};`),
+      ...iface.methods.map(m => {
+        const params = m.parameters.map(p => `${p.name}${p.optional && !p.defaultValue ? '?' : ''}: ${p.type}`).join(', ');
+        return `  ${m.name}(${params}): ${m.returnType};`;
+      })
+    ];
+
+    return [`interface ${iface.name}${typeParams}${heritage} {`, ...members, '}'].join('\n');
+  }
+
   /**
    * Identify new features from changed files
    */
@@ -552,6 +681,9 @@ export class CodeAnalyzer {
           affectedFiles: [file.path],
           category: 'new'
         });
+      } else if (file.symbolDeltas) {
+        // Symbol-level deltas against the pre-change version say exactly what changed
+        features.push(...this.describeSymbolDeltas(file.symbolDeltas));
       } else if (file.changeType === 'modified') {
         // Look for new exported functions/classes in modified files
         const newExportedFunctions = file.extractedFunctions.filter(f => f.isExported);
@@ -586,6 +718,76 @@ export class CodeAnalyzer {
     return features;
   }
 
+  /**
+   * Describe each symbol delta as a feature categorised by the kind of change
+   */
+  private describeSymbolDeltas(deltas: SymbolDelta[]): FeatureDescription[] {
+    return deltas.map(delta => {
+      const previous = this.summarizeSignature(delta.previous?.signature);
+      const current = this.summarizeSignature(delta.current?.signature);
+
+      switch (delta.change) {
+        case 'added':
+          return {
+            name: delta.name,
+            description: `Added ${delta.kind} ${current}`,
+            affectedFiles: [delta.filePath],
+            category: 'new' as const
+          };
+        case 'removed':
+          return {
+            name: delta.name,
+            description: `Removed ${delta.kind} ${previous}`,
+            affectedFiles: [delta.filePath],
+            category: 'deprecated' as const
+          };
+        default:
+          return {
+            name: delta.name,
+            description: `Changed ${delta.kind} signature: ${previous} → ${current}`,
+            affectedFiles: [delta.filePath],
+            category: 'enhanced' as const
+          };
+      }
+    });
+  }
+
+  private summarizeSignature(signature?: string): string {
+    if (!signature) return '';
+    const [first, ...overloads] = signature.split('\n');
+    return overloads.length > 0 ? `${first} (+${overloads.length} overloads)` : first;
+  }
+
+  private summarizeSymbolDeltas(deltas: SymbolDelta[]): string {
+    const counts = [
+      [deltas.filter(d => d.change === 'added').length, 'added'],
+      [deltas.filter(d => d.change === 'signature-changed').length, 'changed'],
+      [deltas.filter(d => d.change === 'removed').length, 'removed']
+    ] as const;
+
+    return counts
+      .filter(([count]) => count > 0)
+      .map(([count, label]) => `${count} ${label}`)
+      .join(', ');
+  }
+
+  /**
+   * Group breaking changes into one architectural change per affected component
+   */
+  private describeBreakingChanges(breakingChanges: BreakingChange[]): ArchitecturalChange[] {
+    const byFile = new Map<string, BreakingChange[]>();
+    for (const change of breakingChanges) {
+      byFile.set(change.filePath, [...(byFile.get(change.filePath) || []), change]);
+    }
+
+    return Array.from(byFile, ([filePath, changes]) => ({
+      type: 'breaking-change' as const,
+      component: this.getComponentName(filePath),
+      description: `Breaking changes: ${changes.map(c => c.description).join('; ')}`,
+      impact: 'high' as const
+    }));
+  }
+
   /**
    * Identify architectural changes from changed files
    */
@@ -595,24 +797,43 @@ export class CodeAnalyzer {
     for (const file of changedFiles) {
       const component = this.getComponentName(file.path);
       
+      const symbolDeltas = file.symbolDeltas && file.symbolDeltas.length > 0 ? { symbolDeltas: file.symbolDeltas } : {};
+
       if (file.changeType === 'added') {
         changes.push({
           type: 'component-added',
           component,
           description: `New component added: ${component}`,
-          impact: this.assessImpact(file)
+          impact: this.assessImpact(file),
+          ...symbolDeltas
         });
       } else if (file.changeType === 'deleted') {
         changes.push({
           type: 'component-removed',
           component,
           description: `Component removed: ${component}`,
-          impact: 'high'
+          impact: 'high',
+          ...symbolDeltas
         });
+      } else if (file.symbolDeltas) {
+        // Body-only edits leave the exported API untouched and are not architectural
+        if (file.symbolDeltas.length > 0) {
+          const breaksCallers = file.symbolDeltas.some(d => d.change !== 'added');
+          changes.push({
+            type: 'component-modified',
+            component,
+            description: `Component modified: ${component} (${this.summarizeSymbolDeltas(file.symbolDeltas)})`,
+            impact: breaksCallers ? 'high' : this.assessImpact(file),
+            symbolDeltas: file.symbolDeltas
+          });
+        }
       } else if (file.changeType === 'modified') {
         // Check if this is a significant modification
         const hasSignificantChanges = file.extractedFunctions.length > 0 || 
-                                     file.extractedClasses.length > 0;
+                                     file.extractedClasses.length > 0 ||
+                                     (file.extractedInterfaces?.length || 0) > 0 ||
+                                     (file.extractedTypeAliases?.length || 0) > 0 ||
+                                     (file.extractedEnums?.length || 0) > 0;
         
         if (hasSignificantChanges) {
           changes.push({
@@ -629,21 +850,22 @@ export class CodeAnalyzer {
   }
 
   /**
-   * Generate documentation requirements based on analysis
+   * Generate documentation requirements based on analysis, with target files relative to the workspace
    */
   private generateDocumentationRequirements(
     apis: APIDefinition[],
     features: FeatureDescription[],
-    changes: ArchitecturalChange[]
+    changes: ArchitecturalChange[],
+    types: TypeDefinition[] = []
   ): DocumentationRequirement[] {
     const requirements: DocumentationRequirement[] = [];
 
     // API documentation requirements
-    if (apis.length > 0) {
+    if (apis.length > 0 || types.length > 0) {
       requirements.push({
         type: 'api-spec',
-        targetFile: this.pathResolver('.kiro/specs/api.md'),
-        content: `Updated API documentation for ${apis.length} APIs`,
+        targetFile: '.kiro/specs/api.md',
+        content: `Updated API documentation for ${apis.length} APIs and ${types.length} types`,
         priority: 'high'
       });
     }
@@ -684,30 +906,15 @@ export class CodeAnalyzer {
     return ['.ts', '.js', '.tsx', '.jsx'].includes(ext);
   }
 
-  private async getFileContent(filePath: string): Promise<string> {
-    return fs.promises.readFile(filePath, 'utf-8');
-  }
-
-  private extractDocumentationForFunction(code: string, functionName: string): string | undefined {
-    // Look for JSDoc comments before function
-    const functionRegex = new RegExp(`/\\*\\*[\\s\\S]*?\\*/\\s*(?:export\\s+)?(?:async\\s+)?function\\s+${functionName}`, 'g');
-    const match = functionRegex.exec(code);
-    if (match) {
-      const docMatch = match[0].match(/\/\*\*([\s\S]*?)\*\//);
-      return docMatch ? docMatch[1].trim() : undefined;
-    }
-    return undefined;
-  }
-
-  private extractDocumentationForClass(code: string, className: string): string | undefined {
-    // Look for JSDoc comments before class
-    const classRegex = new RegExp(`/\\*\\*[\\s\\S]*?\\*/\\s*(?:export\\s+)?class\\s+${className}`, 'g');
-    const match = classRegex.exec(code);
-    if (match) {
-      const docMatch = match[0].match(/\/\*\*([\s\S]*?)\*\//);
-      return docMatch ? docMatch[1].trim() : undefined;
+  private async getFileContent(filePath: string, headRef?: string): Promise<string> {
+    if (headRef) {
+      const content = await this.getContentAtRef(headRef, filePath);
+      if (content === undefined) {
+        throw new Error(`${filePath} does not exist at ${headRef}`);
+      }
+      return content;
     }
-    return undefined;
+    return fs.promises.readFile(this.pathResolver(filePath), 'utf-8');
   }
 
   private getFileType(filePath: string): string {
@@ -0,0 +1,90 @@
+/**
+ * Tests for breaking-change detection and semver recommendations
+ * Feature: auto-doc-sync, Property 2: Change classification accuracy
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { SymbolExtractor } from './symbol-extractor';
+import { SymbolDiffer } from './symbol-diff';
+import { BreakingChangeDetector } from './breaking-changes';
+
+describe('BreakingChangeDetector', () => {
+  const extractor = new SymbolExtractor();
+  const differ = new SymbolDiffer();
+  const detector = new BreakingChangeDetector();
+  const detect = (before: string, after: string) => {
+    const deltas = differ.diff(extractor.extract(before, 'api.ts'), extractor.extract(after, 'api.ts'), 'api.ts');
+    const breakingChanges = detector.detect(deltas);
+    return { deltas, breakingChanges, bump: detector.recommendBump(1, deltas, breakingChanges) };
+  };
+
+  it('should flag removed exports, new required parameters, narrowed returns and removed fields', () => {
+    const { breakingChanges, bump } = detect(`
+export function gone(): void {}
+export function send(to: string): void {}
+export function status(): 'ok' | 'error' | 'pending' { return 'ok'; }
+export interface Config { host: string; port: number; }`, `
+export function send(to: string, body: string): void {}
+export function status(): 'ok' | 'error' { return 'ok'; }
+export interface Config { host: string; }`);
+
+    expect(breakingChanges.map(c => `${c.reason}:${c.symbol}`)).toEqual([
+      'required-parameter-added:send',
+      'return-type-narrowed:status',
+      'member-removed:Config.port',
+      'export-removed:gone'
+    ]);
+    expect(bump).toBe('major');
+  });
+
+  it('should treat optional parameters, widened parameter types and new exports as minor', () => {
+    const { breakingChanges, bump } = detect(`
+export function send(to: string): void {}
+export type Channel = 'email';`, `
+export function send(to: string | string[], retries?: number): void {}
+export type Channel = 'email' | 'sms';
+export function receive(): void {}`);
+
+    expect(breakingChanges).toEqual([]);
+    expect(bump).toBe('minor');
+  });
+
+  it('should treat an added rest parameter as minor', () => {
+    const { deltas, breakingChanges, bump } = detect(
+      'export function log(msg: string): void {}',
+      'export function log(msg: string, ...args: unknown[]): void {}'
+    );
+
+    expect(deltas.map(d => `${d.change}:${d.name}`)).toEqual(['signature-changed:log']);
+    expect(breakingChanges).toEqual([]);
+    expect(bump).toBe('minor');
+  });
+
+  it('should flag properties made required and removed enum members', () => {
+    const { breakingChanges } = detect(
+      `export interface Options { retries?: number; }\nexport enum Level { Low, High }`,
+      `export interface Options { retries: number; }\nexport enum Level { Low }`
+    );
+
+    expect(breakingChanges.map(c => c.reason)).toEqual(['property-made-required', 'enum-member-removed']);
+  });
+
+  it('should recommend patch for body-only changes and never anything below major when exports are removed', () => {
+    expect(detector.recommendBump(1, [], [])).toBe('patch');
+    expect(detector.recommendBump(0, [], [])).toBe('none');
+
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(fc.stringMatching(/^[a-z][a-zA-Z0-9]{0,8}$/), { minLength: 2, maxLength: 6 }),
+        (names) => {
+          const source = (list: string[]) => list.map(name => `export function fn_${name}(): void {}`).join('\n');
+          const { breakingChanges, bump } = detect(source(names), source(names.slice(1)));
+          expect(breakingChanges.map(c => c.symbol)).toEqual([`fn_${names[0]}`]);
+          expect(bump).toBe('major');
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
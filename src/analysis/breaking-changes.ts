@@ -0,0 +1,217 @@
+/**
+ * Breaking-change detection and semver bump recommendation from symbol deltas
+ */
+
+import { BreakingChange, Parameter, SemverBump, SymbolDelta } from '../types';
+
+export class BreakingChangeDetector {
+  /**
+   * Find the deltas that would break existing consumers of the exported API
+   */
+  detect(deltas: SymbolDelta[]): BreakingChange[] {
+    const breakingChanges: BreakingChange[] = [];
+
+    for (const delta of deltas) {
+      if (delta.change === 'removed') {
+        const isMember = delta.kind === 'method' || delta.kind === 'property';
+        breakingChanges.push(this.createBreakingChange(
+          delta,
+          isMember ? 'member-removed' : 'export-removed',
+          `${isMember ? 'Member' : 'Export'} \`${delta.name}\` was removed`
+        ));
+      } else if (delta.change === 'signature-changed' && delta.previous && delta.current) {
+        breakingChanges.push(...this.detectSignatureBreaks(delta));
+      }
+    }
+
+    return breakingChanges;
+  }
+
+  /**
+   * Recommend a semver bump: major for breaking changes, minor for API additions
+   * or compatible signature changes, patch for anything else
+   */
+  recommendBump(changedFileCount: number, deltas: SymbolDelta[], breakingChanges: BreakingChange[]): SemverBump {
+    if (breakingChanges.length > 0) return 'major';
+    if (deltas.length > 0) return 'minor';
+    if (changedFileCount > 0) return 'patch';
+    return 'none';
+  }
+
+  private detectSignatureBreaks(delta: SymbolDelta): BreakingChange[] {
+    const previous = delta.previous!;
+    const current = delta.current!;
+
+    switch (delta.kind) {
+      case 'function':
+      case 'method':
+        return this.detectCallableBreaks(delta, previous.parameters || [], current.parameters || [], previous.returnType, current.returnType);
+      case 'property':
+        return this.detectPropertyBreaks(delta, previous.optional, current.optional, previous.returnType, current.returnType);
+      case 'enum':
+        return this.detectEnumBreaks(delta, previous.signature, current.signature);
+      case 'type':
+        // Adding members to a union keeps every previously valid value valid
+        return this.isWidened(previous.returnType || '', current.returnType || '')
+          ? []
+          : [this.createBreakingChange(delta, 'type-changed', `Type \`${delta.name}\` changed from \`${previous.returnType}\` to \`${current.returnType}\``)];
+      case 'const':
+        return [this.createBreakingChange(delta, 'type-changed', `Constant \`${delta.name}\` changed from \`${previous.returnType}\` to \`${current.returnType}\``)];
+      default:
+        // Class and interface headers only carry heritage and type parameters; members are diffed separately
+        return [];
+    }
+  }
+
+  private detectCallableBreaks(
+    delta: SymbolDelta,
+    previousParams: Parameter[],
+    currentParams: Parameter[],
+    previousReturn?: string,
+    currentReturn?: string
+  ): BreakingChange[] {
+    const breaks: BreakingChange[] = [];
+
+    currentParams.forEach((param, index) => {
+      const before = previousParams[index];
+      if (!this.isOptional(param) && (!before || this.isOptional(before))) {
+        breaks.push(this.createBreakingChange(
+          delta,
+          'required-parameter-added',
+          `\`${delta.name}\` now requires parameter \`${param.name}: ${param.type}\``
+        ));
+      } else if (before && !this.isWidened(before.type, param.type)) {
+        breaks.push(this.createBreakingChange(
+          delta,
+          'parameter-type-changed',
+          `Parameter \`${param.name}\` of \`${delta.name}\` changed from \`${before.type}\` to \`${param.type}\``
+        ));
+      }
+    });
+
+    if (currentParams.length < previousParams.length) {
+      const removed = previousParams.slice(currentParams.length).map(p => p.name).join(', ');
+      breaks.push(this.createBreakingChange(
+        delta,
+        'parameter-removed',
+        `\`${delta.name}\` no longer accepts parameter(s) \`${removed}\``
+      ));
+    }
+
+    if (previousReturn && currentReturn && this.normalize(previousReturn) !== this.normalize(currentReturn)) {
+      const narrowed = this.isWidened(currentReturn, previousReturn);
+      breaks.push(this.createBreakingChange(
+        delta,
+        narrowed ? 'return-type-narrowed' : 'return-type-changed',
+        `Return type of \`${delta.name}\` ${narrowed ? 'narrowed' : 'changed'} from \`${previousReturn}\` to \`${currentReturn}\``
+      ));
+    }
+
+    return breaks;
+  }
+
+  private detectPropertyBreaks(
+    delta: SymbolDelta,
+    previousOptional?: boolean,
+    currentOptional?: boolean,
+    previousType?: string,
+    currentType?: string
+  ): BreakingChange[] {
+    const breaks: BreakingChange[] = [];
+
+    if (previousOptional && !currentOptional) {
+      breaks.push(this.createBreakingChange(delta, 'property-made-required', `Property \`${delta.name}\` is now required`));
+    }
+
+    if (previousType && currentType && this.normalize(previousType) !== this.normalize(currentType)) {
+      breaks.push(this.createBreakingChange(
+        delta,
+        'type-changed',
+        `Property \`${delta.name}\` changed from \`${previousType}\` to \`${currentType}\``
+      ));
+    }
+
+    return breaks;
+  }
+
+  private detectEnumBreaks(delta: SymbolDelta, previousSignature: string, currentSignature: string): BreakingChange[] {
+    const previousMembers = this.enumMembers(previousSignature);
+    const currentMembers = this.enumMembers(currentSignature);
+    const breaks: BreakingChange[] = [];
+
+    for (const [name, value] of previousMembers) {
+      if (!currentMembers.has(name)) {
+        breaks.push(this.createBreakingChange(delta, 'enum-member-removed', `Enum member \`${delta.name}.${name}\` was removed`));
+      } else if (currentMembers.get(name) !== value) {
+        breaks.push(this.createBreakingChange(delta, 'type-changed', `Value of enum member \`${delta.name}.${name}\` changed`));
+      }
+    }
+
+    return breaks;
+  }
+
+  private enumMembers(signature: string): Map<string, string> {
+    const body = signature.slice(signature.indexOf('{') + 1, signature.lastIndexOf('}'));
+    const members = new Map<string, string>();
+
+    for (const member of this.splitTopLevel(body, ',')) {
+      const [name, value] = member.split('=').map(part => part.trim());
+      if (name) members.set(name, value || '');
+    }
+
+    return members;
+  }
+
+  /**
+   * Callers may omit optional and rest parameters; the extractor names rest parameters `...name`
+   */
+  private isOptional(param: Parameter): boolean {
+    return Boolean(param.optional) || param.name.startsWith('...');
+  }
+
+  /**
+   * Whether every member of the previous union is still accepted by the current type
+   */
+  private isWidened(previousType: string, currentType: string): boolean {
+    const currentMembers = new Set(this.splitTopLevel(currentType, '|').map(m => this.normalize(m)));
+    return this.splitTopLevel(previousType, '|').every(m => currentMembers.has(this.normalize(m)));
+  }
+
+  private splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    let previousChar = '';
+
+    for (const char of text) {
+      if ('<({['.includes(char)) depth++;
+      // The `>` of an arrow function type does not close a bracket
+      if (')}]'.includes(char) || (char === '>' && previousChar !== '=')) depth--;
+      previousChar = char;
+
+      if (char === separator && depth === 0) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+
+    return parts.map(part => part.trim()).filter(part => part.length > 0);
+  }
+
+  private normalize(type: string): string {
+    return type.replace(/\s+/g, ' ').trim();
+  }
+
+  private createBreakingChange(delta: SymbolDelta, reason: BreakingChange['reason'], description: string): BreakingChange {
+    return {
+      symbol: delta.name,
+      kind: delta.kind,
+      filePath: delta.filePath,
+      reason,
+      description
+    };
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Tests for include/exclude glob matching
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { matchesGlob, matchesAnyGlob } from './glob';
+
+describe('matchesGlob', () => {
+  it('should match the default include and exclude patterns', () => {
+    expect(matchesGlob('cli.ts', '**/*.ts')).toBe(true);
+    expect(matchesGlob('src/analysis/analyzer.ts', '**/*.ts')).toBe(true);
+    expect(matchesGlob('node_modules/pkg/index.js', '**/node_modules/**')).toBe(true);
+    expect(matchesGlob('src/analysis/analyzer.test.ts', '**/*.test.*')).toBe(true);
+    expect(matchesGlob('types/index.d.ts', '**/*.d.ts')).toBe(true);
+    expect(matchesGlob('src/dist.ts', '**/dist/**')).toBe(false);
+    expect(matchesAnyGlob('README.md', ['**/*.ts', '**/*.js'])).toBe(false);
+  });
+
+  it('should keep single stars within one directory and support alternatives', () => {
+    expect(matchesGlob('src/a.ts', 'src/*.ts')).toBe(true);
+    expect(matchesGlob('src/nested/a.ts', 'src/*.ts')).toBe(false);
+    expect(matchesGlob('src/view.tsx', 'src/**/*.{ts,tsx}')).toBe(true);
+    expect(matchesGlob('./src\\win.ts', 'src/*.ts')).toBe(true);
+  });
+
+  it('should match any path nested under a `**` directory pattern', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.stringMatching(/^[a-z][a-z0-9-]{0,8}$/), { minLength: 0, maxLength: 4 }),
+        fc.stringMatching(/^[a-z][a-z0-9]{0,8}$/),
+        (dirs, name) => {
+          const filePath = [...dirs, `${name}.ts`].join('/');
+          expect(matchesGlob(filePath, '**/*.ts')).toBe(true);
+          expect(matchesGlob(filePath, '**/*.js')).toBe(false);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
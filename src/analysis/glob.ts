@@ -0,0 +1,63 @@
+/**
+ * Minimal glob matching for include/exclude patterns
+ *
+ * Supports `**` (any number of directories), `*` (anything but a path separator),
+ * `?` (a single character) and `{a,b}` alternatives.
+ */
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Check whether a relative, forward-slash path matches a glob pattern
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  let regex = globCache.get(pattern);
+  if (!regex) {
+    regex = globToRegExp(pattern);
+    globCache.set(pattern, regex);
+  }
+  return regex.test(filePath.replace(/\\/g, '/').replace(/^\.\//, ''));
+}
+
+/**
+ * Check whether a path matches at least one of the given glob patterns
+ */
+export function matchesAnyGlob(filePath: string, patterns: string[]): boolean {
+  return patterns.some(pattern => matchesGlob(filePath, pattern));
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` matches zero or more directories; a trailing `**` matches everything below
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
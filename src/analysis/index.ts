@@ -3,4 +3,8 @@
  */
 
 export * from './types';
-export * from './analyzer';
\ No newline at end of file
+export * from './analyzer';
+export * from './symbol-extractor';
+export * from './symbol-diff';
+export * from './breaking-changes';
+export * from './glob';
@@ -0,0 +1,95 @@
+/**
+ * Tests for symbol-level before/after comparison
+ * Feature: auto-doc-sync, Property 2: Change classification accuracy
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { SymbolExtractor } from './symbol-extractor';
+import { SymbolDiffer } from './symbol-diff';
+
+describe('SymbolDiffer', () => {
+  const extractor = new SymbolExtractor();
+  const differ = new SymbolDiffer();
+  const diff = (before: string, after: string) =>
+    differ.diff(extractor.extract(before, 'api.ts'), extractor.extract(after, 'api.ts'), 'api.ts');
+
+  it('should distinguish added, removed and signature-changed exports', () => {
+    const before = `
+export function keep(a: string): string { return a; }
+export function change(a: string): string { return a; }
+export function drop(): void {}
+function internal(): void {}`;
+    const after = `
+export function keep(a: string): string { return a.trim(); }
+export function change(a: string, b: number): string { return a; }
+export function add(): void {}
+function internal(x: number): void {}`;
+
+    const deltas = diff(before, after);
+
+    expect(deltas.map(d => `${d.change}:${d.name}`)).toEqual([
+      'signature-changed:change',
+      'added:add',
+      'removed:drop'
+    ]);
+    expect(deltas[0].previous?.signature).toBe('change(a: string): string');
+    expect(deltas[0].current?.signature).toBe('change(a: string, b: number): string');
+    expect(deltas[0].current?.parameters).toHaveLength(2);
+  });
+
+  it('should report member deltas only for containers present in both versions', () => {
+    const before = `
+export interface Options { host: string; port?: number; }
+export class Client {
+  connect(): void {}
+  private retry(): void {}
+}`;
+    const after = `
+export interface Options { host: string; port: number; }
+export class Client {
+  connect(timeout: number): void {}
+  close(): void {}
+}
+export class Server { listen(): void {} }`;
+
+    const deltas = diff(before, after);
+
+    expect(deltas.map(d => `${d.change}:${d.kind}:${d.name}`)).toEqual([
+      'signature-changed:method:Client.connect',
+      'added:method:Client.close',
+      'added:class:Server',
+      'signature-changed:property:Options.port'
+    ]);
+    expect(deltas[3]).toMatchObject({
+      previous: { signature: 'port?: number', optional: true },
+      current: { signature: 'port: number', optional: false }
+    });
+  });
+
+  it('should treat type alias, enum and constant edits as signature changes', () => {
+    const deltas = diff(
+      `export type Mode = 'a' | 'b';\nexport enum Level { Low, High }\nexport const LIMIT = 5;`,
+      `export type Mode = 'a';\nexport enum Level { Low, High, Max }\nexport const LIMIT = 'five';`
+    );
+
+    expect(deltas.map(d => `${d.kind}:${d.name}`)).toEqual(['type:Mode', 'enum:Level', 'const:LIMIT']);
+    expect(deltas.every(d => d.change === 'signature-changed')).toBe(true);
+  });
+
+  it('should produce no deltas when only implementations change', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(fc.stringMatching(/^[a-z][a-zA-Z0-9]{0,8}$/), { minLength: 1, maxLength: 6 }),
+        fc.integer(),
+        (names, seed) => {
+          const source = (body: string) => names
+            .map(name => `export function fn_${name}(value: number): number { return ${body}; }`)
+            .join('\n');
+          expect(diff(source('value'), source(`value + ${Math.abs(seed)}`))).toEqual([]);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Symbol-level comparison of a file's exported API before and after a change
+ */
+
+import {
+  FunctionDefinition,
+  ClassDefinition,
+  InterfaceDefinition,
+  PropertyDefinition,
+  Parameter,
+  SymbolDelta,
+  SymbolSnapshot
+} from '../types';
+import { ExtractedSymbols } from './symbol-extractor';
+
+type SymbolKind = SymbolDelta['kind'];
+
+interface SymbolEntry {
+  kind: SymbolKind;
+  snapshot: SymbolSnapshot;
+  members?: Map<string, SymbolEntry>;
+}
+
+export class SymbolDiffer {
+  /**
+   * Compare the exported symbols of two versions of a file.
+   * Members of classes and interfaces are only reported when the container exists in both versions.
+   */
+  diff(before: ExtractedSymbols, after: ExtractedSymbols, filePath: string): SymbolDelta[] {
+    return this.diffEntries(this.collectEntries(before), this.collectEntries(after), filePath);
+  }
+
+  private diffEntries(
+    before: Map<string, SymbolEntry>,
+    after: Map<string, SymbolEntry>,
+    filePath: string,
+    prefix: string = ''
+  ): SymbolDelta[] {
+    const deltas: SymbolDelta[] = [];
+
+    for (const [name, current] of after) {
+      const previous = before.get(name);
+      const qualifiedName = `${prefix}${name}`;
+
+      if (!previous || previous.kind !== current.kind) {
+        if (previous) {
+          deltas.push({ name: qualifiedName, kind: previous.kind, change: 'removed', filePath, previous: previous.snapshot });
+        }
+        deltas.push({ name: qualifiedName, kind: current.kind, change: 'added', filePath, current: current.snapshot });
+        continue;
+      }
+
+      if (previous.snapshot.signature !== current.snapshot.signature) {
+        deltas.push({
+          name: qualifiedName,
+          kind: current.kind,
+          change: 'signature-changed',
+          filePath,
+          previous: previous.snapshot,
+          current: current.snapshot
+        });
+      }
+
+      if (previous.members && current.members) {
+        deltas.push(...this.diffEntries(previous.members, current.members, filePath, `${qualifiedName}.`));
+      }
+    }
+
+    for (const [name, previous] of before) {
+      if (!after.has(name)) {
+        deltas.push({ name: `${prefix}${name}`, kind: previous.kind, change: 'removed', filePath, previous: previous.snapshot });
+      }
+    }
+
+    return deltas;
+  }
+
+  private collectEntries(symbols: ExtractedSymbols): Map<string, SymbolEntry> {
+    const entries = new Map<string, SymbolEntry>();
+
+    for (const func of symbols.extractedFunctions.filter(f => f.isExported)) {
+      entries.set(func.name, { kind: 'function', snapshot: this.functionSnapshot(func) });
+    }
+
+    for (const cls of symbols.extractedClasses.filter(c => c.isExported)) {
+      entries.set(cls.name, {
+        kind: 'class',
+        snapshot: { signature: this.classHeader(cls) },
+        members: this.collectMembers(cls.methods, cls.properties)
+      });
+    }
+
+    for (const iface of symbols.extractedInterfaces.filter(i => i.isExported)) {
+      entries.set(iface.name, {
+        kind: 'interface',
+        snapshot: { signature: this.interfaceHeader(iface) },
+        members: this.collectMembers(iface.methods, iface.properties)
+      });
+    }
+
+    for (const alias of symbols.extractedTypeAliases.filter(a => a.isExported)) {
+      const typeParams = this.renderTypeParameters(alias.typeParameters);
+      entries.set(alias.name, {
+        kind: 'type',
+        snapshot: { signature: this.normalize(`type ${alias.name}${typeParams} = ${alias.type}`), returnType: alias.type }
+      });
+    }
+
+    for (const enumDef of symbols.extractedEnums.filter(e => e.isExported)) {
+      const members = enumDef.members.map(m => m.value !== undefined ? `${m.name} = ${m.value}` : m.name);
+      entries.set(enumDef.name, {
+        kind: 'enum',
+        snapshot: { signature: `${enumDef.isConst ? 'const ' : ''}enum ${enumDef.name} { ${members.join(', ')} }` }
+      });
+    }
+
+    for (const constant of symbols.extractedConstants.filter(c => c.isExported)) {
+      entries.set(constant.name, {
+        kind: 'const',
+        snapshot: { signature: this.normalize(`const ${constant.name}: ${constant.type}`), returnType: constant.type }
+      });
+    }
+
+    return entries;
+  }
+
+  private collectMembers(methods: FunctionDefinition[], properties: PropertyDefinition[]): Map<string, SymbolEntry> {
+    const members = new Map<string, SymbolEntry>();
+
+    for (const property of properties.filter(p => p.visibility !== 'private')) {
+      const modifiers = `${property.isStatic ? 'static ' : ''}${property.isReadonly ? 'readonly ' : ''}`;
+      members.set(property.name, {
+        kind: 'property',
+        snapshot: {
+          signature: this.normalize(`${modifiers}${property.name}${property.optional ? '?' : ''}: ${property.type}`),
+          returnType: property.type,
+          optional: Boolean(property.optional)
+        }
+      });
+    }
+
+    // Getter/setter pairs share a name, so accessors are keyed by kind to keep both
+    for (const method of methods.filter(m => m.visibility !== 'private')) {
+      const key = method.kind === 'getter' || method.kind === 'setter' ? `${method.kind} ${method.name}` : method.name;
+      members.set(key, { kind: 'method', snapshot: this.functionSnapshot(method) });
+    }
+
+    return members;
+  }
+
+  private functionSnapshot(func: FunctionDefinition): SymbolSnapshot {
+    const signatures = func.overloads && func.overloads.length > 0
+      ? func.overloads
+      : [{ parameters: func.parameters, returnType: func.returnType, typeParameters: func.typeParameters }];
+    const prefix = `${func.isStatic ? 'static ' : ''}${func.name}`;
+
+    return {
+      signature: signatures
+        .map(sig => `${prefix}${this.renderTypeParameters(sig.typeParameters)}(${this.renderParameters(sig.parameters)}): ${this.normalize(sig.returnType)}`)
+        .join('\n'),
+      parameters: func.parameters,
+      returnType: func.returnType
+    };
+  }
+
+  private classHeader(cls: ClassDefinition): string {
+    const heritage = [
+      cls.extends ? ` extends ${cls.extends}` : '',
+      cls.implements && cls.implements.length > 0 ? ` implements ${cls.implements.join(', ')}` : ''
+    ].join('');
+
+    return this.normalize(`${cls.isAbstract ? 'abstract ' : ''}class ${cls.name}${this.renderTypeParameters(cls.typeParameters)}${heritage}`);
+  }
+
+  private interfaceHeader(iface: InterfaceDefinition): string {
+    const heritage = iface.extends && iface.extends.length > 0 ? ` extends ${iface.extends.join(', ')}` : '';
+    return this.normalize(`interface ${iface.name}${this.renderTypeParameters(iface.typeParameters)}${heritage}`);
+  }
+
+  private renderParameters(parameters: Parameter[]): string {
+    return parameters
+      .map(p => `${p.name}${p.optional ? '?' : ''}: ${this.normalize(p.type)}`)
+      .join(', ');
+  }
+
+  private renderTypeParameters(typeParameters?: string[]): string {
+    return typeParameters && typeParameters.length > 0 ? `<${typeParameters.join(', ')}>` : '';
+  }
+
+  private normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Tests for the AST-backed symbol extractor
+ * Feature: auto-doc-sync, Property 1: Code analysis extraction completeness
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { SymbolExtractor } from './symbol-extractor';
+
+describe('SymbolExtractor', () => {
+  const extractor = new SymbolExtractor();
+
+  it('should never report control-flow keywords as class methods', () => {
+    const code = `
+export class Worker {
+  run(items: string[]): void {
+    for (const item of items) {
+      if (item) {
+        try { this.process(item); } catch (error) { console.warn(error); }
+      }
+    }
+    while (false) {}
+  }
+
+  private process(item: string): string { return item; }
+}`;
+
+    const { extractedClasses } = extractor.extract(code, 'worker.ts');
+    const methodNames = extractedClasses[0].methods.map(m => m.name);
+
+    expect(methodNames).toEqual(['run', 'process']);
+    expect(extractedClasses[0].methods[1].visibility).toBe('private');
+  });
+
+  it('should group overloads and hide the implementation signature', () => {
+    const code = `
+/** Parses a value */
+export function parse(value: string): number;
+export function parse(value: number, radix?: number): number;
+export function parse(value: any, radix = 10): number { return Number(value); }`;
+
+    const { extractedFunctions } = extractor.extract(code);
+
+    expect(extractedFunctions).toHaveLength(1);
+    expect(extractedFunctions[0].overloads).toHaveLength(2);
+    expect(extractedFunctions[0].parameters).toEqual([{ name: 'value', type: 'string', optional: false }]);
+    expect(extractedFunctions[0].overloads![1].parameters[1]).toMatchObject({ name: 'radix', optional: true });
+    expect(extractedFunctions[0].documentation).toBe('Parses a value');
+  });
+
+  it('should capture generics, default parameters and JSDoc parameter descriptions', () => {
+    const code = `
+/**
+ * Picks items
+ * @param items - Source items
+ */
+export const pick = <T extends object>(items: T[], limit = 5): T[] => items.slice(0, limit);`;
+
+    const [pick] = extractor.extract(code).extractedFunctions;
+
+    expect(pick.typeParameters).toEqual(['T extends object']);
+    expect(pick.parameters[0]).toMatchObject({ name: 'items', type: 'T[]', description: 'Source items' });
+    expect(pick.parameters[1]).toMatchObject({ name: 'limit', type: 'number', optional: true, defaultValue: '5' });
+    expect(pick.isExported).toBe(true);
+  });
+
+  it('should describe accessors, static/abstract members, decorators and parameter properties', () => {
+    const code = `
+@Injectable()
+export abstract class Store<T> extends Base implements Disposable {
+  static readonly version = '1';
+  constructor(private readonly config: Config) { super(); }
+  get size(): number { return 0; }
+  set size(value: number) {}
+  static create(): Store<any> { return null as any; }
+  abstract dispose(): void;
+}`;
+
+    const [store] = extractor.extract(code).extractedClasses;
+
+    expect(store).toMatchObject({
+      name: 'Store',
+      isExported: true,
+      isAbstract: true,
+      extends: 'Base',
+      implements: ['Disposable'],
+      typeParameters: ['T'],
+      decorators: ['Injectable()']
+    });
+    expect(store.methods.map(m => `${m.kind}:${m.name}`)).toEqual([
+      'getter:size', 'setter:size', 'method:create', 'method:dispose'
+    ]);
+    expect(store.methods.find(m => m.name === 'create')?.isStatic).toBe(true);
+    expect(store.methods.find(m => m.name === 'dispose')?.isAbstract).toBe(true);
+    expect(store.properties.map(p => p.name)).toEqual(['version', 'config']);
+  });
+
+  it('should resolve export lists and default exports', () => {
+    const code = `
+function internal(): void {}
+function helper(): void {}
+class Service {}
+const factory = () => new Service();
+export { helper, factory as createService };
+export default Service;`;
+
+    const { extractedFunctions, extractedClasses } = extractor.extract(code);
+    const byName = new Map(extractedFunctions.map(f => [f.name, f]));
+
+    expect(byName.get('internal')?.isExported).toBe(false);
+    expect(byName.get('helper')?.isExported).toBe(true);
+    expect(byName.get('createService')?.isExported).toBe(true);
+    expect(byName.has('factory')).toBe(false);
+    expect(extractedClasses[0]).toMatchObject({ name: 'Service', isExported: true, isDefaultExport: true });
+  });
+
+  it('should name symbols exported under an alias by the alias', () => {
+    const code = `
+function build(): void {}
+class Impl {}
+export function kept(): void {}
+interface Opts { id: string; }
+type Id = string;
+const LIMIT = 3;
+export { build as createBuilder, Impl as Service, kept as alsoKept };
+export { Opts as Options, Id as ServiceId, LIMIT as MAX_SERVICES };`;
+
+    const symbols = extractor.extract(code);
+
+    expect(symbols.extractedFunctions.map(f => f.name).sort()).toEqual(['createBuilder', 'kept']);
+    expect(symbols.extractedFunctions.every(f => f.isExported)).toBe(true);
+    expect(symbols.extractedClasses[0]).toMatchObject({ name: 'Service', isExported: true });
+    expect(symbols.extractedInterfaces[0]).toMatchObject({ name: 'Options', isExported: true });
+    expect(symbols.extractedTypeAliases[0]).toMatchObject({ name: 'ServiceId', isExported: true });
+    expect(symbols.extractedConstants[0]).toMatchObject({ name: 'MAX_SERVICES', isExported: true });
+  });
+
+  it('should extract interfaces with declaration merging, type aliases, enums and exported constants', () => {
+    const code = `
+/** Connection options */
+export interface Options<T = string> extends Base {
+  /** Target host */
+  host: string;
+  port?: number;
+  resolve(key: T): Promise<void>;
+}
+export interface Options { retries: number; }
+export type Mode = 'fast' | 'safe';
+export const enum Level { Low = 1, High = 'high' }
+export const DEFAULT_PORT = 8080;
+export const handler = () => 1;
+const internal = 'x';`;
+
+    const symbols = extractor.extract(code, 'options.ts');
+    const [options] = symbols.extractedInterfaces;
+
+    expect(options).toMatchObject({
+      name: 'Options',
+      isExported: true,
+      documentation: 'Connection options',
+      typeParameters: ['T = string'],
+      extends: ['Base']
+    });
+    expect(options.properties.map(p => `${p.name}${p.optional ? '?' : ''}`)).toEqual(['host', 'port?', 'retries']);
+    expect(options.methods.map(m => m.name)).toEqual(['resolve']);
+    expect(symbols.extractedTypeAliases).toEqual([
+      expect.objectContaining({ name: 'Mode', type: "'fast' | 'safe'", isExported: true })
+    ]);
+    expect(symbols.extractedEnums[0]).toMatchObject({ name: 'Level', isConst: true });
+    expect(symbols.extractedEnums[0].members).toEqual([
+      { name: 'Low', value: '1' },
+      { name: 'High', value: "'high'" }
+    ]);
+    expect(symbols.extractedConstants.map(c => `${c.name}:${c.isExported}`)).toEqual(['DEFAULT_PORT:true', 'internal:false']);
+    expect(symbols.extractedConstants[0]).toMatchObject({ type: 'number', value: '8080' });
+  });
+
+  it('should extract every declared exported function regardless of declaration order', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(fc.stringMatching(/^[a-z][a-zA-Z0-9]{0,10}$/), { minLength: 1, maxLength: 8 })
+          .map(names => names.map(name => `fn_${name}`)),
+        (names) => {
+          const code = names.map(name => `export function ${name}(value: string): string { return value; }`).join('\n');
+          const extracted = extractor.extract(code).extractedFunctions.map(f => f.name);
+          expect(extracted).toEqual(names);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,595 @@
+/**
+ * AST-backed symbol extraction using the TypeScript compiler API
+ */
+
+import * as path from 'path';
+import * as ts from 'typescript';
+import {
+  FunctionDefinition,
+  FunctionSignature,
+  ClassDefinition,
+  InterfaceDefinition,
+  TypeAliasDefinition,
+  EnumDefinition,
+  ConstantDefinition,
+  Parameter,
+  PropertyDefinition
+} from '../types';
+
+/**
+ * Symbols extracted from a single source file
+ */
+export interface ExtractedSymbols {
+  extractedFunctions: FunctionDefinition[];
+  extractedClasses: ClassDefinition[];
+  extractedInterfaces: InterfaceDefinition[];
+  extractedTypeAliases: TypeAliasDefinition[];
+  extractedEnums: EnumDefinition[];
+  extractedConstants: ConstantDefinition[];
+}
+
+interface ExportInfo {
+  isDefault: boolean;
+  /** Name consumers import the symbol by, when an export list renames it */
+  exportedName?: string;
+}
+
+type FunctionLikeNode =
+  | ts.FunctionDeclaration
+  | ts.MethodDeclaration
+  | ts.ArrowFunction
+  | ts.FunctionExpression
+  | ts.GetAccessorDeclaration
+  | ts.SetAccessorDeclaration;
+
+export class SymbolExtractor {
+  /**
+   * Parse source code and extract top-level functions, classes, types and constants
+   */
+  extract(code: string, filePath: string = 'source.ts'): ExtractedSymbols {
+    const sourceFile = ts.createSourceFile(
+      filePath,
+      code,
+      ts.ScriptTarget.Latest,
+      true,
+      this.getScriptKind(filePath)
+    );
+
+    const exportedNames = this.collectExportedNames(sourceFile);
+    const functionGroups = new Map<string, ts.FunctionDeclaration[]>();
+    const extractedFunctions: FunctionDefinition[] = [];
+    const extractedClasses: ClassDefinition[] = [];
+    const extractedInterfaces: InterfaceDefinition[] = [];
+    const extractedTypeAliases: TypeAliasDefinition[] = [];
+    const extractedEnums: EnumDefinition[] = [];
+    const extractedConstants: ConstantDefinition[] = [];
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isFunctionDeclaration(statement)) {
+        const name = statement.name?.text || 'default';
+        const group = functionGroups.get(name) || [];
+        group.push(statement);
+        functionGroups.set(name, group);
+      } else if (ts.isClassDeclaration(statement)) {
+        extractedClasses.push(this.extractClass(statement, sourceFile, exportedNames));
+      } else if (ts.isInterfaceDeclaration(statement)) {
+        this.mergeInterface(extractedInterfaces, this.extractInterface(statement, sourceFile, exportedNames));
+      } else if (ts.isTypeAliasDeclaration(statement)) {
+        extractedTypeAliases.push(this.extractTypeAlias(statement, sourceFile, exportedNames));
+      } else if (ts.isEnumDeclaration(statement)) {
+        extractedEnums.push(this.extractEnum(statement, sourceFile, exportedNames));
+      } else if (ts.isVariableStatement(statement)) {
+        extractedFunctions.push(...this.extractVariableFunctions(statement, sourceFile, exportedNames));
+        extractedConstants.push(...this.extractConstants(statement, sourceFile, exportedNames));
+      }
+    }
+
+    for (const [name, declarations] of functionGroups) {
+      extractedFunctions.push(this.extractFunction(name, declarations, sourceFile, exportedNames));
+    }
+
+    return {
+      extractedFunctions,
+      extractedClasses,
+      extractedInterfaces,
+      extractedTypeAliases,
+      extractedEnums,
+      extractedConstants
+    };
+  }
+
+  /**
+   * Collect names exported through `export { a, b as c }` and `export default a`
+   */
+  private collectExportedNames(sourceFile: ts.SourceFile): Map<string, ExportInfo> {
+    const exported = new Map<string, ExportInfo>();
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause) {
+        if (ts.isNamedExports(statement.exportClause)) {
+          for (const element of statement.exportClause.elements) {
+            const localName = (element.propertyName || element.name).text;
+            const isDefault = element.name.text === 'default';
+            const existing = exported.get(localName);
+            exported.set(localName, {
+              isDefault: isDefault || Boolean(existing?.isDefault),
+              exportedName: existing?.exportedName || (isDefault ? undefined : element.name.text)
+            });
+          }
+        }
+      } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+        exported.set(statement.expression.text, { isDefault: !statement.isExportEquals });
+      }
+    }
+
+    return exported;
+  }
+
+  private extractFunction(
+    name: string,
+    declarations: ts.FunctionDeclaration[],
+    sourceFile: ts.SourceFile,
+    exportedNames: Map<string, ExportInfo>
+  ): FunctionDefinition {
+    const signatures = this.getPublicSignatures(declarations);
+    const primary = signatures[0];
+    const exportState = this.getExportState(primary, name, exportedNames);
+
+    const definition: FunctionDefinition = {
+      name: exportState.name,
+      ...this.buildSignature(primary, sourceFile),
+      isExported: exportState.isExported,
+      kind: 'function',
+      isAsync: this.hasModifier(primary, ts.SyntaxKind.AsyncKeyword) || undefined,
+      isDefaultExport: exportState.isDefault || undefined
+    };
+
+    if (signatures.length > 1) {
+      definition.overloads = signatures.map(signature => this.buildSignature(signature, sourceFile));
+    }
+
+    return this.compact(definition);
+  }
+
+  private extractVariableFunctions(
+    statement: ts.VariableStatement,
+    sourceFile: ts.SourceFile,
+    exportedNames: Map<string, ExportInfo>
+  ): FunctionDefinition[] {
+    const functions: FunctionDefinition[] = [];
+    const isExportedStatement = this.hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+
+    for (const declaration of statement.declarationList.declarations) {
+      if (!ts.isIdentifier(declaration.name) || !declaration.initializer) continue;
+
+      const initializer = this.unwrapExpression(declaration.initializer);
+      if (!ts.isArrowFunction(initializer) && !ts.isFunctionExpression(initializer)) continue;
+
+      const name = declaration.name.text;
+      const exportInfo = exportedNames.get(name);
+      const signature = this.buildSignature(initializer, sourceFile);
+
+      // Prefer the declared variable type's documentation over the initializer's
+      signature.documentation = this.getDocumentation(statement) || signature.documentation;
+
+      functions.push(this.compact({
+        name: (!isExportedStatement && exportInfo?.exportedName) || name,
+        ...signature,
+        isExported: isExportedStatement || Boolean(exportInfo),
+        kind: 'function',
+        isAsync: this.hasModifier(initializer, ts.SyntaxKind.AsyncKeyword) || undefined,
+        isDefaultExport: exportInfo?.isDefault || undefined
+      }));
+    }
+
+    return functions;
+  }
+
+  private extractClass(
+    node: ts.ClassDeclaration,
+    sourceFile: ts.SourceFile,
+    exportedNames: Map<string, ExportInfo>
+  ): ClassDefinition {
+    const name = node.name?.text || 'default';
+    const exportState = this.getExportState(node, name, exportedNames);
+    const methods: FunctionDefinition[] = [];
+    const properties: PropertyDefinition[] = [];
+    const methodGroups = new Map<string, ts.MethodDeclaration[]>();
+
+    for (const member of node.members) {
+      if (ts.isMethodDeclaration(member)) {
+        const memberName = this.getMemberName(member.name, sourceFile);
+        const group = methodGroups.get(memberName) || [];
+        group.push(member);
+        methodGroups.set(memberName, group);
+      } else if (ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) {
+        methods.push(this.extractMember(
+          this.getMemberName(member.name, sourceFile),
+          [member],
+          ts.isGetAccessorDeclaration(member) ? 'getter' : 'setter',
+          sourceFile
+        ));
+      } else if (ts.isPropertyDeclaration(member)) {
+        properties.push(this.extractProperty(member, sourceFile));
+      } else if (ts.isConstructorDeclaration(member)) {
+        // Constructor parameter properties (e.g. `constructor(private config: Config)`)
+        for (const parameter of member.parameters) {
+          if (ts.isParameterPropertyDeclaration(parameter, member)) {
+            properties.push(this.extractParameterProperty(parameter, sourceFile));
+          }
+        }
+      }
+    }
+
+    for (const [memberName, declarations] of methodGroups) {
+      methods.push(this.extractMember(memberName, this.getPublicSignatures(declarations), 'method', sourceFile));
+    }
+
+    let extendsClause: string | undefined;
+    let implementsClause: string[] | undefined;
+    for (const clause of node.heritageClauses || []) {
+      const types = clause.types.map(type => type.getText(sourceFile));
+      if (clause.token === ts.SyntaxKind.ExtendsKeyword) {
+        extendsClause = types[0];
+      } else {
+        implementsClause = types;
+      }
+    }
+
+    return this.compact({
+      name: exportState.name,
+      methods,
+      properties,
+      isExported: exportState.isExported,
+      documentation: this.getDocumentation(node),
+      typeParameters: this.getTypeParameters(node, sourceFile),
+      extends: extendsClause,
+      implements: implementsClause,
+      isAbstract: this.hasModifier(node, ts.SyntaxKind.AbstractKeyword) || undefined,
+      isDefaultExport: exportState.isDefault || undefined,
+      decorators: this.getDecorators(node, sourceFile)
+    });
+  }
+
+  private extractInterface(
+    node: ts.InterfaceDeclaration,
+    sourceFile: ts.SourceFile,
+    exportedNames: Map<string, ExportInfo>
+  ): InterfaceDefinition {
+    const properties: PropertyDefinition[] = [];
+    const methods: FunctionDefinition[] = [];
+
+    for (const member of node.members) {
+      if (ts.isPropertySignature(member)) {
+        properties.push(this.compact({
+          name: this.getMemberName(member.name, sourceFile),
+          type: member.type ? member.type.getText(sourceFile) : 'any',
+          visibility: 'public' as const,
+          documentation: this.getDocumentation(member),
+          optional: Boolean(member.questionToken) || undefined,
+          isReadonly: this.hasModifier(member, ts.SyntaxKind.ReadonlyKeyword) || undefined
+        }));
+      } else if (ts.isMethodSignature(member)) {
+        methods.push(this.compact({
+          name: this.getMemberName(member.name, sourceFile),
+          ...this.buildSignature(member, sourceFile),
+          isExported: false,
+          kind: 'method' as const
+        }));
+      }
+    }
+
+    const extendsClause = node.heritageClauses
+      ?.flatMap(clause => clause.types.map(type => type.getText(sourceFile)));
+
+    const exportState = this.getExportState(node, node.name.text, exportedNames);
+
+    return this.compact({
+      name: exportState.name,
+      properties,
+      methods,
+      isExported: exportState.isExported,
+      documentation: this.getDocumentation(node),
+      typeParameters: this.getTypeParameters(node, sourceFile),
+      extends: extendsClause && extendsClause.length > 0 ? extendsClause : undefined
+    });
+  }
+
+  /**
+   * Declaration merging: repeated interface declarations contribute members to one definition
+   */
+  private mergeInterface(interfaces: InterfaceDefinition[], definition: InterfaceDefinition): void {
+    const existing = interfaces.find(iface => iface.name === definition.name);
+    if (!existing) {
+      interfaces.push(definition);
+      return;
+    }
+
+    existing.properties.push(...definition.properties);
+    existing.methods.push(...definition.methods);
+    existing.isExported = existing.isExported || definition.isExported;
+    existing.documentation = existing.documentation || definition.documentation;
+  }
+
+  private extractTypeAlias(
+    node: ts.TypeAliasDeclaration,
+    sourceFile: ts.SourceFile,
+    exportedNames: Map<string, ExportInfo>
+  ): TypeAliasDefinition {
+    const exportState = this.getExportState(node, node.name.text, exportedNames);
+
+    return this.compact({
+      name: exportState.name,
+      type: node.type.getText(sourceFile),
+      isExported: exportState.isExported,
+      documentation: this.getDocumentation(node),
+      typeParameters: this.getTypeParameters(node, sourceFile)
+    });
+  }
+
+  private extractEnum(
+    node: ts.EnumDeclaration,
+    sourceFile: ts.SourceFile,
+    exportedNames: Map<string, ExportInfo>
+  ): EnumDefinition {
+    const exportState = this.getExportState(node, node.name.text, exportedNames);
+
+    return this.compact({
+      name: exportState.name,
+      members: node.members.map(member => this.compact({
+        name: this.getMemberName(member.name, sourceFile),
+        value: member.initializer?.getText(sourceFile),
+        documentation: this.getDocumentation(member)
+      })),
+      isExported: exportState.isExported,
+      documentation: this.getDocumentation(node),
+      isConst: this.hasModifier(node, ts.SyntaxKind.ConstKeyword) || undefined
+    });
+  }
+
+  /**
+   * Extract `const` declarations that are not functions (configuration objects, literals, etc.)
+   */
+  private extractConstants(
+    statement: ts.VariableStatement,
+    sourceFile: ts.SourceFile,
+    exportedNames: Map<string, ExportInfo>
+  ): ConstantDefinition[] {
+    if (!(statement.declarationList.flags & ts.NodeFlags.Const)) return [];
+
+    const constants: ConstantDefinition[] = [];
+    const isExportedStatement = this.hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+
+    for (const declaration of statement.declarationList.declarations) {
+      if (!ts.isIdentifier(declaration.name)) continue;
+
+      const initializer = declaration.initializer && this.unwrapExpression(declaration.initializer);
+      if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) continue;
+
+      const name = declaration.name.text;
+      const exportInfo = exportedNames.get(name);
+      constants.push(this.compact({
+        name: (!isExportedStatement && exportInfo?.exportedName) || name,
+        type: declaration.type ? declaration.type.getText(sourceFile) : this.inferLiteralType(initializer),
+        isExported: isExportedStatement || Boolean(exportInfo),
+        documentation: this.getDocumentation(statement),
+        value: initializer && this.isLiteral(initializer) ? initializer.getText(sourceFile) : undefined
+      }));
+    }
+
+    return constants;
+  }
+
+  private extractMember(
+    name: string,
+    signatures: Array<ts.MethodDeclaration | ts.GetAccessorDeclaration | ts.SetAccessorDeclaration>,
+    kind: 'method' | 'getter' | 'setter',
+    sourceFile: ts.SourceFile
+  ): FunctionDefinition {
+    const primary = signatures[0];
+    const signature = this.buildSignature(primary, sourceFile);
+
+    if (kind === 'setter' && !primary.type) {
+      signature.returnType = 'void';
+    }
+
+    const definition: FunctionDefinition = {
+      name,
+      ...signature,
+      isExported: false,
+      kind,
+      visibility: this.getVisibility(primary),
+      isAsync: this.hasModifier(primary, ts.SyntaxKind.AsyncKeyword) || undefined,
+      isStatic: this.hasModifier(primary, ts.SyntaxKind.StaticKeyword) || undefined,
+      isAbstract: this.hasModifier(primary, ts.SyntaxKind.AbstractKeyword) || undefined,
+      decorators: this.getDecorators(primary, sourceFile)
+    };
+
+    if (signatures.length > 1) {
+      definition.overloads = signatures.map(node => this.buildSignature(node, sourceFile));
+    }
+
+    return this.compact(definition);
+  }
+
+  private extractProperty(node: ts.PropertyDeclaration, sourceFile: ts.SourceFile): PropertyDefinition {
+    return this.compact({
+      name: this.getMemberName(node.name, sourceFile),
+      type: node.type ? node.type.getText(sourceFile) : this.inferLiteralType(node.initializer),
+      visibility: this.getVisibility(node),
+      documentation: this.getDocumentation(node),
+      optional: Boolean(node.questionToken) || undefined,
+      isStatic: this.hasModifier(node, ts.SyntaxKind.StaticKeyword) || undefined,
+      isReadonly: this.hasModifier(node, ts.SyntaxKind.ReadonlyKeyword) || undefined,
+      decorators: this.getDecorators(node, sourceFile)
+    });
+  }
+
+  private extractParameterProperty(node: ts.ParameterDeclaration, sourceFile: ts.SourceFile): PropertyDefinition {
+    return this.compact({
+      name: node.name.getText(sourceFile),
+      type: node.type ? node.type.getText(sourceFile) : this.inferLiteralType(node.initializer),
+      visibility: this.getVisibility(node),
+      optional: Boolean(node.questionToken) || undefined,
+      isReadonly: this.hasModifier(node, ts.SyntaxKind.ReadonlyKeyword) || undefined
+    });
+  }
+
+  /**
+   * Overload signatures hide the implementation signature from callers
+   */
+  private getPublicSignatures<T extends ts.FunctionLikeDeclaration>(declarations: T[]): T[] {
+    const overloads = declarations.filter(declaration => !declaration.body);
+    return overloads.length > 0 ? overloads : declarations;
+  }
+
+  private buildSignature(node: FunctionLikeNode | ts.MethodSignature, sourceFile: ts.SourceFile): FunctionSignature {
+    const paramDocs = this.getParamDocumentation(node);
+
+    const parameters: Parameter[] = node.parameters
+      .filter(param => !(ts.isIdentifier(param.name) && param.name.text === 'this'))
+      .map(param => {
+        const rawName = param.name.getText(sourceFile);
+        return this.compact({
+          name: param.dotDotDotToken ? `...${rawName}` : rawName,
+          type: param.type ? param.type.getText(sourceFile) : this.inferLiteralType(param.initializer),
+          optional: Boolean(param.questionToken || param.initializer),
+          description: paramDocs.get(rawName),
+          defaultValue: param.initializer?.getText(sourceFile)
+        });
+      });
+
+    return this.compact({
+      parameters,
+      returnType: node.type ? node.type.getText(sourceFile) : this.inferReturnType(node),
+      typeParameters: this.getTypeParameters(node, sourceFile),
+      documentation: this.getDocumentation(node)
+    });
+  }
+
+  private inferReturnType(node: FunctionLikeNode | ts.MethodSignature): string {
+    if (ts.isSetAccessorDeclaration(node)) return 'void';
+    return this.hasModifier(node, ts.SyntaxKind.AsyncKeyword) ? 'Promise<any>' : 'any';
+  }
+
+  private isLiteral(expression: ts.Expression): boolean {
+    return ts.isStringLiteral(expression) ||
+      ts.isNoSubstitutionTemplateLiteral(expression) ||
+      ts.isNumericLiteral(expression) ||
+      expression.kind === ts.SyntaxKind.TrueKeyword ||
+      expression.kind === ts.SyntaxKind.FalseKeyword ||
+      (ts.isPrefixUnaryExpression(expression) && ts.isNumericLiteral(expression.operand));
+  }
+
+  private inferLiteralType(initializer?: ts.Expression): string {
+    if (!initializer) return 'any';
+    if (ts.isStringLiteral(initializer) || ts.isNoSubstitutionTemplateLiteral(initializer)) return 'string';
+    if (ts.isNumericLiteral(initializer)) return 'number';
+    if (initializer.kind === ts.SyntaxKind.TrueKeyword || initializer.kind === ts.SyntaxKind.FalseKeyword) return 'boolean';
+    return 'any';
+  }
+
+  private getTypeParameters(
+    node: ts.SignatureDeclarationBase | ts.ClassLikeDeclaration | ts.InterfaceDeclaration | ts.TypeAliasDeclaration,
+    sourceFile: ts.SourceFile
+  ): string[] | undefined {
+    const typeParameters = node.typeParameters?.map(param => param.getText(sourceFile));
+    return typeParameters && typeParameters.length > 0 ? typeParameters : undefined;
+  }
+
+  private getDecorators(node: ts.Node, sourceFile: ts.SourceFile): string[] | undefined {
+    if (!ts.canHaveDecorators(node)) return undefined;
+    const decorators = ts.getDecorators(node)?.map(decorator => decorator.expression.getText(sourceFile));
+    return decorators && decorators.length > 0 ? decorators : undefined;
+  }
+
+  private getDocumentation(node: ts.Node): string | undefined {
+    const docs = ts.getJSDocCommentsAndTags(node)
+      .filter((doc): doc is ts.JSDoc => ts.isJSDoc(doc))
+      .map(doc => ts.getTextOfJSDocComment(doc.comment)?.trim())
+      .filter((text): text is string => Boolean(text));
+
+    return docs.length > 0 ? docs[docs.length - 1] : undefined;
+  }
+
+  private getParamDocumentation(node: ts.Node): Map<string, string> {
+    const docs = new Map<string, string>();
+    for (const tag of ts.getJSDocTags(node)) {
+      if (ts.isJSDocParameterTag(tag)) {
+        const comment = ts.getTextOfJSDocComment(tag.comment)?.replace(/^\s*-\s*/, '').trim();
+        if (comment) {
+          docs.set(tag.name.getText(), comment);
+        }
+      }
+    }
+    return docs;
+  }
+
+  private getVisibility(node: ts.Node): 'public' | 'private' | 'protected' {
+    if (this.hasModifier(node, ts.SyntaxKind.PrivateKeyword)) return 'private';
+    if (this.hasModifier(node, ts.SyntaxKind.ProtectedKeyword)) return 'protected';
+    if ((ts.isPropertyDeclaration(node) || ts.isMethodDeclaration(node) || ts.isAccessor(node)) &&
+        ts.isPrivateIdentifier(node.name)) {
+      return 'private';
+    }
+    return 'public';
+  }
+
+  private getExportState(
+    node: ts.Node,
+    name: string,
+    exportedNames: Map<string, ExportInfo>
+  ): { isExported: boolean; isDefault: boolean; name: string } {
+    const hasExport = this.hasModifier(node, ts.SyntaxKind.ExportKeyword);
+    const hasDefault = this.hasModifier(node, ts.SyntaxKind.DefaultKeyword);
+    const exportInfo = exportedNames.get(name);
+
+    return {
+      isExported: hasExport || Boolean(exportInfo),
+      isDefault: (hasExport && hasDefault) || Boolean(exportInfo?.isDefault),
+      // Declarations exported only through `export { local as alias }` are imported by the alias
+      name: (!hasExport && exportInfo?.exportedName) || name
+    };
+  }
+
+  private getMemberName(name: ts.PropertyName, sourceFile: ts.SourceFile): string {
+    if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+      return name.text;
+    }
+    return name.getText(sourceFile);
+  }
+
+  private hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    if (!ts.canHaveModifiers(node)) return false;
+    return (ts.getModifiers(node) || []).some(modifier => modifier.kind === kind);
+  }
+
+  private unwrapExpression(expression: ts.Expression): ts.Expression {
+    let current = expression;
+    while (ts.isParenthesizedExpression(current) || ts.isAsExpression(current) || ts.isSatisfiesExpression(current)) {
+      current = current.expression;
+    }
+    return current;
+  }
+
+  private getScriptKind(filePath: string): ts.ScriptKind {
+    switch (path.extname(filePath)) {
+      case '.tsx': return ts.ScriptKind.TSX;
+      case '.js': return ts.ScriptKind.JS;
+      case '.jsx': return ts.ScriptKind.JSX;
+      default: return ts.ScriptKind.TS;
+    }
+  }
+
+  /**
+   * Drop undefined optional fields so extracted definitions stay compact when serialized
+   */
+  private compact<T extends object>(value: T): T {
+    for (const key of Object.keys(value) as Array<keyof T>) {
+      if (value[key] === undefined) {
+        delete value[key];
+      }
+    }
+    return value;
+  }
+}
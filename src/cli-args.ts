@@ -0,0 +1,12 @@
+/**
+ * Option parsing shared by the CLI subcommands
+ */
+
+/**
+ * Value of a `--name=value` option
+ */
+export function getOption(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  const arg = args.find(a => a.startsWith(prefix));
+  return arg ? arg.slice(prefix.length) : undefined;
+}
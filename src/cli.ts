@@ -4,16 +4,31 @@
  * Command-line interface for manual triggering of the Auto-Doc-Sync System
  */
 
+import * as path from 'path';
 import { AutoDocSyncSystem } from './orchestrator';
+import { ConfigManager } from './config';
 import { runUsageCLI } from './usage/cli';
+import { runValidateDocsCLI } from './validation/cli';
+import { runRollbackCLI } from './output/cli';
+import { runLogCLI, runLogDigestCLI } from './logging/cli';
 import { installGitHooks, uninstallGitHooks, checkGitHooks } from './hooks/install-git-hooks';
 
+/** Exit code used when `--fail-on-breaking` finds breaking changes that were not announced */
+const EXIT_UNANNOUNCED_BREAKING_CHANGES = 2;
+
 interface CLIOptions {
   trigger: 'git-hook' | 'manual';
   config?: string;
   workspace?: string;
   files?: string[];
   reason?: string;
+  failOnBreaking?: boolean;
+  allowBreaking?: boolean;
+  dryRun?: boolean;
+  patchFile?: string;
+  since?: string;
+  range?: string;
+  noCache?: boolean;
   help?: boolean;
   version?: boolean;
 }
@@ -44,11 +59,30 @@ function parseArguments(): CLIOptions {
       options.workspace = arg.split('=')[1];
     } else if (arg.startsWith('--reason=')) {
       options.reason = arg.split('=')[1];
+    } else if (arg === '--fail-on-breaking') {
+      options.failOnBreaking = true;
+    } else if (arg === '--allow-breaking') {
+      options.allowBreaking = true;
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg.startsWith('--patch=')) {
+      // Writing a patch only makes sense when the changes are not applied
+      options.patchFile = arg.split('=')[1];
+      options.dryRun = true;
+    } else if (arg.startsWith('--since=')) {
+      options.since = arg.split('=')[1];
+    } else if (arg.startsWith('--range=')) {
+      options.range = arg.split('=')[1];
+    } else if (arg === '--no-cache') {
+      options.noCache = true;
     } else if (arg.startsWith('--file=')) {
       if (!options.files) options.files = [];
       options.files.push(arg.split('=')[1]);
     } else if (arg.startsWith('--files=')) {
       options.files = arg.split('=')[1].split(',');
+    } else if (args[0] === 'usage' || args[0] === 'log') {
+      // Usage and log commands parse their own arguments
+      continue;
     } else if (!arg.startsWith('-')) {
       // Treat non-flag arguments as files
       if (!options.files) options.files = [];
@@ -58,6 +92,13 @@ function parseArguments(): CLIOptions {
     }
   }
 
+  if (options.since && options.range) {
+    throw new Error('--since and --range cannot be combined');
+  }
+  if ((options.since || options.range) && options.files) {
+    throw new Error('--since and --range analyze commits and cannot be combined with files');
+  }
+
   return options;
 }
 
@@ -68,7 +109,11 @@ Auto-Doc-Sync System - Autonomous Documentation Synchronization
 USAGE:
   auto-doc-sync [OPTIONS] [FILES...]
   auto-doc-sync usage <command> [args]
+  auto-doc-sync log [FILTERS] [--format=table|json]
+  auto-doc-sync log digest [--period=week|sprint|custom] [--ai]
   auto-doc-sync hooks <command> [args]
+  auto-doc-sync validate-docs [--config=PATH] [--workspace=PATH]
+  auto-doc-sync rollback [SESSION_ID | list]
 
 OPTIONS:
   --trigger=TYPE        Trigger type: 'manual' (default) or 'git-hook'
@@ -77,6 +122,13 @@ OPTIONS:
   --reason=TEXT         Reason for manual trigger (for logging)
   --file=PATH           Specific file to analyze (can be used multiple times)
   --files=PATH1,PATH2   Comma-separated list of files to analyze
+  --fail-on-breaking    Exit with code 2 when unannounced breaking API changes are found
+  --allow-breaking      Treat detected breaking changes as announced
+  --dry-run             Show documentation changes as unified diffs without writing any files
+  --patch=PATH          Like --dry-run, and also save the diffs as a patch for git apply
+  --since=REF           Analyze the commits after REF up to HEAD
+  --range=BASE..HEAD    Analyze the commits in a range
+  --no-cache            Send every AI request to the provider instead of reusing cached responses
   -h, --help           Show this help message
   -v, --version        Show version information
 
@@ -85,12 +137,43 @@ USAGE COMMANDS:
   usage current           Show current session metrics
   usage projections       Show cost projections
   usage recommendations   Show usage optimization recommendations
+  usage alerts [--from=DATE] [--to=DATE]
+                          Show spending against the budgets and the recorded alerts
+  usage export [--format=csv|json] [--from=DATE] [--to=DATE] [--output=PATH]
+                          Export sessions for a period (default: last 30 days, CSV to stdout)
+  usage report --html [--from=DATE] [--to=DATE] [--output=PATH]
+                          Write a self-contained HTML cost dashboard (default: usage-report.html)
+
+LOG COMMANDS:
+  log                     List development log entries, oldest first
+  log --from=DATE --to=DATE --author=NAME --commit=HASH --file=PATH|GLOB
+      --trigger=git-hook|manual --grep=TEXT
+                          Filter entries (all given filters must match)
+  log --limit=N           Show only the N most recent matching entries
+  log --group             Merge related entries of the same session
+  log --format=json       Print the matching entries as JSON instead of a table
+  log digest [--period=week|sprint|custom] [--date=DATE] [--from=DATE --to=DATE] [--ai]
+                          Write a digest of a period to .kiro/development-log/digests/: top
+                          changed components, new features, removals, API churn and AI cost.
+                          week: the 7 days ending on --date (default today); sprint: the sprint
+                          containing --date (logging.sprintStart, logging.sprintLengthDays);
+                          custom: --from to --to. --ai summarizes with AI, else locally
 
 HOOK COMMANDS:
   hooks install [--force]  Install git hooks (.git/hooks/) for automatic doc sync on commits
   hooks uninstall         Uninstall git hooks
   hooks check             Check git hook installation status
 
+VALIDATION COMMANDS:
+  validate-docs           Check .kiro/specs/api.md and README API sections against the
+                          current exported API (no AI calls); exits 1 when docs are stale
+
+ROLLBACK COMMANDS:
+  rollback                Restore the files written by the most recent run
+  rollback SESSION_ID     Restore the files written by a specific run
+  rollback list           List journaled runs and the files they wrote
+                          Rollback is refused when any of the files changed after the run
+
 NOTE: These are git hooks, not Kiro hooks. Kiro hooks are configured via
       .kiro/hooks/*.json and managed through the Kiro IDE.
 
@@ -104,18 +187,43 @@ EXAMPLES:
   # Manual trigger with reason
   auto-doc-sync --reason="Updated API documentation"
 
-  # Git hook trigger (typically called by git hooks)
+  # Git hook trigger (typically called by git hooks); analyzes every commit
+  # since the last successful sync, recorded in .kiro/last-sync.json
   auto-doc-sync --trigger=git-hook
 
+  # Document everything since the last release
+  auto-doc-sync --since=v1.2.0
+  auto-doc-sync --range=v1.2.0..v1.3.0
+
   # Use custom configuration
   auto-doc-sync --config=./my-config.json
 
+  # Block CI on breaking changes unless the commit announces them
+  # (Conventional Commits "BREAKING CHANGE:" footer or "feat!:" subject)
+  auto-doc-sync --trigger=git-hook --fail-on-breaking
+
+  # Preview documentation changes and save them for review
+  auto-doc-sync --dry-run --patch=docs.patch
+  git apply docs.patch
+
   # Show usage summary for last 30 days
   auto-doc-sync usage summary 30
 
   # Show cost projections
   auto-doc-sync usage projections
 
+  # Export March usage for finance and build a cost dashboard
+  auto-doc-sync usage export --format=csv --from=2026-03-01 --to=2026-03-31 --output=usage-march.csv
+  auto-doc-sync usage report --html --from=2026-03-01 --to=2026-03-31
+
+  # What changed in src/api/ last week, and everything Jane committed
+  auto-doc-sync log --file=src/api --from=2026-03-02 --to=2026-03-08
+  auto-doc-sync log --author=jane --format=json
+
+  # Weekly digest with an AI summary, and a digest of the current sprint
+  auto-doc-sync log digest --ai
+  auto-doc-sync log digest --period=sprint
+
   # Install git hooks
   auto-doc-sync hooks install
 
@@ -139,7 +247,9 @@ CONFIGURATION:
     "output": {
       "preserveFormatting": true,
       "backupFiles": true,
-      "validateOutput": true
+      "validateOutput": true,
+      "journalDirectory": ".kiro/journal",
+      "backupRetentionDays": 30
     },
     "subagent": {
       "enabled": true,
@@ -155,6 +265,9 @@ DIRECTORIES:
   The system creates and uses the following directories:
   - .kiro/specs/           - Technical specifications
   - .kiro/development-log/ - Development log entries
+  - .kiro/journal/        - Run journals and backups used by rollback
+  - .kiro/last-sync.json  - Last commit synced by a git-hook or commit range run
+  - .kiro/cache/          - Cached AI responses (safe to delete)
   - .kiro/hooks/          - Hook configurations
   - .kiro/subagents/      - Subagent configurations
 
@@ -186,10 +299,49 @@ async function main(): Promise<void> {
     if (args[0] === 'usage') {
       const command = args[1] || 'summary';
       const commandArgs = args.slice(2);
-      await runUsageCLI(command, commandArgs);
+      const config = ConfigManager.loadConfig(options.config);
+      const workspaceRoot = path.resolve(options.workspace || config.workspaceRoot || process.cwd());
+      await runUsageCLI(command, commandArgs, {
+        ...config.usage,
+        dataDirectory: path.resolve(workspaceRoot, config.usage.dataDirectory)
+      });
       return;
     }
 
+    // Check if this is a development log digest or query
+    if (args[0] === 'log' && args[1] === 'digest') {
+      const config = ConfigManager.loadConfig(options.config);
+      const system = new AutoDocSyncSystem(options.config, options.workspace);
+      const exitCode = await runLogDigestCLI(system, config.logging, args.slice(2));
+      process.exit(exitCode);
+    }
+
+    if (args[0] === 'log') {
+      const config = ConfigManager.loadConfig(options.config);
+      const workspaceRoot = path.resolve(options.workspace || config.workspaceRoot || process.cwd());
+      const exitCode = await runLogCLI({
+        ...config.logging,
+        logDirectory: path.resolve(workspaceRoot, config.logging.logDirectory)
+      }, args.slice(1));
+      process.exit(exitCode);
+    }
+
+    // Check if this is a documentation validation command
+    if (args[0] === 'validate-docs') {
+      const config = ConfigManager.loadConfig(options.config);
+      const workspaceRoot = path.resolve(options.workspace || config.workspaceRoot || process.cwd());
+      const exitCode = await runValidateDocsCLI(workspaceRoot, config.analysis);
+      process.exit(exitCode);
+    }
+
+    // Check if this is a rollback command
+    if (args[0] === 'rollback') {
+      const config = ConfigManager.loadConfig(options.config);
+      const workspaceRoot = path.resolve(options.workspace || config.workspaceRoot || process.cwd());
+      const exitCode = await runRollbackCLI(workspaceRoot, config.output, args.slice(1).filter(arg => !arg.startsWith('-')));
+      process.exit(exitCode);
+    }
+
     // Check if this is a hooks command
     if (args[0] === 'hooks') {
       const command = args[1];
@@ -217,14 +369,28 @@ async function main(): Promise<void> {
     
     const system = new AutoDocSyncSystem(options.config, options.workspace);
     
-    await system.run({
+    const result = await system.run({
       triggerType: options.trigger,
       configPath: options.config,
       targetFiles: options.files,
-      reason: options.reason
+      reason: options.reason,
+      allowBreaking: options.allowBreaking,
+      dryRun: options.dryRun,
+      patchFile: options.patchFile,
+      since: options.since,
+      range: options.range,
+      noCache: options.noCache
     });
 
-    console.log('✅ Auto-Doc-Sync System completed successfully');
+    if (options.failOnBreaking && !result.breakingChangesAnnounced) {
+      console.error(`❌ ${result.breakingChanges.length} unannounced breaking change(s) detected`);
+      console.error('   Announce them with a "BREAKING CHANGE:" commit footer or rerun with --allow-breaking');
+      process.exit(EXIT_UNANNOUNCED_BREAKING_CHANGES);
+    }
+
+    console.log(options.dryRun
+      ? '✅ Dry run completed, no files were changed'
+      : '✅ Auto-Doc-Sync System completed successfully');
   } catch (error) {
     console.error('❌ Auto-Doc-Sync System failed:');
     
@@ -7,6 +7,8 @@ import * as path from 'path';
 import { SystemConfig } from './orchestrator';
 import { DEFAULT_LOG_CONFIG } from './logging';
 import { DEFAULT_USAGE_CONFIG } from './usage';
+import { DEFAULT_JOURNAL_DIRECTORY, DEFAULT_BACKUP_RETENTION_DAYS } from './output/types';
+import { DEFAULT_RESPONSE_CACHE_CONFIG, DEFAULT_REDACTION_CONFIG, RedactionDetector } from './subagent/types';
 
 export interface ConfigValidationResult {
   valid: boolean;
@@ -38,7 +40,7 @@ export class ConfigManager {
       }
     }
 
-    console.log('No configuration file found, using default configuration');
+    console.warn('No configuration file found, using default configuration');
     return defaultConfig;
   }
 
@@ -103,7 +105,9 @@ export class ConfigManager {
       output: {
         preserveFormatting: true,
         backupFiles: true,
-        validateOutput: true
+        validateOutput: true,
+        journalDirectory: DEFAULT_JOURNAL_DIRECTORY,
+        backupRetentionDays: DEFAULT_BACKUP_RETENTION_DAYS
       },
       logging: {
         ...DEFAULT_LOG_CONFIG
@@ -113,7 +117,13 @@ export class ConfigManager {
       },
       subagent: {
         enabled: true,
-        configPath: '.kiro/subagents/doc-analysis-agent.json'
+        configPath: '.kiro/subagents/doc-analysis-agent.json',
+        cache: {
+          ...DEFAULT_RESPONSE_CACHE_CONFIG
+        },
+        redaction: {
+          ...DEFAULT_REDACTION_CONFIG
+        }
       },
       hooks: {
         enabled: true,
@@ -161,6 +171,12 @@ export class ConfigManager {
       if (config.output.validateOutput !== undefined && typeof config.output.validateOutput !== 'boolean') {
         errors.push('output.validateOutput must be a boolean');
       }
+      if (config.output.journalDirectory && typeof config.output.journalDirectory !== 'string') {
+        errors.push('output.journalDirectory must be a string');
+      }
+      if (config.output.backupRetentionDays !== undefined && typeof config.output.backupRetentionDays !== 'number') {
+        errors.push('output.backupRetentionDays must be a number');
+      }
     }
 
     // Validate logging configuration
@@ -168,15 +184,28 @@ export class ConfigManager {
       if (config.logging.logDirectory && typeof config.logging.logDirectory !== 'string') {
         errors.push('logging.logDirectory must be a string');
       }
-      if (config.logging.maxEntriesPerFile && typeof config.logging.maxEntriesPerFile !== 'number') {
-        errors.push('logging.maxEntriesPerFile must be a number');
+      // Both drive file rollover and pruning, where zero or a fraction makes no sense
+      if (config.logging.maxEntriesPerFile !== undefined && !(Number.isInteger(config.logging.maxEntriesPerFile) && config.logging.maxEntriesPerFile > 0)) {
+        errors.push('logging.maxEntriesPerFile must be a positive integer');
       }
-      if (config.logging.retentionDays && typeof config.logging.retentionDays !== 'number') {
-        errors.push('logging.retentionDays must be a number');
+      if (config.logging.retentionDays !== undefined && !(Number.isInteger(config.logging.retentionDays) && config.logging.retentionDays > 0)) {
+        errors.push('logging.retentionDays must be a positive integer');
       }
       if (config.logging.groupingTimeWindow && typeof config.logging.groupingTimeWindow !== 'number') {
         errors.push('logging.groupingTimeWindow must be a number');
       }
+      if (config.logging.sprintLengthDays !== undefined && !(Number.isInteger(config.logging.sprintLengthDays) && config.logging.sprintLengthDays > 0)) {
+        errors.push('logging.sprintLengthDays must be a positive integer');
+      }
+      if (config.logging.sprintStart !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(config.logging.sprintStart)) {
+        errors.push('logging.sprintStart must be a date (YYYY-MM-DD)');
+      }
+      if (config.logging.specsDirectory !== undefined && typeof config.logging.specsDirectory !== 'string') {
+        errors.push('logging.specsDirectory must be a string');
+      }
+      if (config.logging.tickSpecTasks !== undefined && typeof config.logging.tickSpecTasks !== 'boolean') {
+        errors.push('logging.tickSpecTasks must be a boolean');
+      }
     }
 
     // Validate usage configuration
@@ -202,6 +231,29 @@ export class ConfigManager {
       if (config.usage.retentionDays && typeof config.usage.retentionDays !== 'number') {
         errors.push('usage.retentionDays must be a number');
       }
+      if (config.usage.dailyBudget !== undefined && typeof config.usage.dailyBudget !== 'number') {
+        errors.push('usage.dailyBudget must be a number');
+      }
+      if (config.usage.weeklyBudget !== undefined && typeof config.usage.weeklyBudget !== 'number') {
+        errors.push('usage.weeklyBudget must be a number');
+      }
+      if (config.usage.monthlyBudget !== undefined && typeof config.usage.monthlyBudget !== 'number') {
+        errors.push('usage.monthlyBudget must be a number');
+      }
+      if (config.usage.budgetAction && !['local-only', 'refuse'].includes(config.usage.budgetAction)) {
+        errors.push('usage.budgetAction must be "local-only" or "refuse"');
+      }
+      if (config.usage.modelPricing !== undefined) {
+        if (typeof config.usage.modelPricing !== 'object' || config.usage.modelPricing === null) {
+          errors.push('usage.modelPricing must be an object keyed by model name');
+        } else {
+          for (const [model, pricing] of Object.entries<any>(config.usage.modelPricing)) {
+            if (typeof pricing?.inputPer1K !== 'number' || typeof pricing?.outputPer1K !== 'number') {
+              errors.push(`usage.modelPricing.${model} must have numeric inputPer1K and outputPer1K`);
+            }
+          }
+        }
+      }
     }
 
     // Validate subagent configuration
@@ -215,6 +267,24 @@ export class ConfigManager {
       if (config.subagent.enabled && config.subagent.configPath && !fs.existsSync(config.subagent.configPath)) {
         warnings.push(`subagent.configPath file does not exist: ${config.subagent.configPath}`);
       }
+      if (config.subagent.cache) {
+        const cache = config.subagent.cache;
+        if (cache.enabled !== undefined && typeof cache.enabled !== 'boolean') {
+          errors.push('subagent.cache.enabled must be a boolean');
+        }
+        if (cache.directory && typeof cache.directory !== 'string') {
+          errors.push('subagent.cache.directory must be a string');
+        }
+        if (cache.ttlHours !== undefined && (typeof cache.ttlHours !== 'number' || cache.ttlHours <= 0)) {
+          errors.push('subagent.cache.ttlHours must be a positive number');
+        }
+        if (cache.maxSizeMB !== undefined && (typeof cache.maxSizeMB !== 'number' || cache.maxSizeMB <= 0)) {
+          errors.push('subagent.cache.maxSizeMB must be a positive number');
+        }
+      }
+      if (config.subagent.redaction) {
+        errors.push(...ConfigManager.validateRedactionConfig(config.subagent.redaction));
+      }
     }
 
     // Validate hooks configuration
@@ -234,6 +304,56 @@ export class ConfigManager {
     };
   }
 
+  /**
+   * Validate the subagent redaction settings, including that custom patterns compile
+   */
+  private static validateRedactionConfig(redaction: any): string[] {
+    const errors: string[] = [];
+    const knownDetectors = DEFAULT_REDACTION_CONFIG.detectors as string[];
+
+    if (redaction.enabled !== undefined && typeof redaction.enabled !== 'boolean') {
+      errors.push('subagent.redaction.enabled must be a boolean');
+    }
+    if (redaction.detectors !== undefined) {
+      if (!Array.isArray(redaction.detectors)) {
+        errors.push('subagent.redaction.detectors must be an array');
+      } else {
+        const unknown = redaction.detectors.filter((detector: RedactionDetector) => !knownDetectors.includes(detector));
+        if (unknown.length > 0) {
+          errors.push(`subagent.redaction.detectors contains unknown detectors: ${unknown.join(', ')} (known: ${knownDetectors.join(', ')})`);
+        }
+      }
+    }
+    if (redaction.patterns !== undefined) {
+      if (!Array.isArray(redaction.patterns)) {
+        errors.push('subagent.redaction.patterns must be an array');
+      } else {
+        redaction.patterns.forEach((pattern: any, index: number) => {
+          if (typeof pattern?.name !== 'string' || typeof pattern?.pattern !== 'string') {
+            errors.push(`subagent.redaction.patterns[${index}] must have a string name and pattern`);
+            return;
+          }
+          try {
+            new RegExp(pattern.pattern, pattern.flags);
+          } catch (error) {
+            errors.push(`subagent.redaction.patterns[${index}] is not a valid regular expression: ${error instanceof Error ? error.message : error}`);
+          }
+        });
+      }
+    }
+    if (redaction.denyPaths !== undefined && (!Array.isArray(redaction.denyPaths) || redaction.denyPaths.some((glob: unknown) => typeof glob !== 'string'))) {
+      errors.push('subagent.redaction.denyPaths must be an array of strings');
+    }
+    if (redaction.entropyThreshold !== undefined && (typeof redaction.entropyThreshold !== 'number' || redaction.entropyThreshold <= 0)) {
+      errors.push('subagent.redaction.entropyThreshold must be a positive number');
+    }
+    if (redaction.auditLog !== undefined && typeof redaction.auditLog !== 'string') {
+      errors.push('subagent.redaction.auditLog must be a string');
+    }
+
+    return errors;
+  }
+
   /**
    * Merge user configuration with defaults
    */
@@ -258,7 +378,15 @@ export class ConfigManager {
       },
       subagent: {
         ...defaultConfig.subagent,
-        ...userConfig.subagent
+        ...userConfig.subagent,
+        cache: {
+          ...defaultConfig.subagent.cache,
+          ...userConfig.subagent?.cache
+        },
+        redaction: {
+          ...defaultConfig.subagent.redaction,
+          ...userConfig.subagent?.redaction
+        }
       },
       hooks: {
         ...defaultConfig.hooks,
@@ -0,0 +1,7 @@
+/**
+ * Git integration - commit ranges and the last-synced-commit marker
+ */
+
+export * from './types';
+export * from './range';
+export * from './sync-marker';
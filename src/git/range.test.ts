@@ -0,0 +1,153 @@
+/**
+ * Tests for commit range resolution and the sync marker
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  parseRangeSpec,
+  resolveCommitRange,
+  getRangeDiff,
+  getCommitMessages,
+  getRangeCommits,
+  getCurrentBranch,
+  SyncMarkerStore,
+  EMPTY_TREE_HASH
+} from './index';
+
+describe('commit ranges', () => {
+  let repo: string;
+
+  const git = (...args: string[]) => execFileSync('git', args, {
+    cwd: repo,
+    encoding: 'utf-8',
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'Test',
+      GIT_AUTHOR_EMAIL: 'test@example.com',
+      GIT_COMMITTER_NAME: 'Test',
+      GIT_COMMITTER_EMAIL: 'test@example.com'
+    }
+  }).trim();
+
+  const commit = async (file: string, content: string, message: string): Promise<string> => {
+    await fs.writeFile(path.join(repo, file), content);
+    git('add', file);
+    git('commit', '-q', '-m', message);
+    return git('rev-parse', 'HEAD');
+  };
+
+  beforeEach(async () => {
+    repo = await fs.mkdtemp(path.join(os.tmpdir(), 'commit-range-'));
+    git('init', '-q', '-b', 'main');
+  });
+
+  afterEach(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('should parse range specs', () => {
+    expect(parseRangeSpec('v1.0.0..v1.1.0')).toEqual({ base: 'v1.0.0', head: 'v1.1.0' });
+    expect(parseRangeSpec('main..')).toEqual({ base: 'main', head: 'HEAD' });
+    expect(() => parseRangeSpec('main')).toThrow('expected <base>..<head>');
+    expect(() => parseRangeSpec('..main')).toThrow('expected <base>..<head>');
+    expect(() => parseRangeSpec('a...b')).toThrow('symmetric ranges are not supported');
+  });
+
+  it('should compare the first commit with the empty tree', async () => {
+    const first = await commit('a.ts', 'export const a = 1;\n', 'feat: add a');
+
+    const range = await resolveCommitRange(repo);
+
+    expect(range).toEqual({ base: EMPTY_TREE_HASH, head: first, source: 'root' });
+    expect(await getRangeDiff(repo, range)).toContain('+export const a = 1;');
+    expect(await getCommitMessages(repo, range)).toEqual(['feat: add a']);
+  });
+
+  it('should catch up from the last synced commit', async () => {
+    const synced = await commit('a.ts', 'export const a = 1;\n', 'feat: add a');
+    await commit('b.ts', 'export const b = 2;\n', 'feat: add b');
+    const head = await commit('c.ts', 'export const c = 3;\n', 'feat!: add c\n\nBREAKING CHANGE: c replaces a');
+
+    const range = await resolveCommitRange(repo, { lastSyncedCommit: synced });
+    const diff = await getRangeDiff(repo, range);
+
+    expect(range).toEqual({ base: synced, head, source: 'last-sync' });
+    expect(diff).toContain('b/b.ts');
+    expect(diff).toContain('b/c.ts');
+    expect(diff).not.toContain('b/a.ts');
+    expect(await getCommitMessages(repo, range)).toEqual(['feat!: add c\n\nBREAKING CHANGE: c replaces a', 'feat: add b']);
+  });
+
+  it('should fall back to the parent when the marker left the history of HEAD', async () => {
+    const base = await commit('a.ts', 'export const a = 1;\n', 'feat: add a');
+    const abandoned = await commit('b.ts', 'export const b = 2;\n', 'feat: add b');
+    git('reset', '-q', '--hard', base);
+    const head = await commit('c.ts', 'export const c = 3;\n', 'feat: add c');
+
+    expect(await resolveCommitRange(repo, { lastSyncedCommit: abandoned })).toEqual({ base, head, source: 'parent' });
+  });
+
+  it('should compare a merge commit with the branch it was merged into', async () => {
+    await commit('a.ts', 'export const a = 1;\n', 'feat: add a');
+    git('checkout', '-q', '-b', 'feature');
+    await commit('b.ts', 'export const b = 2;\n', 'feat: add b');
+    git('checkout', '-q', 'main');
+    const mainline = await commit('c.ts', 'export const c = 3;\n', 'feat: add c');
+    git('merge', '-q', '--no-ff', '-m', 'Merge feature', 'feature');
+
+    const range = await resolveCommitRange(repo);
+    const diff = await getRangeDiff(repo, range);
+
+    expect(range.base).toBe(mainline);
+    expect(diff).toContain('b/b.ts');
+    expect(diff).not.toContain('b/c.ts');
+  });
+
+  it('should resolve explicit ranges and since refs', async () => {
+    const first = await commit('a.ts', 'export const a = 1;\n', 'feat: add a');
+    const second = await commit('b.ts', 'export const b = 2;\n', 'feat: add b');
+    git('tag', 'v1');
+    const third = await commit('c.ts', 'export const c = 3;\n', 'feat: add c');
+
+    expect(await resolveCommitRange(repo, { range: `${first}..v1` })).toEqual({ base: first, head: second, source: 'range' });
+    expect(await resolveCommitRange(repo, { since: 'v1' })).toEqual({ base: second, head: third, source: 'since' });
+    await expect(resolveCommitRange(repo, { since: 'no-such-ref' })).rejects.toThrow('Unknown git revision: no-such-ref');
+    await expect(resolveCommitRange(repo, { since: 'v1', range: 'v1..' })).rejects.toThrow('not both');
+  });
+
+  it('should list the authors and committers of a range', async () => {
+    const base = await commit('a.ts', 'export const a = 1;\n', 'feat: add a');
+    await fs.writeFile(path.join(repo, 'b.ts'), 'export const b = 2;\n');
+    git('add', 'b.ts');
+    git('commit', '-q', '-m', 'feat: add b', '--author=Sam Lee <sam@example.com>');
+    const head = await commit('c.ts', 'export const c = 3;\n', 'feat: add c');
+
+    const commits = await getRangeCommits(repo, { base, head, source: 'range' });
+
+    expect(commits.map(c => [c.authorName, c.authorEmail, c.committerName])).toEqual([
+      ['Test', 'test@example.com', 'Test'],
+      ['Sam Lee', 'sam@example.com', 'Test']
+    ]);
+    expect(commits[0].hash).toBe(head);
+    expect(await getCurrentBranch(repo)).toBe('main');
+    git('checkout', '-q', '--detach', base);
+    expect(await getCurrentBranch(repo)).toBeUndefined();
+  });
+
+  it('should persist the last synced commit', async () => {
+    const store = new SyncMarkerStore(repo);
+    expect(await store.read()).toBeUndefined();
+
+    const marker = { commit: 'a'.repeat(40), syncedAt: '2026-01-01T00:00:00.000Z', sessionId: 'session-1' };
+    await store.write(marker);
+    expect(await store.read()).toEqual(marker);
+
+    await fs.writeFile(path.join(repo, '.kiro/last-sync.json'), '{ "commit": "HEAD" }');
+    expect(await store.read()).toBeUndefined();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Resolution of the commit range a run analyzes, and the git queries made over it
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { CommitInfo, CommitRange, CommitRangeOptions, EMPTY_TREE_HASH } from './types';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Run git in the workspace and return its stdout
+ */
+export async function runGit(workspaceRoot: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd: workspaceRoot,
+    maxBuffer: 50 * 1024 * 1024
+  });
+  return stdout;
+}
+
+/**
+ * Split `<base>..<head>` into its refs. An empty head means HEAD, as in git.
+ */
+export function parseRangeSpec(spec: string): { base: string; head: string } {
+  if (spec.includes('...')) {
+    throw new Error(`Invalid range "${spec}": symmetric ranges are not supported, use <base>..<head>`);
+  }
+
+  const separator = spec.indexOf('..');
+  const base = separator === -1 ? '' : spec.slice(0, separator).trim();
+  if (!base) {
+    throw new Error(`Invalid range "${spec}": expected <base>..<head>`);
+  }
+
+  return { base, head: spec.slice(separator + 2).trim() || 'HEAD' };
+}
+
+/**
+ * Resolve a ref to a full commit hash
+ */
+export async function resolveCommit(workspaceRoot: string, ref: string): Promise<string> {
+  try {
+    return (await runGit(workspaceRoot, ['rev-parse', '--verify', '--quiet', '--end-of-options', `${ref}^{commit}`])).trim();
+  } catch {
+    throw new Error(`Unknown git revision: ${ref}`);
+  }
+}
+
+/**
+ * Whether `ancestor` is reachable from `descendant` (a commit is its own ancestor).
+ * The empty tree counts as an ancestor of every commit.
+ */
+export async function isAncestor(workspaceRoot: string, ancestor: string, descendant: string): Promise<boolean> {
+  if (ancestor === EMPTY_TREE_HASH) {
+    return true;
+  }
+
+  try {
+    await runGit(workspaceRoot, ['merge-base', '--is-ancestor', ancestor, descendant]);
+    return true;
+  } catch {
+    // Exit code 1 means "not an ancestor"; anything else (e.g. an unknown commit) is treated the same
+    return false;
+  }
+}
+
+/**
+ * Work out which commits a run covers:
+ * - `range` and `since` are used as given
+ * - otherwise the range starts at the last synced commit, as long as it is still part of HEAD's history
+ * - otherwise HEAD is compared with its first parent, which for a merge commit is the branch merged into
+ * - the first commit of a repository is compared with the empty tree
+ */
+export async function resolveCommitRange(workspaceRoot: string, options: CommitRangeOptions = {}): Promise<CommitRange> {
+  if (options.since && options.range) {
+    throw new Error('Use either a since ref or a commit range, not both');
+  }
+
+  if (options.range) {
+    const { base, head } = parseRangeSpec(options.range);
+    return {
+      base: await resolveCommit(workspaceRoot, base),
+      head: await resolveCommit(workspaceRoot, head),
+      source: 'range'
+    };
+  }
+
+  const head = await resolveCommit(workspaceRoot, 'HEAD');
+
+  if (options.since) {
+    return { base: await resolveCommit(workspaceRoot, options.since), head, source: 'since' };
+  }
+
+  if (options.lastSyncedCommit) {
+    if (await isAncestor(workspaceRoot, options.lastSyncedCommit, head)) {
+      return { base: options.lastSyncedCommit, head, source: 'last-sync' };
+    }
+    console.warn(`Last synced commit ${options.lastSyncedCommit.substring(0, 12)} is not in the history of HEAD (rebased or reset?); analyzing the latest commit only`);
+  }
+
+  try {
+    return { base: await resolveCommit(workspaceRoot, `${head}^1`), head, source: 'parent' };
+  } catch {
+    return { base: EMPTY_TREE_HASH, head, source: 'root' };
+  }
+}
+
+/**
+ * Combined diff of every change in the range
+ */
+export async function getRangeDiff(workspaceRoot: string, range: CommitRange): Promise<string> {
+  if (range.base === EMPTY_TREE_HASH) {
+    // The empty tree is not stored in the repository, so diff the root commit against nothing instead
+    return runGit(workspaceRoot, ['diff-tree', '-p', '-r', '--root', '--no-color', '--no-commit-id', range.head]);
+  }
+  return runGit(workspaceRoot, ['diff', '--no-color', range.base, range.head]);
+}
+
+/**
+ * Full messages of the commits in the range, newest first
+ */
+export async function getCommitMessages(workspaceRoot: string, range: CommitRange): Promise<string[]> {
+  const revisions = range.base === EMPTY_TREE_HASH ? [range.head] : [`${range.base}..${range.head}`];
+  const output = await runGit(workspaceRoot, ['log', '--format=%B%x00', ...revisions]);
+  return output.split('\0').map(message => message.trim()).filter(message => message.length > 0);
+}
+
+/**
+ * Authors and committers of the commits in the range, newest first
+ */
+export async function getRangeCommits(workspaceRoot: string, range: CommitRange): Promise<CommitInfo[]> {
+  const revisions = range.base === EMPTY_TREE_HASH ? [range.head] : [`${range.base}..${range.head}`];
+  const output = await runGit(workspaceRoot, ['log', '--format=%H%x1f%an%x1f%ae%x1f%cn%x1f%ce%x1f%aI%x00', ...revisions]);
+  return output.split('\0').map(record => record.trim()).filter(record => record.length > 0).map(record => {
+    const [hash, authorName, authorEmail, committerName, committerEmail, authoredAt] = record.split('\x1f');
+    return { hash, authorName, authorEmail, committerName, committerEmail, authoredAt };
+  });
+}
+
+/**
+ * Name of the checked-out branch; undefined when HEAD is detached or there is no repository
+ */
+export async function getCurrentBranch(workspaceRoot: string): Promise<string | undefined> {
+  try {
+    return (await runGit(workspaceRoot, ['symbolic-ref', '--quiet', '--short', 'HEAD'])).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Abbreviated `<base>..<head>` for log output
+ */
+export function formatCommitRange(range: Pick<CommitRange, 'base' | 'head'>): string {
+  const base = range.base === EMPTY_TREE_HASH ? '(root)' : range.base.substring(0, 12);
+  return `${base}..${range.head.substring(0, 12)}`;
+}
@@ -0,0 +1,43 @@
+/**
+ * Persisted marker of the last commit whose changes were synced into the documentation,
+ * so git-hook runs catch up on commits made while the hook was skipped
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SyncMarker, DEFAULT_SYNC_MARKER_PATH } from './types';
+
+export class SyncMarkerStore {
+  private readonly markerPath: string;
+
+  constructor(workspaceRoot: string, markerPath: string = DEFAULT_SYNC_MARKER_PATH) {
+    this.markerPath = path.resolve(workspaceRoot, markerPath);
+  }
+
+  async read(): Promise<SyncMarker | undefined> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.markerPath, 'utf-8');
+    } catch {
+      return undefined;
+    }
+
+    try {
+      const marker = JSON.parse(raw);
+      if (typeof marker.commit === 'string' && /^[0-9a-f]{40,64}$/.test(marker.commit)) {
+        return marker;
+      }
+    } catch {
+      // Fall through to the warning below
+    }
+    console.warn(`Ignoring unreadable sync marker ${this.markerPath}`);
+    return undefined;
+  }
+
+  async write(marker: SyncMarker): Promise<void> {
+    const tempPath = `${this.markerPath}.tmp`;
+    await fs.mkdir(path.dirname(this.markerPath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(marker, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.markerPath);
+  }
+}
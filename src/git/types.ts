@@ -0,0 +1,46 @@
+/**
+ * Git-specific types
+ */
+
+/** Object name of git's empty tree, used as the base when a range starts at the first commit */
+export const EMPTY_TREE_HASH = '4b825dc642cb6eb9a060e54bd8e69287fc3ce4e0';
+
+export const DEFAULT_SYNC_MARKER_PATH = '.kiro/last-sync.json';
+
+export interface CommitRangeOptions {
+  /** Analyze every commit after this ref up to HEAD */
+  since?: string;
+  /** Analyze an explicit `<base>..<head>` range */
+  range?: string;
+  /** Commit of the last successful sync; used when neither `since` nor `range` is given */
+  lastSyncedCommit?: string;
+}
+
+export interface CommitRange {
+  /** Resolved base commit, or EMPTY_TREE_HASH when the range starts at the first commit */
+  base: string;
+  /** Resolved head commit */
+  head: string;
+  /** What the base was derived from, for logging */
+  source: 'range' | 'since' | 'last-sync' | 'parent' | 'root';
+}
+
+/**
+ * Who wrote and who committed a commit
+ */
+export interface CommitInfo {
+  hash: string;
+  authorName: string;
+  authorEmail: string;
+  committerName: string;
+  committerEmail: string;
+  /** Author date, ISO 8601 */
+  authoredAt: string;
+}
+
+export interface SyncMarker {
+  /** Last commit whose changes were synced into the documentation */
+  commit: string;
+  syncedAt: string;
+  sessionId?: string;
+}
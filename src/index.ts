@@ -9,6 +9,8 @@ export * from './output';
 export * from './hooks';
 export * from './logging';
 export * from './subagent';
+export * from './validation';
+export * from './git';
 
 import { AutoDocSyncSystem } from './orchestrator';
 
@@ -11,12 +11,18 @@
  * Requirements: 1.1, 1.2, 5.1
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { spawn } from 'child_process';
 import { AutoDocSyncSystem } from './orchestrator';
 import { ConfigManager } from './config';
+import { SubagentIntegration } from './subagent/integration';
+import { SubagentClient } from './subagent/client';
+import { OfflineProvider } from './subagent/providers';
+import { CassetteMismatchError } from './templates/errors';
+import { parseDigestOptions } from './logging/cli';
+import { DEFAULT_LOG_CONFIG } from './logging';
 
 describe('Auto-Doc-Sync System Integration Tests', () => {
   const testWorkspace = path.join(process.cwd(), 'test-workspace');
@@ -400,6 +406,185 @@ export function processData(input: string): string {
     }, 15000);
   });
 
+  describe('Commit Ranges', () => {
+    it('should analyze the head of the range, not the working tree', async () => {
+      const apiFile = path.join(testWorkspace, 'src', 'api.ts');
+      await fs.mkdir(path.dirname(apiFile), { recursive: true });
+      await fs.writeFile(apiFile, 'export function stable(a: string): void {}\nexport function legacy(): void {}\n');
+      await execCommand('git add -A');
+      await execCommand('git commit -q -m base');
+      const base = (await execCommand('git rev-parse HEAD')).trim();
+
+      await fs.writeFile(apiFile, 'export function stable(a: string): void {}\nexport function fresh(): void {}\n');
+      await execCommand('git commit -q -a -m head');
+      const head = (await execCommand('git rev-parse HEAD')).trim();
+
+      // Uncommitted edits that would otherwise show up as a breaking change to stable
+      await fs.writeFile(apiFile, 'export function stable(a: number): void {}\n');
+
+      // Shallow analysis reads only the diff; deep analysis reads the whole post-change file
+      const configFile = path.join(testKiroDir, 'auto-doc-sync.json');
+      const config = JSON.parse(await fs.readFile(configFile, 'utf-8'));
+      await fs.writeFile(configFile, JSON.stringify({ ...config, analysis: { ...config.analysis, analysisDepth: 'deep' } }));
+
+      const system = new AutoDocSyncSystem(configFile, testWorkspace);
+      await system.initialize();
+      const result = await system.run({ triggerType: 'manual', range: `${base}..${head}`, dryRun: true });
+
+      expect(result.breakingChanges.map(change => `${change.reason}:${change.symbol}`)).toEqual(['export-removed:legacy']);
+      expect(result.semverRecommendation).toBe('major');
+    }, 30000);
+
+    it('should read the range in the workspace, not the current directory, when the subagent analyzes it', async () => {
+      const apiFile = path.join(testWorkspace, 'src', 'api.ts');
+      await fs.mkdir(path.dirname(apiFile), { recursive: true });
+      await fs.writeFile(apiFile, 'export function stable(a: string): void {}\nexport function legacy(): void {}\n');
+      await execCommand('git add -A');
+      await execCommand('git commit -q -m base');
+      const base = (await execCommand('git rev-parse HEAD')).trim();
+
+      await fs.writeFile(apiFile, 'export function stable(a: string): void {}\n');
+      await execCommand('git commit -q -a -m head');
+      const head = (await execCommand('git rev-parse HEAD')).trim();
+
+      const configFile = path.join(testKiroDir, 'auto-doc-sync.json');
+      const config = JSON.parse(await fs.readFile(configFile, 'utf-8'));
+      await fs.writeFile(configFile, JSON.stringify({ ...config, analysis: { ...config.analysis, analysisDepth: 'deep' } }));
+      await enableOfflineSubagent(configFile);
+
+      // The test workspace lies inside this repository, whose history has neither commit
+      const system = new AutoDocSyncSystem(configFile, testWorkspace);
+      await system.initialize();
+      const result = await system.run({ triggerType: 'manual', range: `${base}..${head}`, dryRun: true });
+
+      expect(result.breakingChanges.map(change => `${change.reason}:${change.symbol}`)).toEqual(['export-removed:legacy']);
+    }, 30000);
+  });
+
+  describe('Dry Runs', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should print the AI cost estimate and preview the documentation from local analysis without sending any request', async () => {
+      const apiFile = path.join(testWorkspace, 'src', 'api.ts');
+      await fs.mkdir(path.dirname(apiFile), { recursive: true });
+      await fs.writeFile(apiFile, 'export function greet(name: string): string {\n  return name;\n}\n');
+
+      const configFile = path.join(testKiroDir, 'auto-doc-sync.json');
+      await enableOfflineSubagent(configFile);
+
+      const complete = vi.spyOn(OfflineProvider.prototype, 'complete');
+      const log = vi.spyOn(console, 'log');
+
+      const system = new AutoDocSyncSystem(configFile, testWorkspace);
+      await system.initialize();
+      const result = await system.run({ triggerType: 'manual', targetFiles: [apiFile], dryRun: true });
+
+      expect(log).toHaveBeenCalledWith(expect.stringMatching(/^💰 Dry run: the AI requests would cost \$\d+\.\d{4} at most/));
+      expect(complete).not.toHaveBeenCalled();
+      // The rest of the pipeline still runs, on local analysis, up to the diff preview
+      expect(result.documentationPreviews?.map(preview => path.basename(preview.filePath))).toContain('api.md');
+    }, 30000);
+  });
+
+  describe('Log Digests', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    async function runLoggedSystem(): Promise<AutoDocSyncSystem> {
+      const apiFile = path.join(testWorkspace, 'src', 'api.ts');
+      await fs.mkdir(path.dirname(apiFile), { recursive: true });
+      await fs.writeFile(apiFile, 'export function greet(name: string): string {\n  return name;\n}\n');
+
+      const configFile = path.join(testKiroDir, 'auto-doc-sync.json');
+      await enableOfflineSubagent(configFile);
+
+      const system = new AutoDocSyncSystem(configFile, testWorkspace);
+      await system.initialize();
+      await system.run({ triggerType: 'manual', targetFiles: [apiFile] });
+
+      // Prompt files are read relative to the working directory; these runs have none
+      vi.spyOn(SubagentClient.prototype as any, 'loadPromptFile').mockRejectedValue(new Error('ENOENT: no such file or directory'));
+      return system;
+    }
+
+    it('should fall back to the local summary when the provider is unavailable and there is no prompt file', async () => {
+      const system = await runLoggedSystem();
+      vi.spyOn(OfflineProvider.prototype, 'unavailableReason').mockReturnValue('No API key found in OFFLINE_API_KEY');
+      const complete = vi.spyOn(OfflineProvider.prototype, 'complete');
+
+      const result = await system.generateLogDigest(parseDigestOptions(DEFAULT_LOG_CONFIG, ['--ai']));
+
+      expect(result.digest.entryCount).toBeGreaterThan(0);
+      expect(result.summarySource).toBe('local');
+      expect(complete).not.toHaveBeenCalled();
+    }, 30000);
+
+    it('should summarize with the config prompt when there is no prompt file', async () => {
+      const system = await runLoggedSystem();
+      const complete = vi.spyOn(OfflineProvider.prototype, 'complete');
+
+      const result = await system.generateLogDigest(parseDigestOptions(DEFAULT_LOG_CONFIG, ['--ai']));
+
+      expect(result.summarySource).toBe('ai');
+      expect(complete).toHaveBeenCalledWith(expect.objectContaining({
+        schemaName: 'LogDigestSummary',
+        prompt: expect.stringMatching(/^Summarize the following digest of development log entries/)
+      }));
+    }, 30000);
+  });
+
+  describe('README Generation', () => {
+    const readmeFile = path.join(testWorkspace, 'README.md');
+    const sourceFile = path.join(testWorkspace, 'src', 'users.ts');
+
+    beforeEach(async () => {
+      await fs.mkdir(path.dirname(sourceFile), { recursive: true });
+      await fs.writeFile(sourceFile, 'export function findUser(id: string): string | undefined {\n  return undefined;\n}\n');
+      await enableOfflineSubagent(path.join(testKiroDir, 'auto-doc-sync.json'));
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const runSystem = async () => {
+      const system = new AutoDocSyncSystem(path.join(testKiroDir, 'auto-doc-sync.json'), testWorkspace);
+      await system.initialize();
+      await system.run({ triggerType: 'manual', targetFiles: [sourceFile] });
+    };
+
+    it('should update only the Features & API section of a README it did not create, without asking the AI', async () => {
+      const generateReadme = vi.spyOn(SubagentIntegration.prototype, 'generateReadme');
+
+      await runSystem();
+
+      const readme = await fs.readFile(readmeFile, 'utf-8');
+      expect(readme).toMatch(/^# Test Project\n\nThis is a test project for integration testing\.\n\n## Features & API\n\n<!-- auto-doc-sync:begin id=features-api /);
+      expect(readme).toContain('findUser');
+      expect(generateReadme).not.toHaveBeenCalled();
+    }, 30000);
+
+    it('should generate a new README inside its managed region and regenerate only that region', async () => {
+      await fs.rm(readmeFile);
+      const generateReadme = vi.spyOn(SubagentIntegration.prototype, 'generateReadme').mockResolvedValue('# Users\n\nFinds users.');
+
+      await runSystem();
+      expect(await fs.readFile(readmeFile, 'utf-8')).toMatch(/^<!-- auto-doc-sync:begin id=readme hash=\w+ -->\n# Users\n\nFinds users\.\n<!-- auto-doc-sync:end id=readme -->\n$/);
+
+      await fs.appendFile(readmeFile, '\n## Notes\n\nWritten by hand.\n');
+      await runSystem();
+
+      const readme = await fs.readFile(readmeFile, 'utf-8');
+      expect(readme).toMatch(/<!-- auto-doc-sync:end id=readme -->\n\n## Notes\n\nWritten by hand\.\n$/);
+      expect(generateReadme).toHaveBeenCalledTimes(2);
+      expect(generateReadme.mock.calls[1][1]).toContain('Finds users.');
+      expect(generateReadme.mock.calls[1][1]).not.toContain('Written by hand');
+    }, 30000);
+  });
+
   /**
    * Test documentation format validation
    * Requirements: 1.1, 1.2
@@ -929,6 +1114,21 @@ Features will be documented here.
     }, null, 2));
   }
 
+  /**
+   * Enable the subagent in a workspace config, on the offline provider so no request leaves the machine
+   */
+  async function enableOfflineSubagent(configFile: string): Promise<void> {
+    const agentConfig = JSON.parse(await fs.readFile(path.join(process.cwd(), '.kiro', 'subagents', 'doc-analysis-agent.json'), 'utf-8'));
+    agentConfig.configuration.provider = 'offline';
+    await fs.writeFile(path.join(testSubagentsDir, 'doc-analysis-agent.json'), JSON.stringify(agentConfig));
+
+    const config = JSON.parse(await fs.readFile(configFile, 'utf-8'));
+    await fs.writeFile(configFile, JSON.stringify({
+      ...config,
+      subagent: { enabled: true, configPath: '.kiro/subagents/doc-analysis-agent.json' }
+    }));
+  }
+
   async function fileExists(filePath: string): Promise<boolean> {
     try {
       await fs.access(filePath);
@@ -970,4 +1170,85 @@ Features will be documented here.
       });
     });
   }
-});
\ No newline at end of file
+});
+
+/**
+ * The AI pipeline against a recorded cassette of provider calls. Replays offline by default; run with
+ * SUBAGENT_CASSETTE_MODE=record and a provider API key to re-record after changing prompts or schemas.
+ */
+describe('Subagent Enhanced Analysis (recorded)', () => {
+  const cassettePath = path.join(__dirname, '__fixtures__', 'cassettes', 'enhanced-analysis.json');
+  const cassetteMode = process.env.SUBAGENT_CASSETTE_MODE === 'record' ? 'record' : 'replay';
+
+  const diff = (functionName: string) => `diff --git a/src/users.ts b/src/users.ts
+new file mode 100644
+index 0000000..3b18e51
+--- /dev/null
++++ b/src/users.ts
+@@ -0,0 +1,16 @@
++export interface User {
++  id: string;
++  name: string;
++}
++
++export class UserStore {
++  private users = new Map<string, User>();
++
++  add(user: User): void {
++    this.users.set(user.id, user);
++  }
++}
++
++export function ${functionName}(store: UserStore, id: string): User | undefined {
++  return undefined;
++}
+`;
+
+  const createIntegration = () => new SubagentIntegration(
+    { includePatterns: ['**/*.ts'], excludePatterns: [], maxFileSize: 1048576, analysisDepth: 'shallow' },
+    '.kiro/subagents/doc-analysis-agent.json',
+    process.cwd(),
+    undefined,
+    undefined,
+    { path: cassettePath, mode: cassetteMode }
+  );
+
+  beforeEach(() => {
+    // Analysis timestamps are part of the prompts
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should merge verified AI analysis and classification into the local analysis', async () => {
+    const integration = createIntegration();
+    const analysis = await integration.performEnhancedAnalysis([diff('findUser')]);
+
+    const apis = new Map(analysis.extractedAPIs.map(api => [api.name, api]));
+    expect(apis.get('findUser')).toMatchObject({ method: 'function', returnType: 'User | undefined', description: 'Finds a user in the store by id' });
+    expect(apis.get('UserStore')).toMatchObject({ method: 'class', description: 'In-memory store of users keyed by id' });
+    expect(apis.has('deleteUser')).toBe(false);
+
+    expect(analysis.aiFidelity).toMatchObject({ droppedSymbols: 1, issues: [{ symbol: 'deleteUser', reason: 'unknown-symbol' }] });
+    expect(analysis.extractedTypes?.find(type => type.name === 'User')?.description).toBe('A registered user');
+    expect(analysis.newFeatures.map(feature => feature.name)).toEqual(expect.arrayContaining(['User store', 'UserStore']));
+    expect(analysis.architecturalChanges[0]).toMatchObject({ component: 'users', description: 'New users module' });
+    expect(analysis.documentationRequirements[0]).toMatchObject({ targetFile: 'README.md', content: 'Document UserStore and findUser' });
+    expect(integration.getLastTokenUsage().map(usage => usage.model)).toEqual([
+      expect.stringMatching(/^gpt-4o(?!-mini)/),
+      expect.stringMatching(/^gpt-4o-mini/)
+    ]);
+  });
+
+  it.skipIf(cassetteMode === 'record')('should fail on requests that are not in the cassette', async () => {
+    const integration = createIntegration();
+
+    const result = integration.performEnhancedAnalysis([diff('lookupUser')]);
+
+    await expect(result).rejects.toBeInstanceOf(CassetteMismatchError);
+    await expect(result).rejects.toThrow(/CodeAnalysis request to gpt-4o\. Closest recorded CodeAnalysis request differs in: prompt \(line \d+: recorded .*findUser.*got .*lookupUser/);
+  });
+});
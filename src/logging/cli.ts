@@ -0,0 +1,122 @@
+/**
+ * CLI commands for querying the development log and writing digests of it
+ */
+
+import { DevelopmentLogger } from './logger';
+import { formatLogTable } from './query';
+import { resolveDigestRange } from './digest';
+import { DigestPeriod, LogConfig, LogDigestOptions, LogDigestResult, LogQuery } from './types';
+import { parseDateBound } from '../usage/export';
+import { getOption } from '../cli-args';
+import { DEFAULT_LOG_CONFIG } from './index';
+
+/**
+ * Writes digests; implemented by the orchestrator, which owns the usage tracker and subagent
+ */
+export interface LogDigestGenerator {
+  generateLogDigest(options: LogDigestOptions): Promise<LogDigestResult>;
+}
+
+/**
+ * `auto-doc-sync log [--from=DATE] [--to=DATE] [--author=NAME] [--commit=HASH] [--file=PATH]
+ * [--trigger=TYPE] [--grep=TEXT] [--limit=N] [--group] [--format=table|json]`
+ */
+export async function runLogCLI(config: LogConfig, args: string[] = []): Promise<number> {
+  const format = getOption(args, 'format') || 'table';
+  if (format !== 'table' && format !== 'json') {
+    throw new Error(`Invalid log format: ${format}. Must be 'table' or 'json'`);
+  }
+
+  const limitOption = getOption(args, 'limit');
+  const limit = limitOption !== undefined ? Number(limitOption) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    throw new Error(`Invalid limit: ${limitOption}. Must be a positive integer`);
+  }
+
+  const logger = new DevelopmentLogger(config);
+  let entries = await logger.queryEntries(parseLogQuery(args));
+  if (args.includes('--group')) {
+    entries = await logger.groupRelatedChanges(entries);
+  }
+  if (limit !== undefined) {
+    // The most recent entries, still oldest first
+    entries = entries.slice(-limit);
+  }
+
+  if (format === 'json') {
+    console.log(JSON.stringify(entries, null, 2));
+  } else if (entries.length === 0) {
+    console.log('No log entries match');
+  } else {
+    console.log(formatLogTable(entries));
+    console.log(`\n${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}`);
+  }
+  return 0;
+}
+
+/**
+ * `auto-doc-sync log digest [--period=week|sprint|custom] [--date=DATE] [--from=DATE --to=DATE] [--ai]`
+ */
+export async function runLogDigestCLI(generator: LogDigestGenerator, config: LogConfig, args: string[] = [], now: Date = new Date()): Promise<number> {
+  const result = await generator.generateLogDigest(parseDigestOptions(config, args, now));
+  const { digest } = result;
+
+  console.log(`📝 Digest written to ${result.path}`);
+  console.log(`   ${digest.from.split('T')[0]} to ${digest.to.split('T')[0]}: ${digest.entryCount} entr${digest.entryCount === 1 ? 'y' : 'ies'}, $${digest.cost.estimatedCost.toFixed(4)} AI cost, ${result.summarySource === 'ai' ? 'AI' : 'local'} summary`);
+  return 0;
+}
+
+/**
+ * The digest period and its range as given on the command line
+ */
+export function parseDigestOptions(config: LogConfig, args: string[], now: Date = new Date()): LogDigestOptions {
+  const period = (getOption(args, 'period') || 'week') as DigestPeriod;
+  if (period !== 'week' && period !== 'sprint' && period !== 'custom') {
+    throw new Error(`Invalid digest period: ${period}. Must be 'week', 'sprint' or 'custom'`);
+  }
+
+  const from = getOption(args, 'from');
+  const to = getOption(args, 'to');
+  const date = getOption(args, 'date');
+  if (period !== 'custom' && (from || to)) {
+    throw new Error(`--from and --to need --period=custom; use --date to pick the ${period}`);
+  }
+
+  const range = resolveDigestRange(period, {
+    date: date ? parseDateBound(date, 'start') : undefined,
+    from: from ? parseDateBound(from, 'start') : undefined,
+    to: to ? parseDateBound(to, 'end') : undefined,
+    sprintLengthDays: config.sprintLengthDays || DEFAULT_LOG_CONFIG.sprintLengthDays,
+    sprintStart: config.sprintStart ? parseDateBound(config.sprintStart, 'start') : undefined
+  }, now);
+  if (range.from > range.to) {
+    throw new Error(`--from (${from}) must not be after --to (${to})`);
+  }
+  return { period, ...range, ai: args.includes('--ai') };
+}
+
+/**
+ * The filters given on the command line
+ */
+export function parseLogQuery(args: string[]): LogQuery {
+  const from = getOption(args, 'from');
+  const to = getOption(args, 'to');
+  const triggerType = getOption(args, 'trigger');
+  if (triggerType !== undefined && triggerType !== 'git-hook' && triggerType !== 'manual') {
+    throw new Error(`Invalid trigger type: ${triggerType}. Must be 'git-hook' or 'manual'`);
+  }
+
+  const query: LogQuery = {
+    from: from ? parseDateBound(from, 'start') : undefined,
+    to: to ? parseDateBound(to, 'end') : undefined,
+    author: getOption(args, 'author'),
+    commit: getOption(args, 'commit'),
+    file: getOption(args, 'file'),
+    triggerType,
+    text: getOption(args, 'grep')
+  };
+  if (query.from && query.to && query.from > query.to) {
+    throw new Error(`--from (${from}) must not be after --to (${to})`);
+  }
+  return query;
+}
@@ -0,0 +1,155 @@
+/**
+ * Tests for development log digests
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import { join } from 'path';
+import { DEFAULT_LOG_CONFIG } from './index';
+import { buildLogDigest, formatDigestMarkdown, resolveDigestRange, summarizeDigestLocally, writeDigest } from './digest';
+import { parseDigestOptions, runLogDigestCLI } from './cli';
+import { LogDigestOptions, LogEntry } from './types';
+import { UsageMetrics } from '../usage/types';
+
+describe('development log digests', () => {
+  const now = new Date('2026-03-11T15:30:00.000Z');
+
+  const entry = (id: string, author: string, files: string[], changeDescriptions: string[]): LogEntry => ({
+    id,
+    timestamp: '2026-03-09T10:00:00.000Z',
+    sessionId: 'session-1',
+    changeDescriptions,
+    affectedFiles: files,
+    rationale: `Update ${id}`,
+    metadata: { triggerType: 'manual', commitHash: `c${id}`, author, version: '1.0.0', analysisTime: 10 }
+  });
+
+  const entries = [
+    entry('1', 'Jane Doe', ['src/api/users.ts', 'src/api/auth.ts', 'README.md'], [
+      'Added feature: User search - Search users by name',
+      'API change: searchUsers (function)',
+      'Type change: UserQuery (interface)'
+    ]),
+    entry('2', 'Sam Lee', ['src/api/users.ts', 'src/billing/invoice.ts'], [
+      'API change: searchUsers (function)',
+      'component-removed: LegacyAuth - Replaced by token auth',
+      'breaking-change: LegacyAuth - export removed'
+    ]),
+    entry('3', 'Jane Doe', ['./src/api/users.ts'], ['component-added: RateLimiter - Limits requests per user'])
+  ];
+
+  const usage = [{ estimatedCost: 0.0125, tokensConsumed: 4200 }, { estimatedCost: 0.003, tokensConsumed: 800 }] as UsageMetrics[];
+
+  const options: LogDigestOptions = {
+    period: 'week',
+    from: new Date('2026-03-05T00:00:00.000Z'),
+    to: new Date('2026-03-11T23:59:59.999Z')
+  };
+
+  let logDirectory: string;
+
+  beforeEach(async () => {
+    logDirectory = await fs.mkdtemp(join(os.tmpdir(), 'dev-log-digest-'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(logDirectory, { recursive: true, force: true });
+  });
+
+  it('should resolve weeks, sprints and custom ranges to whole UTC days', () => {
+    const day = (date: Date) => date.toISOString();
+
+    const week = resolveDigestRange('week', { sprintLengthDays: 14 }, now);
+    expect([day(week.from), day(week.to)]).toEqual(['2026-03-05T00:00:00.000Z', '2026-03-11T23:59:59.999Z']);
+
+    const aligned = resolveDigestRange('sprint', { sprintLengthDays: 14, sprintStart: new Date('2026-01-05') }, now);
+    expect([day(aligned.from), day(aligned.to)]).toEqual(['2026-03-02T00:00:00.000Z', '2026-03-15T23:59:59.999Z']);
+
+    const trailing = resolveDigestRange('sprint', { sprintLengthDays: 10, date: new Date('2026-02-10') }, now);
+    expect([day(trailing.from), day(trailing.to)]).toEqual(['2026-02-01T00:00:00.000Z', '2026-02-10T23:59:59.999Z']);
+
+    expect(() => resolveDigestRange('custom', { sprintLengthDays: 14, from: options.from }, now)).toThrow('needs --from and --to');
+  });
+
+  it('should aggregate components, features, removals, API churn and cost', () => {
+    const digest = buildLogDigest(entries, usage, options, now);
+
+    expect(digest).toEqual({
+      period: 'week',
+      from: '2026-03-05T00:00:00.000Z',
+      to: '2026-03-11T23:59:59.999Z',
+      generatedAt: now.toISOString(),
+      entryCount: 3,
+      authors: ['Jane Doe', 'Sam Lee'],
+      commits: ['c1', 'c2', 'c3'],
+      topComponents: [
+        { component: 'src/api', entries: 3, files: 2 },
+        { component: '(root)', entries: 1, files: 1 },
+        { component: 'src/billing', entries: 1, files: 1 }
+      ],
+      newFeatures: ['User search - Search users by name', 'RateLimiter - Limits requests per user'],
+      removedComponents: ['LegacyAuth - Replaced by token auth'],
+      apiChurn: [{ name: 'searchUsers', changes: 2 }, { name: 'UserQuery', changes: 1 }],
+      breakingChanges: ['LegacyAuth - export removed'],
+      cost: { sessions: 2, tokens: 5000, estimatedCost: 0.0155 }
+    });
+
+    expect(summarizeDigestLocally(digest)).toEqual({
+      summary: '3 log entries by Jane Doe and Sam Lee across 3 commits between 2026-03-05 and 2026-03-11, mostly in `src/api`, `(root)` and `src/billing`.',
+      highlights: [
+        '2 new features: User search and RateLimiter',
+        '1 component removed: LegacyAuth',
+        '1 breaking change: LegacyAuth',
+        '2 API symbols changed, `searchUsers` most often (2 times)',
+        'AI analysis cost $0.0155 over 2 sessions'
+      ]
+    });
+    expect(summarizeDigestLocally(buildLogDigest([], [], options, now)).summary).toBe('No development was logged between 2026-03-05 and 2026-03-11.');
+  });
+
+  it('should write the digest as Markdown under digests/', async () => {
+    const digest = buildLogDigest(entries, usage, options, now);
+    const markdown = formatDigestMarkdown(digest, { summary: 'A week of search work.', highlights: ['User search shipped'] }, 'ai');
+
+    const digestPath = await writeDigest(logDirectory, digest, markdown);
+
+    expect(digestPath).toBe(join(logDirectory, 'digests', 'digest-week-2026-03-05-to-2026-03-11.md'));
+    const written = await fs.readFile(digestPath, 'utf-8');
+    expect(written).toBe(markdown);
+    expect(written).toMatch(/^# Development Digest: 2026-03-05 to 2026-03-11\n\nPeriod: week · Generated: 2026-03-11T15:30:00.000Z · Summary: AI\n/);
+    expect(written).toContain('## Summary\n\nA week of search work.\n\n- User search shipped\n');
+    expect(written).toContain('| `src/api` | 3 | 2 |');
+    expect(written).toContain('## Removed Components\n\n- LegacyAuth - Replaced by token auth\n');
+    expect(written).toContain('| `searchUsers` | 2 |\n| `UserQuery` | 1 |\n\n**Breaking changes:**\n\n- LegacyAuth - export removed\n');
+    expect(written).toContain('## Cost\n\n- Sessions: 2\n- Tokens: 5,000\n- Estimated cost: $0.0155\n');
+  });
+
+  it('should parse the digest options and report the written digest', async () => {
+    const config = { ...DEFAULT_LOG_CONFIG, logDirectory, sprintStart: '2026-01-05' };
+
+    expect(parseDigestOptions(config, [], now)).toEqual({ ...options, ai: false });
+    expect(parseDigestOptions(config, ['--period=sprint', '--date=2026-02-20', '--ai'], now)).toEqual({
+      period: 'sprint',
+      from: new Date('2026-02-16T00:00:00.000Z'),
+      to: new Date('2026-03-01T23:59:59.999Z'),
+      ai: true
+    });
+    expect(parseDigestOptions(config, ['--period=custom', '--from=2026-03-01', '--to=2026-03-02'], now).to).toEqual(new Date('2026-03-02T23:59:59.999Z'));
+    expect(() => parseDigestOptions(config, ['--period=month'], now)).toThrow('Invalid digest period: month');
+    expect(() => parseDigestOptions(config, ['--from=2026-03-01'], now)).toThrow('--from and --to need --period=custom');
+
+    const digest = buildLogDigest(entries, usage, options, now);
+    const generator = { generateLogDigest: vi.fn().mockResolvedValue({ digest, path: '/tmp/digest.md', summarySource: 'local' }) };
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    expect(await runLogDigestCLI(generator, config, [], now)).toBe(0);
+    expect(generator.generateLogDigest).toHaveBeenCalledWith({ ...options, ai: false });
+    expect(log.mock.calls.map(call => call[0])).toEqual([
+      '📝 Digest written to /tmp/digest.md',
+      '   2026-03-05 to 2026-03-11: 3 entries, $0.0155 AI cost, local summary'
+    ]);
+  });
+});
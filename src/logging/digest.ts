@@ -0,0 +1,257 @@
+/**
+ * Digests of the development log: the entries of a week, a sprint or a custom range aggregated
+ * into what changed, written to `.kiro/development-log/digests/`
+ */
+
+import { promises as fs } from 'fs';
+import { join, posix } from 'path';
+import { UsageMetrics } from '../usage/types';
+import { DigestPeriod, DigestSummary, LogDigest, LogDigestOptions, LogEntry } from './types';
+
+export const DIGEST_DIRECTORY = 'digests';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_TOP_COMPONENTS = 10;
+const MAX_API_CHURN = 15;
+
+export interface DigestRangeOptions {
+  /** A day within the week or sprint; defaults to today */
+  date?: Date;
+  /** Range of a custom digest */
+  from?: Date;
+  to?: Date;
+  sprintLengthDays: number;
+  /** First day of any sprint */
+  sprintStart?: Date;
+}
+
+/**
+ * The UTC days a digest covers, from the start of the first day to the end of the last. A week
+ * is the seven days ending on `date`; a sprint is the one containing `date` when `sprintStart` is
+ * known, else the `sprintLengthDays` days ending on it.
+ */
+export function resolveDigestRange(period: DigestPeriod, options: DigestRangeOptions, now: Date = new Date()): { from: Date; to: Date } {
+  if (period === 'custom') {
+    if (!options.from || !options.to) {
+      throw new Error('A custom digest needs --from and --to');
+    }
+    return { from: options.from, to: options.to };
+  }
+
+  const day = startOfDay(options.date || now);
+  let start: number;
+  let lengthDays: number;
+  if (period === 'week') {
+    lengthDays = 7;
+    start = day - 6 * DAY_MS;
+  } else {
+    lengthDays = options.sprintLengthDays;
+    if (options.sprintStart) {
+      const first = startOfDay(options.sprintStart);
+      start = first + Math.floor((day - first) / (lengthDays * DAY_MS)) * lengthDays * DAY_MS;
+    } else {
+      start = day - (lengthDays - 1) * DAY_MS;
+    }
+  }
+  return { from: new Date(start), to: new Date(start + lengthDays * DAY_MS - 1) };
+}
+
+/**
+ * Aggregate the entries and usage sessions of a period. Components are the directories of the
+ * affected files; features, removals, API changes and breaking changes are read from the change
+ * descriptions the logger writes.
+ */
+export function buildLogDigest(entries: LogEntry[], usage: UsageMetrics[], options: LogDigestOptions, now: Date = new Date()): LogDigest {
+  const components = new Map<string, { entries: number; files: Set<string> }>();
+  const apiChurn = new Map<string, number>();
+  const newFeatures: string[] = [];
+  const removedComponents: string[] = [];
+  const breakingChanges: string[] = [];
+
+  for (const entry of entries) {
+    const touched = new Set<string>();
+    for (const file of entry.affectedFiles) {
+      const normalized = file.replace(/\\/g, '/').replace(/^\.\//, '');
+      const directory = posix.dirname(normalized);
+      const component = directory === '.' ? '(root)' : directory;
+      const stats = components.get(component) || { entries: 0, files: new Set<string>() };
+      stats.files.add(normalized);
+      if (!touched.has(component)) {
+        stats.entries++;
+        touched.add(component);
+      }
+      components.set(component, stats);
+    }
+
+    for (const description of entry.changeDescriptions) {
+      const added = description.match(/^(?:Added feature|component-added): (.+)$/);
+      const removed = description.match(/^component-removed: (.+)$/);
+      const breaking = description.match(/^breaking-change: (.+)$/);
+      const api = description.match(/^(?:API|Type) change: (.+) \([^)]*\)$/);
+      if (added) addUnique(newFeatures, added[1]);
+      if (removed) addUnique(removedComponents, removed[1]);
+      if (breaking) addUnique(breakingChanges, breaking[1]);
+      if (api) apiChurn.set(api[1], (apiChurn.get(api[1]) || 0) + 1);
+    }
+  }
+
+  return {
+    period: options.period,
+    from: options.from.toISOString(),
+    to: options.to.toISOString(),
+    generatedAt: now.toISOString(),
+    entryCount: entries.length,
+    authors: unique(entries.flatMap(entry => entry.metadata.authors || [entry.metadata.author])),
+    commits: unique(entries.map(entry => entry.metadata.commitHash)),
+    topComponents: [...components]
+      .map(([component, stats]) => ({ component, entries: stats.entries, files: stats.files.size }))
+      .sort((a, b) => b.entries - a.entries || b.files - a.files || a.component.localeCompare(b.component))
+      .slice(0, MAX_TOP_COMPONENTS),
+    newFeatures,
+    removedComponents,
+    apiChurn: [...apiChurn]
+      .map(([name, changes]) => ({ name, changes }))
+      .sort((a, b) => b.changes - a.changes || a.name.localeCompare(b.name))
+      .slice(0, MAX_API_CHURN),
+    breakingChanges,
+    cost: {
+      sessions: usage.length,
+      tokens: usage.reduce((sum, m) => sum + m.tokensConsumed, 0),
+      estimatedCost: usage.reduce((sum, m) => sum + m.estimatedCost, 0)
+    }
+  };
+}
+
+/**
+ * Summary of a digest written from its numbers alone, used without AI or when the AI summary is
+ * unavailable
+ */
+export function summarizeDigestLocally(digest: LogDigest): DigestSummary {
+  const range = `${formatDay(digest.from)} and ${formatDay(digest.to)}`;
+  if (digest.entryCount === 0) {
+    return { summary: `No development was logged between ${range}.`, highlights: [] };
+  }
+
+  const authors = digest.authors.length > 0 ? ` by ${joinList(digest.authors)}` : '';
+  const commits = digest.commits.length > 0 ? ` across ${plural(digest.commits.length, 'commit')}` : '';
+  const components = digest.topComponents.slice(0, 3).map(c => `\`${c.component}\``);
+  const summary = `${plural(digest.entryCount, 'log entry', 'log entries')}${authors}${commits} between ${range}` +
+    (components.length > 0 ? `, mostly in ${joinList(components)}.` : '.');
+
+  const highlights: string[] = [];
+  if (digest.newFeatures.length > 0) {
+    highlights.push(`${plural(digest.newFeatures.length, 'new feature')}: ${joinList(digest.newFeatures.map(featureName))}`);
+  }
+  if (digest.removedComponents.length > 0) {
+    highlights.push(`${plural(digest.removedComponents.length, 'component')} removed: ${joinList(digest.removedComponents.map(featureName))}`);
+  }
+  if (digest.breakingChanges.length > 0) {
+    highlights.push(`${plural(digest.breakingChanges.length, 'breaking change')}: ${joinList(digest.breakingChanges.map(featureName))}`);
+  }
+  if (digest.apiChurn.length > 0) {
+    const busiest = digest.apiChurn[0];
+    highlights.push(`${plural(digest.apiChurn.length, 'API symbol')} changed, \`${busiest.name}\` most often (${plural(busiest.changes, 'time')})`);
+  }
+  if (digest.cost.sessions > 0) {
+    highlights.push(`AI analysis cost $${digest.cost.estimatedCost.toFixed(4)} over ${plural(digest.cost.sessions, 'session')}`);
+  }
+  return { summary, highlights };
+}
+
+/**
+ * The digest as a Markdown document
+ */
+export function formatDigestMarkdown(digest: LogDigest, summary: DigestSummary, summarySource: 'ai' | 'local'): string {
+  const lines = [
+    `# Development Digest: ${formatDay(digest.from)} to ${formatDay(digest.to)}`,
+    '',
+    `Period: ${digest.period} · Generated: ${digest.generatedAt} · Summary: ${summarySource === 'ai' ? 'AI' : 'local'}`,
+    '',
+    '## Summary',
+    '',
+    summary.summary.trim(),
+    ...(summary.highlights.length > 0 ? ['', ...summary.highlights.map(highlight => `- ${highlight}`)] : []),
+    '',
+    '## Overview',
+    '',
+    `- Entries: ${digest.entryCount}`,
+    `- Authors: ${digest.authors.join(', ') || 'Unknown'}`,
+    `- Commits: ${digest.commits.join(', ') || 'None'}`,
+    '',
+    '## Top Changed Components',
+    '',
+    ...(digest.topComponents.length > 0
+      ? ['| Component | Entries | Files |', '|-----------|---------|-------|',
+        ...digest.topComponents.map(c => `| \`${c.component}\` | ${c.entries} | ${c.files} |`)]
+      : ['None']),
+    '',
+    '## New Features',
+    '',
+    ...listOrNone(digest.newFeatures),
+    '',
+    '## Removed Components',
+    '',
+    ...listOrNone(digest.removedComponents),
+    '',
+    '## API Churn',
+    '',
+    ...(digest.apiChurn.length > 0
+      ? ['| Symbol | Changes |', '|--------|---------|', ...digest.apiChurn.map(api => `| \`${api.name}\` | ${api.changes} |`)]
+      : ['None']),
+    ...(digest.breakingChanges.length > 0 ? ['', '**Breaking changes:**', '', ...digest.breakingChanges.map(change => `- ${change}`)] : []),
+    '',
+    '## Cost',
+    '',
+    `- Sessions: ${digest.cost.sessions}`,
+    `- Tokens: ${digest.cost.tokens.toLocaleString('en-US')}`,
+    `- Estimated cost: $${digest.cost.estimatedCost.toFixed(4)}`
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Write a digest to `<logDirectory>/digests/digest-<period>-<from>-to-<to>.md`, replacing an
+ * earlier digest of the same range
+ */
+export async function writeDigest(logDirectory: string, digest: LogDigest, markdown: string): Promise<string> {
+  const directory = join(logDirectory, DIGEST_DIRECTORY);
+  const digestPath = join(directory, `digest-${digest.period}-${formatDay(digest.from)}-to-${formatDay(digest.to)}.md`);
+  await fs.mkdir(directory, { recursive: true });
+  await fs.writeFile(digestPath, markdown);
+  return digestPath;
+}
+
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function formatDay(timestamp: string): string {
+  return timestamp.split('T')[0];
+}
+
+/**
+ * The name part of a "name - description" change description
+ */
+function featureName(description: string): string {
+  return description.split(' - ')[0];
+}
+
+function listOrNone(items: string[]): string[] {
+  return items.length > 0 ? items.map(item => `- ${item}`) : ['None'];
+}
+
+function joinList(items: string[]): string {
+  return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function plural(count: number, singular: string, pluralForm: string = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+function addUnique(items: string[], item: string): void {
+  if (!items.includes(item)) items.push(item);
+}
+
+function unique(values: Array<string | undefined>): string[] {
+  return [...new Set(values.filter((value): value is string => Boolean(value)))];
+}
@@ -3,6 +3,9 @@
  */
 
 export { DevelopmentLogger } from './logger';
+export { matchesLogQuery, formatLogTable } from './query';
+export { compactExpiredLogs, parseLogMarkdown, LogPruneResult } from './retention';
+export { loadSpecs, parseSpecTasks, findSpecReferences, tickSpecTasks, formatSpecReference, Spec, SpecTask } from './spec-links';
 export * from './types';
 
 // Default configuration
@@ -10,5 +13,8 @@ export const DEFAULT_LOG_CONFIG = {
   logDirectory: '.kiro/development-log',
   maxEntriesPerFile: 50,
   retentionDays: 90,
-  groupingTimeWindow: 30 // 30 minutes
+  groupingTimeWindow: 30, // 30 minutes
+  sprintLengthDays: 14,
+  specsDirectory: '.kiro/specs',
+  tickSpecTasks: false
 };
\ No newline at end of file
@@ -8,6 +8,8 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fc from 'fast-check';
 import { promises as fs } from 'fs';
+import { execFileSync } from 'child_process';
+import * as os from 'os';
 import { join } from 'path';
 import { DevelopmentLogger, DEFAULT_LOG_CONFIG } from './index.js';
 import { LogEntry, LogConfig } from './types.js';
@@ -546,4 +548,119 @@ describe('DevelopmentLogger Property Tests', () => {
       { numRuns: 100 }
     );
   });
-});
\ No newline at end of file
+});
+
+describe('DevelopmentLogger git metadata', () => {
+  let repo: string;
+
+  const analysis: ChangeAnalysis = {
+    timestamp: '2026-03-01T09:00:00.000Z',
+    triggerType: 'git-hook',
+    changedFiles: [],
+    extractedAPIs: [],
+    newFeatures: [],
+    architecturalChanges: [],
+    documentationRequirements: []
+  };
+
+  const git = (args: string[], author = 'Jane Doe <jane@example.com>') => execFileSync('git', args, {
+    cwd: repo,
+    encoding: 'utf-8',
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: author.split(' <')[0],
+      GIT_AUTHOR_EMAIL: author.split(' <')[1].slice(0, -1),
+      GIT_COMMITTER_NAME: 'CI Bot',
+      GIT_COMMITTER_EMAIL: 'ci@example.com'
+    }
+  }).trim();
+
+  const commit = async (file: string, author?: string): Promise<string> => {
+    await fs.writeFile(join(repo, file), `export const x = '${file}';\n`);
+    git(['add', file]);
+    git(['commit', '-q', '-m', `add ${file}`], author);
+    return git(['rev-parse', 'HEAD']);
+  };
+
+  beforeEach(async () => {
+    repo = await fs.mkdtemp(join(os.tmpdir(), 'dev-log-git-'));
+    git(['init', '-q', '-b', 'feature/search']);
+    git(['config', 'user.name', 'Local User']);
+  });
+
+  afterEach(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('should record the analyzed range, its authors and the run duration', async () => {
+    const base = await commit('a.ts');
+    await commit('b.ts', 'Sam Lee <sam@example.com>');
+    await commit('c.ts', 'Sam Lee <sam@example.com>');
+    const head = await commit('d.ts', 'Ana Ruiz <ana@example.com>');
+    const logger = new DevelopmentLogger({ ...DEFAULT_LOG_CONFIG, logDirectory: join(repo, 'logs') }, repo);
+
+    const entry = await logger.createLogEntry(analysis, 'Sync', 'session-1', {
+      commitRange: { base, head, source: 'last-sync' },
+      durationMs: 1234
+    });
+
+    expect(entry.metadata).toEqual({
+      triggerType: 'git-hook',
+      commitHash: head.substring(0, 7),
+      commitRange: { base, head, commits: 3 },
+      branch: 'feature/search',
+      author: 'Ana Ruiz',
+      authors: ['Sam Lee', 'Ana Ruiz'],
+      committer: 'CI Bot',
+      version: require('../../package.json').version,
+      analysisTime: 1234
+    });
+
+    await logger.storeLogEntry(entry);
+    const markdown = await fs.readFile(join(repo, 'logs', (await fs.readdir(join(repo, 'logs'))).find(f => f.endsWith('.md'))!), 'utf-8');
+    expect(markdown).toContain([
+      '- Author: Ana Ruiz',
+      '- Authors: Sam Lee, Ana Ruiz',
+      '- Committer: CI Bot',
+      `- Commit: ${head.substring(0, 7)}`,
+      `- Commit Range: ${base.substring(0, 12)}..${head.substring(0, 12)} (3 commits)`,
+      '- Branch: feature/search',
+      '- Analysis Time: 1234ms'
+    ].join('\n'));
+  });
+
+  it('should attribute working-tree runs to the git user at HEAD', async () => {
+    const head = await commit('a.ts');
+    const logger = new DevelopmentLogger({ ...DEFAULT_LOG_CONFIG, logDirectory: join(repo, 'logs') }, repo);
+
+    const entry = await logger.createLogEntry({ ...analysis, triggerType: 'manual' }, 'Manual sync');
+
+    expect(entry.metadata).toMatchObject({ commitHash: head.substring(0, 7), branch: 'feature/search', author: 'Local User', analysisTime: 0 });
+    expect(entry.metadata.commitRange).toBeUndefined();
+    expect(entry.metadata.authors).toBeUndefined();
+  });
+
+  it('should link the spec tasks the analyzed commits reference and tick them', async () => {
+    const tasksPath = join(repo, '.kiro', 'specs', 'search', 'tasks.md');
+    await fs.mkdir(join(repo, '.kiro', 'specs', 'search'), { recursive: true });
+    await fs.writeFile(tasksPath, '- [ ] 1. Index documents\n  - _Requirements: 1.1_\n\n- [ ] 2. Rank results\n  - _Requirements: 2.1_\n');
+    const base = await commit('a.ts');
+    await fs.writeFile(join(repo, 'rank.ts'), 'export const rank = 1;\n');
+    git(['add', 'rank.ts']);
+    git(['commit', '-q', '-m', 'Rank results\n\nCompletes task 2.']);
+    const head = git(['rev-parse', 'HEAD']);
+    const logger = new DevelopmentLogger({ ...DEFAULT_LOG_CONFIG, logDirectory: join(repo, 'logs') }, repo);
+
+    const entry = await logger.createLogEntry(analysis, 'Sync', 'session-1', { commitRange: { base, head, source: 'last-sync' } });
+
+    expect(entry.specReferences).toEqual([{ spec: 'search', task: '2', title: 'Rank results', requirements: ['2.1'], source: 'commit-message' }]);
+
+    const logFilePath = await logger.storeLogEntry(entry);
+    expect(await fs.readFile(logFilePath, 'utf-8')).toContain('**Spec Tasks:**\n- search 2: Rank results (Requirements 2.1)\n');
+
+    expect(await logger.tickSpecTasks(entry, logFilePath)).toEqual(['search 2']);
+    expect(await fs.readFile(tasksPath, 'utf-8')).toContain(
+      `- [x] 2. Rank results ([log](../../../logs/${logFilePath.split('/').pop()}#log-entry-${entry.id}))\n`
+    );
+  });
+});
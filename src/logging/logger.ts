@@ -3,38 +3,46 @@
  */
 
 import { promises as fs } from 'fs';
-import { join } from 'path';
+import { isAbsolute, join, relative, resolve } from 'path';
 import { execSync } from 'child_process';
-import { LogEntry, LogSession, LogConfig } from './types';
-import { ChangeAnalysis } from '../types/index';
+import { LogEntry, LogEntryContext, LogSession, LogConfig, LogMetadata, LogQuery, SpecReference } from './types';
+import { matchesLogQuery } from './query';
+import { compactExpiredLogs, DAILY_LOG_FILE_PATTERN, LogPruneResult } from './retention';
+import { findSpecReferences, formatSpecReference, loadSpecs, tickSpecTasks } from './spec-links';
+import { AIFidelityReport, ChangeAnalysis } from '../types/index';
+import { CommitRange, formatCommitRange, getCommitMessages, getCurrentBranch, getRangeCommits, runGit } from '../git';
+import { JournalSession } from '../output/journal';
+
+const DEFAULT_SPECS_DIRECTORY = '.kiro/specs';
+
+const JSONL_FILE_PATTERN = /^dev-log-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+// Version of auto-doc-sync itself, not of the workspace it documents
+const TOOL_VERSION: string = require('../../package.json').version;
+
+type GitMetadata = Pick<LogMetadata, 'commitHash' | 'commitRange' | 'branch' | 'author' | 'authors' | 'committer'>;
 
 export class DevelopmentLogger {
   private config: LogConfig;
   private currentSession: LogSession | null = null;
   private activeSessions: Map<string, LogSession> = new Map();
-  private gitContextCache: {
-    branch?: string;
-    commitHash?: string;
-    author?: string;
-    commitMessage?: string;
-    stagedFiles?: string[];
-    modifiedFiles?: string[];
-    isGitRepo?: boolean;
-    cacheTime: number;
-  } = { cacheTime: 0 };
-  private readonly CACHE_TTL = 5000; // 5 seconds cache
-
-  constructor(config: LogConfig) {
+  private workspaceRoot: string;
+
+  constructor(config: LogConfig, workspaceRoot: string = process.cwd()) {
     this.config = config;
+    this.workspaceRoot = workspaceRoot;
   }
 
   /**
-   * Creates a timestamped log entry from analysis results
+   * Creates a timestamped log entry from analysis results. Git metadata is read for this entry
+   * from the analyzed commits, or from HEAD and the git user for working-tree runs; spec tasks
+   * are linked from the commit messages and the affected files.
    */
   async createLogEntry(
     analysis: ChangeAnalysis,
     rationale: string,
-    sessionId?: string
+    sessionId?: string,
+    context: LogEntryContext = {}
   ): Promise<LogEntry> {
     const entryId = this.generateEntryId();
     const currentSessionId = sessionId || this.generateSessionId();
@@ -48,13 +56,18 @@ export class DevelopmentLogger {
       rationale,
       metadata: {
         triggerType: analysis.triggerType,
-        commitHash: this.extractCommitHash(),
-        author: this.extractAuthor(),
-        version: '1.0.0',
-        analysisTime: Date.now()
+        ...await this.readGitMetadata(context.commitRange),
+        version: TOOL_VERSION,
+        analysisTime: context.durationMs ?? 0,
+        ...(analysis.aiFidelity ? { aiFidelity: analysis.aiFidelity } : {})
       }
     };
 
+    const specReferences = await this.findSpecReferences(entry.affectedFiles, context.commitRange);
+    if (specReferences.length > 0) {
+      entry.specReferences = specReferences;
+    }
+
     return entry;
   }
 
@@ -118,17 +131,21 @@ export class DevelopmentLogger {
   }
 
   /**
-   * Stores log entries in .kiro/development-log/ directory
+   * Stores log entries in .kiro/development-log/ directory, as Markdown for reading and as a JSON
+   * line in the day's `.jsonl` file for querying. Once a day's Markdown file holds
+   * `maxEntriesPerFile` entries, the day continues in `dev-log-YYYY-MM-DD-2.md`, `-3.md`, ...
+   * Returns the path of the Markdown file the entry was written to.
    */
-  async storeLogEntry(entry: LogEntry): Promise<void> {
+  async storeLogEntry(entry: LogEntry): Promise<string> {
     await this.ensureLogDirectory();
     
-    const logFileName = this.generateLogFileName(entry.timestamp);
-    const logFilePath = join(this.config.logDirectory, logFileName);
+    const day = new Date(entry.timestamp).toISOString().split('T')[0];
+    const jsonlFilePath = join(this.config.logDirectory, `dev-log-${day}.jsonl`);
     
     const formattedEntry = this.formatLogEntry(entry);
     
     try {
+      const logFilePath = await this.resolveLogFilePath(day);
       // Check if file exists and append, otherwise create new
       const fileExists = await this.fileExists(logFilePath);
       if (fileExists) {
@@ -136,11 +153,78 @@ export class DevelopmentLogger {
       } else {
         await fs.writeFile(logFilePath, formattedEntry);
       }
+      await fs.appendFile(jsonlFilePath, JSON.stringify(entry) + '\n');
+      return logFilePath;
     } catch (error) {
       throw new Error(`Failed to store log entry: ${error}`);
     }
   }
 
+  /**
+   * Ticks the open spec tasks the entry's commit messages reference, linking each to the entry
+   * in the Markdown log file it was stored in. Returns the ticked tasks.
+   */
+  async tickSpecTasks(entry: LogEntry, logFilePath: string, journal?: JournalSession): Promise<string[]> {
+    if (!entry.specReferences) {
+      return [];
+    }
+    return tickSpecTasks(await loadSpecs(this.specsDirectory()), entry.specReferences, entry.id, logFilePath, journal);
+  }
+
+  /**
+   * Reads stored entries back from the JSONL log, oldest first. Only the files of days within
+   * `from`..`to` are read; unreadable lines are skipped with a warning.
+   */
+  async readEntries(from?: Date, to?: Date): Promise<LogEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.config.logDirectory);
+    } catch {
+      return [];
+    }
+
+    const firstDay = from?.toISOString().split('T')[0];
+    const lastDay = to?.toISOString().split('T')[0];
+    const entries: LogEntry[] = [];
+
+    for (const file of files.sort()) {
+      const day = file.match(JSONL_FILE_PATTERN)?.[1];
+      if (!day || (firstDay && day < firstDay) || (lastDay && day > lastDay)) {
+        continue;
+      }
+
+      const content = await fs.readFile(join(this.config.logDirectory, file), 'utf-8');
+      content.split('\n').forEach((line, index) => {
+        if (!line.trim()) return;
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          console.warn(`Skipping unreadable log entry at ${file}:${index + 1}`);
+        }
+      });
+    }
+
+    return entries
+      .filter(entry => matchesLogQuery(entry, { from, to }))
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  /**
+   * Stored entries matching every filter of the query, oldest first
+   */
+  async queryEntries(query: LogQuery): Promise<LogEntry[]> {
+    const entries = await this.readEntries(query.from, query.to);
+    return entries.filter(entry => matchesLogQuery(entry, query));
+  }
+
+  /**
+   * Compacts the days older than `retentionDays` into monthly summary files and deletes their
+   * daily files
+   */
+  async pruneExpiredLogs(now: Date = new Date()): Promise<LogPruneResult> {
+    return compactExpiredLogs(this.config.logDirectory, this.config.retentionDays, now);
+  }
+
   /**
    * Formats log entry with consistent structure and metadata
    */
@@ -158,25 +242,49 @@ export class DevelopmentLogger {
       ? `**Affected Files:**\n${entry.affectedFiles.map(file => `- ${file}`).join('\n')}`
       : '**Affected Files:** None';
     
+    const specTasks = entry.specReferences && entry.specReferences.length > 0
+      ? `**Spec Tasks:**\n${entry.specReferences.map(reference => `- ${formatSpecReference(reference)}`).join('\n')}`
+      : '';
+
     const rationale = `**Rationale:** ${entry.rationale}`;
     
     const metadata = [
       `**Metadata:**`,
       `- Author: ${entry.metadata.author || 'Unknown'}`,
+      ...(entry.metadata.authors && entry.metadata.authors.length > 1 ? [`- Authors: ${entry.metadata.authors.join(', ')}`] : []),
+      ...(entry.metadata.committer ? [`- Committer: ${entry.metadata.committer}`] : []),
       `- Commit: ${entry.metadata.commitHash || 'N/A'}`,
+      ...(entry.metadata.commitRange
+        ? [`- Commit Range: ${formatCommitRange(entry.metadata.commitRange)} (${entry.metadata.commitRange.commits} commit${entry.metadata.commitRange.commits === 1 ? '' : 's'})`]
+        : []),
+      ...(entry.metadata.branch ? [`- Branch: ${entry.metadata.branch}`] : []),
       `- Analysis Time: ${entry.metadata.analysisTime}ms`,
-      `- Version: ${entry.metadata.version}`
+      `- Version: ${entry.metadata.version}`,
+      ...this.formatFidelity(entry.metadata.aiFidelity)
     ].join('\n');
 
     const groupedInfo = entry.groupedChanges && entry.groupedChanges.length > 0
       ? `**Grouped Changes:** ${entry.groupedChanges.length} related entries`
       : '';
 
-    return [header, timestamp, sessionId, triggerType, changes, files, rationale, metadata, groupedInfo]
+    return [header, timestamp, sessionId, triggerType, changes, files, specTasks, rationale, metadata, groupedInfo]
       .filter(section => section.length > 0)
       .join('\n\n');
   }
 
+  private formatFidelity(fidelity?: AIFidelityReport): string[] {
+    if (!fidelity) {
+      return [];
+    }
+
+    return [
+      `- AI Fidelity: ${Math.round(fidelity.score * 100)}% (${fidelity.verifiedSymbols} of ${fidelity.reportedSymbols} symbols verified, ` +
+        `${fidelity.correctedSymbols} corrected, ${fidelity.droppedSymbols} dropped` +
+        `${fidelity.unverifiedSymbols ? `, ${fidelity.unverifiedSymbols} unverified` : ''})`,
+      ...fidelity.issues.map(issue => `  - ${issue.symbol}: ${issue.description}`)
+    ];
+  }
+
   private extractChangeDescriptions(analysis: ChangeAnalysis): string[] {
     const descriptions: string[] = [];
     
@@ -191,10 +299,40 @@ export class DevelopmentLogger {
     analysis.extractedAPIs.forEach(api => {
       descriptions.push(`API change: ${api.name} (${api.method || 'function'})`);
     });
+
+    (analysis.extractedTypes || []).forEach(type => {
+      descriptions.push(`Type change: ${type.name} (${type.kind})`);
+    });
     
     return descriptions;
   }
 
+  /**
+   * Spec tasks and requirements referenced by the analyzed commits' messages or the affected
+   * files; none without specs, and only the files count for working-tree runs
+   */
+  private async findSpecReferences(affectedFiles: string[], commitRange?: CommitRange): Promise<SpecReference[]> {
+    const specs = await loadSpecs(this.specsDirectory());
+    if (specs.length === 0) {
+      return [];
+    }
+
+    let commitMessages: string[] = [];
+    if (commitRange) {
+      try {
+        commitMessages = await getCommitMessages(this.workspaceRoot, commitRange);
+      } catch (error) {
+        console.warn('Failed to read the commit messages of the analyzed range:', error);
+      }
+    }
+    const files = affectedFiles.map(file => (isAbsolute(file) ? relative(this.workspaceRoot, file) : file));
+    return findSpecReferences(specs, commitMessages, files);
+  }
+
+  private specsDirectory(): string {
+    return resolve(this.workspaceRoot, this.config.specsDirectory || DEFAULT_SPECS_DIRECTORY);
+  }
+
   private extractAffectedFiles(analysis: ChangeAnalysis): string[] {
     return analysis.changedFiles.map(file => file.path);
   }
@@ -204,6 +342,8 @@ export class DevelopmentLogger {
     const allChangeDescriptions = entries.flatMap(e => e.changeDescriptions);
     const allAffectedFiles = [...new Set(entries.flatMap(e => e.affectedFiles))];
     const combinedRationale = entries.map(e => e.rationale).join('; ');
+    const specReferences = [...new Map(entries.flatMap(e => e.specReferences || [])
+      .map(reference => [formatSpecReference(reference), reference] as const)).values()];
     
     return {
       ...firstEntry,
@@ -211,6 +351,7 @@ export class DevelopmentLogger {
       affectedFiles: allAffectedFiles,
       rationale: combinedRationale,
       groupedChanges: entries.slice(1),
+      ...(specReferences.length > 0 ? { specReferences } : {}),
       metadata: {
         ...firstEntry.metadata,
         analysisTime: entries.reduce((sum, e) => sum + e.metadata.analysisTime, 0)
@@ -226,10 +367,28 @@ export class DevelopmentLogger {
     return `session-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
   }
 
-  private generateLogFileName(timestamp: string): string {
-    const date = new Date(timestamp);
-    const dateStr = date.toISOString().split('T')[0];
-    return `dev-log-${dateStr}.md`;
+  /**
+   * The day's last Markdown part, or the next one when the last is full
+   */
+  private async resolveLogFilePath(day: string): Promise<string> {
+    const parts = (await fs.readdir(this.config.logDirectory))
+      .map(file => file.match(DAILY_LOG_FILE_PATTERN))
+      .filter((match): match is RegExpMatchArray => match !== null && match[1] === day && match[3] === 'md')
+      .map(match => (match[2] ? Number(match[2]) : 1));
+    const part = Math.max(1, ...parts);
+
+    const logFilePath = join(this.config.logDirectory, this.logFileName(day, part));
+    if (await this.fileExists(logFilePath)) {
+      const entryCount = ((await fs.readFile(logFilePath, 'utf-8')).match(/^## Log Entry: /gm) || []).length;
+      if (entryCount >= this.config.maxEntriesPerFile) {
+        return join(this.config.logDirectory, this.logFileName(day, part + 1));
+      }
+    }
+    return logFilePath;
+  }
+
+  private logFileName(day: string, part: number): string {
+    return part > 1 ? `dev-log-${day}-${part}.md` : `dev-log-${day}.md`;
   }
 
   private async ensureLogDirectory(): Promise<void> {
@@ -254,135 +413,87 @@ export class DevelopmentLogger {
    * Retrieves the current Git branch name
    */
   getBranch(): string | undefined {
-    this.refreshGitCache();
-    return this.gitContextCache.branch;
+    return this.readGit('git rev-parse --abbrev-ref HEAD');
   }
 
   /**
    * Retrieves the latest commit message
    */
   getLatestCommitMessage(): string | undefined {
-    this.refreshGitCache();
-    return this.gitContextCache.commitMessage;
+    return this.readGit('git log -1 --pretty=%B');
   }
 
   /**
    * Retrieves a list of staged files
    */
   getStagedFiles(): string[] {
-    this.refreshGitCache();
-    return this.gitContextCache.stagedFiles || [];
+    return (this.readGit('git diff --cached --name-only') || '').split('\n').filter(f => f);
   }
 
   /**
    * Retrieves a list of modified but unstaged files
    */
   getModifiedFiles(): string[] {
-    this.refreshGitCache();
-    return this.gitContextCache.modifiedFiles || [];
+    return (this.readGit('git diff --name-only') || '').split('\n').filter(f => f);
   }
 
   /**
-   * Checks if the current directory is within a Git repository
+   * Checks if the workspace is within a Git repository
    */
   isGitRepository(): boolean {
-    this.refreshGitCache();
-    return this.gitContextCache.isGitRepo || false;
-  }
-
-  private extractCommitHash(): string | undefined {
-    this.refreshGitCache();
-    return this.gitContextCache.commitHash;
+    return this.readGit('git rev-parse --is-inside-work-tree') === 'true';
   }
 
-  private extractAuthor(): string | undefined {
-    this.refreshGitCache();
-    return this.gitContextCache.author;
-  }
-
-  private refreshGitCache(): void {
-    const now = Date.now();
-    if (now - this.gitContextCache.cacheTime < this.CACHE_TTL) {
-      return; // Cache is still valid
-    }
-
-    // Check if we're in a git repo first
-    try {
-      execSync('git rev-parse --is-inside-work-tree', { 
-        timeout: 5000, 
-        stdio: 'pipe',
-        encoding: 'utf-8'
-      });
-      this.gitContextCache.isGitRepo = true;
-    } catch {
-      this.gitContextCache.isGitRepo = false;
-      this.gitContextCache.cacheTime = now;
-      return;
-    }
-
-    // Extract all git context
-    try {
-      this.gitContextCache.branch = execSync('git rev-parse --abbrev-ref HEAD', {
-        timeout: 5000,
-        stdio: 'pipe',
-        encoding: 'utf-8'
-      }).trim();
-    } catch {
-      this.gitContextCache.branch = undefined;
-    }
-
-    try {
-      this.gitContextCache.commitHash = execSync('git rev-parse --short HEAD', {
-        timeout: 5000,
-        stdio: 'pipe',
-        encoding: 'utf-8'
-      }).trim();
-    } catch {
-      this.gitContextCache.commitHash = undefined;
-    }
-
-    try {
-      this.gitContextCache.author = execSync('git config user.name', {
-        timeout: 5000,
-        stdio: 'pipe',
-        encoding: 'utf-8'
-      }).trim();
-    } catch {
-      this.gitContextCache.author = undefined;
+  /**
+   * Commit, branch and people of an entry. A range is described by its commits: the head
+   * commit's author and committer, and every author in it. Without a range the changes are the
+   * git user's, on top of HEAD.
+   */
+  private async readGitMetadata(commitRange?: CommitRange): Promise<GitMetadata> {
+    const branch = await getCurrentBranch(this.workspaceRoot);
+
+    if (commitRange) {
+      try {
+        const commits = await getRangeCommits(this.workspaceRoot, commitRange);
+        const authors = [...new Set([...commits].reverse().map(commit => commit.authorName))];
+        return {
+          commitHash: commitRange.head.substring(0, 7),
+          commitRange: { base: commitRange.base, head: commitRange.head, commits: commits.length },
+          branch,
+          author: commits[0]?.authorName,
+          authors,
+          committer: commits[0]?.committerName
+        };
+      } catch (error) {
+        console.warn('Failed to read the commits of the analyzed range:', error);
+      }
     }
 
-    try {
-      this.gitContextCache.commitMessage = execSync('git log -1 --pretty=%B', {
-        timeout: 5000,
-        stdio: 'pipe',
-        encoding: 'utf-8'
-      }).trim();
-    } catch {
-      this.gitContextCache.commitMessage = undefined;
-    }
+    return {
+      commitHash: await this.readGitAsync(['rev-parse', '--short', 'HEAD']),
+      branch,
+      author: await this.readGitAsync(['config', 'user.name'])
+    };
+  }
 
+  private async readGitAsync(args: string[]): Promise<string | undefined> {
     try {
-      const staged = execSync('git diff --cached --name-only', {
-        timeout: 5000,
-        stdio: 'pipe',
-        encoding: 'utf-8'
-      }).trim();
-      this.gitContextCache.stagedFiles = staged ? staged.split('\n').filter(f => f) : [];
+      return (await runGit(this.workspaceRoot, args)).trim() || undefined;
     } catch {
-      this.gitContextCache.stagedFiles = [];
+      return undefined;
     }
+  }
 
+  private readGit(command: string): string | undefined {
     try {
-      const modified = execSync('git diff --name-only', {
+      return execSync(command, {
+        cwd: this.workspaceRoot,
         timeout: 5000,
         stdio: 'pipe',
         encoding: 'utf-8'
       }).trim();
-      this.gitContextCache.modifiedFiles = modified ? modified.split('\n').filter(f => f) : [];
     } catch {
-      this.gitContextCache.modifiedFiles = [];
+      return undefined;
     }
-
-    this.gitContextCache.cacheTime = now;
   }
 }
@@ -0,0 +1,126 @@
+/**
+ * Tests for reading the development log back from JSONL and querying it
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import { join } from 'path';
+import { DevelopmentLogger, DEFAULT_LOG_CONFIG } from './index';
+import { formatLogTable, matchesLogQuery } from './query';
+import { runLogCLI, parseLogQuery } from './cli';
+import { LogConfig, LogEntry } from './types';
+
+describe('development log queries', () => {
+  let config: LogConfig;
+
+  const entry = (id: string, timestamp: string, overrides: Partial<LogEntry['metadata']> & { files?: string[]; rationale?: string } = {}): LogEntry => ({
+    id,
+    timestamp,
+    sessionId: `session-${id}`,
+    changeDescriptions: [`API change: ${id}Handler (function)`],
+    affectedFiles: overrides.files || ['src/api/users.ts'],
+    rationale: overrides.rationale || `Update ${id}`,
+    metadata: {
+      triggerType: overrides.triggerType || 'manual',
+      commitHash: overrides.commitHash,
+      author: overrides.author,
+      version: '1.0.0',
+      analysisTime: 10
+    }
+  });
+
+  const entries = [
+    entry('login', '2026-03-01T09:00:00.000Z', { author: 'Jane Doe', commitHash: '4d316e2', triggerType: 'git-hook' }),
+    entry('signup', '2026-03-02T12:30:00.000Z', { author: 'Sam Lee', commitHash: '12344ad', files: ['src/auth/signup.ts', 'README.md'] }),
+    entry('billing', '2026-03-04T18:00:00.000Z', { author: 'Jane Doe', files: ['src/billing/invoice.ts'], rationale: 'Invoice totals include tax' })
+  ];
+
+  beforeEach(async () => {
+    config = { ...DEFAULT_LOG_CONFIG, logDirectory: await fs.mkdtemp(join(os.tmpdir(), 'dev-log-query-')) };
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(config.logDirectory, { recursive: true, force: true });
+  });
+
+  it('should persist every entry as JSONL next to the Markdown log', async () => {
+    const logger = new DevelopmentLogger(config);
+    for (const stored of [...entries].reverse()) {
+      await logger.storeLogEntry(stored);
+    }
+    await fs.appendFile(join(config.logDirectory, 'dev-log-2026-03-02.jsonl'), '{"truncated\n');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect((await fs.readdir(config.logDirectory)).sort()).toEqual([
+      'dev-log-2026-03-01.jsonl', 'dev-log-2026-03-01.md',
+      'dev-log-2026-03-02.jsonl', 'dev-log-2026-03-02.md',
+      'dev-log-2026-03-04.jsonl', 'dev-log-2026-03-04.md'
+    ]);
+    expect(await logger.readEntries()).toEqual(entries);
+    expect(console.warn).toHaveBeenCalledWith('Skipping unreadable log entry at dev-log-2026-03-02.jsonl:2');
+    expect((await logger.readEntries(new Date('2026-03-02T00:00:00.000Z'), new Date('2026-03-03T00:00:00.000Z'))).map(e => e.id)).toEqual(['signup']);
+  });
+
+  it('should match entries on every given filter', () => {
+    const ids = (query: Parameters<typeof matchesLogQuery>[1]) => entries.filter(e => matchesLogQuery(e, query)).map(e => e.id);
+
+    expect(ids({ author: 'jane' })).toEqual(['login', 'billing']);
+    expect(ids({ commit: '4d316e2a9c1b' })).toEqual(['login']);
+    expect(ids({ commit: '1234' })).toEqual(['signup']);
+    expect(ids({ file: 'src/auth' })).toEqual(['signup']);
+    expect(ids({ file: 'src/**/invoice.ts' })).toEqual(['billing']);
+    expect(ids({ file: 'README.md' })).toEqual(['signup']);
+    expect(ids({ triggerType: 'git-hook' })).toEqual(['login']);
+    expect(ids({ text: 'TAX' })).toEqual(['billing']);
+    expect(ids({ author: 'jane', text: 'loginhandler' })).toEqual(['login']);
+    expect(ids({ from: new Date('2026-03-02T00:00:00.000Z'), to: new Date('2026-03-02T23:59:59.999Z') })).toEqual(['signup']);
+
+    // Every author of a multi-commit range matches
+    const range = { ...entries[0], metadata: { ...entries[0].metadata, authors: ['Ana Ruiz', 'Jane Doe'] } };
+    expect(matchesLogQuery(range, { author: 'ana' })).toBe(true);
+    expect(formatLogTable([range]).split('\n')[1]).toContain('Jane Doe +1');
+  });
+
+  it('should parse command-line filters', () => {
+    expect(parseLogQuery(['--from=2026-03-01', '--to=2026-03-02', '--author=jane', '--trigger=manual', '--grep=auth', '--file=src/', '--commit=abc'])).toEqual({
+      from: new Date('2026-03-01T00:00:00.000Z'),
+      to: new Date('2026-03-02T23:59:59.999Z'),
+      author: 'jane',
+      commit: 'abc',
+      file: 'src/',
+      triggerType: 'manual',
+      text: 'auth'
+    });
+    expect(() => parseLogQuery(['--trigger=cron'])).toThrow('Invalid trigger type: cron');
+    expect(() => parseLogQuery(['--from=2026-03-02', '--to=2026-03-01'])).toThrow('must not be after');
+  });
+
+  it('should print matching entries as a table or JSON', async () => {
+    const logger = new DevelopmentLogger(config);
+    for (const stored of entries) {
+      await logger.storeLogEntry(stored);
+    }
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    expect(await runLogCLI(config, ['--author=jane'])).toBe(0);
+    expect(log.mock.calls[0][0]).toBe(formatLogTable([entries[0], entries[2]]));
+    expect(log.mock.calls[0][0].split('\n')).toEqual([
+      'TIMESTAMP             TRIGGER   COMMIT   AUTHOR    FILES  RATIONALE',
+      '2026-03-01 09:00:00Z  git-hook  4d316e2  Jane Doe  1      Update login',
+      '2026-03-04 18:00:00Z  manual    -        Jane Doe  1      Invoice totals include tax'
+    ]);
+    expect(log.mock.calls[1][0]).toBe('\n2 entries');
+
+    log.mockClear();
+    await runLogCLI(config, ['--format=json', '--limit=1']);
+    expect(JSON.parse(log.mock.calls[0][0])).toEqual([entries[2]]);
+
+    log.mockClear();
+    await runLogCLI(config, ['--grep=nothing-like-this']);
+    expect(log).toHaveBeenCalledWith('No log entries match');
+    await expect(runLogCLI(config, ['--format=xml'])).rejects.toThrow('Invalid log format: xml');
+  });
+});
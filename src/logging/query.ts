@@ -0,0 +1,79 @@
+/**
+ * Filtering and table output for development log entries read back from the JSONL log
+ */
+
+import { matchesGlob } from '../analysis/glob';
+import { LogEntry, LogQuery } from './types';
+
+const SUMMARY_WIDTH = 60;
+
+/**
+ * Check whether an entry matches every filter of a query
+ */
+export function matchesLogQuery(entry: LogEntry, query: LogQuery): boolean {
+  const timestamp = new Date(entry.timestamp).getTime();
+  if (query.from && timestamp < query.from.getTime()) return false;
+  if (query.to && timestamp > query.to.getTime()) return false;
+  if (query.triggerType && entry.metadata.triggerType !== query.triggerType) return false;
+
+  // Any author of the analyzed commits counts, not only the head commit's
+  const authors = [entry.metadata.author, ...(entry.metadata.authors || [])];
+  if (query.author && !authors.some(author => (author || '').toLowerCase().includes(query.author!.toLowerCase()))) {
+    return false;
+  }
+
+  if (query.commit) {
+    // Entries store abbreviated hashes, while queries may use either form
+    const commit = (entry.metadata.commitHash || '').toLowerCase();
+    const wanted = query.commit.toLowerCase();
+    if (!commit || !(commit.startsWith(wanted) || wanted.startsWith(commit))) return false;
+  }
+
+  if (query.file && !entry.affectedFiles.some(file => matchesFile(file, query.file!))) {
+    return false;
+  }
+
+  if (query.text) {
+    const text = query.text.toLowerCase();
+    const haystack = [...entry.changeDescriptions, entry.rationale, ...entry.affectedFiles];
+    if (!haystack.some(value => value.toLowerCase().includes(text))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Entries as a fixed-width table, one row per entry
+ */
+export function formatLogTable(entries: LogEntry[]): string {
+  const rows = entries.map(entry => [
+    entry.timestamp.replace('T', ' ').replace(/\.\d+Z$/, 'Z'),
+    entry.metadata.triggerType,
+    entry.metadata.commitHash || '-',
+    (entry.metadata.author || '-') + ((entry.metadata.authors?.length || 0) > 1 ? ` +${entry.metadata.authors!.length - 1}` : ''),
+    String(entry.affectedFiles.length),
+    truncate(entry.rationale + (entry.groupedChanges?.length ? ` (+${entry.groupedChanges.length} grouped)` : ''), SUMMARY_WIDTH)
+  ]);
+  const header = ['TIMESTAMP', 'TRIGGER', 'COMMIT', 'AUTHOR', 'FILES', 'RATIONALE'];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+
+  return [header, ...rows]
+    .map(row => row.map((value, column) => column === row.length - 1 ? value : value.padEnd(widths[column])).join('  '))
+    .join('\n');
+}
+
+/**
+ * A path matches itself, any directory containing it, and any glob it satisfies
+ */
+function matchesFile(file: string, pattern: string): boolean {
+  const normalizedFile = file.replace(/\\/g, '/').replace(/^\.\//, '');
+  const normalizedPattern = pattern.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+  return normalizedFile === normalizedPattern ||
+    normalizedFile.startsWith(`${normalizedPattern}/`) ||
+    matchesGlob(normalizedFile, normalizedPattern);
+}
+
+function truncate(value: string, width: number): string {
+  const singleLine = value.replace(/\s+/g, ' ').trim();
+  return singleLine.length > width ? `${singleLine.slice(0, width - 1)}…` : singleLine;
+}
@@ -0,0 +1,111 @@
+/**
+ * Tests for development log rollover and retention
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import { join } from 'path';
+import { DevelopmentLogger, DEFAULT_LOG_CONFIG } from './index';
+import { parseLogMarkdown } from './retention';
+import { LogConfig, LogEntry } from './types';
+
+describe('development log retention', () => {
+  let config: LogConfig;
+
+  const entry = (id: string, timestamp: string, author = 'Jane Doe', files = [`src/${id}.ts`]): LogEntry => ({
+    id,
+    timestamp,
+    sessionId: 'session-1',
+    changeDescriptions: [`API change: ${id} (function)`],
+    affectedFiles: files,
+    rationale: `Update ${id}`,
+    metadata: {
+      triggerType: id.startsWith('hook') ? 'git-hook' : 'manual',
+      commitHash: `c0${id.length}ffee`,
+      author,
+      version: '1.0.0',
+      analysisTime: 10
+    }
+  });
+
+  beforeEach(async () => {
+    config = { ...DEFAULT_LOG_CONFIG, logDirectory: await fs.mkdtemp(join(os.tmpdir(), 'dev-log-retention-')) };
+  });
+
+  afterEach(async () => {
+    await fs.rm(config.logDirectory, { recursive: true, force: true });
+  });
+
+  it('should roll a day over into numbered parts once a file holds maxEntriesPerFile entries', async () => {
+    const logger = new DevelopmentLogger({ ...config, maxEntriesPerFile: 2 });
+    const stored = ['a', 'b', 'c', 'd', 'e'].map((id, i) => entry(id, `2026-03-01T0${i}:00:00.000Z`));
+    for (const e of stored) {
+      await logger.storeLogEntry(e);
+    }
+
+    expect((await fs.readdir(config.logDirectory)).sort()).toEqual([
+      'dev-log-2026-03-01-2.md', 'dev-log-2026-03-01-3.md', 'dev-log-2026-03-01.jsonl', 'dev-log-2026-03-01.md'
+    ]);
+    const part = async (name: string) => parseLogMarkdown(await fs.readFile(join(config.logDirectory, name), 'utf-8'));
+    expect((await part('dev-log-2026-03-01.md')).map(e => e.rationale)).toEqual(['Update a', 'Update b']);
+    expect((await part('dev-log-2026-03-01-2.md')).map(e => e.rationale)).toEqual(['Update c', 'Update d']);
+    expect((await part('dev-log-2026-03-01-3.md')).map(e => e.rationale)).toEqual(['Update e']);
+    expect(await logger.readEntries()).toEqual(stored);
+  });
+
+  it('should compact expired days into a monthly summary before deleting them', async () => {
+    const logger = new DevelopmentLogger({ ...config, maxEntriesPerFile: 2, retentionDays: 30 });
+    await logger.storeLogEntry(entry('login', '2026-01-10T09:00:00.000Z'));
+    await logger.storeLogEntry(entry('hook-signup', '2026-01-10T10:00:00.000Z', 'Sam Lee', ['src/auth/signup.ts', 'README.md']));
+    await logger.storeLogEntry(entry('logout', '2026-01-10T11:00:00.000Z'));
+    await logger.storeLogEntry(entry('billing', '2026-01-20T09:00:00.000Z', 'Sam Lee'));
+    await logger.storeLogEntry(entry('invoice', '2026-03-01T09:00:00.000Z'));
+
+    const result = await logger.pruneExpiredLogs(new Date('2026-03-05T12:00:00.000Z'));
+
+    expect(result).toEqual({ compactedDays: ['2026-01-10', '2026-01-20'], summaryFiles: ['dev-log-2026-01-summary.md'] });
+    expect((await fs.readdir(config.logDirectory)).sort()).toEqual([
+      'dev-log-2026-01-summary.md', 'dev-log-2026-03-01.jsonl', 'dev-log-2026-03-01.md'
+    ]);
+    expect((await logger.readEntries()).map(e => e.id)).toEqual(['invoice']);
+
+    const summary = await fs.readFile(join(config.logDirectory, 'dev-log-2026-01-summary.md'), 'utf-8');
+    expect(summary).toMatch(/^# Development Log Summary: 2026-01\n/);
+    expect(summary).toContain([
+      '## 2026-01-10',
+      '',
+      '- Entries: 3 (2 manual, 1 git-hook)',
+      '- Authors: Jane Doe, Sam Lee',
+      '- Commits: c05ffee, c011ffee, c06ffee',
+      '- Files changed: 4',
+      '  - src/login.ts',
+      '  - src/auth/signup.ts',
+      '  - README.md',
+      '  - src/logout.ts',
+      '- Changes: 3'
+    ].join('\n'));
+    expect(summary).toContain('## 2026-01-20\n\n- Entries: 1 (1 manual)\n- Authors: Sam Lee');
+
+    // Nothing left to do, and the summary is not rewritten
+    expect(await logger.pruneExpiredLogs(new Date('2026-03-05T12:00:00.000Z'))).toEqual({ compactedDays: [], summaryFiles: [] });
+    expect(await fs.readFile(join(config.logDirectory, 'dev-log-2026-01-summary.md'), 'utf-8')).toBe(summary);
+  });
+
+  it('should not summarise a day twice when an interrupted prune is repeated', async () => {
+    const logger = new DevelopmentLogger({ ...config, retentionDays: 30 });
+    await logger.storeLogEntry(entry('login', '2026-01-10T09:00:00.000Z'));
+    const dayFile = join(config.logDirectory, 'dev-log-2026-01-10.md');
+    const markdown = await fs.readFile(dayFile, 'utf-8');
+
+    await logger.pruneExpiredLogs(new Date('2026-03-05T12:00:00.000Z'));
+    // As if the previous run stopped after writing the summary
+    await fs.writeFile(dayFile, markdown);
+    await logger.pruneExpiredLogs(new Date('2026-03-05T12:00:00.000Z'));
+
+    const summary = await fs.readFile(join(config.logDirectory, 'dev-log-2026-01-summary.md'), 'utf-8');
+    expect(summary.match(/^## 2026-01-10$/gm)).toHaveLength(1);
+    expect(await fs.readdir(config.logDirectory)).toEqual(['dev-log-2026-01-summary.md']);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Retention of the development log
+ *
+ * Daily log files older than `retentionDays` are compacted into a summary per month,
+ * `dev-log-YYYY-MM-summary.md`, and then deleted. The summary keeps what each expired day
+ * touched (entries, authors, commits, files, changes and rationale) without the full entries.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+/** Daily Markdown parts (`dev-log-YYYY-MM-DD.md`, `dev-log-YYYY-MM-DD-2.md`, ...) and JSONL files */
+export const DAILY_LOG_FILE_PATTERN = /^dev-log-(\d{4}-\d{2}-\d{2})(?:-(\d+))?\.(md|jsonl)$/;
+
+const MAX_LISTED_FILES = 20;
+const MAX_LISTED_CHANGES = 20;
+const MAX_LISTED_RATIONALES = 10;
+
+export interface LogPruneResult {
+  /** Days whose files were compacted and deleted, oldest first */
+  compactedDays: string[];
+  /** Monthly summary files written to */
+  summaryFiles: string[];
+}
+
+/**
+ * Fields of a Markdown log entry that a summary keeps
+ */
+interface SummarizedEntry {
+  triggerType?: string;
+  author?: string;
+  commit?: string;
+  rationale?: string;
+  changes: string[];
+  files: string[];
+}
+
+/**
+ * Compact the daily files of days before the retention period into monthly summaries, then
+ * delete them. A summary is written before any file of its days is deleted, and days already in
+ * a summary are not added twice, so an interrupted run can simply be repeated.
+ */
+export async function compactExpiredLogs(logDirectory: string, retentionDays: number, now: Date = new Date()): Promise<LogPruneResult> {
+  const result: LogPruneResult = { compactedDays: [], summaryFiles: [] };
+  const cutoffDay = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+  let files: string[];
+  try {
+    files = await fs.readdir(logDirectory);
+  } catch {
+    return result;
+  }
+
+  // Files of each expired day, Markdown parts in order
+  const expired = new Map<string, string[]>();
+  for (const file of files) {
+    const day = file.match(DAILY_LOG_FILE_PATTERN)?.[1];
+    if (day && day < cutoffDay) {
+      expired.set(day, [...(expired.get(day) || []), file]);
+    }
+  }
+
+  for (const day of [...expired.keys()].sort()) {
+    const dayFiles = expired.get(day)!.sort((a, b) => partNumber(a) - partNumber(b));
+    const entries: SummarizedEntry[] = [];
+    for (const file of dayFiles.filter(f => f.endsWith('.md'))) {
+      entries.push(...parseLogMarkdown(await fs.readFile(join(logDirectory, file), 'utf-8')));
+    }
+
+    const summaryFile = `dev-log-${day.slice(0, 7)}-summary.md`;
+    await appendDaySummary(join(logDirectory, summaryFile), day, entries);
+    for (const file of dayFiles) {
+      await fs.rm(join(logDirectory, file), { force: true });
+    }
+
+    result.compactedDays.push(day);
+    if (!result.summaryFiles.includes(summaryFile)) {
+      result.summaryFiles.push(summaryFile);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read the entries of a Markdown log file back, as far as a summary needs them
+ */
+export function parseLogMarkdown(content: string): SummarizedEntry[] {
+  return content.split(/^## Log Entry: /m).slice(1).map(block => ({
+    triggerType: matchLine(block, /^\*\*Trigger:\*\* (.+)$/m),
+    author: optional(matchLine(block, /^- Author: (.+)$/m), 'Unknown'),
+    commit: optional(matchLine(block, /^- Commit: (.+)$/m), 'N/A'),
+    rationale: matchLine(block, /^\*\*Rationale:\*\* (.+)$/m),
+    changes: listAfter(block, '**Changes:**'),
+    files: listAfter(block, '**Affected Files:**')
+  }));
+}
+
+async function appendDaySummary(summaryPath: string, day: string, entries: SummarizedEntry[]): Promise<void> {
+  let existing: string | undefined;
+  try {
+    existing = await fs.readFile(summaryPath, 'utf-8');
+  } catch {
+    existing = undefined;
+  }
+  if (existing?.includes(`\n## ${day}\n`)) {
+    return;
+  }
+
+  const header = `# Development Log Summary: ${day.slice(0, 7)}\n\n` +
+    'Daily development logs past the retention period, compacted to what each day changed.\n';
+  await fs.appendFile(summaryPath, (existing === undefined ? header : '') + '\n' + formatDaySummary(day, entries));
+}
+
+function formatDaySummary(day: string, entries: SummarizedEntry[]): string {
+  const triggers = countBy(entries.map(entry => entry.triggerType || 'unknown'));
+  const authors = unique(entries.map(entry => entry.author));
+  const commits = unique(entries.map(entry => entry.commit));
+  const files = unique(entries.flatMap(entry => entry.files));
+  const changes = unique(entries.flatMap(entry => entry.changes));
+  const rationales = unique(entries.map(entry => entry.rationale));
+
+  const lines = [
+    `## ${day}`,
+    '',
+    `- Entries: ${entries.length}${triggers.length > 0 ? ` (${triggers.map(([trigger, count]) => `${count} ${trigger}`).join(', ')})` : ''}`,
+    `- Authors: ${authors.join(', ') || 'Unknown'}`,
+    `- Commits: ${commits.join(', ') || 'N/A'}`,
+    `- Files changed: ${files.length}`,
+    ...listItems(files, MAX_LISTED_FILES),
+    `- Changes: ${changes.length}`,
+    ...listItems(changes, MAX_LISTED_CHANGES),
+    '- Rationale:',
+    ...listItems(rationales, MAX_LISTED_RATIONALES)
+  ];
+  return lines.join('\n') + '\n';
+}
+
+function listItems(items: string[], max: number): string[] {
+  const listed = items.slice(0, max).map(item => `  - ${item}`);
+  return items.length > max ? [...listed, `  - … and ${items.length - max} more`] : listed;
+}
+
+function matchLine(block: string, pattern: RegExp): string | undefined {
+  return block.match(pattern)?.[1].trim();
+}
+
+function optional(value: string | undefined, placeholder: string): string | undefined {
+  return value === placeholder ? undefined : value;
+}
+
+/**
+ * The `- item` lines directly below a section label; `**Label:** None` has none
+ */
+function listAfter(block: string, label: string): string[] {
+  const start = block.indexOf(`${label}\n`);
+  if (start === -1) {
+    return [];
+  }
+
+  const items: string[] = [];
+  for (const line of block.slice(start + label.length + 1).split('\n')) {
+    if (!line.startsWith('- ')) break;
+    items.push(line.slice(2).trim());
+  }
+  return items;
+}
+
+function unique(values: Array<string | undefined>): string[] {
+  return [...new Set(values.filter((value): value is string => Boolean(value)))];
+}
+
+function countBy(values: string[]): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts];
+}
+
+function partNumber(file: string): number {
+  const match = file.match(DAILY_LOG_FILE_PATTERN);
+  return match?.[2] ? Number(match[2]) : 1;
+}
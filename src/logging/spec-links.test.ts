@@ -0,0 +1,131 @@
+/**
+ * Tests for linking development log entries to Kiro spec tasks
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import { join } from 'path';
+import { findSpecReferences, formatSpecReference, loadSpecs, parseSpecTasks, tickSpecTasks } from './spec-links';
+import { RunJournal } from '../output/journal';
+
+describe('spec task links', () => {
+  const searchTasks = [
+    '# Search Implementation Plan',
+    '',
+    '- [x] 1. Set up the search index',
+    '  - Create `src/search/index.ts` and the indexer',
+    '  - _Requirements: 1.1, 1.2_',
+    '',
+    '- [ ] 1.1 Write property test for indexing',
+    '  - **Property 1: Indexed entries are searchable**',
+    '  - **Validates: Requirements 1.1**',
+    '',
+    '- [ ] 2. Rank search results',
+    '  - Implement scoring in ranking.ts',
+    '  - _Requirements: 2.1_',
+    ''
+  ].join('\n');
+
+  const billingTasks = [
+    '# Billing Implementation Plan',
+    '',
+    '- [ ] 1. Create invoices',
+    '  - _Requirements: 1.1_',
+    '',
+    '- [ ] 3. Send reminders',
+    '  - _Requirements: 3.2_',
+    ''
+  ].join('\n');
+
+  let specsDirectory: string;
+
+  beforeEach(async () => {
+    specsDirectory = await fs.mkdtemp(join(os.tmpdir(), 'dev-log-specs-'));
+    await fs.mkdir(join(specsDirectory, 'search'));
+    await fs.writeFile(join(specsDirectory, 'search', 'tasks.md'), searchTasks);
+    await fs.mkdir(join(specsDirectory, 'billing'));
+    await fs.writeFile(join(specsDirectory, 'billing', 'tasks.md'), billingTasks);
+    await fs.writeFile(join(specsDirectory, 'billing', 'design.md'), '### Invoice Store\n\nPersists invoices in `src/billing/store.ts`.\n');
+    await fs.writeFile(join(specsDirectory, 'api.md'), '# Not a spec\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(specsDirectory, { recursive: true, force: true });
+  });
+
+  it('should parse numbered tasks with their state and requirements', async () => {
+    expect(parseSpecTasks(searchTasks).map(({ id, title, done, requirements }) => ({ id, title, done, requirements }))).toEqual([
+      { id: '1', title: 'Set up the search index', done: true, requirements: ['1.1', '1.2'] },
+      { id: '1.1', title: 'Write property test for indexing', done: false, requirements: ['1.1'] },
+      { id: '2', title: 'Rank search results', done: false, requirements: ['2.1'] }
+    ]);
+
+    const specs = await loadSpecs(specsDirectory);
+    expect(specs.map(spec => spec.name)).toEqual(['billing', 'search']);
+    expect(await loadSpecs(join(specsDirectory, 'missing'))).toEqual([]);
+  });
+
+  it('should find tasks and requirements in commit messages, scoped to the specs they name', async () => {
+    const specs = await loadSpecs(specsDirectory);
+
+    expect(findSpecReferences(specs, ['Add ranking (task 2, Requirements 2.1)', 'Finish tasks 1.1 and 3'], [])).toEqual([
+      { spec: 'search', task: '2', title: 'Rank search results', requirements: ['2.1'], source: 'commit-message' },
+      { spec: 'search', requirements: ['2.1'], source: 'commit-message' },
+      { spec: 'search', task: '1.1', title: 'Write property test for indexing', requirements: ['1.1'], source: 'commit-message' },
+      { spec: 'billing', task: '3', title: 'Send reminders', requirements: ['3.2'], source: 'commit-message' }
+    ]);
+
+    // Both specs have a task 1 and a requirement 1.1 unless the message names one
+    expect(findSpecReferences(specs, ['Complete task 1 for requirement 1.1'], [])).toEqual([]);
+    expect(findSpecReferences(specs, ['billing: complete task 1 for requirement 1.1'], [])).toEqual([
+      { spec: 'billing', task: '1', title: 'Create invoices', requirements: ['1.1'], source: 'commit-message' },
+      { spec: 'billing', requirements: ['1.1'], source: 'commit-message' }
+    ]);
+  });
+
+  it('should link changed files to the tasks or designs that mention them', async () => {
+    const specs = await loadSpecs(specsDirectory);
+
+    expect(findSpecReferences(specs, ['task 2'], ['src/search/index.ts', './src/search/ranking.ts', 'src/billing/store.ts', 'src/other/index.ts'])).toEqual([
+      { spec: 'search', task: '2', title: 'Rank search results', requirements: ['2.1'], source: 'commit-message' },
+      { spec: 'search', task: '1', title: 'Set up the search index', requirements: ['1.1', '1.2'], source: 'changed-file' },
+      { spec: 'billing', requirements: [], source: 'changed-file' }
+    ]);
+    expect(formatSpecReference({ spec: 'search', task: '2', title: 'Rank search results', requirements: ['2.1'], source: 'commit-message' }))
+      .toBe('search 2: Rank search results (Requirements 2.1)');
+    expect(formatSpecReference({ spec: 'billing', requirements: ['1.1'], source: 'commit-message' })).toBe('billing Requirements 1.1');
+  });
+
+  it('should tick the open tasks commit messages reference, linking the log entry', async () => {
+    const specs = await loadSpecs(specsDirectory);
+    const references = findSpecReferences(specs, ['search: tasks 1, 1.1 and 2'], ['src/billing/store.ts']);
+    const logFilePath = join(specsDirectory, '..', 'development-log', 'dev-log-2026-03-09.md');
+
+    expect(await tickSpecTasks(specs, references, 'entry-123-ABC', logFilePath)).toEqual(['search 1.1', 'search 2']);
+
+    const tasks = await fs.readFile(join(specsDirectory, 'search', 'tasks.md'), 'utf-8');
+    expect(tasks).toContain('- [x] 1. Set up the search index\n');
+    expect(tasks).toContain('- [x] 1.1 Write property test for indexing ([log](../../development-log/dev-log-2026-03-09.md#log-entry-entry-123-abc))\n');
+    expect(tasks).toContain('- [x] 2. Rank search results ([log](../../development-log/dev-log-2026-03-09.md#log-entry-entry-123-abc))\n');
+    expect(await fs.readFile(join(specsDirectory, 'billing', 'tasks.md'), 'utf-8')).toBe(billingTasks);
+
+    // Ticked tasks stay as they are
+    expect(await tickSpecTasks(await loadSpecs(specsDirectory), references, 'entry-456', logFilePath)).toEqual([]);
+  });
+
+  it('should journal the ticks so rolling the run back unticks them', async () => {
+    const journal = new RunJournal(specsDirectory, '.journal');
+    const session = journal.begin('session-1');
+    const specs = await loadSpecs(specsDirectory);
+    const references = findSpecReferences(specs, ['search: task 2'], []);
+
+    expect(await tickSpecTasks(specs, references, 'entry-123', join(specsDirectory, 'dev-log.md'), session)).toEqual(['search 2']);
+    await session.commit();
+    expect(session.files.map(file => file.filePath)).toEqual(['search/tasks.md']);
+
+    expect(await journal.rollback('session-1')).toMatchObject({ success: true, restoredFiles: ['search/tasks.md'] });
+    expect(await fs.readFile(join(specsDirectory, 'search', 'tasks.md'), 'utf-8')).toBe(searchTasks);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Links between development log entries and the tasks of Kiro specs
+ * (`.kiro/specs/<spec>/tasks.md`): references found in commit messages and changed files, and
+ * ticking the referenced tasks
+ */
+
+import { promises as fs } from 'fs';
+import { basename, dirname, join, posix, relative } from 'path';
+import { SpecReference } from './types';
+import { JournalSession } from '../output/journal';
+
+const TASK_LINE_PATTERN = /^(\s*)- \[( |x|X)\] (\d+(?:\.\d+)*)\.? (.+)$/;
+const TASK_REQUIREMENTS_PATTERN = /(?:_Requirements:|Validates: Requirements)\s+(\d+(?:\.\d+)*(?:\s*,\s*\d+(?:\.\d+)*)*)/;
+const NUMBER_LIST = String.raw`#?\d+(?:\.\d+)*(?:\s*(?:,|&|and)\s*#?\d+(?:\.\d+)*)*`;
+const COMMIT_TASK_PATTERN = new RegExp(String.raw`\btasks?\s+(${NUMBER_LIST})`, 'gi');
+const COMMIT_REQUIREMENT_PATTERN = new RegExp(String.raw`\b(?:requirements?|reqs?)\.?\s+(${NUMBER_LIST})`, 'gi');
+
+export interface SpecTask {
+  /** Task number, e.g. `3.2` */
+  id: string;
+  title: string;
+  done: boolean;
+  /** Requirements the task lists under `_Requirements:_` or `**Validates: Requirements**` */
+  requirements: string[];
+  /** The task line and its sub-bullets */
+  text: string;
+}
+
+export interface Spec {
+  /** Directory name of the spec */
+  name: string;
+  tasksPath: string;
+  tasks: SpecTask[];
+  /** Content of `design.md`, empty without one */
+  design: string;
+}
+
+/**
+ * The specs under `specsDirectory` that have a `tasks.md`; none when the directory is missing
+ */
+export async function loadSpecs(specsDirectory: string): Promise<Spec[]> {
+  let names: string[];
+  try {
+    names = (await fs.readdir(specsDirectory, { withFileTypes: true }))
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort();
+  } catch {
+    return [];
+  }
+
+  const specs: Spec[] = [];
+  for (const name of names) {
+    const tasksPath = join(specsDirectory, name, 'tasks.md');
+    const tasks = await readOptional(tasksPath);
+    if (tasks === undefined) continue;
+    specs.push({ name, tasksPath, tasks: parseSpecTasks(tasks), design: (await readOptional(join(specsDirectory, name, 'design.md'))) || '' });
+  }
+  return specs;
+}
+
+/**
+ * The numbered checkbox tasks of a tasks.md, with the requirements each lists
+ */
+export function parseSpecTasks(markdown: string): SpecTask[] {
+  const tasks: SpecTask[] = [];
+  let current: { task: SpecTask; indent: number } | undefined;
+
+  for (const line of markdown.split('\n')) {
+    const match = line.match(TASK_LINE_PATTERN);
+    if (match) {
+      current = {
+        task: { id: match[3], title: match[4].trim(), done: match[2] !== ' ', requirements: [], text: line },
+        indent: match[1].length
+      };
+      tasks.push(current.task);
+      continue;
+    }
+    if (!current || (line.trim() && line.length - line.trimStart().length <= current.indent)) {
+      current = undefined;
+      continue;
+    }
+
+    current.task.text += '\n' + line;
+    const requirements = line.match(TASK_REQUIREMENTS_PATTERN);
+    if (requirements) {
+      current.task.requirements.push(...parseNumbers(requirements[1]).filter(id => !current!.task.requirements.includes(id)));
+    }
+  }
+  return tasks;
+}
+
+/**
+ * Spec tasks and requirements an entry works on. Commit messages reference them as "task 3.2",
+ * "tasks 1 and 2" or "Requirements 1.3, 1.4", scoped to the specs the message names; a number
+ * that more than one candidate spec has is ambiguous and skipped. Changed files reference the
+ * tasks that mention their path or file name, and otherwise the specs whose design does.
+ */
+export function findSpecReferences(specs: Spec[], commitMessages: string[], affectedFiles: string[]): SpecReference[] {
+  const references: SpecReference[] = [];
+  const add = (reference: SpecReference) => {
+    const duplicate = references.some(existing => existing.spec === reference.spec &&
+      (reference.task ? existing.task === reference.task : !existing.task && sameItems(existing.requirements, reference.requirements)));
+    if (!duplicate) references.push(reference);
+  };
+
+  for (const message of commitMessages) {
+    const named = specs.filter(spec => new RegExp(`(?<![\\w-])${escapeRegExp(spec.name)}(?![\\w-])`, 'i').test(message));
+    const candidates = named.length > 0 ? named : specs;
+
+    for (const id of matchNumbers(message, COMMIT_TASK_PATTERN)) {
+      const matches = candidates.flatMap(spec => spec.tasks.filter(task => task.id === id).map(task => ({ spec, task })));
+      if (matches.length === 1) {
+        const { spec, task } = matches[0];
+        add({ spec: spec.name, task: task.id, title: task.title, requirements: task.requirements, source: 'commit-message' });
+      }
+    }
+
+    const requirements = new Map<string, string[]>();
+    for (const id of matchNumbers(message, COMMIT_REQUIREMENT_PATTERN)) {
+      const owners = candidates.filter(spec => spec.tasks.some(task => task.requirements.includes(id)));
+      if (owners.length === 1) {
+        requirements.set(owners[0].name, [...(requirements.get(owners[0].name) || []), id]);
+      }
+    }
+    requirements.forEach((ids, spec) => add({ spec, requirements: ids, source: 'commit-message' }));
+  }
+
+  for (const file of affectedFiles.map(normalizePath)) {
+    for (const spec of specs) {
+      const tasks = spec.tasks.filter(task => mentionsFile(task.text, file));
+      tasks.forEach(task => add({ spec: spec.name, task: task.id, title: task.title, requirements: task.requirements, source: 'changed-file' }));
+      if (tasks.length === 0 && mentionsFile(spec.design, file) && !references.some(reference => reference.spec === spec.name)) {
+        add({ spec: spec.name, requirements: [], source: 'changed-file' });
+      }
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Tick the open tasks a commit message referenced, appending a link to the entry in the log
+ * file. Tasks found through changed files are only linked on the entry, never ticked. With a
+ * journal session, the tasks.md writes are journaled so rolling the run back unticks them.
+ * Returns the ticked tasks as `spec task` labels.
+ */
+export async function tickSpecTasks(
+  specs: Spec[],
+  references: SpecReference[],
+  entryId: string,
+  logFilePath: string,
+  journal?: JournalSession
+): Promise<string[]> {
+  const ticked: string[] = [];
+
+  for (const spec of specs) {
+    const ids = references
+      .filter(reference => reference.spec === spec.name && reference.task && reference.source === 'commit-message')
+      .map(reference => reference.task!);
+    if (ids.length === 0) continue;
+
+    const link = `${relative(dirname(spec.tasksPath), logFilePath).split(/[\\/]/).join('/')}#log-entry-${entryId.toLowerCase()}`;
+    const lines = (await fs.readFile(spec.tasksPath, 'utf-8')).split('\n');
+    let changed = false;
+    lines.forEach((line, index) => {
+      const match = line.match(TASK_LINE_PATTERN);
+      if (match && match[2] === ' ' && ids.includes(match[3])) {
+        lines[index] = `${line.replace('- [ ]', '- [x]').trimEnd()} ([log](${link}))`;
+        ticked.push(`${spec.name} ${match[3]}`);
+        changed = true;
+      }
+    });
+    if (changed) {
+      const content = lines.join('\n');
+      await journal?.beforeWrite(spec.tasksPath);
+      await fs.writeFile(spec.tasksPath, content);
+      await journal?.afterWrite(spec.tasksPath, content);
+    }
+  }
+
+  return ticked;
+}
+
+/**
+ * A reference as a line of the Markdown log, e.g. `auto-doc-sync 3.2: Write property test
+ * (Requirements 3.1, 3.2)`
+ */
+export function formatSpecReference(reference: SpecReference): string {
+  const requirements = reference.requirements.length > 0 ? `Requirements ${reference.requirements.join(', ')}` : '';
+  if (!reference.task) {
+    return `${reference.spec}${requirements ? ` ${requirements}` : ''}`;
+  }
+  return `${reference.spec} ${reference.task}: ${reference.title}${requirements ? ` (${requirements})` : ''}`;
+}
+
+function matchNumbers(message: string, pattern: RegExp): string[] {
+  return unique([...message.matchAll(pattern)].flatMap(match => parseNumbers(match[1])));
+}
+
+function parseNumbers(list: string): string[] {
+  return list.match(/\d+(?:\.\d+)*/g) || [];
+}
+
+/**
+ * Whether Markdown mentions the file by path, or by name unless that is an `index` file
+ */
+function mentionsFile(markdown: string, file: string): boolean {
+  if (!markdown) return false;
+  const name = basename(file);
+  const names = name.startsWith('index.') || name === file ? [file] : [file, name];
+  return names.some(candidate => new RegExp(`(?<![\\w./-])${escapeRegExp(candidate)}(?![\\w/-])`).test(markdown));
+}
+
+function normalizePath(file: string): string {
+  return posix.normalize(file.replace(/\\/g, '/')).replace(/^\.\//, '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function sameItems(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(item => b.includes(item));
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+async function readOptional(path: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(path, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
@@ -2,6 +2,9 @@
  * Development logging system types
  */
 
+import { AIFidelityReport } from '../types';
+import { CommitRange } from '../git/types';
+
 export interface LogEntry {
   id: string;
   timestamp: string;
@@ -11,14 +14,73 @@ export interface LogEntry {
   rationale: string;
   metadata: LogMetadata;
   groupedChanges?: LogEntry[];
+  /** Spec tasks and requirements the entry works on; absent when none were found */
+  specReferences?: SpecReference[];
+}
+
+/**
+ * A task or requirements of a Kiro spec (`.kiro/specs/<spec>/tasks.md`) that an entry works on
+ */
+export interface SpecReference {
+  /** Directory name of the spec, e.g. `auto-doc-sync` */
+  spec: string;
+  /** Task number, e.g. `3.2`; absent when only requirements were referenced */
+  task?: string;
+  /** Task title, without its number */
+  title?: string;
+  /** Requirement numbers named in the commit message, or listed by the task */
+  requirements: string[];
+  /** A commit message named it, or a changed file is mentioned by the task or design */
+  source: 'commit-message' | 'changed-file';
 }
 
 export interface LogMetadata {
   triggerType: 'git-hook' | 'manual';
+  /** Abbreviated head of the analyzed range, or HEAD for working-tree runs */
   commitHash?: string;
+  /** The analyzed commits, as full hashes; absent for working-tree runs */
+  commitRange?: { base: string; head: string; commits: number };
+  /** Checked-out branch; absent on a detached HEAD */
+  branch?: string;
+  /** Author of the head commit, or the git user for working-tree runs */
   author?: string;
+  /** Every author in the analyzed range, oldest first */
+  authors?: string[];
+  /** Committer of the head commit */
+  committer?: string;
+  /** Version of auto-doc-sync that wrote the entry */
   version: string;
+  /** Duration of the run until the entry was created, in milliseconds */
   analysisTime: number;
+  /** Agreement of the AI-reported symbols with the parsed source, when AI analysis ran */
+  aiFidelity?: AIFidelityReport;
+}
+
+/**
+ * What the caller knows about the run an entry describes
+ */
+export interface LogEntryContext {
+  /** Commits the run analyzed; absent when it analyzed files or the working tree */
+  commitRange?: CommitRange;
+  /** How long the run has taken so far, in milliseconds */
+  durationMs?: number;
+}
+
+/**
+ * Filters for reading the development log back; an entry must match every filter given
+ */
+export interface LogQuery {
+  from?: Date;
+  to?: Date;
+  /** Part of the author name, case-insensitive */
+  author?: string;
+  /** Commit hash, full or abbreviated */
+  commit?: string;
+  /** Path, directory or glob matched against the affected files */
+  file?: string;
+  triggerType?: LogMetadata['triggerType'];
+  /** Text searched, case-insensitive, in the change descriptions, rationale and affected files */
+  text?: string;
 }
 
 export interface LogSession {
@@ -34,9 +96,66 @@ export interface LogConfig {
   maxEntriesPerFile: number;
   retentionDays: number;
   groupingTimeWindow: number; // minutes
+  /** Length of a sprint for sprint digests, in days */
+  sprintLengthDays?: number;
+  /** First day (YYYY-MM-DD) of any sprint; sprints repeat from it. Without it, a sprint digest
+   *  covers the last `sprintLengthDays` days. */
+  sprintStart?: string;
+  /** Directory of the Kiro specs entries are linked to, relative to the workspace */
+  specsDirectory?: string;
+  /** Tick the `- [ ]` tasks a commit message references, with a link to the entry */
+  tickSpecTasks?: boolean;
 }
 
 export interface LogFormatter {
   formatEntry(entry: LogEntry): string;
   formatSession(session: LogSession): string;
-}
\ No newline at end of file
+}
+export type DigestPeriod = 'week' | 'sprint' | 'custom';
+
+/**
+ * What to aggregate into a digest: the period's range is resolved before the entries are read
+ */
+export interface LogDigestOptions {
+  period: DigestPeriod;
+  from: Date;
+  to: Date;
+  /** Ask the subagent for the summary instead of writing it locally */
+  ai?: boolean;
+}
+
+/**
+ * Development log entries of a period, aggregated for reading
+ */
+export interface LogDigest {
+  period: DigestPeriod;
+  from: string;
+  to: string;
+  generatedAt: string;
+  entryCount: number;
+  authors: string[];
+  commits: string[];
+  /** Directories changed in the most entries */
+  topComponents: Array<{ component: string; entries: number; files: number }>;
+  newFeatures: string[];
+  removedComponents: string[];
+  /** API symbols by how often they changed, most first */
+  apiChurn: Array<{ name: string; changes: number }>;
+  breakingChanges: string[];
+  /** AI spending recorded by the usage tracker over the period */
+  cost: { sessions: number; tokens: number; estimatedCost: number };
+}
+
+export interface DigestSummary {
+  /** One or two Markdown paragraphs */
+  summary: string;
+  highlights: string[];
+}
+
+export interface LogDigestResult {
+  digest: LogDigest;
+  /** Path of the written digest file */
+  path: string;
+  /** Where the summary came from; 'local' also when the AI summary was asked for but unavailable */
+  summarySource: 'ai' | 'local';
+}
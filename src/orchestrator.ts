@@ -7,17 +7,29 @@ import * as path from 'path';
 import { CodeAnalyzer } from './analysis/analyzer';
 import { TemplateEngine } from './templates/engine';
 import { OutputManager } from './output/manager';
+import { parseManagedRegions, renderManagedRegion } from './output/managed-regions';
+import { RunJournal, JournalSession } from './output/journal';
+import { SyncMarkerStore, CommitRange, resolveCommitRange, getRangeDiff, getCommitMessages, isAncestor, formatCommitRange } from './git';
 import { HookManager } from './hooks/manager';
 import { DevelopmentLogger } from './logging/logger';
-import { SubagentIntegration } from './subagent/integration';
+import { buildLogDigest, formatDigestMarkdown, summarizeDigestLocally, writeDigest } from './logging/digest';
+import { DigestSummary, LogDigest, LogDigestOptions, LogDigestResult, LogEntry, LogEntryContext } from './logging/types';
+import { SubagentIntegration, SubagentPreflight } from './subagent/integration';
 import { SubagentConfigManager } from './subagent/config-manager';
+import { ResponseCache } from './subagent/cache';
+import { Redactor } from './subagent/redaction';
+import { ResponseCacheConfig, RedactionConfig, DEFAULT_RESPONSE_CACHE_CONFIG, DEFAULT_REDACTION_CONFIG, DEFAULT_LOG_DIGEST_PROMPT } from './subagent/types';
 import { ConfigManager } from './config';
 import { UsageTracker, UsageConfig, DEFAULT_USAGE_CONFIG } from './usage';
-import { ChangeAnalysis, DocumentationRequirement } from './types';
+import { ChangeAnalysis, DocumentationRequirement, SymbolDelta, BreakingChange, SemverBump } from './types';
 import { AnalysisConfig } from './analysis/types';
-import { OutputConfig } from './output/types';
+import { BudgetExceededError } from './templates/errors';
+import { OutputConfig, DocumentationPreview } from './output/types';
 import { DEFAULT_LOG_CONFIG } from './logging';
 
+/** Managed region holding a generated README; the whole README is only regenerated inside it */
+const README_REGION_ID = 'readme';
+
 export interface SystemConfig {
   workspaceRoot?: string;
   analysis: AnalysisConfig;
@@ -27,11 +39,23 @@ export interface SystemConfig {
     maxEntriesPerFile: number;
     retentionDays: number;
     groupingTimeWindow: number;
+    /** Sprint length in days for `log digest --period=sprint` */
+    sprintLengthDays?: number;
+    /** First day (YYYY-MM-DD) of any sprint, to align sprint digests with the team's sprints */
+    sprintStart?: string;
+    /** Kiro specs whose tasks log entries are linked to (default `.kiro/specs`) */
+    specsDirectory?: string;
+    /** Tick the spec tasks commit messages reference (default false) */
+    tickSpecTasks?: boolean;
   };
   usage: UsageConfig;
   subagent: {
     enabled: boolean;
     configPath?: string;
+    /** Disk cache of LLM responses, keyed by the full request */
+    cache?: Partial<ResponseCacheConfig>;
+    /** Secrets and personal data removed from requests before they are sent */
+    redaction?: Partial<RedactionConfig>;
   };
   hooks: {
     enabled: boolean;
@@ -44,6 +68,25 @@ export interface RunOptions {
   configPath?: string;
   targetFiles?: string[];
   reason?: string;
+  allowBreaking?: boolean;
+  /** Run the full pipeline but preview documentation writes as unified diffs instead of applying them */
+  dryRun?: boolean;
+  /** In dry-run mode, also write the previewed diffs to this patch file for `git apply` */
+  patchFile?: string;
+  /** Analyze the commits after this ref up to HEAD instead of the default changes */
+  since?: string;
+  /** Analyze the commits in `<base>..<head>` instead of the default changes */
+  range?: string;
+  /** Send every subagent request to the LLM provider, bypassing the response cache */
+  noCache?: boolean;
+}
+
+export interface RunResult {
+  breakingChanges: BreakingChange[];
+  semverRecommendation: SemverBump;
+  breakingChangesAnnounced: boolean;
+  /** Pending documentation changes, only set for dry runs */
+  documentationPreviews?: DocumentationPreview[];
 }
 
 export class AutoDocSyncSystem {
@@ -52,6 +95,8 @@ export class AutoDocSyncSystem {
   private analyzer: CodeAnalyzer;
   private templateEngine: TemplateEngine;
   private outputManager: OutputManager;
+  private runJournal: RunJournal;
+  private syncMarkers: SyncMarkerStore;
   private hookManager: HookManager;
   private logger: DevelopmentLogger;
   private usageTracker: UsageTracker;
@@ -73,11 +118,17 @@ export class AutoDocSyncSystem {
     this.analyzer = new CodeAnalyzer(this.config.analysis, this.resolveWorkspacePath.bind(this));
     this.templateEngine = new TemplateEngine();
     this.outputManager = new OutputManager(this.config.output);
+    this.runJournal = new RunJournal(
+      this.workspaceRoot,
+      this.config.output.journalDirectory,
+      this.config.output.backupRetentionDays
+    );
+    this.syncMarkers = new SyncMarkerStore(this.workspaceRoot);
     this.hookManager = new HookManager(this.resolveWorkspacePath(this.config.logging.logDirectory));
     this.logger = new DevelopmentLogger({
       ...this.config.logging,
       logDirectory: this.resolveWorkspacePath(this.config.logging.logDirectory)
-    });
+    }, this.workspaceRoot);
     
     // Initialize usage tracker
     this.usageTracker = new UsageTracker({
@@ -132,7 +183,8 @@ export class AutoDocSyncSystem {
                 codeAnalysis: "Analyze the following code changes and extract functions, classes, APIs, and types.",
                 changeClassification: "Classify the following code changes and identify new features, API modifications, and architectural changes.",
                 documentationGeneration: "Generate documentation content based on the provided analysis results.",
-                templateProcessing: "Process the following template with the provided variables."
+                templateProcessing: "Process the following template with the provided variables.",
+                logDigest: DEFAULT_LOG_DIGEST_PROMPT
               }
             };
             
@@ -143,7 +195,9 @@ export class AutoDocSyncSystem {
         this.subagentIntegration = new SubagentIntegration(
           this.config.analysis,
           configPath,
-          this.workspaceRoot
+          this.workspaceRoot,
+          this.createResponseCache(),
+          this.createRedactor()
         );
       } catch (error) {
         console.warn('Subagent integration failed to initialize, continuing without it:', error);
@@ -161,6 +215,24 @@ export class AutoDocSyncSystem {
     return path.join(this.workspaceRoot, relativePath);
   }
 
+  /**
+   * Response cache for subagent requests, unless disabled in the configuration
+   */
+  private createResponseCache(): ResponseCache | undefined {
+    const cacheConfig = { ...DEFAULT_RESPONSE_CACHE_CONFIG, ...this.config.subagent.cache };
+    return cacheConfig.enabled
+      ? new ResponseCache(this.resolveWorkspacePath(cacheConfig.directory), cacheConfig)
+      : undefined;
+  }
+
+  /**
+   * Redactor for subagent requests, auditing to the configured log in the workspace
+   */
+  private createRedactor(): Redactor {
+    const redactionConfig = { ...DEFAULT_REDACTION_CONFIG, ...this.config.subagent.redaction };
+    return new Redactor(redactionConfig, this.resolveWorkspacePath(redactionConfig.auditLog));
+  }
+
   /**
    * Initialize the system and load configurations
    */
@@ -183,7 +255,9 @@ export class AutoDocSyncSystem {
           this.subagentIntegration = new SubagentIntegration(
             this.config.analysis,
             configPath,
-            this.workspaceRoot
+            this.workspaceRoot,
+            this.createResponseCache(),
+            this.createRedactor()
           );
         } catch (error) {
           console.warn('Subagent integration initialization failed during async setup:', error);
@@ -208,7 +282,7 @@ export class AutoDocSyncSystem {
   /**
    * Main execution method that coordinates all system components
    */
-  async run(options: RunOptions): Promise<void> {
+  async run(options: RunOptions): Promise<RunResult> {
     if (!this.initialized) {
       await this.initialize();
     }
@@ -220,11 +294,14 @@ export class AutoDocSyncSystem {
 
     // Start usage tracking
     await this.usageTracker.startSession(sessionId);
+    this.subagentIntegration?.setCacheEnabled(!options.noCache);
+    let commitRange: CommitRange | undefined;
 
     try {
       // Step 1: Analyze code changes
       const analysisOpId = this.usageTracker.startOperation('analysis');
-      const changes = await this.detectChanges(options);
+      commitRange = await this.resolveCommitRange(options);
+      const changes = await this.detectChanges(options, commitRange);
       this.usageTracker.endOperation(analysisOpId, 'analysis');
       
       if (changes.length === 0) {
@@ -239,33 +316,46 @@ export class AutoDocSyncSystem {
           architecturalChanges: [],
           documentationRequirements: []
         };
-        await this.createLogEntry(emptyAnalysis, options);
+        const journal = this.runJournal.begin(sessionId, this.config.output.backupFiles);
+        await this.createLogEntry(emptyAnalysis, options, { commitRange, durationMs: Date.now() - startTime }, journal);
+        await journal.commit();
+        await this.recordSync(commitRange, sessionId, options);
         await this.endSessionWithSummary();
-        return;
+        return this.createRunResult(emptyAnalysis, options, commitRange);
       }
 
-      // Step 2: Perform analysis (with subagent enhancement if available)
-      const analysis = await this.performAnalysis(changes);
+      // Step 2: Perform analysis (with subagent enhancement if available and within budget)
+      let useAI = true;
+      const analysis = await this.performAnalysis(changes, this.getBaseRef(commitRange), this.getHeadRef(commitRange), async localAnalysis => {
+        useAI = await this.checkCostBudget(localAnalysis, options);
+        return useAI;
+      });
       this.usageTracker.trackAnalysisRun(changes.length);
       
       // Check cost thresholds
       const costAlert = this.usageTracker.checkCostThresholds();
       if (costAlert) {
         console.warn(`Usage Alert: ${costAlert.message}`);
+        await this.usageTracker.recordAlert(costAlert);
         if (costAlert.type === 'limit-reached') {
           throw new Error(`Cost limit exceeded: ${costAlert.message}`);
         }
       }
       
       // Step 3: Generate documentation requirements from enhanced analysis
-      // Override local analyzer's requirements with ones based on actual content
-      let requirements = analysis.documentationRequirements;
+      // Override local analyzer's requirements with ones based on actual content. Requirements
+      // suggested by the AI name their files relative to the workspace, not the current directory.
+      let requirements = analysis.documentationRequirements.map(requirement => ({
+        ...requirement,
+        targetFile: this.resolveWorkspacePath(requirement.targetFile)
+      }));
       
       // If we have APIs or features but no requirements, generate them
-      if (requirements.length === 0 && (analysis.extractedAPIs.length > 0 || analysis.newFeatures.length > 0)) {
+      const typeCount = analysis.extractedTypes?.length || 0;
+      if (requirements.length === 0 && (analysis.extractedAPIs.length > 0 || typeCount > 0 || analysis.newFeatures.length > 0)) {
         requirements = [];
         
-        if (analysis.extractedAPIs.length > 0) {
+        if (analysis.extractedAPIs.length > 0 || typeCount > 0) {
           requirements.push({
             type: 'api-spec' as const,
             targetFile: this.resolveWorkspacePath('.kiro/specs/api.md'),
@@ -278,7 +368,7 @@ export class AutoDocSyncSystem {
           requirements.push({
             type: 'readme-section' as const,
             targetFile: this.resolveWorkspacePath('README.md'),
-            // Don't set section - we want AI to generate the full README
+            // No section: a README the tool owns is generated whole, others get Features & API updated
             content: '', // Will be generated in processDocumentationRequirements
             priority: 'medium' as const
           });
@@ -288,29 +378,47 @@ export class AutoDocSyncSystem {
       if (requirements.length === 0) {
         console.log('No documentation updates required');
         // Still create a log entry for tracking purposes
-        await this.createLogEntry(analysis, options);
+        const journal = this.runJournal.begin(sessionId, this.config.output.backupFiles);
+        await this.createLogEntry(analysis, options, { commitRange, durationMs: Date.now() - startTime }, journal);
+        await journal.commit();
+        await this.recordSync(commitRange, sessionId, options);
         await this.endSessionWithSummary();
-        return;
+        return this.createRunResult(analysis, options, commitRange);
       }
 
       // Step 4: Generate documentation content using templates
       const templateOpId = this.usageTracker.startOperation('template');
-      const processedRequirements = await this.processDocumentationRequirements(requirements, analysis);
+      const processedRequirements = await this.processDocumentationRequirements(requirements, analysis, useAI);
       this.usageTracker.endOperation(templateOpId, 'template');
       
-      // Step 5: Write documentation updates
+      if (options.dryRun) {
+        const previews = await this.previewDocumentation(processedRequirements, options);
+        await this.endSessionWithSummary();
+        return { ...await this.createRunResult(analysis, options, commitRange), documentationPreviews: previews };
+      }
+
+      // Step 5: Write documentation updates, journaled so the run can be rolled back
       const writeOpId = this.usageTracker.startOperation('file-write');
-      const writeResults = await this.outputManager.writeDocumentation(processedRequirements);
+      const journal = this.runJournal.begin(sessionId, this.config.output.backupFiles);
+      const writeResults = await this.outputManager.writeDocumentation(processedRequirements, journal);
       this.usageTracker.endOperation(writeOpId, 'file-write');
       
-      // Step 6: Create development log entry
-      await this.createLogEntry(analysis, options);
+      // Step 6: Create development log entry; the spec tasks it ticks go into the same journal
+      await this.createLogEntry(analysis, options, { commitRange, durationMs: Date.now() - startTime }, journal);
+      await journal.commit();
+      await this.pruneRunJournals();
+      if (journal.files.length > 0) {
+        console.log(`Run journal recorded for ${sessionId} (undo with: auto-doc-sync rollback ${sessionId})`);
+      }
+      await this.recordSync(commitRange, sessionId, options);
       
       // Step 7: Report results
       this.reportResults(writeResults, Date.now() - startTime);
       
       // Step 8: End session and show usage summary
       await this.endSessionWithSummary();
+
+      return this.createRunResult(analysis, options, commitRange);
       
     } catch (error) {
       console.error('Auto-Doc-Sync System execution failed:', error);
@@ -332,7 +440,7 @@ export class AutoDocSyncSystem {
           }]
         };
         
-        await this.createLogEntry(errorAnalysis, options);
+        await this.createLogEntry(errorAnalysis, options, { commitRange, durationMs: Date.now() - startTime });
       } catch (logError) {
         console.error('Failed to log error:', logError);
       }
@@ -344,13 +452,74 @@ export class AutoDocSyncSystem {
     }
   }
 
+  /**
+   * Aggregate the development log entries and AI spending of a period into a digest under
+   * `<logDirectory>/digests/`. The summary is written by AI when asked for and affordable, and
+   * locally otherwise.
+   */
+  async generateLogDigest(options: LogDigestOptions): Promise<LogDigestResult> {
+    const entries = await this.logger.readEntries(options.from, options.to);
+    const usage = await this.usageTracker.loadMetricsInRange(options.from, options.to);
+    const digest = buildLogDigest(entries, usage, options);
+
+    const aiSummary = options.ai && digest.entryCount > 0 ? await this.summarizeDigestWithAI(digest) : undefined;
+    const summarySource = aiSummary ? 'ai' : 'local';
+    const markdown = formatDigestMarkdown(digest, aiSummary || summarizeDigestLocally(digest), summarySource);
+    const digestPath = await writeDigest(this.resolveWorkspacePath(this.config.logging.logDirectory), digest, markdown);
+
+    return { digest, path: digestPath, summarySource };
+  }
+
+  /**
+   * Commit range to analyze: the one requested with `since`/`range`, or for git hooks everything
+   * since the last synced commit. Undefined when the run analyzes files or the working tree.
+   */
+  private async resolveCommitRange(options: RunOptions): Promise<CommitRange | undefined> {
+    if (options.triggerType !== 'git-hook' && !options.since && !options.range) {
+      return undefined;
+    }
+
+    const marker = options.since || options.range ? undefined : await this.syncMarkers.read();
+    const range = await resolveCommitRange(this.workspaceRoot, {
+      since: options.since,
+      range: options.range,
+      lastSyncedCommit: marker?.commit
+    });
+    console.log(`Analyzing commits ${formatCommitRange(range)} (${range.source})`);
+    return range;
+  }
+
+  /**
+   * Move the last-synced-commit marker to the head of the analyzed range, but only when the range
+   * covered the commits since the current marker, so a run over older history cannot skip any
+   */
+  private async recordSync(commitRange: CommitRange | undefined, sessionId: string, options: RunOptions): Promise<void> {
+    if (!commitRange || options.dryRun) {
+      return;
+    }
+
+    try {
+      const marker = await this.syncMarkers.read();
+      const advances = !marker ||
+        !await isAncestor(this.workspaceRoot, marker.commit, 'HEAD') ||
+        (await isAncestor(this.workspaceRoot, commitRange.base, marker.commit) &&
+          await isAncestor(this.workspaceRoot, marker.commit, commitRange.head));
+
+      if (advances) {
+        await this.syncMarkers.write({ commit: commitRange.head, syncedAt: new Date().toISOString(), sessionId });
+      }
+    } catch (error) {
+      console.warn('Failed to update the last synced commit marker:', error);
+    }
+  }
+
   /**
    * Detect code changes based on trigger type
    */
-  private async detectChanges(options: RunOptions): Promise<string[]> {
-    if (options.triggerType === 'git-hook') {
-      // For git hooks, get the latest commit changes
-      return this.getGitChanges();
+  private async detectChanges(options: RunOptions, commitRange?: CommitRange): Promise<string[]> {
+    if (commitRange) {
+      // Git hooks and --since/--range analyze every commit in the range
+      return this.getGitChanges(commitRange);
     } else {
       // For manual triggers, analyze working directory changes or specific files
       if (options.targetFiles && options.targetFiles.length > 0) {
@@ -364,26 +533,136 @@ export class AutoDocSyncSystem {
   /**
    * Perform code analysis with optional subagent enhancement
    */
-  private async performAnalysis(changes: string[]): Promise<ChangeAnalysis> {
+  private async performAnalysis(changes: string[], baseRef?: string, headRef?: string, preflight?: SubagentPreflight): Promise<ChangeAnalysis> {
     if (this.subagentIntegration) {
       try {
         console.log('Performing enhanced analysis with subagent...');
         const subagentOpId = this.usageTracker.startOperation('subagent');
-        const result = await this.subagentIntegration.performEnhancedAnalysis(changes);
+        const result = await this.subagentIntegration.performEnhancedAnalysis(changes, baseRef, headRef, preflight);
         
-        // Get ACTUAL token usage from OpenAI API response
+        // Get ACTUAL token usage reported by the LLM provider
         const actualTokens = this.subagentIntegration.getLastTokensUsed();
-        this.usageTracker.endOperation(subagentOpId, 'subagent', actualTokens);
+        this.usageTracker.endOperation(subagentOpId, 'subagent', this.subagentIntegration.getLastTokenUsage());
         
-        console.log(`Subagent used ${actualTokens} tokens (actual count from OpenAI)`);
+        console.log(`Subagent used ${actualTokens} tokens (actual count from the provider)`);
         return result;
       } catch (error) {
+        if (error instanceof BudgetExceededError) {
+          throw error;
+        }
         console.warn('Subagent analysis failed, falling back to local analysis:', error);
       }
     }
     
     console.log('Performing local analysis...');
-    return await this.analyzer.analyze(changes);
+    return await this.analyzer.analyze(changes, baseRef, headRef);
+  }
+
+  /**
+   * AI summary of a digest, tracked as its own usage session. Undefined when the subagent is
+   * disabled or unavailable, the summary would exceed a budget, or planning or the request fails;
+   * a digest never refuses on budget because the local summary can stand in.
+   */
+  private async summarizeDigestWithAI(digest: LogDigest): Promise<DigestSummary | undefined> {
+    if (!this.subagentIntegration) {
+      console.warn('Subagent integration is disabled, using local digest summary');
+      return undefined;
+    }
+
+    const unavailableReason = this.subagentIntegration.getUnavailableReason();
+    if (unavailableReason) {
+      console.warn(`${unavailableReason}, using local digest summary`);
+      return undefined;
+    }
+
+    try {
+      const estimate = this.usageTracker.estimateCost([await this.subagentIntegration.planLogDigestSummary(digest)]);
+      const budget = await this.usageTracker.checkBudget(estimate.cost);
+      if (!budget.allowed) {
+        console.warn(`⚠️  ${budget.message}; using local digest summary`);
+        return undefined;
+      }
+
+      await this.usageTracker.startSession(`digest-${Date.now()}`);
+      try {
+        const digestOpId = this.usageTracker.startOperation('subagent');
+        try {
+          return await this.subagentIntegration.summarizeLogDigest(digest);
+        } finally {
+          this.usageTracker.endOperation(digestOpId, 'subagent', this.subagentIntegration.getLastTokenUsage());
+        }
+      } finally {
+        await this.usageTracker.endSession();
+      }
+    } catch (error) {
+      console.warn('AI digest summary failed, using local digest summary:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Price the AI requests this run would send before sending any. Resolves to false when the run
+   * should continue with local analysis only; throws when over budget and `usage.budgetAction` is
+   * "refuse". Git-hook runs use local analysis only while a period budget is exhausted, so commits
+   * are never blocked on spending. Dry runs print the estimate and continue on local analysis, so
+   * they never send the requests.
+   */
+  private async checkCostBudget(localAnalysis: ChangeAnalysis, options: RunOptions): Promise<boolean> {
+    if (options.triggerType === 'git-hook') {
+      const exhausted = (await this.usageTracker.getBudgetStatus()).find(status => status.exhausted);
+      if (exhausted) {
+        console.warn(`⚠️  The ${exhausted.period} budget is exhausted ($${exhausted.spent.toFixed(4)} of $${exhausted.limit} spent); using local analysis only until ${exhausted.resetsAt}`);
+        return false;
+      }
+    }
+
+    const { generatable, ...readmeContext } = await this.readReadmeContext(this.resolveWorkspacePath('README.md'));
+    const planned = await this.subagentIntegration!.planRequests(localAnalysis, generatable ? readmeContext : undefined);
+    const estimate = this.usageTracker.estimateCost(planned);
+    const tokens = estimate.promptTokens + estimate.completionTokens;
+
+    const budget = await this.usageTracker.checkBudget(estimate.cost);
+    if (options.dryRun) {
+      console.log(`💰 Dry run: the AI requests would cost $${estimate.cost.toFixed(4)} at most (${estimate.requests} requests, ${estimate.cachedRequests} cached, ~${tokens} tokens)`);
+      if (!budget.allowed) {
+        console.warn(`⚠️  ${budget.message}; a real run would ${this.config.usage.budgetAction === 'refuse' ? 'refuse to run' : 'use local analysis only'}`);
+      }
+      return false;
+    }
+    if (budget.allowed) {
+      return true;
+    }
+
+    await this.usageTracker.recordAlert({
+      type: 'limit-reached',
+      period: budget.exceeded!.period,
+      message: budget.message!,
+      currentCost: budget.exceeded!.spent,
+      threshold: budget.exceeded!.limit,
+      timestamp: new Date().toISOString()
+    });
+
+    if (this.config.usage.budgetAction === 'refuse') {
+      throw new BudgetExceededError(budget.message!, budget.exceeded!.period, estimate.cost);
+    }
+    console.warn(`⚠️  ${budget.message}; continuing with local analysis only`);
+    return false;
+  }
+
+  /**
+   * Git ref holding the pre-change version of the files detectChanges reports on
+   */
+  private getBaseRef(commitRange?: CommitRange): string {
+    // Commit ranges diff against their base; manual runs diff the working tree against HEAD
+    return commitRange ? commitRange.base : 'HEAD';
+  }
+
+  /**
+   * Git ref holding the post-change version of the files; undefined reads the working tree
+   */
+  private getHeadRef(commitRange?: CommitRange): string | undefined {
+    // A range describes its head commit, whatever is checked out or edited now
+    return commitRange?.head;
   }
 
   /**
@@ -391,24 +670,36 @@ export class AutoDocSyncSystem {
    */
   private async processDocumentationRequirements(
     requirements: DocumentationRequirement[],
-    analysis: ChangeAnalysis
+    analysis: ChangeAnalysis,
+    useAI: boolean = true
   ): Promise<DocumentationRequirement[]> {
     const processedRequirements: DocumentationRequirement[] = [];
     
     for (const requirement of requirements) {
       try {
         let content = requirement.content;
+        let section = requirement.section;
         
         // Apply templates based on requirement type
         if (requirement.type === 'api-spec') {
           content = await this.generateAPIDocumentation(analysis);
         } else if (requirement.type === 'readme-section') {
-          // Use AI to generate README instead of template
-          content = await this.generateREADMEWithAI(analysis, requirement.targetFile);
+          const readme = await this.readReadmeContext(requirement.targetFile);
+          if (readme.generatable) {
+            // Use AI to generate the whole README inside its managed region instead of the template
+            section = undefined;
+            const generated = useAI ? await this.generateREADMEWithAI(analysis, readme) : await this.generateREADMEUpdate(analysis);
+            content = `${renderManagedRegion(README_REGION_ID, generated)}\n`;
+          } else {
+            // A whole generated README fits no section, so the AI is not asked for one
+            section = section || 'Features & API';
+            content = await this.generateREADMEUpdate(analysis);
+          }
         }
         
         processedRequirements.push({
           ...requirement,
+          section,
           content
         });
       } catch (error) {
@@ -426,8 +717,20 @@ export class AutoDocSyncSystem {
    */
   private async generateAPIDocumentation(analysis: ChangeAnalysis): Promise<string> {
     // Build comprehensive API documentation from analysis
-    let content = `# API Documentation\n\n`;
-    content += `Generated: ${new Date().toISOString()}\n\n`;
+    let content = `Generated: ${new Date().toISOString()}\n\n`;
+
+    if (analysis.semverRecommendation && analysis.semverRecommendation !== 'none') {
+      content += `**Recommended version bump:** ${analysis.semverRecommendation}\n\n`;
+    }
+
+    // Document breaking changes first so they are not missed
+    if (analysis.breakingChanges && analysis.breakingChanges.length > 0) {
+      content += `## Breaking Changes\n\n`;
+      for (const change of analysis.breakingChanges) {
+        content += `- **${change.symbol}** (\`${change.filePath}\`): ${change.description}\n`;
+      }
+      content += '\n';
+    }
 
     // Document extracted APIs
     if (analysis.extractedAPIs.length > 0) {
@@ -456,6 +759,45 @@ export class AutoDocSyncSystem {
       }
     }
 
+    // Document exported types
+    if (analysis.extractedTypes && analysis.extractedTypes.length > 0) {
+      content += `## Types\n\n`;
+      for (const type of analysis.extractedTypes) {
+        content += `### ${type.name}\n\n`;
+        if (type.description) {
+          content += `${type.description}\n\n`;
+        }
+        content += `**Kind:** \`${type.kind}\`\n`;
+        if (type.sourceFile) {
+          content += `**Source:** \`${type.sourceFile}\`\n`;
+        }
+        content += `\n\`\`\`typescript\n${type.definition}\n\`\`\`\n\n`;
+      }
+    }
+
+    // Document symbol-level API changes against the pre-change version
+    if (analysis.symbolDeltas && analysis.symbolDeltas.length > 0) {
+      content += `## API Changes\n\n`;
+      const groups: Array<[string, SymbolDelta['change']]> = [
+        ['Added', 'added'],
+        ['Changed', 'signature-changed'],
+        ['Removed', 'removed']
+      ];
+      for (const [heading, change] of groups) {
+        const deltas = analysis.symbolDeltas.filter(d => d.change === change);
+        if (deltas.length === 0) continue;
+        content += `### ${heading}\n\n`;
+        for (const delta of deltas) {
+          content += `- \`${delta.name}\` (${delta.kind}) in \`${delta.filePath}\`\n`;
+          if (delta.previous && delta.current) {
+            content += `  - Before: \`${delta.previous.signature.split('\n')[0]}\`\n`;
+            content += `  - After: \`${delta.current.signature.split('\n')[0]}\`\n`;
+          }
+        }
+        content += '\n';
+      }
+    }
+
     // Document new features
     if (analysis.newFeatures.length > 0) {
       content += `## New Features\n\n`;
@@ -496,41 +838,22 @@ export class AutoDocSyncSystem {
       content += '\n';
     }
 
-    return content;
+    // Notes added outside the managed region survive regeneration
+    return `# API Documentation\n\n${renderManagedRegion('api-spec', content)}\n`;
   }
 
   /**
    * Generate README update content using AI
    */
-  private async generateREADMEWithAI(analysis: ChangeAnalysis, targetFile: string): Promise<string> {
+  private async generateREADMEWithAI(
+    analysis: ChangeAnalysis,
+    { existingContent, projectContext }: { existingContent?: string; projectContext: any }
+  ): Promise<string> {
     // Try to use AI for README generation
     if (this.subagentIntegration) {
       try {
         console.log('Generating README with AI...');
         
-        // Read existing README if it exists
-        let existingContent: string | undefined;
-        try {
-          existingContent = await fs.readFile(targetFile, 'utf-8');
-        } catch {
-          existingContent = undefined;
-        }
-        
-        // Get project context from package.json
-        let projectContext: any = {};
-        try {
-          const packageJsonPath = this.resolveWorkspacePath('package.json');
-          const packageJson = JSON.parse(await fs.readFile(packageJsonPath, 'utf-8'));
-          projectContext = {
-            name: packageJson.name,
-            description: packageJson.description,
-            repository: packageJson.repository?.url || packageJson.repository,
-            license: packageJson.license
-          };
-        } catch {
-          // No package.json or failed to read
-        }
-        
         const readmeOpId = this.usageTracker.startOperation('subagent');
         const content = await this.subagentIntegration.generateReadme(
           analysis,
@@ -540,7 +863,7 @@ export class AutoDocSyncSystem {
         
         // Get actual tokens used
         const tokensUsed = this.subagentIntegration.getLastTokensUsed();
-        this.usageTracker.endOperation(readmeOpId, 'subagent', tokensUsed);
+        this.usageTracker.endOperation(readmeOpId, 'subagent', this.subagentIntegration.getLastTokenUsage());
         
         console.log(`README generated with AI (${tokensUsed} tokens)`);
         return content;
@@ -553,6 +876,43 @@ export class AutoDocSyncSystem {
     return await this.generateREADMEUpdate(analysis);
   }
 
+  /**
+   * Existing README content and project details from package.json, the context of README generation.
+   * A generated README lives in the `readme` managed region, and only that region's content is
+   * regenerated. A README without the region is `generatable` only when it does not exist yet;
+   * otherwise generating one would rewrite hand-written content.
+   */
+  private async readReadmeContext(targetFile: string): Promise<{ generatable: boolean; existingContent?: string; projectContext: any }> {
+    // Read existing README if it exists
+    let generatable: boolean;
+    let existingContent: string | undefined;
+    try {
+      const readme = await fs.readFile(targetFile, 'utf-8');
+      existingContent = parseManagedRegions(readme, targetFile).find(region => region.id === README_REGION_ID)?.content;
+      generatable = existingContent !== undefined;
+    } catch {
+      // Missing READMEs are generated; READMEs with malformed markers are left to the write to report
+      generatable = !(await this.fileExists(targetFile));
+    }
+
+    // Get project context from package.json
+    let projectContext: any = {};
+    try {
+      const packageJsonPath = this.resolveWorkspacePath('package.json');
+      const packageJson = JSON.parse(await fs.readFile(packageJsonPath, 'utf-8'));
+      projectContext = {
+        name: packageJson.name,
+        description: packageJson.description,
+        repository: packageJson.repository?.url || packageJson.repository,
+        license: packageJson.license
+      };
+    } catch {
+      // No package.json or failed to read
+    }
+
+    return { generatable, existingContent, projectContext };
+  }
+
   /**
    * Generate README update content (fallback template)
    */
@@ -599,16 +959,142 @@ export class AutoDocSyncSystem {
   }
 
   /**
-   * Create development log entry
+   * Print the pending documentation changes of a dry run and optionally save them as a patch
    */
-  private async createLogEntry(analysis: ChangeAnalysis, options: RunOptions): Promise<void> {
+  private async previewDocumentation(requirements: DocumentationRequirement[], options: RunOptions): Promise<DocumentationPreview[]> {
+    const previews = await this.outputManager.previewDocumentation(requirements, this.workspaceRoot);
+    const changed = previews.filter(preview => preview.diff.length > 0);
+
+    console.log(`\n📋 Dry run: ${changed.length} of ${previews.length} documentation file(s) would change`);
+    for (const preview of previews) {
+      if (preview.errors.length > 0) {
+        console.warn(`⚠️  ${path.relative(this.workspaceRoot, preview.filePath)}: ${preview.errors.join(', ')}`);
+      }
+      preview.warnings.forEach(warning => console.warn(`⚠️  ${warning}`));
+      if (preview.diff) {
+        console.log(preview.diff);
+      }
+    }
+
+    if (options.patchFile && changed.length > 0) {
+      const patchPath = path.resolve(options.patchFile);
+      await this.outputManager.writePatch(previews, patchPath);
+      console.log(`Patch written to ${patchPath} (apply with: git apply ${path.relative(this.workspaceRoot, patchPath)})`);
+    }
+
+    return previews;
+  }
+
+  /**
+   * Garbage-collect run journals and backups past their retention period
+   */
+  private async pruneRunJournals(): Promise<void> {
+    try {
+      const pruned = await this.runJournal.prune();
+      if (pruned.length > 0) {
+        console.log(`Cleaned up ${pruned.length} expired run journal(s)`);
+      }
+    } catch (error) {
+      console.warn('Failed to clean up run journals:', error);
+    }
+  }
+
+  /**
+   * Create development log entry for the analyzed commits, timed from the start of the run.
+   * Runs that completed pass their journal and tick the spec tasks the entry references; failed
+   * runs pass none and tick nothing.
+   */
+  private async createLogEntry(analysis: ChangeAnalysis, options: RunOptions, context: LogEntryContext, journal?: JournalSession): Promise<void> {
+    if (options.dryRun) {
+      // A dry run leaves every file untouched, including the development log
+      return;
+    }
+
     try {
       const rationale = options.reason || `Automated sync triggered by ${options.triggerType}`;
-      const logEntry = await this.logger.createLogEntry(analysis, rationale);
-      await this.logger.storeLogEntry(logEntry);
+      const logEntry = await this.logger.createLogEntry(analysis, rationale, undefined, context);
+      const logFilePath = await this.logger.storeLogEntry(logEntry);
       console.log(`Development log entry created: ${logEntry.id}`);
+      if (journal) {
+        await this.tickSpecTasks(logEntry, logFilePath, journal);
+      }
     } catch (error) {
       console.warn('Failed to create development log entry:', error);
+      return;
+    }
+
+    await this.pruneDevelopmentLogs();
+  }
+
+  /**
+   * Tick the spec tasks the analyzed commits reference, when configured, journaling the writes so
+   * `rollback` unticks them; the entry is kept either way
+   */
+  private async tickSpecTasks(logEntry: LogEntry, logFilePath: string, journal: JournalSession): Promise<void> {
+    if (!this.config.logging.tickSpecTasks || !logEntry.specReferences) {
+      return;
+    }
+
+    try {
+      const ticked = await this.logger.tickSpecTasks(logEntry, logFilePath, journal);
+      if (ticked.length > 0) {
+        console.log(`Ticked spec task(s): ${ticked.join(', ')}`);
+      }
+    } catch (error) {
+      console.warn('Failed to tick spec tasks:', error);
+    }
+  }
+
+  /**
+   * Compact development log days past their retention period into monthly summaries
+   */
+  private async pruneDevelopmentLogs(): Promise<void> {
+    try {
+      const pruned = await this.logger.pruneExpiredLogs();
+      if (pruned.compactedDays.length > 0) {
+        console.log(`Compacted ${pruned.compactedDays.length} expired development log day(s) into ${pruned.summaryFiles.join(', ')}`);
+      }
+    } catch (error) {
+      console.warn('Failed to clean up development logs:', error);
+    }
+  }
+
+  /**
+   * Summarise breaking changes for the caller, e.g. so CI can block unannounced ones
+   */
+  private async createRunResult(analysis: ChangeAnalysis, options: RunOptions, commitRange?: CommitRange): Promise<RunResult> {
+    const breakingChanges = analysis.breakingChanges || [];
+
+    if (breakingChanges.length > 0) {
+      console.warn(`⚠️  ${breakingChanges.length} breaking change(s) detected (recommended bump: ${analysis.semverRecommendation})`);
+      breakingChanges.forEach(change => console.warn(`   - ${change.filePath}: ${change.description}`));
+    }
+
+    return {
+      breakingChanges,
+      semverRecommendation: analysis.semverRecommendation || 'none',
+      breakingChangesAnnounced: breakingChanges.length === 0 || await this.isBreakingChangeAnnounced(options, commitRange)
+    };
+  }
+
+  /**
+   * Breaking changes count as announced when explicitly allowed, or when a commit in the analyzed
+   * range follows the Conventional Commits convention (`BREAKING CHANGE:` footer or `type!:`)
+   */
+  private async isBreakingChangeAnnounced(options: RunOptions, commitRange?: CommitRange): Promise<boolean> {
+    if (options.allowBreaking) {
+      return true;
+    }
+
+    if (!commitRange) {
+      return false;
+    }
+
+    try {
+      const messages = await getCommitMessages(this.workspaceRoot, commitRange);
+      return messages.some(message => /^BREAKING[ -]CHANGE:/m.test(message) || /^\w+(\([^)]*\))?!:/.test(message));
+    } catch {
+      return false;
     }
   }
 
@@ -684,31 +1170,11 @@ export class AutoDocSyncSystem {
   }
 
   /**
-   * Get git changes for the latest commit
+   * Get git changes for a commit range
    */
-  private async getGitChanges(): Promise<string[]> {
-    try {
-      const { spawn } = require('child_process');
-      return new Promise((resolve, reject) => {
-        const git = spawn('git', ['diff', 'HEAD~1', 'HEAD']);
-        let output = '';
-        
-        git.stdout.on('data', (data: Buffer) => {
-          output += data.toString();
-        });
-        
-        git.on('close', (code: number) => {
-          if (code === 0) {
-            resolve(output ? [output] : []);
-          } else {
-            reject(new Error(`Git diff failed with code ${code}`));
-          }
-        });
-      });
-    } catch (error) {
-      console.warn('Failed to get git changes, using empty changes:', error);
-      return [];
-    }
+  private async getGitChanges(commitRange: CommitRange): Promise<string[]> {
+    const output = await getRangeDiff(this.workspaceRoot, commitRange);
+    return output ? [output] : [];
   }
 
   /**
@@ -721,7 +1187,12 @@ export class AutoDocSyncSystem {
       try {
         if (await this.fileExists(filePath)) {
           const content = await fs.readFile(filePath, 'utf-8');
-          changes.push(`diff --git a/${filePath} b/${filePath}\n+++ b/${filePath}\n${content}`);
+          // Include/exclude patterns are workspace-relative, like paths in `git diff` output
+          const relativePath = path.relative(this.workspaceRoot, path.resolve(filePath));
+          const diffPath = relativePath.startsWith('..') ? filePath : relativePath.split(path.sep).join('/');
+          // Present the whole file as added lines so shallow analysis sees it through the diff hunks
+          const addedLines = content.split('\n').map(line => `+${line}`).join('\n');
+          changes.push(`diff --git a/${diffPath} b/${diffPath}\n+++ b/${diffPath}\n${addedLines}`);
         }
       } catch (error) {
         console.warn(`Failed to read file ${filePath}:`, error);
@@ -765,6 +1236,11 @@ export class AutoDocSyncSystem {
    */
   private async endSessionWithSummary(): Promise<void> {
     try {
+      if (this.subagentIntegration) {
+        const cacheStats = this.subagentIntegration.takeCacheStats();
+        this.usageTracker.trackCacheLookups(cacheStats.hits, cacheStats.misses);
+      }
+
       const sessionMetrics = await this.usageTracker.endSession();
       if (sessionMetrics) {
         console.log('\n--- Usage Summary ---');
@@ -774,15 +1250,25 @@ export class AutoDocSyncSystem {
         console.log(`Tokens consumed: ${sessionMetrics.tokensConsumed}`);
         console.log(`Estimated cost: $${sessionMetrics.estimatedCost.toFixed(4)}`);
         console.log(`Execution time: ${sessionMetrics.executionTimeMs}ms`);
+        if (sessionMetrics.cacheHits || sessionMetrics.cacheMisses) {
+          console.log(`Response cache: ${sessionMetrics.cacheHits} hits, ${sessionMetrics.cacheMisses} misses`);
+        }
         
         if (sessionMetrics.operationBreakdown.length > 0) {
           console.log('\nOperation breakdown:');
           for (const op of sessionMetrics.operationBreakdown) {
             console.log(`  ${op.type}: ${op.count} ops, ${op.durationMs}ms, $${op.cost.toFixed(4)}`);
+            for (const model of op.models || []) {
+              console.log(`    ${model.model}: ${model.requests} requests, ${model.promptTokens} prompt + ${model.completionTokens} completion tokens, $${model.cost.toFixed(4)}`);
+            }
           }
         }
         console.log('-------------------\n');
       }
+
+      for (const alert of await this.usageTracker.checkPeriodBudgets()) {
+        console.warn(`⚠️  ${alert.message}`);
+      }
     } catch (error) {
       console.warn('Failed to generate usage summary:', error);
     }
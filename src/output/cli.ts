@@ -0,0 +1,41 @@
+/**
+ * CLI command for rolling back the documentation writes of a run
+ */
+
+import { OutputConfig } from './types';
+import { RunJournal } from './journal';
+
+/**
+ * Roll back a run (the most recent one by default), or list journaled runs with `list`,
+ * and return the process exit code
+ */
+export async function runRollbackCLI(workspaceRoot: string, outputConfig: OutputConfig, args: string[] = []): Promise<number> {
+  const journal = new RunJournal(workspaceRoot, outputConfig.journalDirectory, outputConfig.backupRetentionDays);
+
+  if (args[0] === 'list') {
+    const records = await journal.list();
+    if (records.length === 0) {
+      console.log('No journaled runs');
+      return 0;
+    }
+
+    for (const record of records) {
+      console.log(`${record.sessionId}  ${record.startedAt}  ${record.status}  ${record.files.length} file(s)`);
+      record.files.forEach(file => console.log(`   - ${file.filePath}${file.preImageHash === null ? ' (created)' : ''}`));
+    }
+    return 0;
+  }
+
+  const result = await journal.rollback(args[0]);
+
+  if (!result.success) {
+    console.error(`❌ Rollback${result.sessionId ? ` of ${result.sessionId}` : ''} failed`);
+    result.conflicts.forEach(file => console.error(`   - ${file} changed since the run`));
+    result.errors.forEach(error => console.error(`   ${error}`));
+    return 1;
+  }
+
+  console.log(`✅ Rolled back ${result.sessionId}`);
+  result.restoredFiles.forEach(file => console.log(`   - restored ${file}`));
+  return 0;
+}
@@ -0,0 +1,111 @@
+/**
+ * Tests for unified diff generation
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { createUnifiedDiff } from './diff';
+
+/**
+ * Apply a single-file unified diff produced by createUnifiedDiff
+ */
+function applyDiff(oldContent: string, diff: string): string {
+  const oldLines = oldContent === '' ? [] : oldContent.replace(/\n$/, '').split('\n');
+  const result: string[] = [];
+  let oldIndex = 0;
+  let endsWithNewline = oldContent === '' || oldContent.endsWith('\n');
+  let lastType = '';
+
+  for (const line of diff.replace(/\n$/, '').split('\n')) {
+    const hunk = line.match(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,\d+)? @@$/);
+    if (hunk) {
+      const start = hunk[2] === '0' ? Number(hunk[1]) : Number(hunk[1]) - 1;
+      result.push(...oldLines.slice(oldIndex, start));
+      oldIndex = start;
+    } else if (line === '\\ No newline at end of file') {
+      if (lastType !== '-') endsWithNewline = false;
+    } else if (/^[ +-]/.test(line) && !line.startsWith('+++') && !line.startsWith('---')) {
+      lastType = line[0];
+      if (line[0] !== '+') oldIndex++;
+      if (line[0] !== '-') {
+        result.push(line.slice(1));
+        endsWithNewline = true;
+      }
+    }
+  }
+  if (oldIndex < oldLines.length) {
+    // The end of the file is outside every hunk, so it keeps its original ending
+    endsWithNewline = oldContent.endsWith('\n');
+  }
+  result.push(...oldLines.slice(oldIndex));
+
+  return result.length === 0 ? '' : result.join('\n') + (endsWithNewline ? '\n' : '');
+}
+
+describe('createUnifiedDiff', () => {
+  const lines = fc.array(fc.constantFrom('# Title', '', 'alpha', 'beta', 'gamma', '- item'), { maxLength: 30 });
+  const content = fc.tuple(lines, fc.boolean()).map(([l, newline]) => l.length === 0 ? '' : l.join('\n') + (newline ? '\n' : ''));
+
+  it('should produce a diff that turns the old content into the new content', () => {
+    fc.assert(
+      fc.property(content, content, (before, after) => {
+        const diff = createUnifiedDiff('README.md', before, after);
+
+        if (before === after) {
+          expect(diff).toBe('');
+        } else {
+          expect(diff.startsWith('diff --git a/README.md b/README.md\n--- a/README.md\n+++ b/README.md\n')).toBe(true);
+          expect(applyDiff(before, diff)).toBe(after);
+        }
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('should keep three lines of context around each change', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'].join('\n') + '\n';
+    const after = before.replace('2\n', 'two\n').replace('11\n', 'eleven\n');
+
+    expect(createUnifiedDiff('notes.md', before, after)).toBe([
+      'diff --git a/notes.md b/notes.md',
+      '--- a/notes.md',
+      '+++ b/notes.md',
+      '@@ -1,5 +1,5 @@',
+      ' 1',
+      '-2',
+      '+two',
+      ' 3',
+      ' 4',
+      ' 5',
+      '@@ -8,5 +8,5 @@',
+      ' 8',
+      ' 9',
+      ' 10',
+      '-11',
+      '+eleven',
+      ' 12',
+      ''
+    ].join('\n'));
+  });
+
+  it('should describe new files so that git apply can create them', async () => {
+    const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'unified-diff-'));
+    await fs.writeFile(path.join(workspace, 'README.md'), '# Project\n\n## API\n\nold\n');
+
+    const patch = createUnifiedDiff('README.md', '# Project\n\n## API\n\nold\n', '# Project\n\n## API\n\nnew\nmore') +
+      createUnifiedDiff('docs/api.md', undefined, '# API\n');
+    await fs.writeFile(path.join(workspace, 'docs.patch'), patch);
+
+    execFileSync('git', ['init', '-q'], { cwd: workspace });
+    execFileSync('git', ['apply', 'docs.patch'], { cwd: workspace });
+
+    expect(await fs.readFile(path.join(workspace, 'README.md'), 'utf8')).toBe('# Project\n\n## API\n\nnew\nmore');
+    expect(await fs.readFile(path.join(workspace, 'docs/api.md'), 'utf8')).toBe('# API\n');
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Unified diff generation for documentation previews, in the format accepted by `git apply`
+ */
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/** Above this many line comparisons the changed region is emitted as a single replacement */
+const MAX_LCS_CELLS = 25_000_000;
+
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+  /** The line is the last one of its file and has no trailing newline */
+  noNewline: boolean;
+}
+
+interface FileLines {
+  lines: string[];
+  endsWithNewline: boolean;
+}
+
+/**
+ * Create a git-style unified diff between two versions of a file.
+ * `oldContent` is undefined for files that do not exist yet. Returns an empty string when nothing changes.
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  oldContent: string | undefined,
+  newContent: string,
+  contextLines: number = 3
+): string {
+  if (oldContent === newContent) {
+    return '';
+  }
+
+  const diffPath = filePath.replace(/\\/g, '/');
+  const before = splitLines(oldContent ?? '');
+  const after = splitLines(newContent);
+  const hunks = buildHunks(diffLines(before, after), contextLines);
+
+  const header = [`diff --git a/${diffPath} b/${diffPath}`];
+  if (oldContent === undefined) {
+    header.push('new file mode 100644', '--- /dev/null');
+  } else {
+    header.push(`--- a/${diffPath}`);
+  }
+  header.push(`+++ b/${diffPath}`);
+
+  return [...header, ...hunks].join('\n') + '\n';
+}
+
+function splitLines(content: string): FileLines {
+  if (content === '') {
+    return { lines: [], endsWithNewline: true };
+  }
+
+  const lines = content.split('\n');
+  const endsWithNewline = lines[lines.length - 1] === '';
+  if (endsWithNewline) {
+    lines.pop();
+  }
+  return { lines, endsWithNewline };
+}
+
+/**
+ * Line-level edit script based on the longest common subsequence of the two files
+ */
+function diffLines(before: FileLines, after: FileLines): DiffLine[] {
+  // A last line without a newline differs from the same text with one, so compare on a tagged key
+  const key = (file: FileLines, index: number) =>
+    index === file.lines.length - 1 && !file.endsWithNewline ? `${file.lines[index]}\u0000` : file.lines[index];
+  const line = (type: DiffLine['type'], file: FileLines, index: number): DiffLine => ({
+    type,
+    text: file.lines[index],
+    noNewline: index === file.lines.length - 1 && !file.endsWithNewline
+  });
+
+  const oldCount = before.lines.length;
+  const newCount = after.lines.length;
+
+  let prefix = 0;
+  while (prefix < oldCount && prefix < newCount && key(before, prefix) === key(after, prefix)) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldCount - prefix &&
+    suffix < newCount - prefix &&
+    key(before, oldCount - 1 - suffix) === key(after, newCount - 1 - suffix)
+  ) {
+    suffix++;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    result.push(line(' ', before, i));
+  }
+
+  const oldEnd = oldCount - suffix;
+  const newEnd = newCount - suffix;
+  const rows = oldEnd - prefix;
+  const cols = newEnd - prefix;
+
+  if (rows * cols > MAX_LCS_CELLS) {
+    for (let i = prefix; i < oldEnd; i++) result.push(line('-', before, i));
+    for (let j = prefix; j < newEnd; j++) result.push(line('+', after, j));
+  } else {
+    // lengths[i][j] = LCS length of before[prefix + i..] and after[prefix + j..]
+    const width = cols + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lengths[i * width + j] = key(before, prefix + i) === key(after, prefix + j)
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && key(before, prefix + i) === key(after, prefix + j)) {
+        result.push(line(' ', before, prefix + i));
+        i++;
+        j++;
+      } else if (i < rows && (j === cols || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        // Removals come before additions, as in git's output
+        result.push(line('-', before, prefix + i));
+        i++;
+      } else {
+        result.push(line('+', after, prefix + j));
+        j++;
+      }
+    }
+  }
+
+  for (let i = oldEnd; i < oldCount; i++) {
+    result.push(line(' ', before, i));
+  }
+
+  return result;
+}
+
+/**
+ * Group an edit script into hunks with the given amount of surrounding context
+ */
+function buildHunks(lines: DiffLine[], contextLines: number): string[] {
+  const output: string[] = [];
+  const changeIndexes = lines.map((line, index) => line.type === ' ' ? -1 : index).filter(index => index >= 0);
+
+  let cursor = 0;
+  while (cursor < changeIndexes.length) {
+    const start = Math.max(0, changeIndexes[cursor] - contextLines);
+    let end = changeIndexes[cursor];
+
+    // Extend the hunk while the next change is close enough for the context to overlap
+    while (cursor + 1 < changeIndexes.length && changeIndexes[cursor + 1] - end <= contextLines * 2) {
+      cursor++;
+      end = changeIndexes[cursor];
+    }
+    end = Math.min(lines.length - 1, end + contextLines);
+    cursor++;
+
+    let oldStart = 1;
+    let newStart = 1;
+    for (let i = 0; i < start; i++) {
+      if (lines[i].type !== '+') oldStart++;
+      if (lines[i].type !== '-') newStart++;
+    }
+
+    const body: string[] = [];
+    let oldLength = 0;
+    let newLength = 0;
+    for (let i = start; i <= end; i++) {
+      const line = lines[i];
+      if (line.type !== '+') oldLength++;
+      if (line.type !== '-') newLength++;
+      body.push(`${line.type}${line.text}`);
+      if (line.noNewline) body.push(NO_NEWLINE_MARKER);
+    }
+
+    output.push(`@@ -${formatRange(oldStart, oldLength)} +${formatRange(newStart, newLength)} @@`, ...body);
+  }
+
+  return output;
+}
+
+function formatRange(start: number, length: number): string {
+  // An empty range points at the line before it, e.g. `-0,0` for a new file
+  if (length === 0) return `${start - 1},0`;
+  if (length === 1) return `${start}`;
+  return `${start},${length}`;
+}
@@ -3,4 +3,7 @@
  */
 
 export * from './types';
-export * from './manager';
\ No newline at end of file
+export * from './manager';
+export * from './diff';
+export * from './managed-regions';
+export * from './journal';
\ No newline at end of file
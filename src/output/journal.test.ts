@@ -0,0 +1,114 @@
+/**
+ * Tests for the run journal and rollback
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { OutputManager } from './manager';
+import { RunJournal } from './journal';
+import { renderManagedRegion } from './managed-regions';
+import { DocumentationRequirement } from '../types';
+
+describe('RunJournal', () => {
+  let workspace: string;
+  let journal: RunJournal;
+  const outputManager = new OutputManager({ preserveFormatting: true, backupFiles: true, validateOutput: false });
+
+  const region = (content: string) => `${renderManagedRegion('api-spec', content)}\n`;
+  const requirement = (file: string, content: string): DocumentationRequirement => ({
+    type: 'api-spec',
+    targetFile: path.join(workspace, file),
+    content: region(content),
+    priority: 'high'
+  });
+  const read = (file: string) => fs.readFile(path.join(workspace, file), 'utf-8');
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'run-journal-'));
+    journal = new RunJournal(workspace, '.kiro/journal', 7);
+    await fs.writeFile(path.join(workspace, 'README.md'), region('# Before\n'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  it('should record pre- and post-images and roll a run back', async () => {
+    const session = journal.begin('session-1');
+    await outputManager.writeDocumentation([
+      requirement('README.md', '# First\n'),
+      requirement('README.md', '# After\n'),
+      requirement('docs/api.md', '# API\n')
+    ], session);
+    await session.commit();
+
+    const record = await journal.load('session-1');
+    expect(record?.status).toBe('committed');
+    expect(record?.files.map(f => [f.filePath, f.preImageHash === null, f.backupPath !== undefined])).toEqual([
+      ['README.md', false, true],
+      ['docs/api.md', true, false]
+    ]);
+    expect((await fs.readdir(workspace)).filter(f => f.includes('.backup.'))).toEqual([]);
+
+    const result = await journal.rollback();
+
+    expect(result).toMatchObject({ success: true, sessionId: 'session-1', restoredFiles: ['README.md', 'docs/api.md'] });
+    expect(await read('README.md')).toBe(region('# Before\n'));
+    await expect(read('docs/api.md')).rejects.toThrow();
+    expect((await journal.load('session-1'))?.status).toBe('rolled-back');
+    expect((await journal.rollback('session-1')).errors[0]).toContain('already rolled back');
+  });
+
+  it('should refuse to roll back when a file changed after the run', async () => {
+    const session = journal.begin('session-2');
+    await outputManager.writeDocumentation([requirement('README.md', '# After\n'), requirement('api.md', '# API\n')], session);
+    await session.commit();
+    await fs.writeFile(path.join(workspace, 'README.md'), '# Edited by hand\n');
+
+    const result = await journal.rollback('session-2');
+
+    expect(result.success).toBe(false);
+    expect(result.conflicts).toEqual(['README.md']);
+    expect(await read('README.md')).toBe('# Edited by hand\n');
+    expect(await read('api.md')).toBe(region('# API\n'));
+  });
+
+  it('should undo a partial rollback and leave the run to be rolled back again', async () => {
+    const session = journal.begin('session-4');
+    await outputManager.writeDocumentation([requirement('README.md', '# After\n'), requirement('api.md', '# API\n')], session);
+    await session.commit();
+    // A directory where the run's api.md would be moved aside makes its restore fail
+    const blocker = path.join(workspace, 'api.md.rollback-session-4.aside');
+    await fs.mkdir(blocker);
+    await fs.writeFile(path.join(blocker, 'keep'), '');
+
+    const failed = await journal.rollback('session-4');
+
+    expect(failed.success).toBe(false);
+    expect(failed.restoredFiles).toEqual([]);
+    expect(failed.errors[0]).toMatch(/^api\.md: /);
+    expect(failed.errors[1]).toBe('Rollback of session session-4 was undone; no file was restored');
+    expect(await read('README.md')).toBe(region('# After\n'));
+    expect(await read('api.md')).toBe(region('# API\n'));
+    expect((await fs.readdir(workspace)).filter(f => f.includes('.rollback-') && f !== path.basename(blocker))).toEqual([]);
+    expect((await journal.load('session-4'))?.status).toBe('committed');
+
+    await fs.rm(blocker, { recursive: true });
+    expect(await journal.rollback('session-4')).toMatchObject({ success: true, restoredFiles: ['README.md', 'api.md'] });
+    expect(await read('README.md')).toBe(region('# Before\n'));
+  });
+
+  it('should garbage-collect journals and backups past the retention period', async () => {
+    const session = journal.begin('session-3');
+    await outputManager.writeDocumentation([requirement('README.md', '# After\n')], session);
+    await session.commit();
+
+    expect(await journal.prune(new Date(Date.now() + 6 * 24 * 60 * 60 * 1000))).toEqual([]);
+    expect(await journal.prune(new Date(Date.now() + 8 * 24 * 60 * 60 * 1000))).toEqual(['session-3']);
+    expect(await journal.list()).toEqual([]);
+    expect(await fs.readdir(path.join(workspace, '.kiro/journal/backups'))).toEqual([]);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Per-run journal of documentation writes, used to roll a run back and to garbage-collect backups
+ *
+ * Layout under the journal directory:
+ *   <sessionId>.json                 - RunJournalRecord
+ *   backups/<sessionId>/<n>-<file>   - pre-image copies of files the run modified
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  JournalFileEntry,
+  RunJournalRecord,
+  RollbackResult,
+  DEFAULT_JOURNAL_DIRECTORY,
+  DEFAULT_BACKUP_RETENTION_DAYS
+} from './types';
+
+const SESSION_ID_PATTERN = /^[\w.-]+$/;
+
+export class RunJournal {
+  private readonly directory: string;
+
+  constructor(
+    private workspaceRoot: string,
+    journalDirectory: string = DEFAULT_JOURNAL_DIRECTORY,
+    private retentionDays: number = DEFAULT_BACKUP_RETENTION_DAYS
+  ) {
+    this.directory = path.resolve(workspaceRoot, journalDirectory);
+  }
+
+  /**
+   * Start journaling the writes of a run. Nothing is stored until the first write.
+   */
+  begin(sessionId: string, keepBackups: boolean = true): JournalSession {
+    this.assertSessionId(sessionId);
+    return new JournalSession(
+      {
+        sessionId,
+        startedAt: new Date().toISOString(),
+        status: 'in-progress',
+        files: []
+      },
+      this.workspaceRoot,
+      this.directory,
+      keepBackups
+    );
+  }
+
+  /**
+   * All journaled runs, most recent first
+   */
+  async list(): Promise<RunJournalRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const records: RunJournalRecord[] = [];
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        records.push(JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf-8')));
+      } catch (error) {
+        console.warn(`Skipping unreadable journal ${file}:`, error);
+      }
+    }
+
+    return records.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  async load(sessionId: string): Promise<RunJournalRecord | undefined> {
+    this.assertSessionId(sessionId);
+    try {
+      return JSON.parse(await fs.readFile(this.recordPath(sessionId), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Restore every file a run wrote to its pre-run state. Defaults to the most recent run that has
+   * not been rolled back. Refuses when any of the files changed after the run, and stages all
+   * restores before replacing anything. The run's versions are kept aside until every file is
+   * restored, so a failure puts them back and leaves the run to be rolled back again.
+   */
+  async rollback(sessionId?: string): Promise<RollbackResult> {
+    const record = sessionId
+      ? await this.load(sessionId)
+      : (await this.list()).find(r => r.status !== 'rolled-back' && r.files.length > 0);
+    const result: RollbackResult = { success: false, sessionId: record?.sessionId, restoredFiles: [], conflicts: [], errors: [] };
+
+    if (!record) {
+      result.errors.push(sessionId ? `No journal found for session ${sessionId}` : 'No run to roll back');
+      return result;
+    }
+    if (record.status === 'rolled-back') {
+      result.errors.push(`Session ${record.sessionId} was already rolled back at ${record.rolledBackAt}`);
+      return result;
+    }
+
+    // Every file must still be exactly what the run left behind
+    for (const entry of record.files) {
+      const currentHash = await this.hashFile(this.resolve(entry.filePath));
+      if (currentHash !== entry.postImageHash) {
+        result.conflicts.push(entry.filePath);
+      }
+      if (entry.preImageHash !== null && entry.postImageHash !== entry.preImageHash && !entry.backupPath) {
+        result.errors.push(`${entry.filePath}: no backup was kept (output.backupFiles is disabled)`);
+      } else if (entry.backupPath && await this.hashFile(path.join(this.directory, entry.backupPath)) !== entry.preImageHash) {
+        result.errors.push(`${entry.filePath}: backup ${entry.backupPath} is missing or corrupted`);
+      }
+    }
+    if (result.conflicts.length > 0) {
+      result.errors.push(`${result.conflicts.length} file(s) changed since session ${record.sessionId}; refusing to roll back`);
+    }
+    if (result.errors.length > 0) {
+      return result;
+    }
+
+    // Stage all restores next to their targets first, then swap them in
+    const staged: Array<{ entry: JournalFileEntry; tempPath?: string }> = [];
+    try {
+      // Files whose write never happened need no restore
+      for (const entry of record.files.filter(e => e.postImageHash !== e.preImageHash)) {
+        if (entry.backupPath) {
+          const tempPath = `${this.resolve(entry.filePath)}.rollback-${record.sessionId}.tmp`;
+          await fs.copyFile(path.join(this.directory, entry.backupPath), tempPath);
+          staged.push({ entry, tempPath });
+        } else {
+          staged.push({ entry });
+        }
+      }
+    } catch (error) {
+      await Promise.all(staged.filter(s => s.tempPath).map(s => fs.unlink(s.tempPath!).catch(() => undefined)));
+      result.errors.push(`Failed to stage rollback: ${error instanceof Error ? error.message : String(error)}`);
+      return result;
+    }
+
+    // Move the run's version aside, then the backup in; files the run created are only moved aside
+    const swapped: Array<{ entry: JournalFileEntry; asidePath: string }> = [];
+    for (const { entry, tempPath } of staged) {
+      const targetPath = this.resolve(entry.filePath);
+      const asidePath = `${targetPath}.rollback-${record.sessionId}.aside`;
+      try {
+        await fs.rename(targetPath, asidePath);
+        swapped.push({ entry, asidePath });
+        if (tempPath) {
+          await fs.rename(tempPath, targetPath);
+        }
+      } catch (error) {
+        result.errors.push(`${entry.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+        break;
+      }
+    }
+
+    if (result.errors.length > 0) {
+      await this.revertSwaps(swapped, result);
+      await Promise.all(staged.filter(s => s.tempPath).map(s => fs.unlink(s.tempPath!).catch(() => undefined)));
+      result.errors.push(`Rollback of session ${record.sessionId} was undone; no file was restored`);
+      return result;
+    }
+
+    await Promise.all(swapped.map(s => fs.unlink(s.asidePath).catch(() => undefined)));
+    result.restoredFiles.push(...swapped.map(s => s.entry.filePath));
+
+    record.status = 'rolled-back';
+    record.rolledBackAt = new Date().toISOString();
+    await writeRecord(this.recordPath(record.sessionId), record);
+
+    result.success = true;
+    return result;
+  }
+
+  /**
+   * Delete journals and backups older than the retention period. Returns the pruned session IDs.
+   */
+  async prune(now: Date = new Date()): Promise<string[]> {
+    const cutoff = now.getTime() - this.retentionDays * 24 * 60 * 60 * 1000;
+    const pruned: string[] = [];
+
+    for (const record of await this.list()) {
+      if (new Date(record.completedAt || record.startedAt).getTime() >= cutoff) continue;
+
+      await fs.rm(path.join(this.directory, 'backups', record.sessionId), { recursive: true, force: true });
+      await fs.rm(this.recordPath(record.sessionId), { force: true });
+      pruned.push(record.sessionId);
+    }
+
+    return pruned;
+  }
+
+  /**
+   * Put the run's versions back in place of the files restored so far
+   */
+  private async revertSwaps(swapped: Array<{ entry: JournalFileEntry; asidePath: string }>, result: RollbackResult): Promise<void> {
+    for (const { entry, asidePath } of swapped.reverse()) {
+      try {
+        await fs.rename(asidePath, this.resolve(entry.filePath));
+      } catch (error) {
+        result.errors.push(`${entry.filePath}: could not be put back, the run's version is in ${asidePath} ` +
+          `(${error instanceof Error ? error.message : String(error)})`);
+      }
+    }
+  }
+
+  private recordPath(sessionId: string): string {
+    return path.join(this.directory, `${sessionId}.json`);
+  }
+
+  private resolve(filePath: string): string {
+    return path.resolve(this.workspaceRoot, filePath);
+  }
+
+  private async hashFile(filePath: string): Promise<string | null> {
+    try {
+      return hashContent(await fs.readFile(filePath));
+    } catch {
+      return null;
+    }
+  }
+
+  private assertSessionId(sessionId: string): void {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+  }
+}
+
+/**
+ * Journal of a single run. Call `beforeWrite` before and `afterWrite` after each file write,
+ * then `commit` once the run finished writing.
+ */
+export class JournalSession {
+  constructor(
+    private record: RunJournalRecord,
+    private workspaceRoot: string,
+    private directory: string,
+    private keepBackups: boolean
+  ) {}
+
+  get sessionId(): string {
+    return this.record.sessionId;
+  }
+
+  get files(): JournalFileEntry[] {
+    return this.record.files;
+  }
+
+  /**
+   * Record the pre-image of a file the first time the run is about to write it
+   */
+  async beforeWrite(filePath: string): Promise<void> {
+    const relativePath = this.relative(filePath);
+    if (this.record.files.some(entry => entry.filePath === relativePath)) {
+      return;
+    }
+
+    let preImage: Buffer | undefined;
+    try {
+      preImage = await fs.readFile(filePath);
+    } catch {
+      preImage = undefined;
+    }
+
+    const preImageHash = preImage ? hashContent(preImage) : null;
+    const entry: JournalFileEntry = { filePath: relativePath, preImageHash, postImageHash: preImageHash };
+
+    if (preImage && this.keepBackups) {
+      entry.backupPath = path.join('backups', this.record.sessionId, `${this.record.files.length}-${path.basename(filePath)}`);
+      await fs.mkdir(path.dirname(path.join(this.directory, entry.backupPath)), { recursive: true });
+      await fs.writeFile(path.join(this.directory, entry.backupPath), preImage);
+    }
+
+    this.record.files.push(entry);
+    await this.save();
+  }
+
+  /**
+   * Record what the run left in a file
+   */
+  async afterWrite(filePath: string, content: string): Promise<void> {
+    const entry = this.record.files.find(e => e.filePath === this.relative(filePath));
+    if (!entry) {
+      throw new Error(`Journal has no pre-image for ${filePath}`);
+    }
+
+    entry.postImageHash = hashContent(Buffer.from(content, 'utf8'));
+    await this.save();
+  }
+
+  async commit(): Promise<void> {
+    this.record.status = 'committed';
+    this.record.completedAt = new Date().toISOString();
+    if (this.record.files.length > 0) {
+      await this.save();
+    }
+  }
+
+  private async save(): Promise<void> {
+    await writeRecord(path.join(this.directory, `${this.record.sessionId}.json`), this.record);
+  }
+
+  private relative(filePath: string): string {
+    return path.relative(this.workspaceRoot, path.resolve(this.workspaceRoot, filePath)).split(path.sep).join('/');
+  }
+}
+
+function hashContent(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+async function writeRecord(recordPath: string, record: RunJournalRecord): Promise<void> {
+  const tempPath = `${recordPath}.tmp`;
+  await fs.mkdir(path.dirname(recordPath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(record, null, 2), 'utf-8');
+  await fs.rename(tempPath, recordPath);
+}
@@ -0,0 +1,107 @@
+/**
+ * Tests for marker-delimited managed regions
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  managedRegionId,
+  parseManagedRegions,
+  renderManagedRegion,
+  replaceManagedRegion,
+  mergeManagedRegions,
+  hasManualEdits
+} from './managed-regions';
+
+describe('managed regions', () => {
+  it('should derive region ids from section titles', () => {
+    expect(managedRegionId('Features & API')).toBe('features-api');
+    expect(managedRegionId('  API v2 (beta) ')).toBe('api-v2-beta');
+  });
+
+  it('should only change the content between the markers', () => {
+    const text = fc.array(fc.constantFrom('# Title', '', 'prose', '## Features & API Design Notes', '- note'), { maxLength: 8 })
+      .map(lines => lines.join('\n'));
+
+    fc.assert(
+      fc.property(text, text, text, text, fc.constantFrom('\n', '\r\n'), (before, inside, after, generated, lineEnding) => {
+        const original = [before, renderManagedRegion('features-api', inside, lineEnding), after].join(lineEnding);
+        const region = parseManagedRegions(original)[0];
+
+        const { content, warnings } = replaceManagedRegion(original, region, generated);
+
+        expect(warnings).toEqual([]);
+        expect(content.startsWith(before + lineEnding + '<!-- auto-doc-sync:begin id=features-api hash=')).toBe(true);
+        expect(content.endsWith(`<!-- auto-doc-sync:end id=features-api -->${lineEnding}${after}`)).toBe(true);
+        expect(parseManagedRegions(content)[0].content).toBe(generated.replace(/\n+$/, ''));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should warn when a generated region was edited by hand since the last run', () => {
+    const generated = `# Readme\n\n${renderManagedRegion('usage', 'generated text')}\n`;
+    const edited = generated.replace('generated text', 'generated text, plus a human note');
+
+    expect(hasManualEdits(parseManagedRegions(generated)[0])).toBe(false);
+    expect(hasManualEdits(parseManagedRegions(edited)[0])).toBe(true);
+
+    const { warnings } = replaceManagedRegion(edited, parseManagedRegions(edited)[0], 'regenerated', 'README.md');
+    expect(warnings).toEqual(['README.md: managed region "usage" was edited by hand since the last run; the edits are being replaced']);
+
+    // Hand-written markers carry no hash and are never reported as edited
+    const handWritten = '<!-- auto-doc-sync:begin id=usage -->\nanything\n<!-- auto-doc-sync:end id=usage -->';
+    expect(hasManualEdits(parseManagedRegions(handWritten)[0])).toBe(false);
+  });
+
+  it('should reject unbalanced, nested and duplicate markers', () => {
+    const begin = (id: string) => `<!-- auto-doc-sync:begin id=${id} -->`;
+    const end = (id: string) => `<!-- auto-doc-sync:end id=${id} -->`;
+
+    expect(() => parseManagedRegions(`${begin('a')}\ntext`)).toThrow('Managed region "a" has no end marker');
+    expect(() => parseManagedRegions(`text\n${end('a')}`)).toThrow('Unexpected end marker for managed region "a"');
+    expect(() => parseManagedRegions([begin('a'), begin('b'), end('b'), end('a')].join('\n'))).toThrow('starts inside region "a"');
+    expect(() => parseManagedRegions([begin('a'), end('a'), begin('a'), end('a')].join('\n'))).toThrow('Duplicate managed region "a"');
+  });
+
+  it('should ignore markers inside fenced code blocks', () => {
+    const example = [
+      '```markdown',
+      '<!-- auto-doc-sync:begin id=features-api -->',
+      '...regenerated on every run...',
+      '<!-- auto-doc-sync:end id=features-api -->',
+      '```'
+    ].join('\n');
+    const tildeExample = ['~~~~', '<!-- auto-doc-sync:begin id=other -->', '```', '~~~', '~~~~'].join('\n');
+    const readme = `# Docs\n\n${example}\n\n${tildeExample}\n`;
+
+    expect(parseManagedRegions(readme)).toEqual([]);
+
+    const withRegion = `${readme}\n${renderManagedRegion('features-api', 'old body')}\n`;
+    expect(parseManagedRegions(withRegion).map(r => [r.id, r.content])).toEqual([['features-api', 'old body']]);
+
+    const { content } = mergeManagedRegions(readme, renderManagedRegion('features-api', 'generated'));
+    expect(content.startsWith(readme.trimEnd())).toBe(true);
+    expect(parseManagedRegions(content).map(r => [r.id, r.content])).toEqual([['features-api', 'generated']]);
+  });
+
+  it('should merge generated regions into a file without touching anything outside them', () => {
+    const existing = `# API Documentation\n\nHand-written intro.\n\n${renderManagedRegion('api-spec', 'old body')}\n\n## Notes\n\nKeep me.\n`;
+    const generated = `# API Documentation\n\n${renderManagedRegion('api-spec', 'new body')}\n\n${renderManagedRegion('changelog', 'entries')}\n`;
+
+    const { content, warnings } = mergeManagedRegions(existing, generated);
+
+    expect(warnings).toEqual([]);
+    expect(content).toContain('Hand-written intro.');
+    expect(content).toContain('## Notes\n\nKeep me.');
+    expect(parseManagedRegions(content).map(r => [r.id, r.content])).toEqual([
+      ['api-spec', 'new body'],
+      ['changelog', 'entries']
+    ]);
+
+    const unmanaged = mergeManagedRegions(existing, '# A whole new file\n', 'api.md');
+    expect(unmanaged.content).toBe(existing);
+    expect(unmanaged.warnings).toEqual(['api.md: generated content has no managed regions; file left unchanged']);
+  });
+});
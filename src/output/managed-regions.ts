@@ -0,0 +1,201 @@
+/**
+ * Marker-delimited regions of a documentation file that the system owns.
+ *
+ *   <!-- auto-doc-sync:begin id=features-api hash=0123456789ab -->
+ *   ...generated content...
+ *   <!-- auto-doc-sync:end id=features-api -->
+ *
+ * Content between the markers is regenerated on every run; everything outside them is left alone.
+ * The begin marker records a hash of the content last written, so edits made by hand since then
+ * can be detected. Hand-written markers without a hash are never reported as edited. Markers inside
+ * fenced code blocks are examples, not regions.
+ */
+
+import { createHash } from 'crypto';
+import { ParseError } from '../templates/errors';
+
+const BEGIN_MARKER = /^[ \t]*<!--\s*auto-doc-sync:begin\s+id=([\w.-]+)(?:\s+hash=([0-9a-f]+))?\s*-->[ \t]*$/;
+const END_MARKER = /^[ \t]*<!--\s*auto-doc-sync:end\s+id=([\w.-]+)\s*-->[ \t]*$/;
+const CODE_FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+export interface ManagedRegion {
+  id: string;
+  /** Hash of the content written by the last run, if the region was generated */
+  hash?: string;
+  /** Line index of the begin marker */
+  beginLine: number;
+  /** Line index of the end marker */
+  endLine: number;
+  /** Character offsets spanning the begin marker through the end marker, excluding its line break */
+  startOffset: number;
+  endOffset: number;
+  /** Line break used by the begin marker */
+  lineEnding: string;
+  /** Content between the markers, with `\n` line breaks */
+  content: string;
+}
+
+export interface ManagedUpdate {
+  content: string;
+  warnings: string[];
+}
+
+/**
+ * Derive a region id from a section title, e.g. "Features & API" -> "features-api"
+ */
+export function managedRegionId(sectionName: string): string {
+  return sectionName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'section';
+}
+
+/**
+ * Find all managed regions in a file, ignoring markers in fenced code blocks. Throws a ParseError for
+ * unbalanced, nested or duplicate markers, since guessing where a region ends could overwrite
+ * human-written content.
+ */
+export function parseManagedRegions(content: string, filePath?: string): ManagedRegion[] {
+  const regions: ManagedRegion[] = [];
+  let open: { id: string; hash?: string; beginLine: number; startOffset: number; contentOffset: number; lineEnding: string } | undefined;
+  let fence: string | undefined;
+  let offset = 0;
+
+  for (let index = 0; offset <= content.length; index++) {
+    const newline = content.indexOf('\n', offset);
+    const lineEndOffset = newline === -1 ? content.length : newline;
+    const hasCarriageReturn = lineEndOffset > offset && content[lineEndOffset - 1] === '\r';
+    const line = content.slice(offset, hasCarriageReturn ? lineEndOffset - 1 : lineEndOffset);
+    const fenceMatch = line.match(CODE_FENCE);
+    const inCodeBlock = fence !== undefined || fenceMatch !== null;
+    if (fenceMatch && fence === undefined) {
+      fence = fenceMatch[1];
+    } else if (fenceMatch && closesFence(line, fenceMatch[1], fence!)) {
+      fence = undefined;
+    }
+    const begin = inCodeBlock ? null : line.match(BEGIN_MARKER);
+    const end = inCodeBlock ? null : line.match(END_MARKER);
+
+    if (begin) {
+      if (open) {
+        throw new ParseError(`Managed region "${begin[1]}" starts inside region "${open.id}" (line ${index + 1})`, filePath);
+      }
+      if (regions.some(region => region.id === begin[1])) {
+        throw new ParseError(`Duplicate managed region "${begin[1]}" (line ${index + 1})`, filePath);
+      }
+      open = {
+        id: begin[1],
+        hash: begin[2],
+        beginLine: index,
+        startOffset: offset,
+        contentOffset: newline === -1 ? content.length : newline + 1,
+        lineEnding: hasCarriageReturn ? '\r\n' : '\n'
+      };
+    } else if (end) {
+      if (!open || open.id !== end[1]) {
+        throw new ParseError(`Unexpected end marker for managed region "${end[1]}" (line ${index + 1})`, filePath);
+      }
+      const { contentOffset, ...region } = open;
+      regions.push({
+        ...region,
+        endLine: index,
+        endOffset: hasCarriageReturn ? lineEndOffset - 1 : lineEndOffset,
+        content: content.slice(contentOffset, Math.max(contentOffset, offset)).replace(/\r?\n$/, '').replace(/\r\n/g, '\n')
+      });
+      open = undefined;
+    }
+
+    if (newline === -1) break;
+    offset = newline + 1;
+  }
+
+  if (open) {
+    throw new ParseError(`Managed region "${open.id}" has no end marker`, filePath);
+  }
+
+  return regions;
+}
+
+/**
+ * Render a region with markers, recording the hash of its content
+ */
+export function renderManagedRegion(id: string, content: string, lineEnding: string = '\n'): string {
+  const body = content.replace(/\r?\n/g, lineEnding).replace(/(\r?\n)+$/, '');
+  return [
+    `<!-- auto-doc-sync:begin id=${id} hash=${hashRegionContent(content)} -->`,
+    body,
+    `<!-- auto-doc-sync:end id=${id} -->`
+  ].join(lineEnding);
+}
+
+/**
+ * Whether the region's content differs from what the last run wrote
+ */
+export function hasManualEdits(region: ManagedRegion): boolean {
+  return region.hash !== undefined && region.hash !== hashRegionContent(region.content);
+}
+
+/**
+ * Replace the content of an existing region, leaving every line outside it untouched
+ */
+export function replaceManagedRegion(
+  original: string,
+  region: ManagedRegion,
+  newContent: string,
+  filePath?: string
+): ManagedUpdate {
+  const warnings = hasManualEdits(region)
+    ? [`${filePath ? `${filePath}: ` : ''}managed region "${region.id}" was edited by hand since the last run; the edits are being replaced`]
+    : [];
+
+  const updated = original.slice(0, region.startOffset) +
+    renderManagedRegion(region.id, newContent, region.lineEnding) +
+    original.slice(region.endOffset);
+
+  return { content: updated, warnings };
+}
+
+/**
+ * Apply a fully generated file to an existing one that contains managed regions: each region of the
+ * generated file replaces the region with the same id, new regions are appended, and nothing outside
+ * the existing regions changes
+ */
+export function mergeManagedRegions(original: string, generated: string, filePath?: string): ManagedUpdate {
+  const generatedRegions = parseManagedRegions(generated, filePath);
+  const warnings: string[] = [];
+  let content = original;
+
+  if (generatedRegions.length === 0) {
+    return {
+      content,
+      warnings: [`${filePath ? `${filePath}: ` : ''}generated content has no managed regions; file left unchanged`]
+    };
+  }
+
+  for (const generatedRegion of generatedRegions) {
+    const existing = parseManagedRegions(content, filePath).find(region => region.id === generatedRegion.id);
+
+    if (existing) {
+      const update = replaceManagedRegion(content, existing, generatedRegion.content, filePath);
+      content = update.content;
+      warnings.push(...update.warnings);
+    } else {
+      const lineEnding = content.includes('\r\n') ? '\r\n' : '\n';
+      content = `${content.replace(/(\r?\n)+$/, '')}${lineEnding}${lineEnding}${renderManagedRegion(generatedRegion.id, generatedRegion.content, lineEnding)}${lineEnding}`;
+    }
+  }
+
+  return { content, warnings };
+}
+
+/**
+ * A closing fence repeats the opening character at least as often and has no info string
+ */
+function closesFence(line: string, marker: string, opening: string): boolean {
+  return marker[0] === opening[0] && marker.length >= opening.length && line.trim() === marker;
+}
+
+function hashRegionContent(content: string): string {
+  const normalized = content.replace(/\r\n/g, '\n').trim();
+  return createHash('sha256').update(normalized).digest('hex').substring(0, 12);
+}
@@ -277,4 +277,108 @@ text
     expect(updated).toContain('## Installation');
     expect(updated).toContain('text');
   });
+
+  it('should preview combined changes per file as unified diffs without writing anything', async () => {
+    const readmeFile = path.join(testDir, 'README.md');
+    const apiFile = path.join(testDir, 'specs', 'api.md');
+    const original = '# Demo\n\n## Usage\n\nold usage\n\n## License\n\nMIT\n';
+    await fs.writeFile(readmeFile, original);
+
+    const requirements: DocumentationRequirement[] = [
+      { type: 'readme-section', targetFile: readmeFile, section: 'Usage', content: 'new usage\n', priority: 'medium' },
+      { type: 'readme-section', targetFile: readmeFile, section: 'License', content: 'Apache-2.0\n', priority: 'low' },
+      { type: 'api-spec', targetFile: apiFile, content: '# API\n', priority: 'high' }
+    ];
+
+    const previews = await outputManager.previewDocumentation(requirements, testDir);
+
+    expect(previews.map(p => [path.basename(p.filePath), p.isNewFile, p.errors])).toEqual([
+      ['README.md', false, []],
+      ['api.md', true, []]
+    ]);
+    expect(previews[0].diff).toContain('--- a/README.md\n+++ b/README.md\n');
+    expect(previews[0].diff).toMatch(/-old usage\n\+<!-- auto-doc-sync:begin id=usage hash=\w+ -->\n\+new usage\n\+<!-- auto-doc-sync:end id=usage -->\n \n ## License/);
+    expect(previews[0].diff).toMatch(/-MIT\n\+<!-- auto-doc-sync:begin id=license hash=\w+ -->\n\+Apache-2.0\n\+<!-- auto-doc-sync:end id=license -->\n$/);
+    expect(previews[1].diff).toBe('diff --git a/specs/api.md b/specs/api.md\nnew file mode 100644\n--- /dev/null\n+++ b/specs/api.md\n@@ -0,0 +1 @@\n+# API\n');
+
+    expect(await fs.readFile(readmeFile, 'utf8')).toBe(original);
+    await expect(fs.access(apiFile)).rejects.toThrow();
+
+    const patchFile = path.join(testDir, 'docs.patch');
+    await outputManager.writePatch(previews, patchFile);
+    expect(await fs.readFile(patchFile, 'utf8')).toBe(previews[0].diff + previews[1].diff);
+  });
+
+  it('should only regenerate the managed region and leave similarly titled sections alone', async () => {
+    const testFile = path.join(testDir, `managed-${Date.now()}-${Math.random()}.md`);
+    const requirement: DocumentationRequirement = {
+      type: 'readme-section',
+      targetFile: testFile,
+      section: 'Usage',
+      content: 'Run `tool sync`.',
+      priority: 'medium'
+    };
+    await fs.writeFile(testFile, '# Demo\n\n## Usage Notes\n\nWritten by hand.\n\n## Usage\n\nold usage\n');
+
+    await outputManager.writeDocumentation([requirement]);
+    const migrated = await fs.readFile(testFile, 'utf8');
+
+    expect(migrated).toContain('## Usage Notes\n\nWritten by hand.\n');
+    expect(migrated).not.toContain('old usage');
+    expect(migrated).toMatch(/## Usage\n\n<!-- auto-doc-sync:begin id=usage hash=[0-9a-f]+ -->\nRun `tool sync`.\n<!-- auto-doc-sync:end id=usage -->/);
+
+    // Content around the region, even under the same heading, is never touched
+    await fs.writeFile(testFile, migrated.replace('## Usage\n\n', '## Usage\n\nIntro kept by hand.\n\n'));
+    const results = await outputManager.writeDocumentation([{ ...requirement, content: 'Run `tool sync --all`.' }]);
+    const updated = await fs.readFile(testFile, 'utf8');
+
+    expect(results[0].warnings).toEqual([]);
+    expect(updated).toContain('## Usage\n\nIntro kept by hand.\n\n<!-- auto-doc-sync:begin id=usage');
+    expect(updated).toContain('Run `tool sync --all`.');
+  });
+
+  it('should report hand edits inside a managed region', async () => {
+    const testFile = path.join(testDir, `edited-${Date.now()}-${Math.random()}.md`);
+    const requirement: DocumentationRequirement = {
+      type: 'readme-section',
+      targetFile: testFile,
+      section: 'Usage',
+      content: 'generated',
+      priority: 'medium'
+    };
+    await fs.writeFile(testFile, '# Demo\n');
+    await outputManager.writeDocumentation([requirement]);
+
+    const generated = await fs.readFile(testFile, 'utf8');
+    await fs.writeFile(testFile, generated.replace('generated', 'generated and tweaked'));
+    const previews = await outputManager.previewDocumentation([requirement], testDir);
+
+    expect(previews[0].warnings).toEqual([
+      `${testFile}: managed region "usage" was edited by hand since the last run; the edits are being replaced`
+    ]);
+    expect(previews[0].diff).toContain('-generated and tweaked\n+generated\n');
+  });
+
+  it('should keep the text of an unmarked file and append the generated regions to it', async () => {
+    const apiFile = path.join(testDir, `api-${Date.now()}-${Math.random()}.md`);
+    const requirement: DocumentationRequirement = {
+      type: 'api-spec',
+      targetFile: apiFile,
+      content: '# API Documentation\n\n<!-- auto-doc-sync:begin id=api-spec -->\n## greet\n<!-- auto-doc-sync:end id=api-spec -->\n',
+      priority: 'medium'
+    };
+    await fs.writeFile(apiFile, '# API\n\nNotes from the team: greet is rate limited.\n');
+
+    const results = await outputManager.writeDocumentation([requirement]);
+    const migrated = await fs.readFile(apiFile, 'utf8');
+
+    expect(results[0].success).toBe(true);
+    expect(migrated).toMatch(/^# API\n\nNotes from the team: greet is rate limited\.\n\n<!-- auto-doc-sync:begin id=api-spec hash=[0-9a-f]+ -->\n## greet\n<!-- auto-doc-sync:end id=api-spec -->\n$/);
+
+    // Generated content without regions leaves the file alone
+    const unchanged = await outputManager.writeDocumentation([{ ...requirement, content: '# API Documentation\n' }]);
+
+    expect(unchanged[0].warnings).toEqual([`${apiFile}: generated content has no managed regions; file left unchanged`]);
+    expect(await fs.readFile(apiFile, 'utf8')).toBe(migrated);
+  });
 });
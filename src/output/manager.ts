@@ -5,17 +5,33 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { DocumentationRequirement } from '../types';
-import { OutputConfig, WriteResult, ValidationResult, MarkdownSection, FormattingPreservation } from './types';
+import { OutputConfig, WriteResult, ValidationResult, MarkdownSection, FormattingPreservation, DocumentationPreview } from './types';
+import { createUnifiedDiff } from './diff';
+import { JournalSession } from './journal';
+import {
+  ManagedUpdate,
+  managedRegionId,
+  parseManagedRegions,
+  renderManagedRegion,
+  replaceManagedRegion,
+  mergeManagedRegions
+} from './managed-regions';
+
+const FEATURES_API_REGION_ID = managedRegionId('Features & API');
 
 export class OutputManager {
   constructor(private config: OutputConfig) {}
 
-  async writeDocumentation(requirements: DocumentationRequirement[]): Promise<WriteResult[]> {
+  /**
+   * Write every requirement to disk. With a journal session, pre-images are backed up into the
+   * run journal so the run can be rolled back; otherwise backups are written next to each file.
+   */
+  async writeDocumentation(requirements: DocumentationRequirement[], journal?: JournalSession): Promise<WriteResult[]> {
     const results: WriteResult[] = [];
     
     for (const requirement of requirements) {
       try {
-        const result = await this.writeDocumentationFile(requirement);
+        const result = await this.writeDocumentationFile(requirement, journal);
         results.push(result);
       } catch (error) {
         results.push({
@@ -30,24 +46,83 @@ export class OutputManager {
     return results;
   }
 
-  private async writeDocumentationFile(requirement: DocumentationRequirement): Promise<WriteResult> {
+  /**
+   * Render every requirement without touching the file system and return one unified diff
+   * per target file. Requirements that target the same file are applied in order, so the
+   * diff shows the combined result. Paths in the diffs are relative to `baseDir`.
+   */
+  async previewDocumentation(requirements: DocumentationRequirement[], baseDir: string = process.cwd()): Promise<DocumentationPreview[]> {
+    const previews = new Map<string, DocumentationPreview & { originalContent?: string; content?: string }>();
+
+    for (const requirement of requirements) {
+      const filePath = requirement.targetFile;
+      let preview = previews.get(filePath);
+      if (!preview) {
+        const originalContent = await this.fileExists(filePath) ? await fs.readFile(filePath, 'utf8') : undefined;
+        preview = {
+          filePath,
+          diff: '',
+          isNewFile: originalContent === undefined,
+          errors: [],
+          warnings: [],
+          originalContent,
+          content: originalContent
+        };
+        previews.set(filePath, preview);
+      }
+
+      try {
+        const { content, warnings } = await this.renderDocumentationFile(requirement, preview.content);
+        preview.warnings.push(...warnings);
+
+        if (this.config.validateOutput) {
+          const validation = await this.validateContent(content, filePath);
+          if (!validation.isValid) {
+            preview.errors.push(...validation.errors);
+            continue;
+          }
+        }
+
+        preview.content = content;
+      } catch (error) {
+        preview.errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return Array.from(previews.values()).map(({ originalContent, content, ...preview }) => ({
+      ...preview,
+      diff: content === undefined ? '' : createUnifiedDiff(path.relative(baseDir, preview.filePath), originalContent, content)
+    }));
+  }
+
+  /**
+   * Write the previewed diffs to a patch file that can be reviewed and applied with `git apply`
+   */
+  async writePatch(previews: DocumentationPreview[], patchPath: string): Promise<WriteResult> {
+    const patch = previews.map(preview => preview.diff).filter(diff => diff.length > 0).join('');
+    await this.atomicWrite(patchPath, patch);
+
+    return {
+      success: true,
+      filePath: patchPath,
+      bytesWritten: Buffer.byteLength(patch, 'utf8'),
+      errors: []
+    };
+  }
+
+  private async writeDocumentationFile(requirement: DocumentationRequirement, journal?: JournalSession): Promise<WriteResult> {
     const filePath = requirement.targetFile;
+    const exists = await this.fileExists(filePath);
     
     // Create backup if configured
-    if (this.config.backupFiles && await this.fileExists(filePath)) {
+    if (journal) {
+      await journal.beforeWrite(filePath);
+    } else if (this.config.backupFiles && exists) {
       await this.createBackup(filePath);
     }
 
-    let content: string;
-    let bytesWritten: number;
-
-    if (requirement.section && await this.fileExists(filePath)) {
-      // Update specific section while preserving formatting
-      content = await this.updateSection(filePath, requirement.section, requirement.content);
-    } else {
-      // Write entire file
-      content = requirement.content;
-    }
+    const { content, warnings } = await this.renderDocumentationFile(requirement, exists ? await fs.readFile(filePath, 'utf8') : undefined);
+    warnings.forEach(warning => console.warn(`⚠️  ${warning}`));
 
     // Validate content if configured
     if (this.config.validateOutput) {
@@ -57,60 +132,92 @@ export class OutputManager {
           success: false,
           filePath,
           bytesWritten: 0,
-          errors: validation.errors
+          errors: validation.errors,
+          warnings
         };
       }
     }
 
     // Atomic write operation
     await this.atomicWrite(filePath, content);
-    bytesWritten = Buffer.byteLength(content, 'utf8');
+    await journal?.afterWrite(filePath, content);
+    const bytesWritten = Buffer.byteLength(content, 'utf8');
 
     return {
       success: true,
       filePath,
       bytesWritten,
-      errors: []
+      errors: [],
+      warnings
     };
   }
 
-  private async updateSection(filePath: string, sectionName: string, newContent: string): Promise<string> {
-    const originalContent = await fs.readFile(filePath, 'utf8');
+  /**
+   * Compute the full new content of a requirement's target file from its current content.
+   * Only managed regions of an existing file are ever rewritten. A file without any is migrated
+   * once: its text is kept and the generated regions are appended to it.
+   */
+  private async renderDocumentationFile(requirement: DocumentationRequirement, existingContent: string | undefined): Promise<ManagedUpdate> {
+    if (existingContent === undefined || !existingContent.trim()) {
+      return { content: requirement.content, warnings: [] };
+    }
+
+    if (requirement.section) {
+      // Update specific section while preserving formatting
+      return this.updateSection(existingContent, requirement.section, requirement.content, requirement.targetFile);
+    }
+
+    return mergeManagedRegions(existingContent, requirement.content, requirement.targetFile);
+  }
+
+  /**
+   * Regenerate the managed region for a section. Files written before managed regions existed
+   * are migrated once: a heading with exactly the section's title has its body wrapped in a region,
+   * otherwise a new section is appended.
+   */
+  private updateSection(originalContent: string, sectionName: string, newContent: string, filePath: string): ManagedUpdate {
     const formatting = this.analyzeFormatting(originalContent);
     
     // Skip update if there's no meaningful content to add
     if (!newContent.trim()) {
-      return originalContent;
+      return { content: originalContent, warnings: [] };
     }
     
-    const sections = this.parseMarkdownSections(originalContent);
-    
-    // Handle special case for "Features & API" section with deduplication
-    if (sectionName.toLowerCase().includes('features') && sectionName.toLowerCase().includes('api')) {
-      return this.updateFeaturesAPISection(originalContent, newContent, formatting);
+    const regionId = managedRegionId(sectionName);
+    // "Features & API" accumulates entries across runs, deduplicated by name
+    const isFeaturesAPI = regionId === FEATURES_API_REGION_ID;
+    const region = parseManagedRegions(originalContent, filePath).find(r => r.id === regionId);
+
+    if (region) {
+      const content = isFeaturesAPI ? this.mergeFeatureAPIContent(region.content, newContent) : newContent;
+      return replaceManagedRegion(originalContent, region, content, filePath);
     }
-    
-    const sectionIndex = sections.findIndex(s => 
-      s.title.toLowerCase().includes(sectionName.toLowerCase())
-    );
 
-    if (sectionIndex === -1) {
-      // Section doesn't exist, append it
-      return this.appendSection(originalContent, sectionName, newContent, formatting);
-    } else {
-      // Replace existing section while preserving formatting
-      return this.replaceSection(originalContent, sections[sectionIndex], newContent, formatting);
+    if (isFeaturesAPI) {
+      return { content: this.updateFeaturesAPISection(originalContent, sectionName, newContent, formatting), warnings: [] };
     }
+
+    const section = this.parseMarkdownSections(originalContent).find(s => this.isSameTitle(s.title, sectionName));
+    const regionContent = renderManagedRegion(regionId, newContent, formatting.lineEndings);
+
+    return {
+      content: section
+        ? this.replaceSection(originalContent, section, regionContent, formatting)
+        : this.appendSection(originalContent, sectionName, regionContent, formatting),
+      warnings: []
+    };
   }
 
-  private updateFeaturesAPISection(originalContent: string, newContent: string, formatting: FormattingPreservation): string {
-    const allSections = this.findHierarchicalSectionsByTitle(originalContent, (title) => {
-      const normalized = title.toLowerCase();
-      return normalized.includes('features') && normalized.includes('api');
-    });
+  private updateFeaturesAPISection(
+    originalContent: string,
+    sectionName: string,
+    newContent: string,
+    formatting: FormattingPreservation
+  ): string {
+    const allSections = this.findHierarchicalSectionsByTitle(originalContent, (title) => this.isSameTitle(title, sectionName));
 
     if (allSections.length === 0) {
-      return this.appendSection(originalContent, 'Features & API', newContent, formatting);
+      return this.appendSection(originalContent, sectionName, renderManagedRegion(FEATURES_API_REGION_ID, newContent, formatting.lineEndings), formatting);
     }
 
     const primarySection = allSections[0];
@@ -120,7 +227,11 @@ export class OutputManager {
       .map((section) => this.extractSectionContent(originalContent, section))
       .join('\n');
 
-    const mergedContent = this.mergeFeatureAPIContent(existingCombinedContent, newContent);
+    const mergedContent = renderManagedRegion(
+      FEATURES_API_REGION_ID,
+      this.mergeFeatureAPIContent(existingCombinedContent, newContent),
+      formatting.lineEndings
+    );
 
     if (duplicateSections.length === 0) {
       return this.replaceSection(originalContent, primarySection, mergedContent, formatting);
@@ -129,6 +240,11 @@ export class OutputManager {
     return this.replaceAndRemoveSections(originalContent, primarySection, duplicateSections, mergedContent, formatting);
   }
 
+  private isSameTitle(title: string, sectionName: string): boolean {
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+    return normalize(title) === normalize(sectionName);
+  }
+
   private findHierarchicalSectionsByTitle(
     content: string,
     titleMatches: (title: string) => boolean
@@ -424,8 +540,14 @@ export class OutputManager {
     
     const sectionHeader = `${'#'.repeat(section.level)} ${section.title}`;
     const updatedSection = [sectionHeader, '', newContent];
+
+    // Keep the blank lines that separated the section from what follows it
+    const trailingBlankLines: string[] = [];
+    for (let index = section.endLine; index > section.startLine && lines[index].trim() === ''; index--) {
+      trailingBlankLines.push('');
+    }
     
-    return [...beforeSection, ...updatedSection, ...afterSection].join(formatting.lineEndings);
+    return [...beforeSection, ...updatedSection, ...trailingBlankLines, ...afterSection].join(formatting.lineEndings);
   }
 
   private async validateContent(content: string, filePath: string): Promise<ValidationResult> {
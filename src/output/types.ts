@@ -6,13 +6,31 @@ export interface OutputConfig {
   preserveFormatting: boolean;
   backupFiles: boolean;
   validateOutput: boolean;
+  /** Where run journals and pre-image backups are kept (default: .kiro/journal) */
+  journalDirectory?: string;
+  /** Days to keep run journals and their backups before they are garbage-collected */
+  backupRetentionDays?: number;
 }
 
+export const DEFAULT_JOURNAL_DIRECTORY = '.kiro/journal';
+export const DEFAULT_BACKUP_RETENTION_DAYS = 30;
+
 export interface WriteResult {
   success: boolean;
   filePath: string;
   bytesWritten: number;
   errors: string[];
+  /** Non-fatal problems, e.g. hand edits inside a managed region that were overwritten */
+  warnings?: string[];
+}
+
+export interface DocumentationPreview {
+  filePath: string;
+  /** Unified diff of the pending change; empty when the file would not change */
+  diff: string;
+  isNewFile: boolean;
+  errors: string[];
+  warnings: string[];
 }
 
 export interface ValidationResult {
@@ -34,4 +52,33 @@ export interface FormattingPreservation {
   lineEndings: '\n' | '\r\n';
   trailingWhitespace: boolean;
   emptyLines: number[];
-}
\ No newline at end of file
+}
+
+export interface JournalFileEntry {
+  /** Workspace-relative path of the written file */
+  filePath: string;
+  /** SHA-256 of the file before the run; null when the run created it */
+  preImageHash: string | null;
+  /** Journal-relative location of the pre-image copy, when backups are enabled */
+  backupPath?: string;
+  /** SHA-256 of the file after the run's last write to it; equals the pre-image hash until a write succeeds */
+  postImageHash: string | null;
+}
+
+export interface RunJournalRecord {
+  sessionId: string;
+  startedAt: string;
+  completedAt?: string;
+  rolledBackAt?: string;
+  status: 'in-progress' | 'committed' | 'rolled-back';
+  files: JournalFileEntry[];
+}
+
+export interface RollbackResult {
+  success: boolean;
+  sessionId?: string;
+  restoredFiles: string[];
+  /** Files that changed after the run, which block the rollback */
+  conflicts: string[];
+  errors: string[];
+}
@@ -0,0 +1,125 @@
+/**
+ * Tests for the subagent response cache
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ResponseCache } from './cache';
+import { OfflineProvider } from './providers';
+import { SubagentClient } from './client';
+
+describe('ResponseCache', () => {
+  let directory: string;
+
+  const response = (data: any) => ({ requestType: 'code-analysis', model: 'offline', data, tokensUsed: 10 });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'response-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should derive keys from content regardless of key order', () => {
+    const key = ResponseCache.keyFor({ type: 'code-analysis', payload: { a: 1, b: [1, 2] }, model: 'm' });
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(ResponseCache.keyFor({ model: 'm', payload: { b: [1, 2], a: 1 }, type: 'code-analysis', extra: undefined })).toBe(key);
+    expect(ResponseCache.keyFor({ type: 'code-analysis', payload: { a: 1, b: [2, 1] }, model: 'm' })).not.toBe(key);
+    expect(ResponseCache.keyFor({ type: 'code-analysis', payload: { a: 1, b: [1, 2] }, model: 'other' })).not.toBe(key);
+  });
+
+  it('should expire responses after the TTL', async () => {
+    const cache = new ResponseCache(directory, { ttlHours: 1 });
+    const key = ResponseCache.keyFor({ prompt: 'a' });
+    const createdAt = new Date('2026-01-01T00:00:00.000Z');
+
+    await cache.set(key, response({ value: 1 }), createdAt);
+
+    expect((await cache.get(key, new Date('2026-01-01T00:59:00.000Z')))?.data).toEqual({ value: 1 });
+    expect(await cache.get(key, new Date('2026-01-01T01:00:00.000Z'))).toBeUndefined();
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it('should evict the oldest responses beyond the size limit', async () => {
+    const cache = new ResponseCache(directory, { maxSizeMB: 0.001 });
+    const keys = ['a', 'b', 'c'].map(prompt => ResponseCache.keyFor({ prompt }));
+
+    for (const [index, key] of keys.entries()) {
+      await cache.set(key, response({ padding: 'x'.repeat(400) }));
+      // Distinct modification times so eviction order is deterministic
+      const time = new Date(Date.now() - (keys.length - index) * 1000);
+      await fs.utimes(path.join(directory, `${key}.json`), time, time);
+    }
+    await cache.prune();
+
+    expect(await cache.get(keys[0])).toBeUndefined();
+    expect(await cache.get(keys[2])).toBeDefined();
+  });
+
+  describe('SubagentClient', () => {
+    let configPath: string;
+
+    beforeEach(async () => {
+      configPath = path.join(directory, 'agent.json');
+      const config = JSON.parse(await fs.readFile('.kiro/subagents/doc-analysis-agent.json', 'utf-8'));
+      config.configuration = { ...config.configuration, provider: 'offline' };
+      await fs.writeFile(configPath, JSON.stringify(config));
+    });
+
+    it('should answer identical requests from the cache', async () => {
+      const provider = new OfflineProvider();
+      const complete = vi.spyOn(provider, 'complete');
+      const cache = new ResponseCache(path.join(directory, 'cache'));
+      const client = new SubagentClient(configPath, { projectPath: directory }, { provider, cache });
+      const request = { changes: ['+export const a = 1;'], filePaths: ['a.ts'], diffContent: '+export const a = 1;' };
+
+      const first = await client.analyzeCode(request);
+      const second = await client.analyzeCode(request);
+      await client.analyzeCode({ ...request, filePaths: ['b.ts'] });
+
+      expect(complete).toHaveBeenCalledTimes(2);
+      expect(first.metadata?.tokensUsed).toBeGreaterThan(0);
+      expect(second.metadata).toMatchObject({ tokensUsed: 0, cached: true, model: 'offline' });
+      expect(second.extractedFunctions).toEqual(first.extractedFunctions);
+      expect(client.takeCacheStats()).toEqual({ hits: 1, misses: 2 });
+      expect(client.takeCacheStats()).toEqual({ hits: 0, misses: 0 });
+    });
+
+    it('should plan requests without sending them', async () => {
+      const provider = new OfflineProvider();
+      const complete = vi.spyOn(provider, 'complete');
+      const cache = new ResponseCache(path.join(directory, 'cache'));
+      const client = new SubagentClient(configPath, { projectPath: directory }, { provider, cache });
+      const request = { changedFiles: [{ path: 'a.ts' }] };
+
+      const planned = await client.planRequest('change-classification', request);
+      expect(planned).toMatchObject({ type: 'change-classification', model: 'offline', completionTokens: 2000, cached: false });
+      expect(planned.promptTokens).toBeGreaterThan(0);
+      expect(complete).not.toHaveBeenCalled();
+
+      await client.classifyChanges(request);
+      expect((await client.planRequest('change-classification', request)).cached).toBe(true);
+      expect(client.takeCacheStats()).toEqual({ hits: 0, misses: 1 });
+    });
+
+    it('should bypass the cache while disabled', async () => {
+      const provider = new OfflineProvider();
+      const complete = vi.spyOn(provider, 'complete');
+      const cache = new ResponseCache(path.join(directory, 'cache'));
+      const client = new SubagentClient(configPath, { projectPath: directory }, { provider, cache });
+
+      client.setCacheEnabled(false);
+      await client.classifyChanges({ changedFiles: [] });
+      await client.classifyChanges({ changedFiles: [] });
+
+      expect(complete).toHaveBeenCalledTimes(2);
+      expect(client.takeCacheStats()).toEqual({ hits: 0, misses: 0 });
+      await expect(fs.readdir(path.join(directory, 'cache'))).rejects.toThrow();
+    });
+  });
+});
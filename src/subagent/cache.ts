@@ -0,0 +1,122 @@
+/**
+ * Content-addressed disk cache of LLM provider responses
+ *
+ * Each response is stored as `<directory>/<sha256>.json`, keyed by a hash of everything that
+ * determines the response (request type, provider, model, prompts, schema and payload), so an
+ * identical request is answered from disk instead of being paid for again.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CachedResponse, ResponseCacheConfig, DEFAULT_RESPONSE_CACHE_CONFIG } from './types';
+
+const KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+export class ResponseCache {
+  private readonly ttlMs: number;
+  private readonly maxBytes: number;
+
+  constructor(private directory: string, config: Partial<ResponseCacheConfig> = {}) {
+    const { ttlHours, maxSizeMB } = { ...DEFAULT_RESPONSE_CACHE_CONFIG, ...config };
+    this.ttlMs = ttlHours * 60 * 60 * 1000;
+    this.maxBytes = maxSizeMB * 1024 * 1024;
+  }
+
+  /**
+   * Cache key for a request: the SHA-256 of its parts, independent of object key order
+   */
+  static keyFor(parts: Record<string, unknown>): string {
+    return createHash('sha256').update(stableStringify(parts)).digest('hex');
+  }
+
+  async get(key: string, now: Date = new Date()): Promise<CachedResponse | undefined> {
+    let entry: CachedResponse;
+    try {
+      entry = JSON.parse(await fs.readFile(this.entryPath(key), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+
+    if (entry.key !== key || now.getTime() - new Date(entry.createdAt).getTime() >= this.ttlMs) {
+      await fs.rm(this.entryPath(key), { force: true });
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  async set(key: string, response: Omit<CachedResponse, 'key' | 'createdAt'>, now: Date = new Date()): Promise<void> {
+    const entry: CachedResponse = { key, createdAt: now.toISOString(), ...response };
+    const entryPath = this.entryPath(key);
+    const tempPath = `${entryPath}.${process.pid}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(entry), 'utf-8');
+    await fs.rename(tempPath, entryPath);
+    await this.prune(now);
+  }
+
+  /**
+   * Delete expired responses, then the oldest ones until the cache fits its size limit.
+   * Returns the number of responses removed.
+   */
+  async prune(now: Date = new Date()): Promise<number> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.directory)).filter(file => file.endsWith('.json'));
+    } catch {
+      return 0;
+    }
+
+    // Entries are never rewritten, so the modification time is the creation time
+    const entries: Array<{ filePath: string; size: number; createdAt: number }> = [];
+    for (const file of files) {
+      try {
+        const stats = await fs.stat(path.join(this.directory, file));
+        entries.push({ filePath: path.join(this.directory, file), size: stats.size, createdAt: stats.mtimeMs });
+      } catch {
+        // Removed concurrently
+      }
+    }
+    entries.sort((a, b) => a.createdAt - b.createdAt);
+
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    let removed = 0;
+    for (const entry of entries) {
+      const expired = now.getTime() - entry.createdAt >= this.ttlMs;
+      if (!expired && totalBytes <= this.maxBytes) continue;
+
+      await fs.rm(entry.filePath, { force: true });
+      totalBytes -= entry.size;
+      removed++;
+    }
+
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  private entryPath(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid cache key: ${key}`);
+    }
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,80 @@
+/**
+ * Tests for record/replay cassettes of provider calls
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CassetteProvider, loadCassette } from './cassette';
+import { OfflineProvider, OpenAIProvider } from './providers';
+import { CassetteMismatchError } from '../templates/errors';
+import { LLMCompletionRequest } from './types';
+
+describe('CassetteProvider', () => {
+  let directory: string;
+  let cassettePath: string;
+
+  const request = (prompt: string): LLMCompletionRequest => ({
+    model: 'offline',
+    systemPrompt: 'You analyze code.',
+    prompt,
+    temperature: 0.1,
+    maxTokens: 100,
+    schemaName: 'Summary',
+    schema: { type: 'object', properties: { summary: { type: 'string' } } }
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-'));
+    cassettePath = path.join(directory, 'cassettes', 'summary.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should record interactions and replay them without the provider', async () => {
+    const recorder = new CassetteProvider(new OfflineProvider({ Summary: { summary: 'Adds a parser' } }), { path: cassettePath, mode: 'record' });
+    const recorded = await Promise.all([recorder.complete(request('first\nchange')), recorder.complete(request('second'))]);
+
+    expect(loadCassette(cassettePath)).toMatchObject({ version: 1, provider: 'offline', interactions: [{}, {}] });
+
+    // A provider without credentials is enough to replay
+    const provider = new OpenAIProvider({ model: 'gpt-4o' } as any, {});
+    const complete = vi.spyOn(provider, 'complete');
+    const player = new CassetteProvider(provider, { path: cassettePath, mode: 'replay' });
+
+    expect(player.unavailableReason()).toBeUndefined();
+    expect(provider.unavailableReason()).toBeDefined();
+    expect(await player.complete(request('second'))).toEqual(recorded[1]);
+    expect(await player.complete(request('first\nchange'))).toEqual(recorded[0]);
+    expect(player.unplayedInteractions()).toEqual([]);
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests that differ from every recorded one', async () => {
+    const recorder = new CassetteProvider(new OfflineProvider(), { path: cassettePath, mode: 'record' });
+    await recorder.complete(request('Analyze:\nexport function parse() {}'));
+
+    const player = new CassetteProvider(new OfflineProvider(), { path: cassettePath, mode: 'replay' });
+    const changed = player.complete({ ...request('Analyze:\nexport function parseAll() {}'), maxTokens: 200 });
+
+    await expect(changed).rejects.toBeInstanceOf(CassetteMismatchError);
+    await expect(changed).rejects.toThrow(
+      'Closest recorded Summary request differs in: prompt (line 2: recorded "export function parse() {}", got "export function parseAll() {}"), maxTokens.'
+    );
+
+    await player.complete(request('Analyze:\nexport function parse() {}'));
+    await expect(player.complete(request('Analyze:\nexport function parse() {}'))).rejects.toThrow('every matching interaction has already been replayed');
+  });
+
+  it('should refuse to replay a missing or invalid cassette', async () => {
+    expect(() => new CassetteProvider(new OfflineProvider(), { path: cassettePath, mode: 'replay' })).toThrow(`Cannot read cassette ${cassettePath}`);
+
+    await fs.mkdir(path.dirname(cassettePath), { recursive: true });
+    await fs.writeFile(cassettePath, JSON.stringify({ interactions: [] }));
+    expect(() => new CassetteProvider(new OfflineProvider(), { path: cassettePath, mode: 'replay' })).toThrow('expected version 1');
+  });
+});
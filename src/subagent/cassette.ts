@@ -0,0 +1,163 @@
+/**
+ * Record/replay cassettes of LLM provider calls
+ *
+ * In record mode every completion the client sends is passed to the real provider and the
+ * request/response pair is saved to a JSON fixture. In replay mode the fixture answers instead of
+ * the provider, so tests can run the full AI pipeline offline and deterministically. Matching is
+ * strict: a request must equal a recorded one in every field (model, prompts, schema, limits), and
+ * each recorded interaction answers once. Anything else raises a CassetteMismatchError naming the
+ * closest recorded request and where it differs.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ResponseCache } from './cache';
+import { CassetteMismatchError } from '../templates/errors';
+import {
+  Cassette,
+  CassetteInteraction,
+  CassetteOptions,
+  LLMProvider,
+  LLMProviderName,
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  SubagentRequestType
+} from './types';
+
+const REQUEST_FIELDS: Array<keyof LLMCompletionRequest> = ['model', 'schemaName', 'systemPrompt', 'prompt', 'schema', 'temperature', 'maxTokens'];
+
+export class CassetteProvider implements LLMProvider {
+  private interactions: CassetteInteraction[] = [];
+  private played = new Set<number>();
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * `provider` is the configured provider: it is called when recording, and supplies the name and
+   * default models in both modes so requests are built exactly as they were recorded
+   */
+  constructor(private provider: LLMProvider, private options: CassetteOptions) {
+    if (options.mode === 'replay') {
+      this.interactions = loadCassette(options.path).interactions;
+    }
+  }
+
+  get name(): LLMProviderName {
+    return this.provider.name;
+  }
+
+  unavailableReason(): string | undefined {
+    // Replay needs no credentials
+    return this.options.mode === 'replay' ? undefined : this.provider.unavailableReason();
+  }
+
+  defaultModel(requestType: SubagentRequestType): string | undefined {
+    return this.provider.defaultModel(requestType);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    if (this.options.mode === 'replay') {
+      return this.replay(request);
+    }
+
+    const response = await this.provider.complete(request);
+    this.interactions.push({ request, response });
+    await this.save();
+    return JSON.parse(JSON.stringify(response));
+  }
+
+  /**
+   * Recorded interactions that no request has replayed yet
+   */
+  unplayedInteractions(): CassetteInteraction[] {
+    return this.interactions.filter((_, index) => !this.played.has(index));
+  }
+
+  private replay(request: LLMCompletionRequest): LLMCompletionResult {
+    const key = ResponseCache.keyFor({ ...request });
+    const index = this.interactions.findIndex((interaction, candidate) =>
+      !this.played.has(candidate) && ResponseCache.keyFor({ ...interaction.request }) === key
+    );
+
+    if (index === -1) {
+      throw new CassetteMismatchError(this.describeMismatch(request, key), this.options.path);
+    }
+
+    this.played.add(index);
+    return JSON.parse(JSON.stringify(this.interactions[index].response));
+  }
+
+  private describeMismatch(request: LLMCompletionRequest, key: string): string {
+    const message = `No recorded interaction in ${this.options.path} matches the ${request.schemaName} request to ${request.model}`;
+
+    if (this.interactions.some(interaction => ResponseCache.keyFor({ ...interaction.request }) === key)) {
+      return `${message}: every matching interaction has already been replayed`;
+    }
+
+    // The unplayed interaction with the fewest differing fields is most likely the outdated one
+    const closest = this.unplayedInteractions()
+      .map(interaction => ({ interaction, differences: differingFields(interaction.request, request) }))
+      .sort((a, b) => a.differences.length - b.differences.length)[0];
+    if (!closest) {
+      return `${message}: all ${this.interactions.length} recorded interactions have been replayed`;
+    }
+
+    const details = closest.differences.map(field => field === 'prompt' || field === 'systemPrompt'
+      ? `${field} (${firstDifferentLine(closest.interaction.request[field], request[field])})`
+      : field);
+    return `${message}. Closest recorded ${closest.interaction.request.schemaName} request differs in: ${details.join(', ')}. ` +
+      `Re-record the cassette if the change is intended.`;
+  }
+
+  /**
+   * Write the cassette after each interaction, one write at a time
+   */
+  private save(): Promise<void> {
+    const cassette: Cassette = { version: 1, provider: this.provider.name, interactions: [...this.interactions] };
+    this.pendingWrite = this.pendingWrite.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.options.path), { recursive: true });
+      await fs.promises.writeFile(this.options.path, JSON.stringify(cassette, null, 2) + '\n', 'utf-8');
+    });
+    return this.pendingWrite;
+  }
+}
+
+/**
+ * Read a cassette file, rejecting anything that is not a version 1 cassette
+ */
+export function loadCassette(cassettePath: string): Cassette {
+  let cassette: Cassette;
+  try {
+    cassette = JSON.parse(fs.readFileSync(cassettePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Cannot read cassette ${cassettePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (cassette?.version !== 1 || !Array.isArray(cassette.interactions)) {
+    throw new Error(`Invalid cassette ${cassettePath}: expected version 1 with an interactions array`);
+  }
+  return cassette;
+}
+
+function differingFields(recorded: LLMCompletionRequest, request: LLMCompletionRequest): string[] {
+  return REQUEST_FIELDS.filter(field =>
+    ResponseCache.keyFor({ value: recorded[field] }) !== ResponseCache.keyFor({ value: request[field] })
+  );
+}
+
+function firstDifferentLine(recorded: unknown, actual: unknown): string {
+  const recordedLines = String(recorded ?? '').split('\n');
+  const actualLines = String(actual ?? '').split('\n');
+  const line = actualLines.findIndex((text, index) => text !== recordedLines[index]);
+  const index = line === -1 ? actualLines.length : line;
+  const [recordedLine = '', actualLine = ''] = [recordedLines[index], actualLines[index]];
+
+  // Prompts embed payloads as JSON, so a line can be long; show where it starts to differ
+  let column = 0;
+  while (column < recordedLine.length && recordedLine[column] === actualLine[column]) {
+    column++;
+  }
+  const excerpt = (text: string) => JSON.stringify(
+    (column > 30 ? '…' : '') + text.slice(Math.max(0, column - 30), column + 50) + (text.length > column + 50 ? '…' : '')
+  );
+  return `line ${index + 1}: recorded ${excerpt(recordedLine)}, got ${excerpt(actualLine)}`;
+}
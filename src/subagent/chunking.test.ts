@@ -0,0 +1,108 @@
+/**
+ * Tests for diff chunking and merging of chunked code analysis
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { chunkDiffs, mergeCodeAnalyses, mapWithConcurrency, estimateTokens } from './chunking';
+
+describe('diff chunking', () => {
+  const hunk = (start: number, lines: number) =>
+    `@@ -${start},${lines} +${start},${lines} @@\n` +
+    Array.from({ length: lines }, (_, i) => `+export const value${start + i} = ${start + i};`).join('\n');
+
+  it('should pack whole files together while they fit the budget', () => {
+    const chunks = chunkDiffs([
+      { path: 'a.ts', diffContent: hunk(1, 2) },
+      { path: 'b.ts', diffContent: hunk(1, 2) },
+      { path: 'empty.ts', diffContent: '' }
+    ], 1000);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].filePaths).toEqual(['a.ts', 'b.ts']);
+    expect(chunks[0].diffContent).toContain('diff --git a/a.ts b/a.ts\n@@ -1,2 +1,2 @@');
+    expect(chunks[0].diffContent).toContain('diff --git a/b.ts b/b.ts\n');
+  });
+
+  it('should split large files at hunk boundaries and repeat the file header', () => {
+    const diffContent = [hunk(1, 10), hunk(100, 10), hunk(200, 10)].join('\n');
+    const budget = estimateTokens(`diff --git a/big.ts b/big.ts\n${hunk(200, 10)}\n`) + 15;
+
+    const chunks = chunkDiffs([{ path: 'big.ts', diffContent }, { path: 'small.ts', diffContent: '+x' }], budget);
+
+    expect(chunks.map(chunk => chunk.filePaths)).toEqual([['big.ts'], ['big.ts'], ['big.ts', 'small.ts']]);
+    expect(chunks.map(chunk => chunk.diffContent.split('\n')[1])).toEqual(['@@ -1,10 +1,10 @@', '@@ -100,10 +100,10 @@', '@@ -200,10 +200,10 @@']);
+    expect(chunks.every(chunk => chunk.diffContent.startsWith('diff --git a/big.ts b/big.ts\n'))).toBe(true);
+  });
+
+  it('should keep every diff line, in order, within the budget', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.record({
+          path: fc.constantFrom('a.ts', 'b.ts', 'c.ts'),
+          hunks: fc.array(fc.array(fc.string({ maxLength: 40 }).map(text => `+${text.replace(/\n/g, ' ')}`), { minLength: 1, maxLength: 15 }), { minLength: 1, maxLength: 4 })
+        }), { maxLength: 6 }),
+        fc.integer({ min: 40, max: 400 }),
+        (files, budget) => {
+          const diffs = files.map(file => ({
+            path: file.path,
+            diffContent: file.hunks.map((lines, i) => [`@@ -${i},1 +${i},1 @@`, ...lines].join('\n')).join('\n')
+          }));
+
+          const chunks = chunkDiffs(diffs, budget);
+
+          expect(chunks.every(chunk => chunk.estimatedTokens <= budget)).toBe(true);
+          const chunkLines = chunks.flatMap(chunk => chunk.diffContent.split('\n').filter(line => line && !line.startsWith('diff --git')));
+          expect(chunkLines).toEqual(diffs.flatMap(diff => diff.diffContent.split('\n')));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should merge chunk responses deterministically', () => {
+    const merged = mergeCodeAnalyses([
+      {
+        extractedFunctions: [{ name: 'parse', signature: 'parse(a)' }],
+        extractedClasses: [{ name: 'Cache', methods: ['get()'], properties: [], description: '' }],
+        extractedAPIs: [{ method: 'GET', endpoint: '/items' }],
+        extractedTypes: [{ name: 'Item', definition: 'interface Item {}' }],
+        metadata: { processingTime: 30, tokensUsed: 100, model: 'gpt-4o' }
+      },
+      {
+        extractedFunctions: [{ name: 'parse', signature: 'parse(b)' }, { name: 'format', signature: 'format()' }],
+        extractedClasses: [{ name: 'Cache', methods: ['get()', 'set()'], properties: ['size'], description: 'Disk cache' }],
+        extractedAPIs: [{ method: 'GET', endpoint: '/items' }, { method: 'POST', endpoint: '/items' }],
+        extractedTypes: [{ name: 'Item', definition: 'type Item = {}' }],
+        metadata: { processingTime: 50, tokensUsed: 20, model: 'gpt-4o' }
+      }
+    ]);
+
+    expect(merged).toEqual({
+      extractedFunctions: [{ name: 'parse', signature: 'parse(a)' }, { name: 'format', signature: 'format()' }],
+      extractedClasses: [{ name: 'Cache', methods: ['get()', 'set()'], properties: ['size'], description: 'Disk cache' }],
+      extractedAPIs: [{ method: 'GET', endpoint: '/items' }, { method: 'POST', endpoint: '/items' }],
+      extractedTypes: [{ name: 'Item', definition: 'interface Item {}' }],
+      metadata: { processingTime: 50, tokensUsed: 120, model: 'gpt-4o' }
+    });
+  });
+
+  it('should limit concurrency and keep results in input order', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (delay, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      running--;
+      if (index === 3) throw new Error('chunk failed');
+      return index;
+    });
+
+    expect(peak).toBe(2);
+    expect(results.map(result => result.status === 'fulfilled' ? result.value : (result.reason as Error).message))
+      .toEqual([0, 1, 2, 'chunk failed', 4]);
+  });
+});
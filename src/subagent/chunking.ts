@@ -0,0 +1,188 @@
+/**
+ * Token-budgeted chunking of diffs for subagent code analysis
+ *
+ * Whole files are packed into a chunk while they fit the budget. Files over the budget are split at
+ * hunk boundaries, and hunks over the budget at line boundaries. Chunks are analyzed independently
+ * and their responses merged in chunk order, so the result does not depend on which request
+ * finishes first.
+ */
+
+import { CodeAnalysisResponse, DiffChunk } from './types';
+
+interface DiffPiece {
+  path: string;
+  text: string;
+  tokens: number;
+}
+
+/**
+ * Rough token count for budgeting: about four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split per-file diffs into chunks of at most `tokenBudget` estimated tokens. A single line larger
+ * than the budget still gets a chunk of its own.
+ */
+export function chunkDiffs(files: Array<{ path: string; diffContent: string }>, tokenBudget: number): DiffChunk[] {
+  const pieces = files
+    .filter(file => file.diffContent.trim())
+    .flatMap(file => splitFileDiff(file.path, file.diffContent, tokenBudget));
+
+  return packGreedy(pieces, piece => piece.tokens, tokenBudget).map(group => {
+    const diffContent = group.map(piece => piece.text).join('');
+    return {
+      filePaths: [...new Set(group.map(piece => piece.path))],
+      diffContent,
+      estimatedTokens: estimateTokens(diffContent)
+    };
+  });
+}
+
+/**
+ * Merge code analysis responses in order. Functions, classes and types are deduplicated by name and
+ * APIs by method and endpoint; the first occurrence wins, except that class members are combined.
+ */
+export function mergeCodeAnalyses(responses: CodeAnalysisResponse[]): CodeAnalysisResponse {
+  const functions = new Map<string, any>();
+  const classes = new Map<string, any>();
+  const apis = new Map<string, any>();
+  const types = new Map<string, any>();
+
+  for (const response of responses) {
+    for (const func of response.extractedFunctions || []) {
+      addFirst(functions, String(func?.name), func);
+    }
+    for (const cls of response.extractedClasses || []) {
+      const existing = classes.get(String(cls?.name));
+      if (!existing) {
+        classes.set(String(cls?.name), { ...cls });
+        continue;
+      }
+      existing.methods = union(existing.methods, cls.methods);
+      existing.properties = union(existing.properties, cls.properties);
+      existing.description = existing.description || cls.description;
+    }
+    for (const api of response.extractedAPIs || []) {
+      addFirst(apis, `${api?.method} ${api?.endpoint}`, api);
+    }
+    for (const type of response.extractedTypes || []) {
+      addFirst(types, String(type?.name), type);
+    }
+  }
+
+  const metadata = responses.flatMap(response => response.metadata ? [response.metadata] : []);
+  return {
+    extractedFunctions: [...functions.values()],
+    extractedClasses: [...classes.values()],
+    extractedAPIs: [...apis.values()],
+    extractedTypes: [...types.values()],
+    metadata: metadata.length > 0 ? {
+      // Chunks run in parallel, so the slowest one approximates the elapsed time
+      processingTime: Math.max(...metadata.map(m => m.processingTime)),
+      tokensUsed: metadata.reduce((sum, m) => sum + m.tokensUsed, 0),
+      model: metadata[0].model
+    } : undefined
+  };
+}
+
+/**
+ * Run `task` over `items` with at most `limit` in flight. Results are in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+function splitFileDiff(filePath: string, diffContent: string, tokenBudget: number): DiffPiece[] {
+  const header = `diff --git a/${filePath} b/${filePath}\n`;
+  const body = diffContent.endsWith('\n') ? diffContent : `${diffContent}\n`;
+  if (estimateTokens(header + body) <= tokenBudget) {
+    return [{ path: filePath, text: header + body, tokens: estimateTokens(header + body) }];
+  }
+
+  // Every piece repeats the file header so the model knows which file it is reading
+  const bodyBudget = Math.max(1, tokenBudget - estimateTokens(header));
+  const segments = splitHunks(body).flatMap(hunk => estimateTokens(hunk) <= bodyBudget
+    ? [hunk]
+    : packGreedy(hunk.split(/(?<=\n)/), estimateTokens, bodyBudget).map(lines => lines.join('')));
+
+  return packGreedy(segments, estimateTokens, bodyBudget).map(group => {
+    const text = header + group.join('');
+    return { path: filePath, text, tokens: estimateTokens(text) };
+  });
+}
+
+function splitHunks(body: string): string[] {
+  const hunks: string[] = [];
+  for (const line of body.split(/(?<=\n)/)) {
+    if (line.startsWith('@@') || hunks.length === 0) {
+      hunks.push(line);
+    } else {
+      hunks[hunks.length - 1] += line;
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Group consecutive items while their total size stays within the budget
+ */
+function packGreedy<T>(items: T[], size: (item: T) => number, budget: number): T[][] {
+  const groups: T[][] = [];
+  let current: T[] = [];
+  let currentSize = 0;
+
+  for (const item of items) {
+    const itemSize = size(item);
+    if (current.length > 0 && currentSize + itemSize > budget) {
+      groups.push(current);
+      current = [];
+      currentSize = 0;
+    }
+    current.push(item);
+    currentSize += itemSize;
+  }
+
+  if (current.length > 0) {
+    groups.push(current);
+  }
+  return groups;
+}
+
+function addFirst<T>(map: Map<string, T>, key: string, value: T): void {
+  if (!map.has(key)) {
+    map.set(key, value);
+  }
+}
+
+function union(first: unknown, second: unknown): unknown[] {
+  const asArray = (value: unknown) => Array.isArray(value) ? value : [];
+  const seen = new Set<string>();
+  return [...asArray(first), ...asArray(second)].filter(item => {
+    const key = JSON.stringify(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -4,7 +4,6 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import OpenAI from 'openai';
 import { config } from 'dotenv';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
@@ -22,11 +21,28 @@ import {
   TemplateProcessingRequest,
   TemplateProcessingResponse,
   ReadmeGenerationRequest,
-  ReadmeGenerationResponse
+  ReadmeGenerationResponse,
+  LogDigestSummaryRequest,
+  LogDigestSummaryResponse,
+  SubagentRequestType,
+  LLMProvider,
+  LLMCompletionRequest,
+  PlannedSubagentRequest,
+  CacheStats,
+  CachedResponse,
+  CassetteOptions,
+  RedactionAuditRecord,
+  DEFAULT_LOG_DIGEST_PROMPT
 } from './types';
+import { createLLMProvider } from './providers';
+import { ResponseCache } from './cache';
+import { Redactor } from './redaction';
+import { CassetteProvider } from './cassette';
+import { CassetteMismatchError } from '../templates/errors';
+import { estimateTokens } from './chunking';
 
-// Load environment variables
-config();
+// Load environment variables quietly so `usage export` can write clean output to stdout
+config({ quiet: true });
 
 // Define Zod schemas for structured outputs
 const CodeAnalysisSchema = z.object({
@@ -106,27 +122,75 @@ const TemplateProcessingSchema = z.object({
   warnings: z.array(z.string()).optional()
 });
 
+export interface SubagentClientOptions {
+  /** Provider to use instead of the one named in the configuration */
+  provider?: LLMProvider;
+  /** Cache of provider responses; without one every request goes to the provider */
+  cache?: ResponseCache;
+  /** Redaction applied to every payload before it is sent (default: built-in detectors, no audit log) */
+  redactor?: Redactor;
+  /** Record provider calls to, or replay them from, a cassette file */
+  cassette?: CassetteOptions;
+}
+
 export class SubagentClient {
   private config: SubagentConfig;
   private context: SubagentContext;
-  private openai: OpenAI;
-
-  constructor(configPath: string = '.kiro/subagents/doc-analysis-agent.json', context: SubagentContext) {
+  private provider: LLMProvider;
+  private cache?: ResponseCache;
+  private redactor: Redactor;
+  private cacheEnabled = true;
+  private cacheStats: CacheStats = { hits: 0, misses: 0 };
+
+  constructor(
+    configPath: string = '.kiro/subagents/doc-analysis-agent.json',
+    context: SubagentContext,
+    options: SubagentClientOptions = {}
+  ) {
     this.config = this.loadConfig(configPath);
     this.context = context;
+    const provider = options.provider || createLLMProvider(this.config.configuration);
+    this.provider = options.cassette ? new CassetteProvider(provider, options.cassette) : provider;
+    this.cache = options.cache;
+    this.redactor = options.redactor || new Redactor();
     
-    // Initialize OpenAI client only if API key is available
-    if (!process.env.OPENAI_API_KEY) {
-      console.warn('OPENAI_API_KEY environment variable not found. Subagent will operate in fallback mode.');
-      // Don't throw error, just set openai to null and handle gracefully
-      this.openai = null as any;
-    } else {
-      this.openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY
-      });
+    // Without credentials the client stays usable, but every request fails and callers fall back
+    const unavailableReason = this.provider.unavailableReason();
+    if (unavailableReason) {
+      console.warn(`${unavailableReason}. Subagent will operate in fallback mode.`);
     }
   }
 
+  /**
+   * Why requests cannot be sent to the LLM provider, or undefined when it is usable
+   */
+  getUnavailableReason(): string | undefined {
+    return this.provider.unavailableReason();
+  }
+
+  /**
+   * Name of the configured LLM provider
+   */
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Bypass the response cache (both lookups and writes) while disabled
+   */
+  setCacheEnabled(enabled: boolean): void {
+    this.cacheEnabled = enabled;
+  }
+
+  /**
+   * Cache hits and misses since the last call
+   */
+  takeCacheStats(): CacheStats {
+    const stats = this.cacheStats;
+    this.cacheStats = { hits: 0, misses: 0 };
+    return stats;
+  }
+
   /**
    * Load subagent configuration from file
    */
@@ -257,16 +321,39 @@ export class SubagentClient {
   }
 
   /**
-   * Send request to OpenAI for AI-powered analysis using structured outputs
+   * Summarize a development log digest using the subagent
+   */
+  async summarizeLogDigest(request: LogDigestSummaryRequest): Promise<LogDigestSummaryResponse> {
+    const subagentRequest: SubagentRequest = {
+      type: 'log-digest',
+      payload: request,
+      context: this.context
+    };
+
+    const response = await this.sendRequest(subagentRequest);
+
+    if (!response.success) {
+      throw new Error(`Log digest summary failed: ${response.error}`);
+    }
+
+    // Attach metadata to the response data
+    const result = response.data as LogDigestSummaryResponse;
+    result.metadata = response.metadata;
+    return result;
+  }
+
+  /**
+   * Send request to the LLM provider for AI-powered analysis using structured outputs
    */
   private async sendRequest(request: SubagentRequest): Promise<SubagentResponse> {
     const startTime = Date.now();
     
-    // Check if OpenAI client is available
-    if (!this.openai) {
+    // Check if the provider is configured
+    const unavailableReason = this.provider.unavailableReason();
+    if (unavailableReason) {
       return {
         success: false,
-        error: 'OpenAI client not available. Please set OPENAI_API_KEY environment variable.',
+        error: `${this.provider.name} provider not available: ${unavailableReason}`,
         metadata: {
           processingTime: Date.now() - startTime,
           tokensUsed: 0,
@@ -276,68 +363,61 @@ export class SubagentClient {
     }
     
     try {
-      // Load system prompt from file (with fallback to config)
-      let systemPrompt: string;
-      try {
-        systemPrompt = await this.loadPromptFile('system.md');
-      } catch (error) {
-        console.warn('Failed to load system prompt file, using config fallback');
-        systemPrompt = this.config.prompts.system;
-      }
+      const { completionRequest, cacheKey, redaction } = await this.prepareCompletion(request);
 
-      // Get the appropriate prompt and schema for the request type
-      const { prompt, schema } = await this.buildPromptAndSchema(request);
-      
-      // Select model based on task complexity
-      // Use gpt-4o-mini for simpler tasks to reduce cost
-      const model = this.selectModelForTask(request.type);
-      const maxTokens = this.getMaxTokensForTask(request.type);
-      
-      // Make OpenAI API call with structured outputs
-      const completion = await this.openai.chat.completions.create({
-        model,
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user', 
-            content: prompt
-          }
-        ],
-        temperature: this.config.configuration.temperature || 0.1,
-        max_tokens: maxTokens,
-        response_format: {
-          type: 'json_schema',
-          json_schema: {
-            name: this.getSchemaName(request.type),
-            strict: true,
-            schema: schema
+      // Identical requests are answered from the cache
+      const cache = this.cacheEnabled ? this.cache : undefined;
+      const cached = cache ? await this.readCache(cache, cacheKey) : undefined;
+      if (cached) {
+        this.cacheStats.hits++;
+        return {
+          success: true,
+          data: cached.data,
+          metadata: {
+            processingTime: Date.now() - startTime,
+            tokensUsed: 0,
+            model: cached.model,
+            cached: true
           }
-        }
-      });
-
-      const responseContent = completion.choices[0]?.message?.content;
-      if (!responseContent) {
-        throw new Error('No response content from OpenAI');
+        };
+      }
+      if (cache) {
+        this.cacheStats.misses++;
+      }
+      
+      // Only requests that actually leave the machine are audited
+      await this.redactor.writeAudit(redaction);
+
+      // Make the provider call with structured outputs
+      const completion = await this.provider.complete(completionRequest);
+
+      if (cache) {
+        await cache.set(cacheKey, {
+          requestType: request.type,
+          model: completion.model,
+          data: completion.data,
+          tokensUsed: completion.totalTokens
+        }).catch(error => console.warn('Failed to write response cache:', error));
       }
-
-      // Parse the JSON response (guaranteed to be valid with structured outputs)
-      const parsedData = JSON.parse(responseContent);
       
       return {
         success: true,
-        data: parsedData,
+        data: completion.data,
         metadata: {
           processingTime: Date.now() - startTime,
-          tokensUsed: completion.usage?.total_tokens || 0,
-          model: completion.model
+          tokensUsed: completion.totalTokens,
+          model: completion.model,
+          promptTokens: completion.promptTokens,
+          completionTokens: completion.completionTokens
         }
       };
       
     } catch (error) {
-      console.error('OpenAI API error:', error);
+      // A request missing from a replayed cassette is a test failure, not a provider outage
+      if (error instanceof CassetteMismatchError) {
+        throw error;
+      }
+      console.error(`${this.provider.name} API error:`, error);
       
       return {
         success: false,
@@ -352,33 +432,89 @@ export class SubagentClient {
   }
 
   /**
-   * Select the appropriate model based on task complexity
-   * Uses cheaper models for simpler tasks to optimize cost
+   * Size up a request without sending it: the model it would use, its estimated prompt tokens,
+   * its completion token limit, and whether the response is already cached
    */
-  private selectModelForTask(taskType: string): string {
-    // Use gpt-4o-mini for simpler, more structured tasks
-    // Use gpt-4o for complex generation tasks
-    switch (taskType) {
-      case 'code-analysis':
-        // Code analysis benefits from the smarter model
-        return 'gpt-4o';
-      case 'change-classification':
-        // Classification is relatively simple
-        return 'gpt-4o-mini';
-      case 'documentation-generation':
-        // Doc generation needs quality
-        return 'gpt-4o';
-      case 'template-processing':
-        // Template processing is simple
-        return 'gpt-4o-mini';
-      case 'readme-generation':
-        // README needs quality writing
-        return 'gpt-4o';
-      default:
-        return 'gpt-4o-mini';
+  async planRequest(type: SubagentRequestType, payload: any): Promise<PlannedSubagentRequest> {
+    const { completionRequest, cacheKey } = await this.prepareCompletion({ type, payload, context: this.context });
+    const cached = this.cacheEnabled && this.cache ? await this.readCache(this.cache, cacheKey) : undefined;
+
+    return {
+      type,
+      model: completionRequest.model,
+      promptTokens: estimateTokens(
+        completionRequest.systemPrompt + completionRequest.prompt + JSON.stringify(completionRequest.schema)
+      ),
+      completionTokens: completionRequest.maxTokens,
+      cached: cached !== undefined
+    };
+  }
+
+  /**
+   * Build the provider request for a subagent request from its redacted payload, the key of its
+   * cached response, and the record of what was redacted
+   */
+  private async prepareCompletion(
+    request: SubagentRequest
+  ): Promise<{ completionRequest: LLMCompletionRequest; cacheKey: string; redaction: RedactionAuditRecord }> {
+    const { payload, record: redaction } = this.redactor.redact(request.payload, request.type);
+    request = { ...request, payload };
+
+    // Load system prompt from file (with fallback to config)
+    let systemPrompt: string;
+    try {
+      systemPrompt = await this.loadPromptFile('system.md');
+    } catch (error) {
+      console.warn('Failed to load system prompt file, using config fallback');
+      systemPrompt = this.config.prompts.system;
+    }
+
+    // Get the appropriate prompt and schema for the request type
+    const { prompt, schema } = await this.buildPromptAndSchema(request);
+
+    // Select model based on task complexity
+    const completionRequest: LLMCompletionRequest = {
+      model: this.selectModelForTask(request.type),
+      systemPrompt,
+      prompt,
+      temperature: this.config.configuration.temperature || 0.1,
+      maxTokens: this.getMaxTokensForTask(request.type),
+      schemaName: this.getSchemaName(request.type),
+      schema
+    };
+
+    const cacheKey = ResponseCache.keyFor({
+      type: request.type,
+      provider: this.provider.name,
+      payload: request.payload,
+      ...completionRequest
+    });
+
+    return { completionRequest, cacheKey, redaction };
+  }
+
+  /**
+   * Look up a cached response; an unreadable cache counts as a miss
+   */
+  private async readCache(cache: ResponseCache, key: string): Promise<CachedResponse | undefined> {
+    try {
+      return await cache.get(key);
+    } catch (error) {
+      console.warn('Failed to read response cache:', error);
+      return undefined;
     }
   }
 
+  /**
+   * Select the model for a task: the configured per-task model, else the provider's default for the
+   * task (cheaper models for simpler tasks), else the configured model
+   */
+  private selectModelForTask(taskType: SubagentRequestType): string {
+    return this.config.configuration.taskModels?.[taskType] ||
+      this.provider.defaultModel(taskType) ||
+      this.config.configuration.model;
+  }
+
   /**
    * Get appropriate max tokens for each task type
    */
@@ -394,6 +530,8 @@ export class SubagentClient {
         return 2000;
       case 'readme-generation':
         return 8000; // README can be longer
+      case 'log-digest':
+        return 1500;
       default:
         return 4000;
     }
@@ -640,6 +778,21 @@ export class SubagentClient {
             additionalProperties: false
           };
           break;
+
+        case 'log-digest':
+          prompt = await this.loadPromptFile('log-digest.md');
+          const digestPayload = request.payload as LogDigestSummaryRequest;
+          prompt = prompt.replace('{digest}', JSON.stringify(digestPayload.digest, null, 2));
+          schema = {
+            type: "object",
+            properties: {
+              summary: { type: "string" },
+              highlights: { type: "array", items: { type: "string" } }
+            },
+            required: ["summary", "highlights"],
+            additionalProperties: false
+          };
+          break;
             
         default:
           throw new Error(`Unknown request type: ${request.type}`);
@@ -672,6 +825,8 @@ export class SubagentClient {
         return 'TemplateProcessing';
       case 'readme-generation':
         return 'ReadmeGeneration';
+      case 'log-digest':
+        return 'LogDigestSummary';
       default:
         return 'GenericResponse';
     }
@@ -723,6 +878,15 @@ export class SubagentClient {
           },
           required: ["processedContent", "appliedVariables"]
         };
+      case 'log-digest':
+        return {
+          type: "object",
+          properties: {
+            summary: { type: "string" },
+            highlights: { type: "array", items: { type: "string" } }
+          },
+          required: ["summary", "highlights"]
+        };
       default:
         return {
           type: 'object',
@@ -765,6 +929,11 @@ export class SubagentClient {
         return this.config.prompts.templateProcessing
           .replace('{template}', templatePayload.template)
           .replace('{variables}', JSON.stringify(templatePayload.variables));
+
+      case 'log-digest':
+        const digestPayload = request.payload as LogDigestSummaryRequest;
+        return (this.config.prompts.logDigest || DEFAULT_LOG_DIGEST_PROMPT)
+          .replace('{digest}', JSON.stringify(digestPayload.digest));
           
       default:
         throw new Error(`Unknown request type: ${request.type}`);
@@ -4,7 +4,8 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { SubagentConfig } from './types';
+import { SubagentConfig, DEFAULT_LOG_DIGEST_PROMPT } from './types';
+import { LLM_PROVIDER_NAMES } from './providers';
 
 export class SubagentConfigManager {
   private static readonly DEFAULT_CONFIG_PATH = '.kiro/subagents/doc-analysis-agent.json';
@@ -88,6 +89,19 @@ export class SubagentConfigManager {
           errors.push(`Missing required configuration field: ${field}`);
         }
       }
+
+      const provider = config.configuration.provider;
+      if (provider !== undefined && !LLM_PROVIDER_NAMES.includes(provider)) {
+        errors.push(`Unknown provider: ${provider} (expected one of ${LLM_PROVIDER_NAMES.join(', ')})`);
+      }
+
+      const { chunkTokenBudget, maxConcurrentRequests } = config.configuration;
+      if (chunkTokenBudget !== undefined && (typeof chunkTokenBudget !== 'number' || chunkTokenBudget <= 0)) {
+        errors.push('configuration.chunkTokenBudget must be a positive number');
+      }
+      if (maxConcurrentRequests !== undefined && (!Number.isInteger(maxConcurrentRequests) || maxConcurrentRequests < 1)) {
+        errors.push('configuration.maxConcurrentRequests must be a positive integer');
+      }
     }
 
     // Check prompts structure
@@ -138,7 +152,8 @@ export class SubagentConfigManager {
         codeAnalysis: "Analyze the following code changes and extract:\n1. Function definitions with parameters and return types\n2. Class definitions with methods and properties\n3. API endpoints and their specifications\n4. Exported interfaces and types\n\nCode changes:\n{changes}\n\nProvide the analysis in the following JSON structure:\n{\n  \"extractedFunctions\": [...],\n  \"extractedClasses\": [...],\n  \"extractedAPIs\": [...],\n  \"extractedTypes\": [...]\n}",
         changeClassification: "Classify the following code changes and identify:\n1. New features (completely new functionality)\n2. API modifications (changes to existing APIs)\n3. Architectural changes (structural modifications)\n4. Documentation impact (what docs need updating)\n\nChanged files:\n{changedFiles}\n\nProvide the classification in the following JSON structure:\n{\n  \"newFeatures\": [...],\n  \"apiModifications\": [...],\n  \"architecturalChanges\": [...],\n  \"documentationRequirements\": [...]\n}",
         documentationGeneration: "Generate documentation content based on the following analysis:\n\nAnalysis Results:\n{analysisResults}\n\nTemplate Type: {templateType}\n\nGenerate documentation content that:\n1. Follows the specified template format\n2. Includes all relevant technical details\n3. Maintains consistency with existing documentation\n4. Provides clear, actionable information\n\nReturn the generated content as structured text ready for file output.",
-        templateProcessing: "Process the following template with the provided variables:\n\nTemplate:\n{template}\n\nVariables:\n{variables}\n\nApply the variables to the template and return the processed content. Ensure:\n1. All variables are properly substituted\n2. Formatting is preserved\n3. Any conditional sections are handled correctly\n4. The output is ready for direct file writing"
+        templateProcessing: "Process the following template with the provided variables:\n\nTemplate:\n{template}\n\nVariables:\n{variables}\n\nApply the variables to the template and return the processed content. Ensure:\n1. All variables are properly substituted\n2. Formatting is preserved\n3. Any conditional sections are handled correctly\n4. The output is ready for direct file writing",
+        logDigest: DEFAULT_LOG_DIGEST_PROMPT
       }
     };
   }
@@ -4,5 +4,11 @@
 
 export * from './types';
 export * from './client';
+export * from './providers';
+export * from './cache';
+export * from './chunking';
+export * from './verification';
+export * from './redaction';
+export * from './cassette';
 export * from './integration';
 export * from './config-manager';
\ No newline at end of file
@@ -2,11 +2,31 @@
  * Subagent Integration - Connects the analysis engine with the Kiro Subagent
  */
 
+import * as path from 'path';
 import { CodeAnalyzer } from '../analysis/analyzer';
 import { SubagentClient } from './client';
-import { SubagentContext } from './types';
-import { ChangeAnalysis, ChangedFile } from '../types';
+import { ResponseCache } from './cache';
+import { Redactor } from './redaction';
+import { chunkDiffs, mergeCodeAnalyses, mapWithConcurrency } from './chunking';
+import { verifyCodeAnalysis } from './verification';
+import {
+  SubagentContext,
+  CacheStats,
+  CassetteOptions,
+  CodeAnalysisRequest,
+  CodeAnalysisResponse,
+  DiffChunk,
+  ReadmeGenerationRequest,
+  PlannedSubagentRequest,
+  SubagentResponse,
+  TokenUsage,
+  DEFAULT_CHUNK_TOKEN_BUDGET,
+  DEFAULT_MAX_CONCURRENT_REQUESTS
+} from './types';
+import { AIFidelityReport, ChangeAnalysis, ChangedFile, TypeDefinition } from '../types';
 import { AnalysisConfig } from '../analysis/types';
+import { DigestSummary, LogDigest } from '../logging/types';
+import { BudgetExceededError, CassetteMismatchError } from '../templates/errors';
 
 /**
  * Result from enhanced analysis including actual token usage
@@ -17,18 +37,29 @@ export interface EnhancedAnalysisResult {
   processingTimeMs: number;
 }
 
+/**
+ * Called with the local analysis before any AI request is sent; resolving to false keeps the
+ * analysis local
+ */
+export type SubagentPreflight = (localAnalysis: ChangeAnalysis) => Promise<boolean>;
+
 export class SubagentIntegration {
   private subagentClient: SubagentClient;
   private analyzer: CodeAnalyzer;
-  private lastTokensUsed: number = 0;
+  private analysisDepth: AnalysisConfig['analysisDepth'];
+  private lastTokenUsage: TokenUsage[] = [];
 
   constructor(
     analyzerConfig: AnalysisConfig,
     subagentConfigPath?: string,
-    projectPath: string = process.cwd()
+    projectPath: string = process.cwd(),
+    responseCache?: ResponseCache,
+    redactor?: Redactor,
+    cassette?: CassetteOptions
   ) {
-    // Initialize the code analyzer
-    this.analyzer = new CodeAnalyzer(analyzerConfig);
+    // Initialize the code analyzer; files and git objects are read in the project, not the current directory
+    this.analyzer = new CodeAnalyzer(analyzerConfig, relativePath => path.resolve(projectPath, relativePath));
+    this.analysisDepth = analyzerConfig.analysisDepth;
 
     // Create subagent context
     const context: SubagentContext = {
@@ -36,7 +67,7 @@ export class SubagentIntegration {
     };
 
     // Initialize subagent client
-    this.subagentClient = new SubagentClient(subagentConfigPath, context);
+    this.subagentClient = new SubagentClient(subagentConfigPath, context, { cache: responseCache, redactor, cassette });
     
     // Validate configuration
     this.subagentClient.validateConfig();
@@ -44,18 +75,24 @@ export class SubagentIntegration {
 
   /**
    * Perform enhanced analysis using both local analyzer and subagent
-   * Returns analysis results along with actual token usage from AI provider
+   * Returns analysis results along with actual token usage from AI provider.
+   * Without a head ref, the post-change files are read from the working tree.
    */
-  async performEnhancedAnalysis(changes: string[]): Promise<ChangeAnalysis> {
-    this.lastTokensUsed = 0; // Reset token counter
+  async performEnhancedAnalysis(changes: string[], baseRef?: string, headRef?: string, preflight?: SubagentPreflight): Promise<ChangeAnalysis> {
+    this.lastTokenUsage = []; // Reset token counter
     
     try {
       // First, perform local analysis
-      const localAnalysis = await this.analyzer.analyze(changes);
+      const localAnalysis = await this.analyzer.analyze(changes, baseRef, headRef);
+
+      // Check if the LLM provider is available before attempting subagent enhancement
+      const unavailableReason = this.subagentClient.getUnavailableReason();
+      if (unavailableReason) {
+        console.warn(`${unavailableReason}, skipping subagent enhancement`);
+        return localAnalysis;
+      }
 
-      // Check if OpenAI client is available before attempting subagent enhancement
-      if (!process.env.OPENAI_API_KEY) {
-        console.warn('OPENAI_API_KEY not available, skipping subagent enhancement');
+      if (preflight && !await preflight(localAnalysis)) {
         return localAnalysis;
       }
 
@@ -64,41 +101,95 @@ export class SubagentIntegration {
       this.subagentClient.updateContext({ kiroContext });
 
       // Enhance analysis with subagent capabilities
-      const enhancedAnalysis = await this.enhanceWithSubagent(localAnalysis, changes);
+      const enhancedAnalysis = await this.enhanceWithSubagent(localAnalysis);
 
       return enhancedAnalysis;
     } catch (error) {
+      if (error instanceof BudgetExceededError || error instanceof CassetteMismatchError) {
+        throw error;
+      }
+
       // Fallback to local analysis if subagent fails
       console.warn('Subagent enhancement failed, falling back to local analysis:', error);
-      return await this.analyzer.analyze(changes);
+      return await this.analyzer.analyze(changes, baseRef, headRef);
     }
   }
 
+  /**
+   * Why requests cannot be sent to the LLM provider, or undefined when it is usable
+   */
+  getUnavailableReason(): string | undefined {
+    return this.subagentClient.getUnavailableReason();
+  }
+
   /**
    * Get the actual token count from the last subagent operation
-   * This returns real token usage from the OpenAI API response
+   * This returns real token usage reported by the LLM provider
    */
   getLastTokensUsed(): number {
-    return this.lastTokensUsed;
+    return this.lastTokenUsage.reduce((sum, usage) => sum + usage.promptTokens + usage.completionTokens, 0);
+  }
+
+  /**
+   * Tokens of each AI request in the last subagent operation, split into prompt and completion
+   */
+  getLastTokenUsage(): TokenUsage[] {
+    return [...this.lastTokenUsage];
+  }
+
+  /**
+   * The AI requests a run would send for this local analysis: code analysis per diff chunk, change
+   * classification, and README generation when `readme` is given. The README request is sized with
+   * the local analysis, which the enhanced analysis replaces.
+   */
+  async planRequests(
+    localAnalysis: ChangeAnalysis,
+    readme?: Omit<ReadmeGenerationRequest, 'analysisResults'>
+  ): Promise<PlannedSubagentRequest[]> {
+    const { chunkTokenBudget = DEFAULT_CHUNK_TOKEN_BUDGET } = this.subagentClient.getConfig().configuration;
+    const planned: PlannedSubagentRequest[] = [];
+
+    for (const chunk of chunkDiffs(localAnalysis.changedFiles, chunkTokenBudget)) {
+      planned.push(await this.subagentClient.planRequest('code-analysis', this.codeAnalysisRequest(chunk)));
+    }
+    planned.push(await this.subagentClient.planRequest('change-classification', {
+      changedFiles: localAnalysis.changedFiles,
+      previousAnalysis: localAnalysis
+    }));
+    if (readme) {
+      planned.push(await this.subagentClient.planRequest('readme-generation', { analysisResults: localAnalysis, ...readme }));
+    }
+
+    return planned;
+  }
+
+  /**
+   * Bypass the response cache for subsequent requests while disabled
+   */
+  setCacheEnabled(enabled: boolean): void {
+    this.subagentClient.setCacheEnabled(enabled);
+  }
+
+  /**
+   * Response cache hits and misses since the last call
+   */
+  takeCacheStats(): CacheStats {
+    return this.subagentClient.takeCacheStats();
   }
 
   /**
    * Enhance local analysis results with subagent processing
-   * Captures actual token usage from OpenAI API responses
+   * Captures actual token usage from the LLM provider's responses
    */
-  private async enhanceWithSubagent(localAnalysis: ChangeAnalysis, changes: string[]): Promise<ChangeAnalysis> {
+  private async enhanceWithSubagent(localAnalysis: ChangeAnalysis): Promise<ChangeAnalysis> {
     try {
-      // Use subagent for more sophisticated code analysis
-      const codeAnalysisResponse = await this.subagentClient.analyzeCode({
-        changes,
-        filePaths: localAnalysis.changedFiles.map(f => f.path),
-        diffContent: localAnalysis.changedFiles.map(f => f.diffContent).join('\n---\n')
-      });
-      
-      // Capture actual tokens from code analysis response
-      if (codeAnalysisResponse.metadata?.tokensUsed) {
-        this.lastTokensUsed += codeAnalysisResponse.metadata.tokensUsed;
-      }
+      // Use subagent for more sophisticated code analysis, keeping only symbols the local parse confirms
+      const { response: codeAnalysisResponse, fidelity } = verifyCodeAnalysis(
+        await this.analyzeCodeInChunks(localAnalysis.changedFiles),
+        localAnalysis.changedFiles,
+        this.analysisDepth
+      );
+      this.reportFidelity(fidelity);
 
       // Use subagent for enhanced change classification
       const classificationResponse = await this.subagentClient.classifyChanges({
@@ -107,9 +198,7 @@ export class SubagentIntegration {
       });
       
       // Capture actual tokens from classification response
-      if (classificationResponse.metadata?.tokensUsed) {
-        this.lastTokensUsed += classificationResponse.metadata.tokensUsed;
-      }
+      this.recordTokenUsage(classificationResponse.metadata);
 
       // Convert AI extracted functions/classes to API definitions
       const aiAPIs: any[] = [];
@@ -183,16 +272,35 @@ export class SubagentIntegration {
         }
       }
 
+      // Convert AI extracted types; the local AST parse stays authoritative for definitions
+      const aiTypes: TypeDefinition[] = (codeAnalysisResponse.extractedTypes || [])
+        .filter((type: any) => type && typeof type.name === 'string' && type.name.trim())
+        .map((type: any) => ({
+          name: type.name.trim(),
+          kind: this.inferTypeKind(type.kind, type.definition),
+          definition: typeof type.definition === 'string' && type.definition.trim() ? type.definition.trim() : type.name.trim(),
+          description: type.description
+        }));
+
+      const aiTypesByName = new Map(aiTypes.map(type => [type.name, type]));
+      const localTypes = (localAnalysis.extractedTypes || []).map(type => ({
+        ...type,
+        description: type.description || aiTypesByName.get(type.name)?.description
+      }));
+
+      const seenTypes = new Set<string>();
+      const uniqueTypes = [...localTypes, ...aiTypes].filter(type => {
+        if (seenTypes.has(type.name)) return false;
+        seenTypes.add(type.name);
+        return true;
+      });
+
       const aiArchChanges = classificationResponse.architecturalChanges || [];
       const aiDocReqs = classificationResponse.documentationRequirements || [];
 
-      // Filter local data to remove garbage (keywords parsed as functions)
+      // Skip untyped local APIs that the AI analysis describes better
       const localAPIs = localAnalysis.extractedAPIs.filter(localApi => 
-        !localApi.description?.includes('takes (any)') &&
-        !localApi.name.includes('.if') &&
-        !localApi.name.includes('.for') &&
-        !localApi.name.includes('.catch') &&
-        !localApi.name.includes('.while')
+        !localApi.description?.includes('takes (any)')
       );
 
       const localFeatures = localAnalysis.newFeatures.filter(localFeature =>
@@ -218,19 +326,115 @@ export class SubagentIntegration {
       return {
         ...localAnalysis,
         extractedAPIs: uniqueAPIs,
+        extractedTypes: uniqueTypes,
         newFeatures: uniqueFeatures,
         architecturalChanges: [...aiArchChanges, ...localAnalysis.architecturalChanges],
         documentationRequirements: [
           ...aiDocReqs,
           ...localAnalysis.documentationRequirements
-        ]
+        ],
+        aiFidelity: fidelity
       };
     } catch (error) {
+      if (error instanceof CassetteMismatchError) {
+        throw error;
+      }
       console.warn('Subagent enhancement failed:', error);
       return localAnalysis;
     }
   }
 
+  /**
+   * Analyze the changed files with the subagent in chunks that fit the token budget, a few at a
+   * time. Failed chunks are skipped with a warning unless every chunk fails.
+   */
+  private async analyzeCodeInChunks(changedFiles: ChangedFile[]): Promise<CodeAnalysisResponse> {
+    const {
+      chunkTokenBudget = DEFAULT_CHUNK_TOKEN_BUDGET,
+      maxConcurrentRequests = DEFAULT_MAX_CONCURRENT_REQUESTS
+    } = this.subagentClient.getConfig().configuration;
+
+    const chunks = chunkDiffs(changedFiles, chunkTokenBudget);
+    if (chunks.length > 1) {
+      console.log(`Analyzing ${changedFiles.length} changed files in ${chunks.length} chunks of up to ~${chunkTokenBudget} tokens`);
+    }
+
+    const results = await mapWithConcurrency(chunks, maxConcurrentRequests, chunk =>
+      this.subagentClient.analyzeCode(this.codeAnalysisRequest(chunk))
+    );
+
+    const mismatch = results.find(result => result.status === 'rejected' && result.reason instanceof CassetteMismatchError);
+    if (mismatch) {
+      throw (mismatch as PromiseRejectedResult).reason;
+    }
+
+    const responses: CodeAnalysisResponse[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        // Merging loses the model of each chunk, so capture actual tokens per chunk
+        this.recordTokenUsage(result.value.metadata);
+        responses.push(result.value);
+      } else {
+        console.warn(`Code analysis failed for chunk ${index + 1}/${chunks.length} (${chunks[index].filePaths.join(', ')}):`, result.reason);
+      }
+    });
+
+    if (chunks.length > 0 && responses.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+    return mergeCodeAnalyses(responses);
+  }
+
+  /**
+   * Warn about AI-reported symbols that did not match the local parse
+   */
+  private reportFidelity(fidelity: AIFidelityReport): void {
+    if (fidelity.issues.length === 0) {
+      return;
+    }
+
+    console.warn(`⚠️  AI fidelity ${Math.round(fidelity.score * 100)}%: ${fidelity.droppedSymbols} unknown symbol(s) dropped, ${fidelity.correctedSymbols} signature(s) corrected from the source` +
+      (fidelity.unverifiedSymbols > 0 ? `, ${fidelity.unverifiedSymbols} kept unverified` : ''));
+    for (const issue of fidelity.issues) {
+      console.warn(`   - ${issue.symbol}: ${issue.description}`);
+    }
+  }
+
+  /**
+   * Record the tokens a response cost; cached responses cost none
+   */
+  private recordTokenUsage(metadata?: SubagentResponse['metadata']): void {
+    if (!metadata?.tokensUsed || metadata.cached) {
+      return;
+    }
+
+    // Without a split from the provider, count everything as prompt tokens
+    const promptTokens = metadata.promptTokens ?? metadata.tokensUsed - (metadata.completionTokens ?? 0);
+    this.lastTokenUsage.push({ model: metadata.model, promptTokens, completionTokens: metadata.completionTokens ?? 0 });
+  }
+
+  private codeAnalysisRequest(chunk: DiffChunk): CodeAnalysisRequest {
+    // The raw diff is left out of `changes`: the chunk's diffContent already carries it
+    return { changes: [], filePaths: chunk.filePaths, diffContent: chunk.diffContent };
+  }
+
+  /**
+   * Determine the kind of an AI-reported type from its explicit kind or its definition keyword
+   */
+  private inferTypeKind(kind: unknown, definition: unknown): TypeDefinition['kind'] {
+    if (kind === 'interface' || kind === 'type' || kind === 'enum' || kind === 'const') {
+      return kind;
+    }
+
+    const text = typeof definition === 'string' ? definition.trim() : '';
+    const keyword = text.replace(/^(export\s+)?(declare\s+)?/, '').split(/\s+/)[0];
+
+    if (keyword === 'interface') return 'interface';
+    if (keyword === 'enum') return 'enum';
+    if (keyword === 'const') return text.includes('const enum') ? 'enum' : 'const';
+    return 'type';
+  }
+
   /**
    * Generate documentation using subagent
    */
@@ -241,9 +445,10 @@ export class SubagentIntegration {
     existingContent?: string
   ): Promise<string> {
     try {
-      // Check if OpenAI client is available
-      if (!process.env.OPENAI_API_KEY) {
-        console.warn('OPENAI_API_KEY not available, using fallback documentation generation');
+      // Check if the LLM provider is available
+      const unavailableReason = this.subagentClient.getUnavailableReason();
+      if (unavailableReason) {
+        console.warn(`${unavailableReason}, using fallback documentation generation`);
         return this.generateFallbackDocumentation(analysisResults, templateType);
       }
 
@@ -270,10 +475,13 @@ export class SubagentIntegration {
     existingContent?: string,
     projectContext?: any
   ): Promise<string> {
+    this.lastTokenUsage = [];
+
     try {
-      // Check if OpenAI client is available
-      if (!process.env.OPENAI_API_KEY) {
-        console.warn('OPENAI_API_KEY not available, using fallback README generation');
+      // Check if the LLM provider is available
+      const unavailableReason = this.subagentClient.getUnavailableReason();
+      if (unavailableReason) {
+        console.warn(`${unavailableReason}, using fallback README generation`);
         return this.generateFallbackDocumentation(analysisResults, 'readme');
       }
 
@@ -284,9 +492,7 @@ export class SubagentIntegration {
       });
       
       // Track tokens used
-      if (response.metadata?.tokensUsed) {
-        this.lastTokensUsed += response.metadata.tokensUsed;
-      }
+      this.recordTokenUsage(response.metadata);
 
       return response.content;
     } catch (error) {
@@ -295,6 +501,38 @@ export class SubagentIntegration {
     }
   }
 
+  /**
+   * The AI request a digest summary would send, for pricing it before it is sent
+   */
+  async planLogDigestSummary(digest: LogDigest): Promise<PlannedSubagentRequest> {
+    return this.subagentClient.planRequest('log-digest', { digest });
+  }
+
+  /**
+   * Summarize a development log digest using AI. Resolves to undefined when the provider is
+   * unavailable or the request fails, so the caller can write its local summary instead.
+   */
+  async summarizeLogDigest(digest: LogDigest): Promise<DigestSummary | undefined> {
+    this.lastTokenUsage = [];
+
+    try {
+      // Check if the LLM provider is available
+      const unavailableReason = this.subagentClient.getUnavailableReason();
+      if (unavailableReason) {
+        console.warn(`${unavailableReason}, using local digest summary`);
+        return undefined;
+      }
+
+      const response = await this.subagentClient.summarizeLogDigest({ digest });
+      this.recordTokenUsage(response.metadata);
+
+      return { summary: response.summary, highlights: response.highlights };
+    } catch (error) {
+      console.warn('Subagent digest summary failed:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Process template using subagent
    */
@@ -304,9 +542,10 @@ export class SubagentIntegration {
     templateType: string
   ): Promise<string> {
     try {
-      // Check if OpenAI client is available
-      if (!process.env.OPENAI_API_KEY) {
-        console.warn('OPENAI_API_KEY not available, using fallback template processing');
+      // Check if the LLM provider is available
+      const unavailableReason = this.subagentClient.getUnavailableReason();
+      if (unavailableReason) {
+        console.warn(`${unavailableReason}, using fallback template processing`);
         return this.processTemplateFallback(template, variables);
       }
 
@@ -411,9 +650,7 @@ export class SubagentIntegration {
       !f.description.includes('with 0 methods')
     );
     
-    const meaningfulAPIs = extractedAPIs.filter(api => 
-      api.name && !api.name.includes('.if') && !api.name.includes('.for')
-    );
+    const meaningfulAPIs = extractedAPIs.filter(api => api.name);
     
     if (meaningfulFeatures.length > 0) {
       content += `## Features\n\n`;
@@ -491,8 +728,9 @@ export class SubagentIntegration {
   async healthCheck(): Promise<boolean> {
     try {
       // Only check if the client is properly configured, don't make API calls
-      if (!process.env.OPENAI_API_KEY) {
-        console.warn('Subagent health check: OPENAI_API_KEY not configured');
+      const unavailableReason = this.subagentClient.getUnavailableReason();
+      if (unavailableReason) {
+        console.warn(`Subagent health check: ${unavailableReason}`);
         return false;
       }
 
@@ -0,0 +1,150 @@
+/**
+ * Tests for the LLM provider layer
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createLLMProvider, OfflineProvider, AnthropicProvider, OpenAIProvider } from './providers';
+import { SubagentClient } from './client';
+import { SubagentConfig, LLMCompletionRequest } from './types';
+import { SubagentConfigManager } from './config-manager';
+
+describe('LLM providers', () => {
+  const configuration: SubagentConfig['configuration'] = { model: 'llama3.1', temperature: 0.1, maxTokens: 1000, timeout: 5000 };
+  const schema = {
+    type: 'object',
+    properties: {
+      content: { type: 'string' },
+      sections: { type: 'array', items: { type: 'object' } },
+      impact: { type: 'string', enum: ['low', 'medium', 'high'] },
+      metadata: { type: 'object', properties: { breaking: { type: 'boolean' } } }
+    }
+  };
+  const request: LLMCompletionRequest = {
+    model: 'test-model',
+    systemPrompt: 'system',
+    prompt: 'Summarize the change',
+    temperature: 0.1,
+    maxTokens: 1000,
+    schemaName: 'ReadmeGeneration',
+    schema
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should select providers and report missing credentials', () => {
+    expect(createLLMProvider(configuration, {}).unavailableReason()).toBe('OPENAI_API_KEY environment variable not found');
+    expect(createLLMProvider({ ...configuration, provider: 'anthropic' }, {}).unavailableReason()).toBe('ANTHROPIC_API_KEY environment variable not found');
+    expect(createLLMProvider({ ...configuration, provider: 'azure-openai' }, { AZURE_OPENAI_API_KEY: 'key' }).unavailableReason())
+      .toContain('Azure OpenAI endpoint not configured');
+    expect(createLLMProvider({ ...configuration, provider: 'anthropic', apiKeyEnv: 'TEAM_KEY' }, { TEAM_KEY: 'key' }).unavailableReason()).toBeUndefined();
+    expect(createLLMProvider({ ...configuration, provider: 'local' }, {}).unavailableReason()).toBeUndefined();
+    expect(createLLMProvider({ ...configuration, provider: 'offline' }, {}).name).toBe('offline');
+    expect(() => createLLMProvider({ ...configuration, provider: 'bogus' as any }, {})).toThrow('Unknown LLM provider: bogus');
+  });
+
+  it('should answer deterministically offline', async () => {
+    const provider = new OfflineProvider({ CodeAnalysis: { extractedFunctions: [{ name: 'fixture' }] } });
+
+    const first = await provider.complete(request);
+    expect(first.data).toEqual({
+      content: '[offline] ReadmeGeneration.content',
+      sections: [],
+      impact: 'low',
+      metadata: { breaking: false }
+    });
+    expect(first.totalTokens).toBe(first.promptTokens + first.completionTokens);
+    expect(await provider.complete(request)).toEqual(first);
+
+    const fixture = await provider.complete({ ...request, schemaName: 'CodeAnalysis' });
+    expect(fixture.data).toEqual({ extractedFunctions: [{ name: 'fixture' }] });
+  });
+
+  it('should request structured output from Anthropic through a forced tool call', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      model: 'claude-test',
+      content: [{ type: 'tool_use', name: 'ReadmeGeneration', input: { content: 'Hello' } }],
+      usage: { input_tokens: 12, output_tokens: 3 }
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new AnthropicProvider({ ...configuration, provider: 'anthropic' }, { ANTHROPIC_API_KEY: 'key' });
+    const result = await provider.complete(request);
+
+    expect(result).toEqual({ data: { content: 'Hello' }, model: 'claude-test', promptTokens: 12, completionTokens: 3, totalTokens: 15 });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const body = JSON.parse(init.body as string);
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect((init.headers as Record<string, string>)['x-api-key']).toBe('key');
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'ReadmeGeneration' });
+    expect(body.tools[0].input_schema).toEqual(schema);
+  });
+
+  it('should talk to a local OpenAI-compatible server in JSON mode', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      model: 'llama3.1',
+      choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: '{"content":"Hi"}' } }],
+      usage: { prompt_tokens: 20, completion_tokens: 4, total_tokens: 24 }
+    }), { headers: { 'content-type': 'application/json' } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new OpenAIProvider({ ...configuration, provider: 'local', structuredOutput: 'json-object' }, {});
+    const result = await provider.complete({ ...request, model: 'llama3.1' });
+
+    expect(result).toEqual({ data: { content: 'Hi' }, model: 'llama3.1', promptTokens: 20, completionTokens: 4, totalTokens: 24 });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const body = JSON.parse(init.body as string);
+    expect(String(url)).toBe('http://localhost:11434/v1/chat/completions');
+    expect(body.response_format).toEqual({ type: 'json_object' });
+    expect(body.messages[1].content).toContain('matching this JSON schema');
+  });
+
+  describe('SubagentClient', () => {
+    let directory: string;
+    let configPath: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-provider-'));
+      configPath = path.join(directory, 'agent.json');
+      const config = JSON.parse(await fs.readFile('.kiro/subagents/doc-analysis-agent.json', 'utf-8'));
+      config.configuration = { ...config.configuration, provider: 'offline', taskModels: { 'code-analysis': 'pinned-model' } };
+      await fs.writeFile(configPath, JSON.stringify(config));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should run the AI path through the configured provider', async () => {
+      const client = new SubagentClient(configPath, { projectPath: directory });
+      expect(client.getProviderName()).toBe('offline');
+      expect(client.getUnavailableReason()).toBeUndefined();
+
+      const result = await client.analyzeCode({ changes: ['+export const a = 1;'], filePaths: ['a.ts'], diffContent: '+export const a = 1;' });
+
+      expect(result.extractedFunctions).toEqual([]);
+      expect(result.metadata?.model).toBe('offline');
+      expect(result.metadata?.tokensUsed).toBeGreaterThan(0);
+    });
+
+    it('should pick per-task models before provider defaults', async () => {
+      const provider = new OfflineProvider();
+      const complete = vi.spyOn(provider, 'complete');
+      const client = new SubagentClient(configPath, { projectPath: directory }, { provider });
+
+      await client.analyzeCode({ changes: [], filePaths: [], diffContent: '' });
+      await client.classifyChanges({ changedFiles: [] });
+
+      expect(complete.mock.calls.map(([call]) => call.model)).toEqual(['pinned-model', 'offline']);
+      expect(SubagentConfigManager.validateConfig({ ...client.getConfig(), configuration: { ...configuration, provider: 'gemini' as any } }).errors)
+        .toEqual(['Unknown provider: gemini (expected one of openai, anthropic, azure-openai, local, offline)']);
+    });
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * LLM providers behind SubagentClient. Every provider returns structured output: JSON matching the
+ * schema of the request.
+ */
+
+import OpenAI, { AzureOpenAI } from 'openai';
+import {
+  SubagentConfig,
+  SubagentRequestType,
+  LLMProvider,
+  LLMProviderName,
+  LLMCompletionRequest,
+  LLMCompletionResult
+} from './types';
+import { estimateTokens } from './chunking';
+
+type ProviderConfiguration = SubagentConfig['configuration'];
+
+const DEFAULT_API_KEY_ENV: Record<LLMProviderName, string> = {
+  'openai': 'OPENAI_API_KEY',
+  'anthropic': 'ANTHROPIC_API_KEY',
+  'azure-openai': 'AZURE_OPENAI_API_KEY',
+  'local': 'LOCAL_LLM_API_KEY',
+  'offline': ''
+};
+
+export const LLM_PROVIDER_NAMES = Object.keys(DEFAULT_API_KEY_ENV) as LLMProviderName[];
+
+/** Ollama's OpenAI-compatible endpoint; llama.cpp's server listens on http://localhost:8080/v1 */
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+const DEFAULT_ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+// Cheaper models for the simpler, more structured tasks
+const OPENAI_TASK_MODELS: Record<SubagentRequestType, string> = {
+  'code-analysis': 'gpt-4o',
+  'change-classification': 'gpt-4o-mini',
+  'documentation-generation': 'gpt-4o',
+  'template-processing': 'gpt-4o-mini',
+  'readme-generation': 'gpt-4o',
+  'log-digest': 'gpt-4o-mini'
+};
+
+const ANTHROPIC_TASK_MODELS: Record<SubagentRequestType, string> = {
+  'code-analysis': 'claude-sonnet-4-5',
+  'change-classification': 'claude-haiku-4-5',
+  'documentation-generation': 'claude-sonnet-4-5',
+  'template-processing': 'claude-haiku-4-5',
+  'readme-generation': 'claude-sonnet-4-5',
+  'log-digest': 'claude-haiku-4-5'
+};
+
+/**
+ * Create the provider selected by `configuration.provider`
+ */
+export function createLLMProvider(configuration: ProviderConfiguration, env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  switch (configuration.provider || 'openai') {
+    case 'openai':
+    case 'azure-openai':
+    case 'local':
+      return new OpenAIProvider(configuration, env);
+    case 'anthropic':
+      return new AnthropicProvider(configuration, env);
+    case 'offline':
+      return new OfflineProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${configuration.provider}`);
+  }
+}
+
+/**
+ * OpenAI, Azure OpenAI, and local OpenAI-compatible servers such as Ollama or llama.cpp
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: 'openai' | 'azure-openai' | 'local';
+  private client?: OpenAI;
+  private missingConfiguration?: string;
+
+  constructor(private configuration: ProviderConfiguration, env: NodeJS.ProcessEnv = process.env) {
+    const provider = configuration.provider;
+    this.name = provider === 'azure-openai' || provider === 'local' ? provider : 'openai';
+
+    const apiKeyEnv = configuration.apiKeyEnv || DEFAULT_API_KEY_ENV[this.name];
+    const apiKey = env[apiKeyEnv];
+    const timeout = configuration.timeout;
+
+    if (this.name === 'local') {
+      // Local servers usually ignore the key, but the SDK insists on one
+      this.client = new OpenAI({ apiKey: apiKey || 'local', baseURL: configuration.baseUrl || DEFAULT_LOCAL_BASE_URL, timeout });
+    } else if (!apiKey) {
+      this.missingConfiguration = `${apiKeyEnv} environment variable not found`;
+    } else if (this.name === 'azure-openai') {
+      const endpoint = configuration.baseUrl || env.AZURE_OPENAI_ENDPOINT;
+      if (!endpoint) {
+        this.missingConfiguration = 'Azure OpenAI endpoint not configured (set configuration.baseUrl or AZURE_OPENAI_ENDPOINT)';
+      } else {
+        this.client = new AzureOpenAI({ apiKey, endpoint, apiVersion: configuration.apiVersion || DEFAULT_AZURE_API_VERSION, timeout });
+      }
+    } else {
+      this.client = new OpenAI({ apiKey, baseURL: configuration.baseUrl, timeout });
+    }
+  }
+
+  unavailableReason(): string | undefined {
+    return this.missingConfiguration;
+  }
+
+  defaultModel(requestType: SubagentRequestType): string | undefined {
+    // Azure deployments and local models are named by the user
+    return this.name === 'openai' ? OPENAI_TASK_MODELS[requestType] : undefined;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    if (!this.client) {
+      throw new Error(this.missingConfiguration);
+    }
+
+    const jsonMode = this.configuration.structuredOutput === 'json-object';
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: jsonMode ? withSchemaInstructions(request) : request.prompt }
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: jsonMode
+        ? { type: 'json_object' }
+        : { type: 'json_schema', json_schema: { name: request.schemaName, strict: true, schema: request.schema } }
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No response content from ${this.name}`);
+    }
+
+    return {
+      data: JSON.parse(content),
+      model: completion.model,
+      promptTokens: completion.usage?.prompt_tokens || 0,
+      completionTokens: completion.usage?.completion_tokens || 0,
+      totalTokens: completion.usage?.total_tokens || 0
+    };
+  }
+}
+
+/**
+ * Anthropic Messages API. Structured output is obtained by forcing a tool call whose input schema
+ * is the response schema.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private apiKey?: string;
+  private apiKeyEnv: string;
+
+  constructor(private configuration: ProviderConfiguration, env: NodeJS.ProcessEnv = process.env) {
+    this.apiKeyEnv = configuration.apiKeyEnv || DEFAULT_API_KEY_ENV.anthropic;
+    this.apiKey = env[this.apiKeyEnv];
+  }
+
+  unavailableReason(): string | undefined {
+    return this.apiKey ? undefined : `${this.apiKeyEnv} environment variable not found`;
+  }
+
+  defaultModel(requestType: SubagentRequestType): string | undefined {
+    return ANTHROPIC_TASK_MODELS[requestType];
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    if (!this.apiKey) {
+      throw new Error(this.unavailableReason());
+    }
+
+    const baseUrl = (this.configuration.baseUrl || DEFAULT_ANTHROPIC_BASE_URL).replace(/\/+$/, '');
+    const response = await fetch(`${baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION
+      },
+      body: JSON.stringify({
+        model: request.model,
+        system: request.systemPrompt,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        tools: [{ name: request.schemaName, description: 'Record the structured response', input_schema: request.schema }],
+        tool_choice: { type: 'tool', name: request.schemaName }
+      }),
+      signal: this.configuration.timeout ? AbortSignal.timeout(this.configuration.timeout) : undefined
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error ${response.status}: ${await response.text()}`);
+    }
+
+    const body: any = await response.json();
+    const toolUse = (body.content || []).find((block: any) => block.type === 'tool_use' && block.name === request.schemaName);
+    if (!toolUse) {
+      throw new Error(`No structured response from anthropic (stop reason: ${body.stop_reason})`);
+    }
+
+    const promptTokens = body.usage?.input_tokens || 0;
+    const completionTokens = body.usage?.output_tokens || 0;
+    return {
+      data: toolUse.input,
+      model: body.model || request.model,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens
+    };
+  }
+}
+
+/**
+ * Deterministic provider that never touches the network. Responds with the fixture registered for
+ * the schema name, or else with the smallest value matching the schema: empty arrays, first enum
+ * values, and strings naming their position in the schema. Token counts are estimated from text length.
+ */
+export class OfflineProvider implements LLMProvider {
+  readonly name = 'offline';
+
+  constructor(private fixtures: Record<string, any> = {}) {}
+
+  unavailableReason(): string | undefined {
+    return undefined;
+  }
+
+  defaultModel(): string | undefined {
+    return 'offline';
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const data = request.schemaName in this.fixtures
+      ? JSON.parse(JSON.stringify(this.fixtures[request.schemaName]))
+      : sampleFromSchema(request.schema, request.schemaName);
+
+    const promptTokens = estimateTokens(request.systemPrompt + request.prompt);
+    const completionTokens = estimateTokens(JSON.stringify(data));
+    return { data, model: 'offline', promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
+
+function sampleFromSchema(schema: Record<string, any>, location: string): any {
+  if (Array.isArray(schema.enum)) {
+    return schema.enum[0];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      const result: Record<string, any> = {};
+      for (const [key, property] of Object.entries<Record<string, any>>(schema.properties || {})) {
+        result[key] = sampleFromSchema(property, `${location}.${key}`);
+      }
+      return result;
+    }
+    case 'array':
+      return [];
+    case 'string':
+      return `[offline] ${location}`;
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+/**
+ * JSON mode guarantees valid JSON but not its shape, so describe the shape in the prompt
+ */
+function withSchemaInstructions(request: LLMCompletionRequest): string {
+  return `${request.prompt}\n\nRespond with a single JSON object matching this JSON schema:\n${JSON.stringify(request.schema, null, 2)}`;
+}
@@ -0,0 +1,259 @@
+/**
+ * Redaction of secrets and personal data from subagent requests before they leave the machine
+ *
+ * Every string in a request payload is scanned by the built-in detectors and the configured
+ * patterns. Matches are replaced by placeholders such as `[REDACTED_EMAIL_1]`; the same value gets
+ * the same placeholder throughout a request, so the model can still tell values apart and
+ * identical requests keep identical cache keys. Files matching `denyPaths` are withheld entirely.
+ */
+
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { matchesAnyGlob } from '../analysis/glob';
+import {
+  RedactionAuditRecord,
+  RedactionConfig,
+  RedactionDetector,
+  SubagentRequestType,
+  DEFAULT_REDACTION_CONFIG
+} from './types';
+
+interface Detector {
+  name: string;
+  regex: RegExp;
+  /** Redact only the value at the end of the match, keeping the key or label before it */
+  valueGroup?: number;
+  /** Further check on a match; matches failing it are kept */
+  accept?: (value: string) => boolean;
+}
+
+/** Shortest token considered by the high-entropy detector */
+const MIN_ENTROPY_TOKEN_LENGTH = 24;
+
+const DIFF_SECTION = /^diff --git a\/(\S+) b\//;
+
+export class Redactor {
+  private readonly config: RedactionConfig;
+  private readonly detectors: Detector[];
+
+  /**
+   * `auditFile` receives one JSON line per request that had something redacted; without it no
+   * audit is written
+   */
+  constructor(config: Partial<RedactionConfig> = {}, private auditFile?: string) {
+    this.config = { ...DEFAULT_REDACTION_CONFIG, ...config };
+    this.detectors = this.buildDetectors();
+  }
+
+  /**
+   * Copy of `payload` with secrets replaced and denied files withheld, and the audit record of
+   * what was removed
+   */
+  redact<T>(payload: T, requestType: SubagentRequestType): { payload: T; record: RedactionAuditRecord } {
+    const session = new RedactionSession();
+    const redacted = this.config.enabled ? this.redactValue(payload, session) : payload;
+    return { payload: redacted as T, record: session.toRecord(requestType) };
+  }
+
+  /**
+   * Append an audit record to the audit log, unless nothing was redacted
+   */
+  async writeAudit(record: RedactionAuditRecord): Promise<void> {
+    if (!this.auditFile || (record.redactions.length === 0 && record.withheldFiles.length === 0)) {
+      return;
+    }
+
+    try {
+      await fs.mkdir(dirname(this.auditFile), { recursive: true });
+      await fs.appendFile(this.auditFile, JSON.stringify(record) + '\n');
+    } catch (error) {
+      console.warn('Failed to write redaction audit record:', error);
+    }
+  }
+
+  private redactValue(value: unknown, session: RedactionSession, file?: string): unknown {
+    if (typeof value === 'string') {
+      return this.redactText(value, session, file);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item, session, file));
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    // Objects with a path, such as changed files, attribute their strings to that file
+    const record = value as Record<string, unknown>;
+    const ownFile = typeof record.path === 'string' ? record.path : file;
+    const denied = ownFile !== undefined && this.isDenied(ownFile);
+
+    return Object.fromEntries(Object.entries(record).map(([key, item]) => {
+      if (denied && key === 'diffContent') {
+        session.withhold(ownFile!);
+        return [key, withheldMarker(ownFile!)];
+      }
+      return [key, key === 'path' ? item : this.redactValue(item, session, ownFile)];
+    }));
+  }
+
+  /**
+   * Redact a string. Multi-file diffs are handled per file, so each file can be withheld and
+   * redactions are attributed to the right file.
+   */
+  private redactText(text: string, session: RedactionSession, file?: string): string {
+    if (!text.includes('diff --git a/')) {
+      return this.applyDetectors(text, session, file);
+    }
+
+    return text.split(/^(?=diff --git a\/)/m).map(section => {
+      const sectionFile = section.match(DIFF_SECTION)?.[1] ?? file;
+      if (sectionFile !== undefined && section.match(DIFF_SECTION) && this.isDenied(sectionFile)) {
+        session.withhold(sectionFile);
+        return `${section.split('\n')[0]}\n${withheldMarker(sectionFile)}\n`;
+      }
+      return this.applyDetectors(section, session, sectionFile);
+    }).join('');
+  }
+
+  private applyDetectors(text: string, session: RedactionSession, file?: string): string {
+    for (const detector of this.detectors) {
+      text = text.replace(detector.regex, (match: string, ...groups: unknown[]) => {
+        const value = detector.valueGroup !== undefined ? String(groups[detector.valueGroup - 1] ?? '') : match;
+        if (!value || (detector.accept && !detector.accept(value))) {
+          return match;
+        }
+        return match.slice(0, match.length - value.length) + session.placeholderFor(detector.name, value, file);
+      });
+    }
+    return text;
+  }
+
+  private isDenied(filePath: string): boolean {
+    return matchesAnyGlob(filePath, this.config.denyPaths);
+  }
+
+  /**
+   * Enabled built-in detectors and configured patterns, most specific first so that, for example,
+   * a JWT is reported as a JWT rather than as a high-entropy string
+   */
+  private buildDetectors(): Detector[] {
+    const builtIn: Record<RedactionDetector, Detector> = {
+      'private-key': {
+        name: 'private-key',
+        regex: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY-----/g
+      },
+      'jwt': {
+        name: 'jwt',
+        regex: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g
+      },
+      'aws-access-key': {
+        name: 'aws-access-key',
+        regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g
+      },
+      'aws-secret-key': {
+        name: 'aws-secret-key',
+        regex: /aws.{0,20}?(?:secret|private).{0,20}?['"]?\s*[:=]\s*['"]?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+        valueGroup: 1
+      },
+      'email': {
+        name: 'email',
+        regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g
+      },
+      'high-entropy': {
+        name: 'high-entropy',
+        regex: new RegExp(`[A-Za-z0-9+/=_-]{${MIN_ENTROPY_TOKEN_LENGTH},}`, 'g'),
+        // Mixed case and several digits keep identifiers, paths and hex digests such as commit hashes out
+        accept: value => /\d.*\d/.test(value) && /[a-z]/.test(value) && /[A-Z]/.test(value) &&
+          shannonEntropy(value) >= this.config.entropyThreshold
+      }
+    };
+
+    const custom = this.config.patterns.map(pattern => {
+      try {
+        return { name: pattern.name, regex: new RegExp(pattern.pattern, withGlobalFlag(pattern.flags)) };
+      } catch (error) {
+        throw new Error(`Invalid redaction pattern "${pattern.name}": ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
+    const enabled = (name: RedactionDetector) => this.config.detectors.includes(name) ? [builtIn[name]] : [];
+    return [
+      ...enabled('private-key'),
+      ...enabled('jwt'),
+      ...enabled('aws-access-key'),
+      ...enabled('aws-secret-key'),
+      ...custom,
+      ...enabled('email'),
+      ...enabled('high-entropy')
+    ];
+  }
+}
+
+/**
+ * Placeholders and audit details for a single request
+ */
+class RedactionSession {
+  private readonly values = new Map<string, RedactionAuditRecord['redactions'][number]>();
+  private readonly counters = new Map<string, number>();
+  private readonly withheld = new Set<string>();
+
+  placeholderFor(detector: string, value: string, file?: string): string {
+    const key = `${detector}\0${value}`;
+    let entry = this.values.get(key);
+    if (!entry) {
+      const index = (this.counters.get(detector) || 0) + 1;
+      this.counters.set(detector, index);
+      entry = {
+        detector,
+        placeholder: `[REDACTED_${detector.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_${index}]`,
+        occurrences: 0,
+        files: []
+      };
+      this.values.set(key, entry);
+    }
+
+    entry.occurrences++;
+    if (file && !entry.files.includes(file)) {
+      entry.files.push(file);
+    }
+    return entry.placeholder;
+  }
+
+  withhold(file: string): void {
+    this.withheld.add(file);
+  }
+
+  toRecord(requestType: SubagentRequestType): RedactionAuditRecord {
+    return {
+      timestamp: new Date().toISOString(),
+      requestType,
+      redactions: [...this.values.values()],
+      withheldFiles: [...this.withheld]
+    };
+  }
+}
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+function withheldMarker(file: string): string {
+  return `[WITHHELD: ${file} matches redaction.denyPaths]`;
+}
+
+function withGlobalFlag(flags: string = ''): string {
+  return flags.includes('g') ? flags : `${flags}g`;
+}
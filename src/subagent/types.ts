@@ -2,6 +2,8 @@
  * Types for Subagent integration
  */
 
+import { LogDigest } from '../logging/types';
+
 export interface SubagentConfig {
   name: string;
   version: string;
@@ -12,6 +14,22 @@ export interface SubagentConfig {
     temperature: number;
     maxTokens: number;
     timeout: number;
+    /** LLM provider to send requests to (default: openai) */
+    provider?: LLMProviderName;
+    /** Model per request type, overriding the provider's defaults and `model` */
+    taskModels?: Partial<Record<SubagentRequestType, string>>;
+    /** API base URL, e.g. a local OpenAI-compatible server or the Azure OpenAI endpoint */
+    baseUrl?: string;
+    /** Environment variable holding the API key (default depends on the provider) */
+    apiKeyEnv?: string;
+    /** Azure OpenAI API version */
+    apiVersion?: string;
+    /** How structured output is requested: a strict JSON schema (default) or plain JSON mode for servers without schema support */
+    structuredOutput?: 'json-schema' | 'json-object';
+    /** Estimated tokens of diff per code analysis request; larger diffs are split into chunks */
+    chunkTokenBudget?: number;
+    /** Chunks analyzed in parallel */
+    maxConcurrentRequests?: number;
   };
   prompts: {
     system: string;
@@ -19,15 +37,72 @@ export interface SubagentConfig {
     changeClassification: string;
     documentationGeneration: string;
     templateProcessing: string;
+    /** Log digest summary prompt; configs written before digests existed use DEFAULT_LOG_DIGEST_PROMPT */
+    logDigest?: string;
   };
 }
 
+/**
+ * Fallback prompt for log digest summaries, used when `.kiro/prompts/log-digest.md` cannot be loaded
+ */
+export const DEFAULT_LOG_DIGEST_PROMPT = "Summarize the following digest of development log entries for someone who missed the period:\n\n{digest}\n\nWrite `summary` as one or two Markdown paragraphs on what the period was about, and `highlights` as three to six single-sentence points, most important first. Mention breaking changes and removed components explicitly. Use only what the digest contains; do not invent features, names or numbers.";
+
 export interface SubagentRequest {
-  type: 'code-analysis' | 'change-classification' | 'documentation-generation' | 'template-processing' | 'readme-generation';
+  type: 'code-analysis' | 'change-classification' | 'documentation-generation' | 'template-processing' | 'readme-generation' | 'log-digest';
   payload: any;
   context?: SubagentContext;
 }
 
+export type SubagentRequestType = SubagentRequest['type'];
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'azure-openai' | 'local' | 'offline';
+
+/**
+ * A single structured-output completion: the response must be JSON matching `schema`
+ */
+export interface LLMCompletionRequest {
+  model: string;
+  systemPrompt: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  schemaName: string;
+  schema: Record<string, any>;
+}
+
+export interface LLMCompletionResult {
+  /** Parsed JSON response */
+  data: any;
+  /** Model that produced the response, as reported by the provider */
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  /** Why requests cannot be sent (e.g. a missing API key), or undefined when the provider is usable */
+  unavailableReason(): string | undefined;
+  /** Model used for a request type when the configuration does not name one */
+  defaultModel(requestType: SubagentRequestType): string | undefined;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult>;
+}
+
+/**
+ * A request sized up without sending it, so its cost can be checked against a budget
+ */
+export interface PlannedSubagentRequest {
+  type: SubagentRequestType;
+  model: string;
+  /** Estimated tokens of the system prompt, prompt and response schema */
+  promptTokens: number;
+  /** Completion token limit of the request, the most it can cost */
+  completionTokens: number;
+  /** A response is already cached */
+  cached: boolean;
+}
+
 export interface SubagentResponse {
   success: boolean;
   data?: any;
@@ -36,9 +111,143 @@ export interface SubagentResponse {
     processingTime: number;
     tokensUsed: number;
     model: string;
+    /** Prompt and completion parts of tokensUsed, as reported by the provider */
+    promptTokens?: number;
+    completionTokens?: number;
+    /** Served from the response cache; no tokens were spent */
+    cached?: boolean;
   };
 }
 
+/**
+ * Tokens one AI request spent, as reported by the provider
+ */
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export const DEFAULT_CHUNK_TOKEN_BUDGET = 12000;
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 3;
+
+/**
+ * Part of a diff sent in a single code analysis request
+ */
+export interface DiffChunk {
+  /** Files with hunks in this chunk, in diff order */
+  filePaths: string[];
+  diffContent: string;
+  estimatedTokens: number;
+}
+
+export interface ResponseCacheConfig {
+  enabled: boolean;
+  /** Cache directory, relative to the workspace root */
+  directory: string;
+  /** Hours before a cached response expires */
+  ttlHours: number;
+  /** Total size of the cache before the oldest responses are evicted */
+  maxSizeMB: number;
+}
+
+export const DEFAULT_RESPONSE_CACHE_CONFIG: ResponseCacheConfig = {
+  enabled: true,
+  directory: '.kiro/cache',
+  ttlHours: 24 * 7,
+  maxSizeMB: 50
+};
+
+export type RedactionDetector = 'aws-access-key' | 'aws-secret-key' | 'jwt' | 'private-key' | 'high-entropy' | 'email';
+
+export interface RedactionPattern {
+  /** Name used in placeholders and audit records */
+  name: string;
+  /** Regular expression source; every match is replaced */
+  pattern: string;
+  flags?: string;
+}
+
+export interface RedactionConfig {
+  enabled: boolean;
+  /** Built-in detectors to run */
+  detectors: RedactionDetector[];
+  /** Additional patterns to redact */
+  patterns: RedactionPattern[];
+  /** Globs of files whose content is never sent */
+  denyPaths: string[];
+  /** Minimum Shannon entropy, in bits per character, of a token redacted as high-entropy */
+  entropyThreshold: number;
+  /** Append-only log of what was redacted per request, relative to the workspace root */
+  auditLog: string;
+}
+
+export const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+  enabled: true,
+  detectors: ['aws-access-key', 'aws-secret-key', 'jwt', 'private-key', 'high-entropy', 'email'],
+  patterns: [],
+  denyPaths: ['**/.env', '**/.env.*', '**/*.pem', '**/*.key', '**/id_rsa*', '**/.npmrc'],
+  entropyThreshold: 4.0,
+  auditLog: '.kiro/audit/redactions.jsonl'
+};
+
+/**
+ * What was removed from one request before it was sent. Secret values are never recorded.
+ */
+export interface RedactionAuditRecord {
+  timestamp: string;
+  requestType: SubagentRequestType;
+  redactions: Array<{
+    /** Built-in detector or configured pattern name */
+    detector: string;
+    placeholder: string;
+    occurrences: number;
+    /** Files the value appeared in, when known */
+    files: string[];
+  }>;
+  /** Files whose content was withheld by `denyPaths` */
+  withheldFiles: string[];
+}
+
+export interface CachedResponse {
+  key: string;
+  createdAt: string;
+  requestType: SubagentRequestType;
+  model: string;
+  data: any;
+  /** Tokens the original request cost */
+  tokensUsed: number;
+}
+
+/**
+ * `record` sends requests to the provider and saves each request/response pair; `replay` answers
+ * from the saved pairs without the provider, failing on any request that was not recorded
+ */
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteOptions {
+  /** Cassette file, a JSON fixture */
+  path: string;
+  mode: CassetteMode;
+}
+
+export interface CassetteInteraction {
+  request: LLMCompletionRequest;
+  response: LLMCompletionResult;
+}
+
+export interface Cassette {
+  version: 1;
+  /** Provider the interactions were recorded from */
+  provider: LLMProviderName;
+  interactions: CassetteInteraction[];
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
 export interface SubagentContext {
   projectPath: string;
   kiroContext?: {
@@ -146,4 +355,19 @@ export interface ReadmeGenerationResponse {
     tokensUsed: number;
     model: string;
   };
+}
+
+export interface LogDigestSummaryRequest {
+  /** The aggregated digest of a period of development log entries */
+  digest: LogDigest;
+}
+
+export interface LogDigestSummaryResponse {
+  summary: string;
+  highlights: string[];
+  metadata?: {
+    processingTime: number;
+    tokensUsed: number;
+    model: string;
+  };
 }
\ No newline at end of file
@@ -0,0 +1,165 @@
+/**
+ * Tests for verifying AI-reported symbols against the local parse
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import { join } from 'path';
+import { verifyCodeAnalysis } from './verification';
+import { SymbolExtractor } from '../analysis/symbol-extractor';
+import { DevelopmentLogger, DEFAULT_LOG_CONFIG } from '../logging';
+import { ChangeAnalysis, ChangedFile } from '../types';
+
+describe('verifyCodeAnalysis', () => {
+  const source = `
+export function parseConfig(path: string, strict?: boolean): Config { return load(path); }
+export class Cache {
+  get(key: string): string | undefined { return undefined; }
+  set(key: string, value) {}
+}
+export interface Config { path: string; }
+`;
+
+  const changedFile: ChangedFile = {
+    path: 'src/config.ts',
+    changeType: 'added',
+    diffContent: '',
+    ...new SymbolExtractor().extract(source, 'src/config.ts')
+  };
+
+  let logDirectory: string | undefined;
+
+  afterEach(async () => {
+    if (logDirectory) {
+      await fs.rm(logDirectory, { recursive: true, force: true });
+    }
+  });
+
+  it('should drop symbols that do not exist in the parsed source', () => {
+    const { response, fidelity } = verifyCodeAnalysis({
+      extractedFunctions: [
+        { name: 'parseConfig', parameters: [{ name: 'path', type: 'string' }, { name: 'strict', type: 'boolean' }], returnType: 'Config' },
+        { name: 'loadConfigFromEnv', parameters: [], returnType: 'Config' },
+        { name: 'get', parameters: [{ name: 'key', type: 'string' }] }
+      ],
+      extractedClasses: [
+        { name: 'Cache', methods: ['get(key: string)', { name: 'set', parameters: [{ name: 'key' }, { name: 'value', type: 'number' }] }, 'clear()'] },
+        { name: 'ConfigWatcher', methods: [] }
+      ],
+      extractedAPIs: [{ name: 'health', method: 'GET', path: '/health' }, { name: 'Cache.evict' }],
+      extractedTypes: [{ name: 'Config', definition: 'interface Config' }, { name: 'ConfigOptions', definition: 'type ConfigOptions = {}' }]
+    }, [changedFile]);
+
+    expect(response.extractedFunctions.map(f => f.name)).toEqual(['parseConfig']);
+    expect(response.extractedClasses).toEqual([
+      { name: 'Cache', methods: ['get(key: string)', { name: 'set', parameters: [{ name: 'key' }, { name: 'value', type: 'number' }] }] }
+    ]);
+    expect(response.extractedAPIs.map(api => api.name)).toEqual(['health']);
+    expect(response.extractedTypes.map(type => type.name)).toEqual(['Config']);
+
+    expect(fidelity.issues.filter(issue => issue.reason === 'unknown-symbol').map(issue => issue.symbol)).toEqual([
+      'loadConfigFromEnv', 'get', 'Cache.clear', 'ConfigWatcher', 'ConfigOptions', 'Cache.evict'
+    ]);
+    expect(fidelity.issues.find(issue => issue.symbol === 'get')?.description).toBe('reported as a function, but get is a method of Cache');
+    expect(fidelity).toMatchObject({ reportedSymbols: 11, verifiedSymbols: 5, correctedSymbols: 0, droppedSymbols: 6 });
+    expect(fidelity.score).toBeCloseTo(5 / 11);
+  });
+
+  it('should replace parameters and return types that disagree with the parse', () => {
+    const { response, fidelity } = verifyCodeAnalysis({
+      extractedFunctions: [
+        { name: 'parseConfig', parameters: [{ name: 'file', type: 'string' }], returnType: 'Promise<Config>', description: 'Parses the config' }
+      ],
+      extractedClasses: [{ name: 'Cache', methods: [{ name: 'get', parameters: [{ name: 'key', type: 'string' }], returnType: 'string' }] }],
+      extractedAPIs: [],
+      extractedTypes: []
+    }, [changedFile]);
+
+    expect(response.extractedFunctions[0]).toEqual({
+      name: 'parseConfig',
+      parameters: changedFile.extractedFunctions[0].parameters,
+      returnType: 'Config',
+      description: 'Parses the config'
+    });
+    expect(response.extractedClasses[0].methods[0].returnType).toBe('string | undefined');
+    expect(fidelity.issues.map(issue => [issue.symbol, issue.reason])).toEqual([
+      ['parseConfig', 'parameter-mismatch'],
+      ['parseConfig', 'return-type-mismatch'],
+      ['Cache.get', 'return-type-mismatch']
+    ]);
+    expect(fidelity).toMatchObject({ reportedSymbols: 3, verifiedSymbols: 1, correctedSymbols: 2, droppedSymbols: 0 });
+  });
+
+  it('should keep symbols from diffs the local parse does not cover unverified', () => {
+    // Oversized and non-TS/JS files are recorded without symbols
+    const oversizedFile: ChangedFile = {
+      path: 'src/generated/schema.ts',
+      changeType: 'modified',
+      diffContent: '+export function buildSchema(input: string): Schema {\n+export interface Schema { fields: string[] }',
+      extractedFunctions: [],
+      extractedClasses: []
+    };
+    const scriptFile: ChangedFile = {
+      path: 'scripts/deploy.py',
+      changeType: 'added',
+      diffContent: '+def deploy(target):\n+    pass',
+      extractedFunctions: [],
+      extractedClasses: []
+    };
+
+    const { response, fidelity } = verifyCodeAnalysis({
+      extractedFunctions: [{ name: 'parseConfig' }, { name: 'buildSchema' }, { name: 'deploy' }, { name: 'invented' }],
+      extractedClasses: [],
+      extractedAPIs: [],
+      extractedTypes: [{ name: 'Schema' }]
+    }, [changedFile, oversizedFile, scriptFile]);
+
+    expect(response.extractedFunctions.map(f => f.name)).toEqual(['parseConfig', 'buildSchema', 'deploy']);
+    expect(response.extractedTypes.map(type => type.name)).toEqual(['Schema']);
+    expect(fidelity.issues.map(issue => issue.symbol)).toEqual(['invented']);
+    expect(fidelity).toMatchObject({ score: 0.5, reportedSymbols: 2, verifiedSymbols: 1, droppedSymbols: 1, unverifiedSymbols: 3 });
+
+    // Shallow analysis parses the hunks only, so methods outside them are unknown to the parse
+    const shallow = verifyCodeAnalysis({
+      extractedFunctions: [],
+      extractedClasses: [{ name: 'Cache', methods: ['get(key: string)', 'evict(key: string)', 'clear()'] }],
+      extractedAPIs: [],
+      extractedTypes: []
+    }, [{ ...changedFile, diffContent: '+  evict(key: string) {\n+    this.entries.delete(key);' }], 'shallow');
+
+    expect(shallow.response.extractedClasses[0].methods).toEqual(['get(key: string)', 'evict(key: string)']);
+    expect(shallow.fidelity).toMatchObject({ reportedSymbols: 3, verifiedSymbols: 2, droppedSymbols: 1, unverifiedSymbols: 1 });
+  });
+
+  it('should record the fidelity score in the development log', async () => {
+    const { fidelity } = verifyCodeAnalysis({
+      extractedFunctions: [{ name: 'parseConfig' }, { name: 'invented' }],
+      extractedClasses: [],
+      extractedAPIs: [],
+      extractedTypes: []
+    }, [changedFile]);
+
+    logDirectory = await fs.mkdtemp(join(os.tmpdir(), 'fidelity-log-'));
+    const logger = new DevelopmentLogger({ ...DEFAULT_LOG_CONFIG, logDirectory });
+    const analysis: ChangeAnalysis = {
+      timestamp: new Date().toISOString(),
+      triggerType: 'manual',
+      changedFiles: [changedFile],
+      extractedAPIs: [],
+      newFeatures: [],
+      architecturalChanges: [],
+      documentationRequirements: [],
+      aiFidelity: fidelity
+    };
+
+    const entry = await logger.createLogEntry(analysis, 'Verify AI output');
+    await logger.storeLogEntry(entry);
+
+    const logFile = (await fs.readdir(logDirectory)).find(file => file.endsWith('.md'))!;
+    const content = await fs.readFile(join(logDirectory, logFile), 'utf-8');
+    expect(entry.metadata.aiFidelity?.score).toBe(0.5);
+    expect(content).toContain('- AI Fidelity: 50% (1 of 2 symbols verified, 0 corrected, 1 dropped)\n  - invented: not found in the parsed source');
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Verification of AI-reported symbols against the locally parsed source
+ *
+ * The model only sees diffs and can report functions, methods or types that do not exist, or get
+ * their signatures wrong. Every reported symbol is looked up in the symbols the local analyzer
+ * parsed from the changed files: unknown symbols are dropped, and parameters and return types that
+ * disagree with the parse are replaced by the parsed ones. The share of symbols that matched
+ * exactly is the run's AI fidelity score.
+ *
+ * The local parse does not cover everything the model sees: deleted, non-TS/JS and oversized files
+ * are not parsed at all, and shallow analysis parses diff hunks only. A missing symbol that the
+ * diff of such a file names is kept unverified rather than dropped, and left out of the score.
+ */
+
+import { AIFidelityReport, ChangedFile, FunctionDefinition, Parameter, SymbolVerificationIssue } from '../types';
+import { AnalysisConfig } from '../analysis/types';
+import { CodeAnalysisResponse } from './types';
+
+interface LocalSymbols {
+  functions: Map<string, FunctionDefinition>;
+  /** Methods per class name */
+  classes: Map<string, Map<string, FunctionDefinition>>;
+  types: Set<string>;
+  /** Diffs of the files the parse covers only partly or not at all */
+  unparsedDiffs: string[];
+}
+
+interface VerificationState {
+  reported: number;
+  verified: number;
+  corrected: number;
+  dropped: number;
+  unverified: number;
+  issues: SymbolVerificationIssue[];
+}
+
+/**
+ * Check a code analysis response against the symbols parsed from `changedFiles` at
+ * `analysisDepth`. Returns the response without unknown symbols and with signatures taken from
+ * the parse.
+ */
+export function verifyCodeAnalysis(
+  response: CodeAnalysisResponse,
+  changedFiles: ChangedFile[],
+  analysisDepth: AnalysisConfig['analysisDepth'] = 'deep'
+): { response: CodeAnalysisResponse; fidelity: AIFidelityReport } {
+  const local = indexLocalSymbols(changedFiles, analysisDepth);
+  const state: VerificationState = { reported: 0, verified: 0, corrected: 0, dropped: 0, unverified: 0, issues: [] };
+
+  const extractedFunctions = (response.extractedFunctions || []).flatMap(func => {
+    const name = typeof func?.name === 'string' ? func.name.trim() : '';
+    const [className, methodName] = name.includes('.') ? name.split('.', 2) : [undefined, name];
+    const definition = className ? local.classes.get(className)?.get(methodName) : local.functions.get(name);
+    const owner = !className && !definition ? findMethodOwner(local, name) : undefined;
+
+    if (!definition) {
+      if (!owner && keepUnverified(state, local, name)) {
+        return [func];
+      }
+      drop(state, name || '(unnamed function)', owner
+        ? `reported as a function, but ${name} is a method of ${owner}`
+        : 'not found in the parsed source');
+      return [];
+    }
+    return [checkSignature(state, name, func, definition)];
+  });
+
+  const extractedClasses = (response.extractedClasses || []).flatMap(cls => {
+    const name = typeof cls?.name === 'string' ? cls.name.trim() : '';
+    const methods = local.classes.get(name);
+    if (!methods) {
+      if (keepUnverified(state, local, name)) {
+        return [cls];
+      }
+      drop(state, name || '(unnamed class)', 'class not found in the parsed source');
+      return [];
+    }
+    state.reported++;
+    state.verified++;
+
+    const verifiedMethods = (Array.isArray(cls.methods) ? cls.methods : []).flatMap((method: any) => {
+      const methodName = (typeof method === 'string' ? method.split('(')[0] : String(method?.name ?? '')).trim();
+      const definition = methods.get(methodName);
+      if (!definition) {
+        if (keepUnverified(state, local, methodName)) {
+          return [method];
+        }
+        drop(state, `${name}.${methodName}`, 'method not found in the parsed class');
+        return [];
+      }
+      // Methods listed by name or signature string carry nothing more to check
+      return [typeof method === 'string' ? countVerified(state, method) : checkSignature(state, `${name}.${methodName}`, method, definition)];
+    });
+
+    return [{ ...cls, methods: verifiedMethods }];
+  });
+
+  const extractedTypes = (response.extractedTypes || []).filter(type => {
+    const name = typeof type?.name === 'string' ? type.name.trim() : '';
+    if (!local.types.has(name)) {
+      if (keepUnverified(state, local, name)) {
+        return true;
+      }
+      drop(state, name || '(unnamed type)', 'type not found in the parsed source');
+      return false;
+    }
+    state.reported++;
+    state.verified++;
+    return true;
+  });
+
+  // HTTP endpoints cannot be checked against the parse; named code APIs must exist
+  const extractedAPIs = (response.extractedAPIs || []).filter(api => {
+    if (api?.path || api?.endpoint) {
+      return true;
+    }
+    const name = typeof api?.name === 'string' ? api.name.trim() : '';
+    const [className, methodName] = name.split('.', 2);
+    const exists = local.functions.has(name) || (methodName !== undefined
+      ? Boolean(local.classes.get(className)?.has(methodName))
+      : local.classes.has(name) || local.types.has(name));
+    if (!exists) {
+      if (keepUnverified(state, local, name)) {
+        return true;
+      }
+      drop(state, name || '(unnamed API)', 'API not found in the parsed source');
+      return false;
+    }
+    state.reported++;
+    state.verified++;
+    return true;
+  });
+
+  return {
+    response: { ...response, extractedFunctions, extractedClasses, extractedTypes, extractedAPIs },
+    fidelity: {
+      score: state.reported === 0 ? 1 : state.verified / state.reported,
+      reportedSymbols: state.reported,
+      verifiedSymbols: state.verified,
+      correctedSymbols: state.corrected,
+      droppedSymbols: state.dropped,
+      unverifiedSymbols: state.unverified,
+      issues: state.issues
+    }
+  };
+}
+
+function indexLocalSymbols(changedFiles: ChangedFile[], analysisDepth: AnalysisConfig['analysisDepth']): LocalSymbols {
+  const local: LocalSymbols = { functions: new Map(), classes: new Map(), types: new Set(), unparsedDiffs: [] };
+
+  for (const file of changedFiles) {
+    if (analysisDepth === 'shallow' || !isParsed(file)) {
+      local.unparsedDiffs.push(file.diffContent);
+    }
+    for (const func of file.extractedFunctions) {
+      local.functions.set(func.name, func);
+    }
+    for (const cls of file.extractedClasses) {
+      const methods = local.classes.get(cls.name) || new Map<string, FunctionDefinition>();
+      cls.methods.forEach(method => methods.set(method.name, method));
+      local.classes.set(cls.name, methods);
+    }
+    for (const type of [
+      ...(file.extractedInterfaces || []),
+      ...(file.extractedTypeAliases || []),
+      ...(file.extractedEnums || []),
+      ...(file.extractedConstants || [])
+    ]) {
+      local.types.add(type.name);
+    }
+  }
+
+  return local;
+}
+
+/**
+ * Whether the parse found any symbols in the file. The analyzer records deleted, non-TS/JS and
+ * oversized files without symbols, as it does files that declare nothing.
+ */
+function isParsed(file: ChangedFile): boolean {
+  return file.changeType !== 'deleted' && [
+    file.extractedFunctions,
+    file.extractedClasses,
+    file.extractedInterfaces,
+    file.extractedTypeAliases,
+    file.extractedEnums,
+    file.extractedConstants
+  ].some(symbols => symbols && symbols.length > 0);
+}
+
+/**
+ * Keep a symbol missing from the parse when the diff of a file the parse does not fully cover
+ * names it; its last name segment is matched, so `Cache.evict` needs `evict` in the diff
+ */
+function keepUnverified(state: VerificationState, local: LocalSymbols, symbol: string): boolean {
+  const name = symbol.split('.').pop()!.trim();
+  const mention = new RegExp(`(?<![\\w$])${escapeRegExp(name)}(?![\\w$])`);
+  if (!name || !local.unparsedDiffs.some(diff => mention.test(diff))) {
+    return false;
+  }
+  state.unverified++;
+  return true;
+}
+
+function findMethodOwner(local: LocalSymbols, methodName: string): string | undefined {
+  return [...local.classes].find(([, methods]) => methods.has(methodName))?.[0];
+}
+
+/**
+ * Compare reported parameters and return type with the parsed definition, replacing them when
+ * they disagree. Unannotated types in the source (`any`) cannot contradict the model.
+ */
+function checkSignature(state: VerificationState, symbol: string, reported: any, definition: FunctionDefinition): any {
+  state.reported++;
+  let corrected = false;
+
+  if (Array.isArray(reported.parameters) && !parametersMatch(reported.parameters, definition.parameters)) {
+    state.issues.push({
+      symbol,
+      reason: 'parameter-mismatch',
+      description: `reported (${formatParameters(reported.parameters)}), parsed (${formatParameters(definition.parameters)})`
+    });
+    corrected = true;
+  }
+
+  if (typeof reported.returnType === 'string' && !typesMatch(reported.returnType, definition.returnType)) {
+    state.issues.push({
+      symbol,
+      reason: 'return-type-mismatch',
+      description: `reported ${reported.returnType}, parsed ${definition.returnType}`
+    });
+    corrected = true;
+  }
+
+  if (!corrected) {
+    state.verified++;
+    return reported;
+  }
+
+  state.corrected++;
+  return { ...reported, parameters: definition.parameters, returnType: definition.returnType };
+}
+
+function countVerified<T>(state: VerificationState, value: T): T {
+  state.reported++;
+  state.verified++;
+  return value;
+}
+
+function drop(state: VerificationState, symbol: string, description: string): void {
+  state.reported++;
+  state.dropped++;
+  state.issues.push({ symbol, reason: 'unknown-symbol', description });
+}
+
+function parametersMatch(reported: any[], parsed: Parameter[]): boolean {
+  if (reported.length !== parsed.length) {
+    return false;
+  }
+  return reported.every((param, index) => {
+    const name = typeof param === 'string' ? param : param?.name;
+    return normalizeName(String(name ?? '')) === normalizeName(parsed[index].name) &&
+      (typeof param?.type !== 'string' || typesMatch(param.type, parsed[index].type));
+  });
+}
+
+function typesMatch(reported: string, parsed: string): boolean {
+  if (parsed === 'any' || parsed === 'Promise<any>') {
+    return true;
+  }
+  return normalizeType(reported) === normalizeType(parsed);
+}
+
+function normalizeName(name: string): string {
+  return name.replace(/^\.\.\./, '').replace(/\?$/, '').trim();
+}
+
+function normalizeType(type: string): string {
+  return type.replace(/\s+/g, '').replace(/;$/, '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function formatParameters(parameters: any[]): string {
+  return parameters
+    .map(param => typeof param === 'string' ? param : `${param?.name}${param?.type ? `: ${param.type}` : ''}`)
+    .join(', ');
+}
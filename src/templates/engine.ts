@@ -37,7 +37,8 @@ export class TemplateEngine {
         content: this.getDefaultAPIDocTemplate(),
         variables: [
           { name: 'apis', type: 'APIDefinition[]', required: true, description: 'List of API definitions' },
-          { name: 'description', type: 'string', required: false, description: 'API overview description' }
+          { name: 'description', type: 'string', required: false, description: 'API overview description' },
+          { name: 'types', type: 'TypeDefinition[]', required: false, description: 'Exported interfaces, type aliases, enums and constants' }
         ]
       };
 
@@ -643,6 +644,23 @@ System architecture documentation generated automatically.
 *No endpoints documented yet.*
 {{/if}}
 
+{{#if types}}
+## Types
+
+{{#each types}}
+### {{name}}
+
+**Kind:** {{kind}}
+
+{{description}}
+
+\`\`\`typescript
+{{definition}}
+\`\`\`
+
+{{/each}}
+{{/if}}
+
 ---
 *Generated on {{timestamp}}*`;
   }
@@ -78,6 +78,27 @@ export class AnalysisError extends Error {
   }
 }
 
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly period: 'session' | 'daily' | 'weekly' | 'monthly',
+    public readonly estimatedCost: number
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class CassetteMismatchError extends Error {
+  constructor(
+    message: string,
+    public readonly cassettePath: string
+  ) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
 /**
  * Error recovery strategies
  */
@@ -7,6 +7,7 @@ import { TemplateContext } from './types';
 import { 
   DocumentationRequirement, 
   APIDefinition, 
+  TypeDefinition,
   FeatureDescription, 
   ArchitecturalChange,
   ChangeAnalysis 
@@ -19,15 +20,23 @@ import {
 
 export class DocumentationGenerators {
   private errorHandler: ErrorHandler = new ErrorHandler();
+  private pathResolver: (relativePath: string) => string;
 
-  constructor(private templateEngine: TemplateEngine) {}
+  /**
+   * `pathResolver` maps the target files to the workspace; without one they stay relative to the
+   * current directory
+   */
+  constructor(private templateEngine: TemplateEngine, pathResolver?: (relativePath: string) => string) {
+    this.pathResolver = pathResolver || ((relativePath: string) => relativePath);
+  }
 
   /**
    * Generate API specification documentation for .kiro/specs/ files with error handling
    */
   async generateAPISpecification(
     apis: APIDefinition[], 
-    description?: string
+    description?: string,
+    types: TypeDefinition[] = []
   ): Promise<DocumentationRequirement> {
     try {
       // Verify template exists and use it if available
@@ -38,6 +47,7 @@ export class DocumentationGenerators {
           variables: {
             title: 'API',
             apis: this.sanitizeAPIs(apis),
+            types: this.sanitizeTypes(types),
             description: description || 'API Documentation'
           },
           metadata: {
@@ -54,24 +64,25 @@ export class DocumentationGenerators {
 
         return {
           type: 'api-spec',
-          targetFile: '.kiro/specs/api.md',
+          targetFile: this.pathResolver('.kiro/specs/api.md'),
           content,
           priority: 'high'
         };
       }
 
       // Fallback to direct generation if template not available
-      return this.generateAPISpecificationFallback(apis, description);
+      return this.generateAPISpecificationFallback(apis, description, types);
     } catch (error) {
       // Use error handler for graceful degradation
-      const fallback = this.generateAPISpecificationFallback(apis, description);
+      const fallback = this.generateAPISpecificationFallback(apis, description, types);
       return await this.errorHandler.handleError(error instanceof Error ? error : new Error(String(error)), fallback);
     }
   }
 
   private generateAPISpecificationFallback(
     apis: APIDefinition[], 
-    description?: string
+    description?: string,
+    types: TypeDefinition[] = []
   ): DocumentationRequirement {
     // This is the fallback when template processing fails
     let content = '# API Documentation\n\n';
@@ -121,13 +132,27 @@ export class DocumentationGenerators {
         content += `**Returns:** ${returnType}\n\n`;
       });
     }
+
+    const sanitizedTypes = this.sanitizeTypes(types);
+
+    if (sanitizedTypes.length > 0) {
+      content += '## Types\n\n';
+      sanitizedTypes.forEach(type => {
+        content += `### ${type.name}\n`;
+        content += `**Kind:** ${type.kind}\n\n`;
+        if (type.description) {
+          content += `${type.description}\n\n`;
+        }
+        content += `\`\`\`typescript\n${type.definition}\n\`\`\`\n\n`;
+      });
+    }
     
     content += '---\n';
     content += `*Generated on ${new Date().toISOString()}*`;
 
     return {
       type: 'api-spec',
-      targetFile: '.kiro/specs/api.md',
+      targetFile: this.pathResolver('.kiro/specs/api.md'),
       content,
       priority: 'high'
     };
@@ -160,7 +185,7 @@ ${apiContent}
 
       return {
         type: 'readme-section',
-        targetFile: 'README.md',
+        targetFile: this.pathResolver('README.md'),
         section: 'Features & API',
         content,
         priority: 'medium'
@@ -180,7 +205,7 @@ API documentation will be updated automatically.
 
       const fallback: DocumentationRequirement = {
         type: 'readme-section',
-        targetFile: 'README.md',
+        targetFile: this.pathResolver('README.md'),
         section: 'Features & API',
         content: fallbackContent,
         priority: 'medium'
@@ -235,7 +260,7 @@ API documentation will be updated automatically.
 
     return {
       type: 'api-spec',
-      targetFile: '.kiro/specs/setup.md',
+      targetFile: this.pathResolver('.kiro/specs/setup.md'),
       content,
       priority: 'medium'
     };
@@ -312,7 +337,7 @@ API documentation will be updated automatically.
 
     return {
       type: 'api-spec',
-      targetFile: '.kiro/specs/architecture.md',
+      targetFile: this.pathResolver('.kiro/specs/architecture.md'),
       content,
       priority: 'medium'
     };
@@ -429,6 +454,22 @@ API documentation will be updated automatically.
     }));
   }
 
+  private sanitizeTypes(types: TypeDefinition[]): TypeDefinition[] {
+    if (!Array.isArray(types)) {
+      return [];
+    }
+
+    return types
+      .filter(type => this.sanitizeString(type.name))
+      .map(type => ({
+        name: this.sanitizeString(type.name) || 'Unnamed Type',
+        kind: type.kind,
+        definition: this.sanitizeString(type.definition) || type.name,
+        description: this.sanitizeString(type.description) || '',
+        sourceFile: this.sanitizeString(type.sourceFile)
+      }));
+  }
+
   private sanitizeFeatures(features: FeatureDescription[]): FeatureDescription[] {
     if (!Array.isArray(features)) {
       return [];
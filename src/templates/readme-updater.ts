@@ -5,6 +5,9 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { DocumentationRequirement, FeatureDescription, APIDefinition } from '../types';
+import { managedRegionId, parseManagedRegions, renderManagedRegion, replaceManagedRegion } from '../output/managed-regions';
+
+const FEATURES_API_SECTION = 'Features & API';
 
 export class READMEUpdater {
   private readonly readmePath: string;
@@ -23,12 +26,12 @@ export class READMEUpdater {
     try {
       const currentContent = await this.readCurrentREADME();
       const newSection = this.generateFeaturesAndAPISection(features, apis);
-      const updatedContent = this.replaceFeaturesAndAPISection(currentContent, newSection);
+      const updatedContent = this.replaceSection(currentContent, FEATURES_API_SECTION, newSection);
 
       return {
         type: 'readme-section',
-        targetFile: 'README.md',
-        section: 'Features & API',
+        targetFile: this.readmePath,
+        section: FEATURES_API_SECTION,
         content: updatedContent,
         priority: 'medium'
       };
@@ -37,8 +40,8 @@ export class READMEUpdater {
       const newContent = this.createBasicREADME(features, apis);
       return {
         type: 'readme-section',
-        targetFile: 'README.md',
-        section: 'Features & API',
+        targetFile: this.readmePath,
+        section: FEATURES_API_SECTION,
         content: newContent,
         priority: 'medium'
       };
@@ -58,7 +61,7 @@ export class READMEUpdater {
 
       return {
         type: 'readme-section',
-        targetFile: 'README.md',
+        targetFile: this.readmePath,
         section: sectionName,
         content: updatedContent,
         priority: 'medium'
@@ -76,7 +79,7 @@ export class READMEUpdater {
     features: FeatureDescription[],
     apis: APIDefinition[]
   ): string {
-    let section = '## Features & API\n\n';
+    let section = '';
 
     // Features subsection
     if (features.length > 0) {
@@ -144,42 +147,39 @@ export class READMEUpdater {
     return section;
   }
 
-  private replaceFeaturesAndAPISection(content: string, newSection: string): string {
-    // Look for existing Features & API section
-    const sectionRegex = /^## Features & API[\s\S]*?(?=^## |\n*$)/m;
-    
-    if (sectionRegex.test(content)) {
-      return content.replace(sectionRegex, newSection);
-    } else {
-      // If section doesn't exist, append it before any existing sections or at the end
-      const firstSectionMatch = content.match(/^## /m);
-      if (firstSectionMatch) {
-        const insertIndex = firstSectionMatch.index!;
-        return content.slice(0, insertIndex) + newSection + '\n\n' + content.slice(insertIndex);
-      } else {
-        return content + '\n\n' + newSection;
-      }
+  /**
+   * Regenerate the managed region for a section, leaving the rest of the README untouched.
+   * A README without the region gets it under a heading with exactly the section's title,
+   * or in a new section before the first existing one.
+   */
+  private replaceSection(content: string, sectionName: string, newContent: string): string {
+    const regionId = managedRegionId(sectionName);
+    const region = parseManagedRegions(content, this.readmePath).find(r => r.id === regionId);
+
+    if (region) {
+      const update = replaceManagedRegion(content, region, newContent, this.readmePath);
+      update.warnings.forEach(warning => console.warn(`⚠️  ${warning}`));
+      return update.content;
     }
-  }
 
-  private replaceSection(content: string, sectionName: string, newContent: string): string {
-    // Create regex to match the section
-    const escapedSectionName = sectionName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    const sectionRegex = new RegExp(`^## ${escapedSectionName}[\\s\\S]*?(?=^## |\\n*$)`, 'm');
-    
-    const fullSection = `## ${sectionName}\n\n${newContent}\n`;
-    
-    if (sectionRegex.test(content)) {
-      return content.replace(sectionRegex, fullSection);
+    const lines = content.split('\n');
+    const fullSection = `## ${sectionName}\n\n${renderManagedRegion(regionId, newContent)}\n`;
+    const headingIndex = lines.findIndex(line => line.replace(/\s+$/, '') === `## ${sectionName}`);
+
+    if (headingIndex !== -1) {
+      // Replace the heading's body up to the next heading of the same or a higher level
+      const nextIndex = lines.findIndex((line, index) => index > headingIndex && /^#{1,2}\s/.test(line));
+      const after = nextIndex === -1 ? [] : ['', ...lines.slice(nextIndex)];
+      return [...lines.slice(0, headingIndex), fullSection.replace(/\n$/, ''), ...after].join('\n');
+    }
+
+    // If section doesn't exist, insert it before the first section or at the end
+    const firstSectionMatch = content.match(/^## /m);
+    if (firstSectionMatch) {
+      const insertIndex = firstSectionMatch.index!;
+      return content.slice(0, insertIndex) + fullSection + '\n' + content.slice(insertIndex);
     } else {
-      // If section doesn't exist, append it
-      const firstSectionMatch = content.match(/^## /m);
-      if (firstSectionMatch) {
-        const insertIndex = firstSectionMatch.index!;
-        return content.slice(0, insertIndex) + fullSection + '\n' + content.slice(insertIndex);
-      } else {
-        return content + '\n\n' + fullSection;
-      }
+      return content + '\n\n' + fullSection;
     }
   }
 
@@ -198,7 +198,9 @@ npm install
 
 `;
 
-    content += this.generateFeaturesAndAPISection(features, apis);
+    content += `## ${FEATURES_API_SECTION}\n\n`;
+    content += renderManagedRegion(managedRegionId(FEATURES_API_SECTION), this.generateFeaturesAndAPISection(features, apis));
+    content += '\n';
 
     content += `
 ## Development
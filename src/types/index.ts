@@ -7,9 +7,15 @@ export interface ChangeAnalysis {
   triggerType: 'git-hook' | 'manual';
   changedFiles: ChangedFile[];
   extractedAPIs: APIDefinition[];
+  extractedTypes?: TypeDefinition[];
   newFeatures: FeatureDescription[];
   architecturalChanges: ArchitecturalChange[];
   documentationRequirements: DocumentationRequirement[];
+  symbolDeltas?: SymbolDelta[];
+  breakingChanges?: BreakingChange[];
+  semverRecommendation?: SemverBump;
+  /** How well the AI-reported symbols matched the local parse, when AI analysis ran */
+  aiFidelity?: AIFidelityReport;
 }
 
 export interface ChangedFile {
@@ -18,6 +24,11 @@ export interface ChangedFile {
   diffContent: string;
   extractedFunctions: FunctionDefinition[];
   extractedClasses: ClassDefinition[];
+  extractedInterfaces?: InterfaceDefinition[];
+  extractedTypeAliases?: TypeAliasDefinition[];
+  extractedEnums?: EnumDefinition[];
+  extractedConstants?: ConstantDefinition[];
+  symbolDeltas?: SymbolDelta[];
 }
 
 export interface DocumentationRequirement {
@@ -45,6 +56,14 @@ export interface APIDefinition {
   description?: string;
 }
 
+export interface TypeDefinition {
+  name: string;
+  kind: 'interface' | 'type' | 'enum' | 'const';
+  definition: string;
+  description?: string;
+  sourceFile?: string;
+}
+
 export interface FeatureDescription {
   name: string;
   description: string;
@@ -53,10 +72,70 @@ export interface FeatureDescription {
 }
 
 export interface ArchitecturalChange {
-  type: 'component-added' | 'component-modified' | 'component-removed' | 'pattern-changed';
+  type: 'component-added' | 'component-modified' | 'component-removed' | 'pattern-changed' | 'breaking-change';
   component: string;
   description: string;
   impact: 'low' | 'medium' | 'high';
+  symbolDeltas?: SymbolDelta[];
+}
+
+export interface SymbolDelta {
+  name: string;
+  kind: 'function' | 'class' | 'method' | 'property' | 'interface' | 'type' | 'enum' | 'const';
+  change: 'added' | 'removed' | 'signature-changed';
+  filePath: string;
+  previous?: SymbolSnapshot;
+  current?: SymbolSnapshot;
+}
+
+export interface SymbolSnapshot {
+  signature: string;
+  parameters?: Parameter[];
+  returnType?: string;
+  optional?: boolean;
+}
+
+export interface BreakingChange {
+  symbol: string;
+  kind: SymbolDelta['kind'];
+  filePath: string;
+  reason:
+    | 'export-removed'
+    | 'member-removed'
+    | 'parameter-removed'
+    | 'required-parameter-added'
+    | 'parameter-type-changed'
+    | 'return-type-narrowed'
+    | 'return-type-changed'
+    | 'property-made-required'
+    | 'enum-member-removed'
+    | 'type-changed';
+  description: string;
+}
+
+export type SemverBump = 'major' | 'minor' | 'patch' | 'none';
+
+/**
+ * Result of checking AI-reported symbols against the locally parsed source
+ */
+export interface AIFidelityReport {
+  /** Share of reported symbols that matched the local parse exactly, from 0 to 1 */
+  score: number;
+  reportedSymbols: number;
+  verifiedSymbols: number;
+  /** Kept with their parameters or return type taken from the local parse */
+  correctedSymbols: number;
+  /** Not found in the parsed source */
+  droppedSymbols: number;
+  /** Kept unchecked: named only in diffs the local parse does not cover, and left out of the score */
+  unverifiedSymbols: number;
+  issues: SymbolVerificationIssue[];
+}
+
+export interface SymbolVerificationIssue {
+  symbol: string;
+  reason: 'unknown-symbol' | 'parameter-mismatch' | 'return-type-mismatch';
+  description: string;
 }
 
 export interface FunctionDefinition {
@@ -65,6 +144,22 @@ export interface FunctionDefinition {
   returnType: string;
   isExported: boolean;
   documentation?: string;
+  kind?: 'function' | 'method' | 'getter' | 'setter';
+  typeParameters?: string[];
+  overloads?: FunctionSignature[];
+  visibility?: 'public' | 'private' | 'protected';
+  isAsync?: boolean;
+  isStatic?: boolean;
+  isAbstract?: boolean;
+  isDefaultExport?: boolean;
+  decorators?: string[];
+}
+
+export interface FunctionSignature {
+  parameters: Parameter[];
+  returnType: string;
+  typeParameters?: string[];
+  documentation?: string;
 }
 
 export interface ClassDefinition {
@@ -73,6 +168,52 @@ export interface ClassDefinition {
   properties: PropertyDefinition[];
   isExported: boolean;
   documentation?: string;
+  typeParameters?: string[];
+  extends?: string;
+  implements?: string[];
+  isAbstract?: boolean;
+  isDefaultExport?: boolean;
+  decorators?: string[];
+}
+
+export interface InterfaceDefinition {
+  name: string;
+  properties: PropertyDefinition[];
+  methods: FunctionDefinition[];
+  isExported: boolean;
+  documentation?: string;
+  typeParameters?: string[];
+  extends?: string[];
+}
+
+export interface TypeAliasDefinition {
+  name: string;
+  type: string;
+  isExported: boolean;
+  documentation?: string;
+  typeParameters?: string[];
+}
+
+export interface EnumDefinition {
+  name: string;
+  members: EnumMember[];
+  isExported: boolean;
+  documentation?: string;
+  isConst?: boolean;
+}
+
+export interface EnumMember {
+  name: string;
+  value?: string;
+  documentation?: string;
+}
+
+export interface ConstantDefinition {
+  name: string;
+  type: string;
+  isExported: boolean;
+  documentation?: string;
+  value?: string;
 }
 
 export interface Parameter {
@@ -80,6 +221,7 @@ export interface Parameter {
   type: string;
   optional: boolean;
   description?: string;
+  defaultValue?: string;
 }
 
 export interface PropertyDefinition {
@@ -87,6 +229,10 @@ export interface PropertyDefinition {
   type: string;
   visibility: 'public' | 'private' | 'protected';
   documentation?: string;
+  optional?: boolean;
+  isStatic?: boolean;
+  isReadonly?: boolean;
+  decorators?: string[];
 }
 
 export interface TemplateVariable {
@@ -2,15 +2,21 @@
  * CLI commands for usage tracking and cost monitoring
  */
 
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
 import { UsageTracker } from './tracker';
-import { DEFAULT_USAGE_CONFIG } from './types';
+import { DEFAULT_USAGE_CONFIG, UsageConfig } from './types';
+import { UsageExportFormat, formatUsageExport, parseDateBound } from './export';
+import { renderUsageReport } from './report';
+import { getOption } from '../cli-args';
 
 export class UsageCLI {
   private tracker: UsageTracker;
 
-  constructor(dataDirectory?: string) {
+  constructor(dataDirectory?: string, config?: Partial<UsageConfig>) {
     this.tracker = new UsageTracker({
       ...DEFAULT_USAGE_CONFIG,
+      ...config,
       dataDirectory: dataDirectory || DEFAULT_USAGE_CONFIG.dataDirectory
     });
   }
@@ -30,6 +36,18 @@ export class UsageCLI {
       console.log(`Total tokens consumed: ${summary.totalTokensConsumed.toLocaleString()}`);
       console.log(`Total estimated cost: $${summary.totalEstimatedCost.toFixed(4)}`);
       console.log(`Total execution time: ${(summary.totalExecutionTimeMs / 1000).toFixed(2)}s`);
+
+      const cacheLookups = summary.totalCacheHits + summary.totalCacheMisses;
+      if (cacheLookups > 0) {
+        console.log(`Response cache: ${summary.totalCacheHits} hits, ${summary.totalCacheMisses} misses (${((summary.totalCacheHits / cacheLookups) * 100).toFixed(1)}% hit rate)`);
+      }
+
+      if (summary.modelBreakdown.length > 0) {
+        console.log('\n--- By Model ---');
+        for (const model of summary.modelBreakdown) {
+          console.log(`${model.model}: ${model.requests} requests, ${model.promptTokens.toLocaleString()} prompt + ${model.completionTokens.toLocaleString()} completion tokens, $${model.cost.toFixed(4)}`);
+        }
+      }
       
       if (summary.totalAnalysisRuns > 0) {
         console.log('\n--- Averages per Analysis Run ---');
@@ -77,11 +95,15 @@ export class UsageCLI {
     console.log(`Tokens consumed: ${(current.tokensConsumed || 0).toLocaleString()}`);
     console.log(`Estimated cost: $${(current.estimatedCost || 0).toFixed(4)}`);
     console.log(`Execution time: ${current.executionTimeMs || 0}ms`);
+    console.log(`Response cache: ${current.cacheHits || 0} hits, ${current.cacheMisses || 0} misses`);
     
     if (current.operationBreakdown && current.operationBreakdown.length > 0) {
       console.log('\nOperation breakdown:');
       for (const op of current.operationBreakdown) {
         console.log(`  ${op.type}: ${op.count} ops, ${op.durationMs}ms, $${op.cost.toFixed(4)}`);
+        for (const model of op.models || []) {
+          console.log(`    ${model.model}: ${model.promptTokens.toLocaleString()} prompt + ${model.completionTokens.toLocaleString()} completion tokens`);
+        }
       }
     }
     
@@ -187,13 +209,92 @@ export class UsageCLI {
       console.error('Failed to generate recommendations:', error);
     }
   }
+
+  /**
+   * Show spending against the period budgets and the alerts recorded between `from` and `to`
+   */
+  async showAlerts(from: Date, to: Date): Promise<void> {
+    try {
+      const statuses = await this.tracker.getBudgetStatus();
+      const alerts = await this.tracker.loadAlerts(from, to);
+
+      console.log('\n=== Usage Alerts ===');
+      if (statuses.length > 0) {
+        console.log('--- Budgets ---');
+        for (const status of statuses) {
+          const state = status.exhausted ? '❌ exhausted' : `${Math.round((status.spent / status.limit) * 100)}% used`;
+          console.log(`${status.period}: $${status.spent.toFixed(4)} of $${status.limit} (${state}), resets ${new Date(status.resetsAt).toLocaleString()}`);
+        }
+        console.log('');
+      }
+
+      if (alerts.length === 0) {
+        console.log(`No alerts between ${from.toLocaleDateString()} and ${to.toLocaleDateString()}`);
+      }
+      for (const alert of alerts) {
+        const icon = alert.type === 'limit-reached' ? '❌' : alert.type === 'warning' ? '⚠️ ' : 'ℹ️ ';
+        const period = alert.period ? ` [${alert.period}]` : '';
+        console.log(`${icon} ${new Date(alert.timestamp).toLocaleString()}${period} ${alert.message}`);
+      }
+      console.log('====================\n');
+    } catch (error) {
+      console.error('Failed to load usage alerts:', error);
+    }
+  }
+
+  /**
+   * Export the sessions recorded between `from` and `to`, to a file or stdout
+   */
+  async exportUsage(format: UsageExportFormat, from: Date, to: Date, outputPath?: string): Promise<void> {
+    const metrics = await this.tracker.loadMetricsInRange(from, to);
+    const content = formatUsageExport(format, metrics, from, to);
+
+    if (!outputPath) {
+      process.stdout.write(content);
+      return;
+    }
+
+    await writeOutput(outputPath, content);
+    console.log(`✅ Exported ${metrics.length} sessions to ${outputPath}`);
+  }
+
+  /**
+   * Write the HTML cost dashboard for the sessions recorded between `from` and `to`
+   */
+  async writeHtmlReport(from: Date, to: Date, outputPath: string): Promise<void> {
+    const metrics = await this.tracker.loadMetricsInRange(from, to);
+    await writeOutput(outputPath, renderUsageReport(metrics, { from, to }));
+    console.log(`✅ Wrote usage report for ${metrics.length} sessions to ${outputPath}`);
+  }
+}
+
+async function writeOutput(outputPath: string, content: string): Promise<void> {
+  await fs.mkdir(dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, content);
+}
+
+/**
+ * The `--from`/`--to` period, defaulting to the last `defaultDays` days
+ */
+function getPeriod(args: string[], defaultDays: number): { from: Date; to: Date } {
+  const fromOption = getOption(args, 'from');
+  const toOption = getOption(args, 'to');
+  const to = toOption ? parseDateBound(toOption, 'end') : new Date();
+  const from = fromOption
+    ? parseDateBound(fromOption, 'start')
+    : new Date(to.getTime() - defaultDays * 24 * 60 * 60 * 1000);
+
+  if (from > to) {
+    throw new Error(`--from (${fromOption}) must not be after --to (${toOption || 'now'})`);
+  }
+  return { from, to };
 }
 
 /**
  * CLI entry point for usage commands
  */
-export async function runUsageCLI(command: string, args: string[] = []): Promise<void> {
-  const cli = new UsageCLI();
+export async function runUsageCLI(command: string, args: string[] = [], config?: Partial<UsageConfig>): Promise<void> {
+  const cli = new UsageCLI(config?.dataDirectory, config);
   
   switch (command) {
     case 'summary':
@@ -212,6 +313,31 @@ export async function runUsageCLI(command: string, args: string[] = []): Promise
     case 'recommendations':
       await cli.showRecommendations();
       break;
+
+    case 'alerts': {
+      const { from, to } = getPeriod(args, 30);
+      await cli.showAlerts(from, to);
+      break;
+    }
+
+    case 'export': {
+      const format = getOption(args, 'format') || 'csv';
+      if (format !== 'csv' && format !== 'json') {
+        throw new Error(`Invalid export format: ${format}. Must be 'csv' or 'json'`);
+      }
+      const { from, to } = getPeriod(args, 30);
+      await cli.exportUsage(format, from, to, getOption(args, 'output'));
+      break;
+    }
+
+    case 'report': {
+      if (!args.includes('--html')) {
+        throw new Error('usage report requires --html');
+      }
+      const { from, to } = getPeriod(args, 30);
+      await cli.writeHtmlReport(from, to, getOption(args, 'output') || 'usage-report.html');
+      break;
+    }
       
     default:
       console.log('Usage: npm run usage <command> [args]');
@@ -220,5 +346,8 @@ export async function runUsageCLI(command: string, args: string[] = []): Promise
       console.log('  current           Show current session metrics');
       console.log('  projections       Show cost projections');
       console.log('  recommendations   Show usage optimization recommendations');
+      console.log('  alerts            Show budget status and recorded alerts (--from=DATE --to=DATE)');
+      console.log('  export            Export sessions (--format=csv|json --from=DATE --to=DATE --output=FILE)');
+      console.log('  report --html     Write an HTML cost dashboard (--from=DATE --to=DATE --output=FILE)');
   }
 }
\ No newline at end of file
@@ -0,0 +1,86 @@
+/**
+ * Tests for usage export
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { UsageTracker } from './tracker';
+import { formatUsageCsv, formatUsageJson, parseDateBound } from './export';
+import { UsageMetrics } from './types';
+
+describe('usage export', () => {
+  let dataDirectory: string;
+
+  const metrics = (timestamp: string, sessionId: string, estimatedCost: number): UsageMetrics => ({
+    id: `metrics-${timestamp}`,
+    timestamp,
+    sessionId,
+    analysisRuns: 1,
+    filesProcessed: 2,
+    tokensConsumed: 1500,
+    estimatedCost,
+    executionTimeMs: 40,
+    operationBreakdown: [{
+      type: 'subagent',
+      count: 2,
+      tokens: 1500,
+      durationMs: 30,
+      cost: estimatedCost,
+      models: [
+        { model: 'gpt-4o', requests: 2, promptTokens: 800, completionTokens: 400, cost: estimatedCost },
+        { model: 'gpt-4o-mini', requests: 1, promptTokens: 200, completionTokens: 100, cost: 0 }
+      ]
+    }],
+    cacheHits: 3,
+    cacheMisses: 1
+  });
+
+  beforeEach(async () => {
+    dataDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-export-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDirectory, { recursive: true, force: true });
+  });
+
+  it('should treat a date-only --to as the end of that UTC day', () => {
+    expect(parseDateBound('2026-03-01', 'start').toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    expect(parseDateBound('2026-03-01', 'end').toISOString()).toBe('2026-03-01T23:59:59.999Z');
+    expect(parseDateBound('2026-03-01T12:00:00Z', 'end').toISOString()).toBe('2026-03-01T12:00:00.000Z');
+    expect(() => parseDateBound('March', 'start')).toThrow('Invalid date: March');
+  });
+
+  it('should load the sessions of a period oldest first', async () => {
+    await fs.writeFile(path.join(dataDirectory, 'usage-2026-03-02.json'), JSON.stringify([metrics('2026-03-02T09:00:00.000Z', 'b', 1)]));
+    await fs.writeFile(path.join(dataDirectory, 'usage-2026-03-01.json'), JSON.stringify([
+      metrics('2026-03-01T18:00:00.000Z', 'a2', 1),
+      metrics('2026-03-01T08:00:00.000Z', 'a1', 1)
+    ]));
+    await fs.writeFile(path.join(dataDirectory, 'usage-2026-03-03.json'), JSON.stringify([metrics('2026-03-03T00:00:00.000Z', 'c', 1)]));
+
+    const tracker = new UsageTracker({ dataDirectory });
+    const loaded = await tracker.loadMetricsInRange(parseDateBound('2026-03-01', 'start'), parseDateBound('2026-03-02', 'end'));
+
+    expect(loaded.map(m => m.sessionId)).toEqual(['a1', 'a2', 'b']);
+  });
+
+  it('should write one escaped CSV row per session', () => {
+    const csv = formatUsageCsv([metrics('2026-03-01T08:00:00.000Z', 'session "x", retry', 0.0125)]);
+
+    expect(csv.split('\n')).toEqual([
+      'timestamp,sessionId,analysisRuns,filesProcessed,tokensConsumed,promptTokens,completionTokens,estimatedCost,executionTimeMs,cacheHits,cacheMisses,models',
+      '2026-03-01T08:00:00.000Z,"session ""x"", retry",1,2,1500,1000,500,0.012500,40,3,1,gpt-4o:2;gpt-4o-mini:1',
+      ''
+    ]);
+  });
+
+  it('should export JSON with the requested period', () => {
+    const session = metrics('2026-03-01T08:00:00.000Z', 'a', 0.5);
+    const exported = JSON.parse(formatUsageJson([session], new Date('2026-03-01T00:00:00.000Z'), new Date('2026-03-31T23:59:59.999Z')));
+
+    expect(exported).toEqual({ from: '2026-03-01T00:00:00.000Z', to: '2026-03-31T23:59:59.999Z', sessions: [session] });
+  });
+});
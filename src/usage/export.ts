@@ -0,0 +1,86 @@
+/**
+ * Export of recorded usage sessions as CSV or JSON
+ */
+
+import { UsageMetrics } from './types';
+
+export type UsageExportFormat = 'csv' | 'json';
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'sessionId',
+  'analysisRuns',
+  'filesProcessed',
+  'tokensConsumed',
+  'promptTokens',
+  'completionTokens',
+  'estimatedCost',
+  'executionTimeMs',
+  'cacheHits',
+  'cacheMisses',
+  'models'
+];
+
+/**
+ * Parse a `--from`/`--to` bound. A bare `YYYY-MM-DD` date covers the whole UTC day, so `--to` with a
+ * date includes that day's sessions.
+ */
+export function parseDateBound(value: string, bound: 'start' | 'end'): Date {
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(isDateOnly && bound === 'end' ? `${value}T23:59:59.999Z` : value);
+
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}. Expected YYYY-MM-DD or an ISO timestamp`);
+  }
+  return date;
+}
+
+/**
+ * One row per session. Token counts per model are summed over the session's operations, and
+ * `models` lists the models that were called as `model:requests` pairs.
+ */
+export function formatUsageCsv(metrics: UsageMetrics[]): string {
+  const rows = metrics.map(m => {
+    const models = (m.operationBreakdown || []).flatMap(op => op.models || []);
+    const requestsByModel = new Map<string, number>();
+    for (const model of models) {
+      requestsByModel.set(model.model, (requestsByModel.get(model.model) || 0) + model.requests);
+    }
+
+    return [
+      m.timestamp,
+      m.sessionId,
+      m.analysisRuns,
+      m.filesProcessed,
+      m.tokensConsumed,
+      models.reduce((sum, model) => sum + model.promptTokens, 0),
+      models.reduce((sum, model) => sum + model.completionTokens, 0),
+      m.estimatedCost.toFixed(6),
+      m.executionTimeMs,
+      m.cacheHits || 0,
+      m.cacheMisses || 0,
+      [...requestsByModel].map(([model, requests]) => `${model}:${requests}`).join(';')
+    ].map(value => escapeCsv(String(value))).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * The sessions as recorded, together with the requested period
+ */
+export function formatUsageJson(metrics: UsageMetrics[], from: Date, to: Date): string {
+  return JSON.stringify({
+    from: from.toISOString(),
+    to: to.toISOString(),
+    sessions: metrics
+  }, null, 2) + '\n';
+}
+
+export function formatUsageExport(format: UsageExportFormat, metrics: UsageMetrics[], from: Date, to: Date): string {
+  return format === 'csv' ? formatUsageCsv(metrics) : formatUsageJson(metrics, from, to);
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
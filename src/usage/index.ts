@@ -3,11 +3,23 @@
  */
 
 export { UsageTracker } from './tracker';
+export { MODEL_PRICING, getModelPricing, mergeModelUsage } from './pricing';
+export { UsageExportFormat, formatUsageCsv, formatUsageJson, formatUsageExport, parseDateBound } from './export';
+export { UsageReportOptions, DailyCost, OperationTokens, renderUsageReport, summarizeDailyCost, summarizeOperationTokens } from './report';
 export { 
   UsageMetrics, 
   UsageSummary, 
   UsageConfig, 
   UsageAlert, 
   OperationMetrics,
+  ModelTokenUsage,
+  ModelUsage,
+  ModelPricing,
+  PlannedRequest,
+  CostEstimate,
+  BudgetPeriod,
+  BudgetCheck,
+  BudgetStatus,
+  BUDGET_WARNING_RATIO,
   DEFAULT_USAGE_CONFIG 
 } from './types';
\ No newline at end of file
@@ -0,0 +1,55 @@
+/**
+ * Per-model token pricing used to price planned and completed AI requests
+ */
+
+import { ModelPricing, ModelUsage } from './types';
+
+/**
+ * USD per 1K tokens for the models the built-in providers select by default
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o': { inputPer1K: 0.0025, outputPer1K: 0.01 },
+  'gpt-4o-mini': { inputPer1K: 0.00015, outputPer1K: 0.0006 },
+  'claude-sonnet-4-5': { inputPer1K: 0.003, outputPer1K: 0.015 },
+  'claude-haiku-4-5': { inputPer1K: 0.001, outputPer1K: 0.005 },
+  'offline': { inputPer1K: 0, outputPer1K: 0 }
+};
+
+/**
+ * Pricing for a model in `table`. Dated snapshots such as `gpt-4o-2024-08-06` are priced like the
+ * longest model name in the table they start with; unknown models use the fallback rates.
+ */
+export function getModelPricing(
+  model: string,
+  fallback: ModelPricing,
+  table: Record<string, ModelPricing> = MODEL_PRICING
+): ModelPricing {
+  if (table[model]) {
+    return table[model];
+  }
+
+  const family = Object.keys(table)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? table[family] : fallback;
+}
+
+/**
+ * Combine usage records of the same model, most expensive first
+ */
+export function mergeModelUsage(usage: ModelUsage[]): ModelUsage[] {
+  const byModel = new Map<string, ModelUsage>();
+  for (const entry of usage) {
+    const existing = byModel.get(entry.model);
+    if (existing) {
+      existing.requests += entry.requests;
+      existing.promptTokens += entry.promptTokens;
+      existing.completionTokens += entry.completionTokens;
+      existing.cost += entry.cost;
+    } else {
+      byModel.set(entry.model, { ...entry });
+    }
+  }
+
+  return [...byModel.values()].sort((a, b) => b.cost - a.cost || a.model.localeCompare(b.model));
+}
@@ -0,0 +1,70 @@
+/**
+ * Tests for the HTML usage report
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderUsageReport, summarizeDailyCost, summarizeOperationTokens } from './report';
+import { UsageMetrics } from './types';
+
+describe('usage report', () => {
+  const metrics = (timestamp: string, sessionId: string, estimatedCost: number): UsageMetrics => ({
+    id: `metrics-${timestamp}`,
+    timestamp,
+    sessionId,
+    analysisRuns: 1,
+    filesProcessed: 1,
+    tokensConsumed: 1000,
+    estimatedCost,
+    executionTimeMs: 10,
+    operationBreakdown: [
+      { type: 'subagent', count: 1, tokens: 1000, durationMs: 5, cost: estimatedCost },
+      { type: 'analysis', count: 1, durationMs: 5, cost: 0 }
+    ]
+  });
+
+  const sessions = [
+    metrics('2026-03-01T08:00:00.000Z', 'cheap', 0.1),
+    metrics('2026-03-01T20:00:00.000Z', '<script>alert(1)</script>', 0.3),
+    metrics('2026-03-04T10:00:00.000Z', 'expensive', 0.9)
+  ];
+
+  it('should summarize cost per day, including days without usage', () => {
+    expect(summarizeDailyCost(sessions).map(day => [day.date, day.sessions, Number(day.cost.toFixed(2))])).toEqual([
+      ['2026-03-01', 2, 0.4],
+      ['2026-03-02', 0, 0],
+      ['2026-03-03', 0, 0],
+      ['2026-03-04', 1, 0.9]
+    ]);
+    expect(summarizeOperationTokens(sessions).map(op => [op.type, op.tokens])).toEqual([['subagent', 3000], ['analysis', 0]]);
+  });
+
+  it('should render a self-contained page with escaped content', () => {
+    const html = renderUsageReport(sessions, {
+      from: new Date('2026-03-01T00:00:00.000Z'),
+      to: new Date('2026-03-31T23:59:59.999Z'),
+      generatedAt: new Date('2026-04-01T00:00:00.000Z'),
+      topSessions: 2
+    });
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('2026-03-01 to 2026-03-31');
+    expect(html).toContain('$1.3000');
+    expect(html.match(/<rect class="day"/g)).toHaveLength(4);
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script');
+    expect(html).not.toMatch(/(src|href)=|@import|url\(/);
+
+    // Top sessions are ordered by cost and limited
+    const topSessions = html.slice(html.indexOf('Top sessions by cost'));
+    expect(topSessions.indexOf('expensive')).toBeLessThan(topSessions.indexOf('&lt;script'));
+    expect(topSessions).not.toContain('cheap');
+  });
+
+  it('should render an empty period', () => {
+    const html = renderUsageReport([], { from: new Date('2026-03-01'), to: new Date('2026-03-02') });
+
+    expect(html).toContain('No usage was recorded in this period.');
+    expect(html).not.toContain('<svg');
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Static HTML cost dashboard for recorded usage sessions
+ *
+ * The page is self-contained: styles are inline and charts are plain SVG and CSS, so it can be
+ * opened from disk or attached to an email without network access.
+ */
+
+import { UsageMetrics } from './types';
+import { mergeModelUsage } from './pricing';
+
+export interface UsageReportOptions {
+  from: Date;
+  to: Date;
+  generatedAt?: Date;
+  /** Number of sessions listed in the top sessions table */
+  topSessions?: number;
+}
+
+export interface DailyCost {
+  /** UTC date, YYYY-MM-DD */
+  date: string;
+  cost: number;
+  sessions: number;
+}
+
+export interface OperationTokens {
+  type: string;
+  tokens: number;
+  cost: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Cost per UTC day from the first to the last recorded session, including days without usage
+ */
+export function summarizeDailyCost(metrics: UsageMetrics[]): DailyCost[] {
+  if (metrics.length === 0) {
+    return [];
+  }
+
+  const byDate = new Map<string, DailyCost>();
+  for (const m of metrics) {
+    const date = m.timestamp.slice(0, 10);
+    const day = byDate.get(date) || { date, cost: 0, sessions: 0 };
+    day.cost += m.estimatedCost;
+    day.sessions++;
+    byDate.set(date, day);
+  }
+
+  const dates = [...byDate.keys()].sort();
+  const days: DailyCost[] = [];
+  for (let time = Date.parse(dates[0]); time <= Date.parse(dates[dates.length - 1]); time += DAY_MS) {
+    const date = new Date(time).toISOString().slice(0, 10);
+    days.push(byDate.get(date) || { date, cost: 0, sessions: 0 });
+  }
+  return days;
+}
+
+/**
+ * Tokens and cost per operation type, most tokens first
+ */
+export function summarizeOperationTokens(metrics: UsageMetrics[]): OperationTokens[] {
+  const byType = new Map<string, OperationTokens>();
+  for (const op of metrics.flatMap(m => m.operationBreakdown || [])) {
+    const entry = byType.get(op.type) || { type: op.type, tokens: 0, cost: 0 };
+    entry.tokens += op.tokens || 0;
+    entry.cost += op.cost;
+    byType.set(op.type, entry);
+  }
+
+  return [...byType.values()].sort((a, b) => b.tokens - a.tokens || a.type.localeCompare(b.type));
+}
+
+/**
+ * Render the dashboard as a complete HTML document
+ */
+export function renderUsageReport(metrics: UsageMetrics[], options: UsageReportOptions): string {
+  const generatedAt = options.generatedAt || new Date();
+  const totalCost = metrics.reduce((sum, m) => sum + m.estimatedCost, 0);
+  const totalTokens = metrics.reduce((sum, m) => sum + m.tokensConsumed, 0);
+  const cacheHits = metrics.reduce((sum, m) => sum + (m.cacheHits || 0), 0);
+  const cacheLookups = cacheHits + metrics.reduce((sum, m) => sum + (m.cacheMisses || 0), 0);
+
+  const topSessions = [...metrics]
+    .sort((a, b) => b.estimatedCost - a.estimatedCost || a.timestamp.localeCompare(b.timestamp))
+    .slice(0, options.topSessions ?? 10);
+  const models = mergeModelUsage(metrics.flatMap(m => (m.operationBreakdown || []).flatMap(op => op.models || [])));
+
+  const sections = metrics.length === 0
+    ? ['<p class="empty">No usage was recorded in this period.</p>']
+    : [
+      section('Daily cost', renderDailyCostChart(summarizeDailyCost(metrics))),
+      section('Tokens per operation type', renderOperationBars(summarizeOperationTokens(metrics))),
+      section('Top sessions by cost', table(
+        ['Session', 'Started', 'Runs', 'Files', 'Tokens', 'Cost'],
+        topSessions.map(m => [
+          escapeHtml(m.sessionId),
+          escapeHtml(m.timestamp.replace('T', ' ').slice(0, 19)),
+          String(m.analysisRuns),
+          String(m.filesProcessed),
+          m.tokensConsumed.toLocaleString('en-US'),
+          formatCost(m.estimatedCost)
+        ]),
+        2
+      )),
+      models.length > 0 ? section('Cost by model', table(
+        ['Model', 'Requests', 'Prompt tokens', 'Completion tokens', 'Cost'],
+        models.map(model => [
+          escapeHtml(model.model),
+          String(model.requests),
+          model.promptTokens.toLocaleString('en-US'),
+          model.completionTokens.toLocaleString('en-US'),
+          formatCost(model.cost)
+        ]),
+        1
+      )) : ''
+    ];
+
+  const period = `${options.from.toISOString().slice(0, 10)} to ${options.to.toISOString().slice(0, 10)}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>auto-doc-sync usage ${escapeHtml(period)}</title>
+<style>
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem auto; max-width: 960px; color: #1f2328; padding: 0 1rem; }
+h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+h2 { font-size: 1.1rem; margin-top: 2rem; border-bottom: 1px solid #d0d7de; padding-bottom: 0.25rem; }
+.meta, .empty { color: #656d76; }
+.cards { display: flex; flex-wrap: wrap; gap: 1rem; margin-top: 1rem; }
+.card { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.75rem 1rem; min-width: 140px; }
+.card .value { font-size: 1.4rem; font-weight: 600; }
+.card .label { color: #656d76; font-size: 0.85rem; }
+table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+th, td { text-align: left; padding: 0.35rem 0.5rem; border-bottom: 1px solid #eaeef2; }
+td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+.bar-row { display: grid; grid-template-columns: 120px 1fr 180px; align-items: center; gap: 0.5rem; margin: 0.3rem 0; }
+.bar-track { background: #eaeef2; border-radius: 3px; height: 14px; }
+.bar { background: #0969da; border-radius: 3px; height: 14px; }
+svg text { font-size: 11px; fill: #656d76; }
+svg rect.day { fill: #0969da; }
+</style>
+</head>
+<body>
+<h1>AI usage and cost</h1>
+<p class="meta">${escapeHtml(period)} &middot; generated ${escapeHtml(generatedAt.toISOString())}</p>
+<div class="cards">
+${card('Total cost', formatCost(totalCost))}
+${card('Sessions', String(metrics.length))}
+${card('Tokens', totalTokens.toLocaleString('en-US'))}
+${card('Cache hit rate', cacheLookups > 0 ? `${((cacheHits / cacheLookups) * 100).toFixed(1)}%` : 'n/a')}
+</div>
+${sections.filter(Boolean).join('\n')}
+</body>
+</html>
+`;
+}
+
+function renderDailyCostChart(days: DailyCost[]): string {
+  const width = 900;
+  const height = 220;
+  const margin = { top: 10, right: 10, bottom: 30, left: 60 };
+  const plotWidth = width - margin.left - margin.right;
+  const plotHeight = height - margin.top - margin.bottom;
+  const maxCost = Math.max(...days.map(day => day.cost)) || 1;
+  const slot = plotWidth / days.length;
+  const barWidth = Math.max(1, slot * 0.8);
+  // Label roughly ten days so long periods stay readable
+  const labelEvery = Math.ceil(days.length / 10);
+
+  const bars = days.map((day, index) => {
+    const barHeight = (day.cost / maxCost) * plotHeight;
+    const x = margin.left + index * slot + (slot - barWidth) / 2;
+    const y = margin.top + plotHeight - barHeight;
+    const label = index % labelEvery === 0
+      ? `<text x="${round(x + barWidth / 2)}" y="${height - 10}" text-anchor="middle">${day.date.slice(5)}</text>`
+      : '';
+    return `<rect class="day" x="${round(x)}" y="${round(y)}" width="${round(barWidth)}" height="${round(barHeight)}">` +
+      `<title>${day.date}: ${formatCost(day.cost)} (${day.sessions} sessions)</title></rect>${label}`;
+  });
+
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" role="img" aria-label="Daily cost">
+<line x1="${margin.left}" y1="${margin.top + plotHeight}" x2="${width - margin.right}" y2="${margin.top + plotHeight}" stroke="#d0d7de"/>
+<text x="${margin.left - 6}" y="${margin.top + 10}" text-anchor="end">${formatCost(maxCost)}</text>
+<text x="${margin.left - 6}" y="${margin.top + plotHeight}" text-anchor="end">$0</text>
+${bars.join('\n')}
+</svg>`;
+}
+
+function renderOperationBars(operations: OperationTokens[]): string {
+  const maxTokens = Math.max(...operations.map(op => op.tokens)) || 1;
+  return operations.map(op => `<div class="bar-row">
+<span>${escapeHtml(op.type)}</span>
+<div class="bar-track"><div class="bar" style="width: ${round((op.tokens / maxTokens) * 100)}%"></div></div>
+<span class="num">${op.tokens.toLocaleString('en-US')} tokens, ${formatCost(op.cost)}</span>
+</div>`).join('\n');
+}
+
+function section(title: string, body: string): string {
+  return `<h2>${escapeHtml(title)}</h2>\n${body}`;
+}
+
+function card(label: string, value: string): string {
+  return `<div class="card"><div class="value">${escapeHtml(value)}</div><div class="label">${escapeHtml(label)}</div></div>`;
+}
+
+/**
+ * Cells are already escaped; columns from `numericFrom` on are right-aligned
+ */
+function table(headers: string[], rows: string[][], numericFrom: number): string {
+  const cellClass = (index: number) => index >= numericFrom ? ' class="num"' : '';
+  const head = headers.map((header, index) => `<th${cellClass(index)}>${escapeHtml(header)}</th>`).join('');
+  const body = rows.map(row => `<tr>${row.map((cell, index) => `<td${cellClass(index)}>${cell}</td>`).join('')}</tr>`);
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body.join('\n')}\n</tbody>\n</table>`;
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(4)}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
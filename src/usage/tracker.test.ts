@@ -0,0 +1,137 @@
+/**
+ * Tests for cost estimation and budget enforcement
+ * Feature: auto-doc-sync
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { UsageTracker } from './tracker';
+import { getModelPricing } from './pricing';
+import { UsageMetrics } from './types';
+
+describe('UsageTracker budgets', () => {
+  let dataDirectory: string;
+
+  const metrics = (timestamp: string, estimatedCost: number): UsageMetrics => ({
+    id: `metrics-${timestamp}`,
+    timestamp,
+    sessionId: `session-${timestamp}`,
+    analysisRuns: 1,
+    filesProcessed: 1,
+    tokensConsumed: 1000,
+    estimatedCost,
+    executionTimeMs: 10,
+    operationBreakdown: []
+  });
+
+  beforeEach(async () => {
+    dataDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-budget-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDirectory, { recursive: true, force: true });
+  });
+
+  it('should price models, including dated snapshots, and fall back to configured rates', () => {
+    const fallback = { inputPer1K: 1, outputPer1K: 2 };
+    expect(getModelPricing('gpt-4o-mini-2024-07-18', fallback)).toEqual(getModelPricing('gpt-4o-mini', fallback));
+    expect(getModelPricing('gpt-4o-2024-08-06', fallback)).toEqual(getModelPricing('gpt-4o', fallback));
+    expect(getModelPricing('llama3.1', fallback)).toBe(fallback);
+
+    const tracker = new UsageTracker({ dataDirectory, inputTokenCostPer1K: 1, outputTokenCostPer1K: 2 });
+    const estimate = tracker.estimateCost([
+      { model: 'gpt-4o', promptTokens: 2000, completionTokens: 1000, cached: false },
+      { model: 'llama3.1', promptTokens: 1000, completionTokens: 500, cached: false },
+      { model: 'gpt-4o', promptTokens: 9000, completionTokens: 9000, cached: true }
+    ]);
+
+    expect(estimate).toMatchObject({ requests: 3, cachedRequests: 1, promptTokens: 3000, completionTokens: 1500 });
+    expect(estimate.cost).toBeCloseTo(2 * 0.0025 + 1 * 0.01 + 1 * 1 + 0.5 * 2);
+  });
+
+  it('should price prompt and completion tokens per model and summarize by model', async () => {
+    const tracker = new UsageTracker({ dataDirectory, modelPricing: { 'gpt-4o': { inputPer1K: 1, outputPer1K: 2 } } });
+    await tracker.startSession('session-models');
+
+    const operationId = tracker.startOperation('subagent');
+    tracker.endOperation(operationId, 'subagent', [
+      { model: 'gpt-4o', promptTokens: 1000, completionTokens: 500 },
+      { model: 'gpt-4o-mini-2024-07-18', promptTokens: 2000, completionTokens: 1000 },
+      { model: 'gpt-4o', promptTokens: 1000, completionTokens: 0 }
+    ]);
+
+    const [operation] = tracker.getCurrentSessionMetrics()!.operationBreakdown!;
+    expect(operation.tokens).toBe(5500);
+    expect(operation.models).toEqual([
+      { model: 'gpt-4o', requests: 2, promptTokens: 2000, completionTokens: 500, cost: 3 },
+      { model: 'gpt-4o-mini-2024-07-18', requests: 1, promptTokens: 2000, completionTokens: 1000, cost: expect.closeTo(0.0009) }
+    ]);
+    expect(operation.cost).toBeCloseTo(3.0009);
+
+    await tracker.endSession();
+    const summary = await tracker.getUsageSummary(1);
+    expect(summary.totalEstimatedCost).toBeCloseTo(3.0009);
+    expect(summary.modelBreakdown.map(m => [m.model, m.requests])).toEqual([['gpt-4o', 2], ['gpt-4o-mini-2024-07-18', 1]]);
+  });
+
+  it('should refuse estimates that would exceed the session, daily or monthly budget', async () => {
+    await fs.writeFile(path.join(dataDirectory, 'usage-2026-03-01.json'), JSON.stringify([metrics('2026-03-01T10:00:00.000Z', 3)]));
+    await fs.writeFile(path.join(dataDirectory, 'usage-2026-03-15.json'), JSON.stringify([metrics('2026-03-15T08:00:00.000Z', 0.75)]));
+    await fs.writeFile(path.join(dataDirectory, 'usage-2026-02-28.json'), JSON.stringify([metrics('2026-02-28T23:00:00.000Z', 50)]));
+    const now = new Date('2026-03-15T12:00:00.000Z');
+
+    const tracker = new UsageTracker({ dataDirectory, costLimitPerSession: 0.5, dailyBudget: 1, monthlyBudget: 4 });
+
+    expect(await tracker.checkBudget(0.2, now)).toEqual({ allowed: true });
+    expect((await tracker.checkBudget(0.6, now)).exceeded).toEqual({ period: 'session', limit: 0.5, spent: 0 });
+    expect(await tracker.checkBudget(0.3, now)).toEqual({
+      allowed: false,
+      exceeded: { period: 'daily', limit: 1, spent: 0.75 },
+      message: 'Estimated cost $0.3000 would exceed the daily budget ($0.7500 of $1 spent)'
+    });
+
+    const monthly = new UsageTracker({ dataDirectory, costLimitPerSession: 5, monthlyBudget: 4 });
+    expect((await monthly.checkBudget(0.3, now)).exceeded).toEqual({ period: 'monthly', limit: 4, spent: 3.75 });
+    expect(await monthly.checkBudget(0, now)).toEqual({ allowed: true });
+  });
+
+  it('should evaluate weekly budgets over UTC weeks starting Monday', async () => {
+    // 2026-03-15 is a Sunday; its week started on Monday 2026-03-09
+    await fs.writeFile(path.join(dataDirectory, 'usage-2026-03-08.json'), JSON.stringify([metrics('2026-03-08T23:00:00.000Z', 10)]));
+    await fs.writeFile(path.join(dataDirectory, 'usage-2026-03-09.json'), JSON.stringify([metrics('2026-03-09T01:00:00.000Z', 2)]));
+    const tracker = new UsageTracker({ dataDirectory, dailyBudget: 1, weeklyBudget: 2 });
+
+    expect(await tracker.getBudgetStatus(new Date('2026-03-15T12:00:00.000Z'))).toEqual([
+      { period: 'daily', limit: 1, spent: 0, periodStart: '2026-03-15T00:00:00.000Z', resetsAt: '2026-03-16T00:00:00.000Z', exhausted: false },
+      { period: 'weekly', limit: 2, spent: 2, periodStart: '2026-03-09T00:00:00.000Z', resetsAt: '2026-03-16T00:00:00.000Z', exhausted: true }
+    ]);
+    expect((await tracker.checkBudget(0.1, new Date('2026-03-15T12:00:00.000Z'))).exceeded?.period).toBe('weekly');
+    expect((await tracker.checkBudget(0.1, new Date('2026-03-16T00:00:00.000Z'))).allowed).toBe(true);
+  });
+
+  it('should record period budget alerts once per period', async () => {
+    await fs.writeFile(path.join(dataDirectory, 'usage-2026-03-15.json'), JSON.stringify([metrics('2026-03-15T08:00:00.000Z', 0.85)]));
+    const tracker = new UsageTracker({ dataDirectory, dailyBudget: 1, monthlyBudget: 0.8 });
+    const now = new Date('2026-03-15T12:00:00.000Z');
+
+    const alerts = await tracker.checkPeriodBudgets(now);
+    expect(alerts.map(alert => [alert.type, alert.period])).toEqual([['warning', 'daily'], ['limit-reached', 'monthly']]);
+    expect(alerts[0].message).toBe('Daily budget 85% used: $0.8500 of $1 spent');
+    expect(alerts[1].message).toContain('local analysis only until 2026-04-01T00:00:00.000Z');
+    expect(await tracker.checkPeriodBudgets(new Date('2026-03-15T13:00:00.000Z'))).toEqual([]);
+
+    // A new day resets the daily budget, so its warning is recorded again
+    await fs.writeFile(path.join(dataDirectory, 'usage-2026-03-16.json'), JSON.stringify([metrics('2026-03-16T08:00:00.000Z', 0.9)]));
+    const nextDay = await tracker.checkPeriodBudgets(new Date('2026-03-16T12:00:00.000Z'));
+    expect(nextDay.map(alert => [alert.type, alert.period])).toEqual([['warning', 'daily']]);
+
+    const logged = await tracker.loadAlerts(new Date('2026-03-01T00:00:00.000Z'), new Date('2026-03-31T00:00:00.000Z'));
+    expect(logged.map(alert => alert.timestamp)).toEqual([
+      '2026-03-15T12:00:00.000Z',
+      '2026-03-15T12:00:00.000Z',
+      '2026-03-16T12:00:00.000Z'
+    ]);
+  });
+});
@@ -10,8 +10,24 @@ import {
   UsageConfig, 
   UsageAlert, 
   OperationMetrics,
+  PlannedRequest,
+  CostEstimate,
+  BudgetCheck,
+  BudgetPeriod,
+  BudgetStatus,
+  BUDGET_WARNING_RATIO,
+  ModelTokenUsage,
+  ModelUsage,
+  ModelPricing,
   DEFAULT_USAGE_CONFIG 
 } from './types';
+import { MODEL_PRICING, getModelPricing, mergeModelUsage } from './pricing';
+
+type PeriodBudget = BudgetStatus['period'];
+
+const PERIOD_BUDGETS: PeriodBudget[] = ['daily', 'weekly', 'monthly'];
+
+const ALERTS_FILE = 'alerts.jsonl';
 
 export class UsageTracker {
   private config: UsageConfig;
@@ -37,7 +53,9 @@ export class UsageTracker {
       tokensConsumed: 0,
       estimatedCost: 0,
       executionTimeMs: 0,
-      operationBreakdown: []
+      operationBreakdown: [],
+      cacheHits: 0,
+      cacheMisses: 0
     };
 
     await this.ensureDataDirectory();
@@ -55,12 +73,13 @@ export class UsageTracker {
   }
 
   /**
-   * Track the completion of an operation
+   * Track the completion of an operation. `usage` is either the tokens reported per AI request,
+   * priced at each model's rates, or a bare token total, priced with an estimated input/output split.
    */
   endOperation(
     operationId: string, 
     operationType: OperationMetrics['type'],
-    tokens?: number
+    usage?: number | ModelTokenUsage[]
   ): void {
     if (!this.config.enabled || !this.currentSession) return;
 
@@ -68,7 +87,13 @@ export class UsageTracker {
     if (!startTime) return;
 
     const durationMs = Date.now() - startTime;
-    const cost = this.calculateOperationCost(operationType, tokens || 0);
+    const models = Array.isArray(usage) ? this.priceModelUsage(usage) : [];
+    const tokens = Array.isArray(usage)
+      ? models.reduce((sum, m) => sum + m.promptTokens + m.completionTokens, 0)
+      : usage;
+    const cost = Array.isArray(usage)
+      ? models.reduce((sum, m) => sum + m.cost, 0)
+      : this.calculateOperationCost(operationType, tokens || 0);
 
     // Update current session
     this.currentSession.executionTimeMs = (this.currentSession.executionTimeMs || 0) + durationMs;
@@ -86,13 +111,17 @@ export class UsageTracker {
       existingOp.durationMs += durationMs;
       existingOp.tokens = (existingOp.tokens || 0) + (tokens || 0);
       existingOp.cost += cost;
+      if (models.length > 0) {
+        existingOp.models = mergeModelUsage([...(existingOp.models || []), ...models]);
+      }
     } else {
       this.currentSession.operationBreakdown.push({
         type: operationType,
         count: 1,
         durationMs,
         tokens,
-        cost
+        cost,
+        ...(models.length > 0 ? { models } : {})
       });
     }
 
@@ -109,6 +138,16 @@ export class UsageTracker {
     this.currentSession.filesProcessed = (this.currentSession.filesProcessed || 0) + filesProcessed;
   }
 
+  /**
+   * Track response cache lookups made by the subagent
+   */
+  trackCacheLookups(hits: number, misses: number): void {
+    if (!this.config.enabled || !this.currentSession) return;
+
+    this.currentSession.cacheHits = (this.currentSession.cacheHits || 0) + hits;
+    this.currentSession.cacheMisses = (this.currentSession.cacheMisses || 0) + misses;
+  }
+
   /**
    * Check if current session exceeds cost thresholds
    */
@@ -140,6 +179,166 @@ export class UsageTracker {
     return null;
   }
 
+  /**
+   * Price planned requests at the rates of their models. Cached requests are free.
+   */
+  estimateCost(requests: PlannedRequest[]): CostEstimate {
+    const billable = requests.filter(request => !request.cached);
+
+    return {
+      requests: requests.length,
+      cachedRequests: requests.length - billable.length,
+      promptTokens: billable.reduce((sum, request) => sum + request.promptTokens, 0),
+      completionTokens: billable.reduce((sum, request) => sum + request.completionTokens, 0),
+      cost: billable.reduce((sum, request) => sum + this.calculateModelCost(request), 0)
+    };
+  }
+
+  /**
+   * Check whether spending `estimatedCost` more would exceed the session, daily, weekly or monthly
+   * budget. Days, weeks (from Monday) and months are UTC calendar periods and include the current
+   * session.
+   */
+  async checkBudget(estimatedCost: number, now: Date = new Date()): Promise<BudgetCheck> {
+    if (!this.config.enabled || estimatedCost <= 0) {
+      return { allowed: true };
+    }
+
+    const sessionCost = this.currentSession?.estimatedCost || 0;
+    const budgets: Array<{ period: BudgetPeriod; limit: number; spent: number }> = [
+      ...(this.config.costLimitPerSession > 0
+        ? [{ period: 'session' as const, limit: this.config.costLimitPerSession, spent: sessionCost }]
+        : []),
+      ...await this.getBudgetStatus(now)
+    ];
+
+    for (const budget of budgets) {
+      if (budget.spent + estimatedCost > budget.limit) {
+        return {
+          allowed: false,
+          exceeded: { period: budget.period, limit: budget.limit, spent: budget.spent },
+          message: `Estimated cost $${estimatedCost.toFixed(4)} would exceed the ${budget.period} budget ($${budget.spent.toFixed(4)} of $${budget.limit} spent)`
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Spending in the current period of each configured daily, weekly and monthly budget, across the
+   * persisted sessions and the current one
+   */
+  async getBudgetStatus(now: Date = new Date()): Promise<BudgetStatus[]> {
+    if (!this.config.enabled) return [];
+
+    const sessionCost = this.currentSession?.estimatedCost || 0;
+    const statuses: BudgetStatus[] = [];
+
+    for (const period of PERIOD_BUDGETS) {
+      const limit = this.config[`${period}Budget`];
+      if (limit === undefined || limit <= 0) continue;
+
+      const { start, end } = getPeriodBounds(period, now);
+      const spent = sessionCost + await this.getCostSince(start, now);
+      statuses.push({
+        period,
+        limit,
+        spent,
+        periodStart: start.toISOString(),
+        resetsAt: end.toISOString(),
+        exhausted: spent >= limit
+      });
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Record an alert when a period budget passes `BUDGET_WARNING_RATIO` of its limit, and another when
+   * it is exhausted, at most once each per period. Returns the alerts recorded by this call.
+   */
+  async checkPeriodBudgets(now: Date = new Date()): Promise<UsageAlert[]> {
+    const statuses = await this.getBudgetStatus(now);
+    if (statuses.length === 0) return [];
+
+    const earliestStart = new Date(Math.min(...statuses.map(status => Date.parse(status.periodStart))));
+    const previous = await this.loadAlerts(earliestStart, now);
+    const alerts: UsageAlert[] = [];
+
+    for (const status of statuses) {
+      const type = status.exhausted ? 'limit-reached' : status.spent >= status.limit * BUDGET_WARNING_RATIO ? 'warning' : null;
+      if (!type) continue;
+
+      const alreadyRecorded = previous.some(alert =>
+        alert.period === status.period && alert.type === type && alert.timestamp >= status.periodStart);
+      if (alreadyRecorded) continue;
+
+      const label = `${status.period[0].toUpperCase()}${status.period.slice(1)} budget`;
+      const spent = `$${status.spent.toFixed(4)} of $${status.limit} spent`;
+      const alert: UsageAlert = {
+        type,
+        period: status.period,
+        message: type === 'limit-reached'
+          ? `${label} exhausted: ${spent}; git-hook runs use local analysis only until ${status.resetsAt}`
+          : `${label} ${Math.round((status.spent / status.limit) * 100)}% used: ${spent}`,
+        currentCost: status.spent,
+        threshold: type === 'limit-reached' ? status.limit : status.limit * BUDGET_WARNING_RATIO,
+        timestamp: now.toISOString()
+      };
+      await this.recordAlert(alert);
+      alerts.push(alert);
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Append an alert to the alerts log in the data directory
+   */
+  async recordAlert(alert: UsageAlert): Promise<void> {
+    if (!this.config.enabled) return;
+
+    const sessionId = alert.sessionId || this.currentSession?.sessionId;
+    try {
+      await this.ensureDataDirectory();
+      await fs.appendFile(
+        join(this.config.dataDirectory, ALERTS_FILE),
+        JSON.stringify({ ...alert, ...(sessionId ? { sessionId } : {}) }) + '\n'
+      );
+    } catch (error) {
+      console.warn('Failed to record usage alert:', error);
+    }
+  }
+
+  /**
+   * Alerts recorded between `startDate` and `endDate` (inclusive), oldest first
+   */
+  async loadAlerts(startDate: Date, endDate: Date = new Date()): Promise<UsageAlert[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(join(this.config.dataDirectory, ALERTS_FILE), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const alerts: UsageAlert[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const alert: UsageAlert = JSON.parse(line);
+        const time = new Date(alert.timestamp);
+        if (time >= startDate && time <= endDate) {
+          alerts.push(alert);
+        }
+      } catch {
+        // Skip a partially written line rather than losing the whole log
+      }
+    }
+
+    return alerts.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
   /**
    * End current session and persist metrics
    */
@@ -191,7 +390,12 @@ export class UsageTracker {
         averageExecutionTimeMs: 0,
         periodStart: startDate.toISOString(),
         periodEnd: endDate.toISOString(),
-        sessionCount: metrics.length
+        sessionCount: metrics.length,
+        totalCacheHits: metrics.reduce((sum, m) => sum + (m.cacheHits || 0), 0),
+        totalCacheMisses: metrics.reduce((sum, m) => sum + (m.cacheMisses || 0), 0),
+        modelBreakdown: mergeModelUsage(
+          metrics.flatMap(m => (m.operationBreakdown || []).flatMap(op => op.models || []))
+        )
       };
 
       // Calculate averages
@@ -215,6 +419,39 @@ export class UsageTracker {
     return this.currentSession ? { ...this.currentSession } : null;
   }
 
+  /**
+   * Cost of the sessions recorded between `start` and `end`
+   */
+  private async getCostSince(start: Date, end: Date): Promise<number> {
+    const metrics = await this.loadMetricsInRange(start, end);
+    return metrics.reduce((sum, m) => sum + m.estimatedCost, 0);
+  }
+
+  /**
+   * Price each request at its model's rates, combined per model
+   */
+  private priceModelUsage(usage: ModelTokenUsage[]): ModelUsage[] {
+    return mergeModelUsage(usage.map(request => ({
+      model: request.model,
+      requests: 1,
+      promptTokens: request.promptTokens,
+      completionTokens: request.completionTokens,
+      cost: this.calculateModelCost(request)
+    })));
+  }
+
+  /**
+   * Cost of prompt and completion tokens at the model's rates: the configured `modelPricing`, then
+   * the built-in table, then the configured default rates
+   */
+  private calculateModelCost(usage: ModelTokenUsage): number {
+    const table: Record<string, ModelPricing> = { ...MODEL_PRICING, ...this.config.modelPricing };
+    const fallback = { inputPer1K: this.config.inputTokenCostPer1K, outputPer1K: this.config.outputTokenCostPer1K };
+    const pricing = getModelPricing(usage.model, fallback, table);
+
+    return (usage.promptTokens / 1000) * pricing.inputPer1K + (usage.completionTokens / 1000) * pricing.outputPer1K;
+  }
+
   /**
    * Calculate cost for a specific operation
    */
@@ -292,11 +529,18 @@ export class UsageTracker {
   }
 
   /**
-   * Load metrics within date range
+   * Load the sessions recorded between `startDate` and `endDate` (inclusive), oldest first
    */
-  private async loadMetricsInRange(startDate: Date, endDate: Date): Promise<UsageMetrics[]> {
+  async loadMetricsInRange(startDate: Date, endDate: Date): Promise<UsageMetrics[]> {
     const allMetrics: UsageMetrics[] = [];
-    
+
+    try {
+      await fs.access(this.config.dataDirectory);
+    } catch {
+      // Nothing recorded yet
+      return allMetrics;
+    }
+
     try {
       const files = await fs.readdir(this.config.dataDirectory);
       const usageFiles = files.filter(f => f.startsWith('usage-') && f.endsWith('.json'));
@@ -322,7 +566,7 @@ export class UsageTracker {
       console.warn('Failed to read usage directory:', error);
     }
 
-    return allMetrics;
+    return allMetrics.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
   }
 
   /**
@@ -369,7 +613,30 @@ export class UsageTracker {
       averageExecutionTimeMs: 0,
       periodStart: now,
       periodEnd: now,
-      sessionCount: 0
+      sessionCount: 0,
+      totalCacheHits: 0,
+      totalCacheMisses: 0,
+      modelBreakdown: []
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Start of the UTC day, week (from Monday) or month containing `now`, and the start of the next one
+ */
+function getPeriodBounds(period: PeriodBudget, now: Date): { start: Date; end: Date } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const day = now.getUTCDate();
+
+  switch (period) {
+    case 'daily':
+      return { start: new Date(Date.UTC(year, month, day)), end: new Date(Date.UTC(year, month, day + 1)) };
+    case 'weekly': {
+      const monday = day - ((now.getUTCDay() + 6) % 7);
+      return { start: new Date(Date.UTC(year, month, monday)), end: new Date(Date.UTC(year, month, monday + 7)) };
+    }
+    case 'monthly':
+      return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) };
+  }
+}
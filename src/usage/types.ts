@@ -21,6 +21,10 @@ export interface UsageMetrics {
   executionTimeMs: number;
   /** Breakdown by operation type */
   operationBreakdown: OperationMetrics[];
+  /** Subagent requests answered from the response cache */
+  cacheHits?: number;
+  /** Subagent requests that were not in the response cache */
+  cacheMisses?: number;
 }
 
 export interface OperationMetrics {
@@ -34,6 +38,26 @@ export interface OperationMetrics {
   durationMs: number;
   /** Estimated cost for this operation */
   cost: number;
+  /** Prompt and completion tokens per model, for operations that call an AI model */
+  models?: ModelUsage[];
+}
+
+/**
+ * Tokens reported by the provider for one AI request
+ */
+export interface ModelTokenUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ModelUsage {
+  model: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Cost at the model's rates */
+  cost: number;
 }
 
 export interface UsageSummary {
@@ -52,19 +76,34 @@ export interface UsageSummary {
   periodEnd: string;
   /** Number of sessions in this summary */
   sessionCount: number;
+  /** Response cache lookups across all sessions */
+  totalCacheHits: number;
+  totalCacheMisses: number;
+  /** Tokens and cost per model, most expensive first */
+  modelBreakdown: ModelUsage[];
 }
 
 export interface UsageConfig {
   /** Path to store usage data */
   dataDirectory: string;
-  /** Token cost per 1K tokens (input) */
+  /** Token cost per 1K tokens (input) for models without a pricing entry */
   inputTokenCostPer1K: number;
-  /** Token cost per 1K tokens (output) */
+  /** Token cost per 1K tokens (output) for models without a pricing entry */
   outputTokenCostPer1K: number;
+  /** Pricing per model name, added to and overriding the built-in table */
+  modelPricing?: Record<string, ModelPricing>;
   /** Warning threshold for estimated cost per session */
   costWarningThreshold: number;
   /** Maximum allowed cost per session (will abort if exceeded) */
   costLimitPerSession: number;
+  /** Maximum cost per UTC calendar day across sessions (no limit when unset) */
+  dailyBudget?: number;
+  /** Maximum cost per UTC calendar week, starting Monday, across sessions (no limit when unset) */
+  weeklyBudget?: number;
+  /** Maximum cost per UTC calendar month across sessions (no limit when unset) */
+  monthlyBudget?: number;
+  /** What to do when the estimated cost of a run would exceed a budget */
+  budgetAction: 'local-only' | 'refuse';
   /** Enable/disable usage tracking */
   enabled: boolean;
   /** Retention period for usage data in days */
@@ -77,6 +116,73 @@ export interface UsageAlert {
   currentCost: number;
   threshold: number;
   timestamp: string;
+  /** The budget the alert is about; session alerts from the per-session thresholds have none */
+  period?: BudgetPeriod;
+  /** Session that raised the alert */
+  sessionId?: string;
+}
+
+export interface ModelPricing {
+  /** USD per 1K prompt tokens */
+  inputPer1K: number;
+  /** USD per 1K completion tokens */
+  outputPer1K: number;
+}
+
+/**
+ * An AI request priced before it is sent
+ */
+export interface PlannedRequest {
+  model: string;
+  /** Estimated prompt tokens */
+  promptTokens: number;
+  /** Upper bound on completion tokens */
+  completionTokens: number;
+  /** Answered from the response cache, so free */
+  cached: boolean;
+}
+
+export interface CostEstimate {
+  requests: number;
+  cachedRequests: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Upper bound in USD */
+  cost: number;
+}
+
+export type BudgetPeriod = 'session' | 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Spending against a daily, weekly or monthly budget
+ */
+export interface BudgetStatus {
+  period: Exclude<BudgetPeriod, 'session'>;
+  limit: number;
+  /** Spent since the period started, including the current session */
+  spent: number;
+  /** ISO timestamp of the start of the current period */
+  periodStart: string;
+  /** ISO timestamp when the period ends and the budget resets */
+  resetsAt: string;
+  exhausted: boolean;
+}
+
+/**
+ * Share of a period budget after which a warning alert is recorded
+ */
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export interface BudgetCheck {
+  allowed: boolean;
+  /** The first budget the estimate would exceed */
+  exceeded?: {
+    period: BudgetPeriod;
+    limit: number;
+    /** Spent in the period before this estimate */
+    spent: number;
+  };
+  message?: string;
 }
 
 export const DEFAULT_USAGE_CONFIG: UsageConfig = {
@@ -85,6 +191,7 @@ export const DEFAULT_USAGE_CONFIG: UsageConfig = {
   outputTokenCostPer1K: 0.03,  // $0.03 per 1K output tokens
   costWarningThreshold: 0.10,  // Warn at $0.10 per session
   costLimitPerSession: 1.00,   // Hard limit at $1.00 per session
+  budgetAction: 'local-only',
   enabled: true,
   retentionDays: 30
 };
@@ -0,0 +1,63 @@
+/**
+ * CLI command for validating documentation freshness (used by the pre-push hook)
+ */
+
+import { AnalysisConfig } from '../analysis/types';
+import { DocumentationValidator } from './validator';
+import { DocumentationDrift } from './types';
+
+const MAX_LISTED_UNDOCUMENTED = 20;
+
+/**
+ * Validate documentation against the exported API and return the process exit code
+ */
+export async function runValidateDocsCLI(workspaceRoot: string, analysisConfig: AnalysisConfig): Promise<number> {
+  console.log('📋 Validating documentation against the current exported API...');
+
+  const validator = new DocumentationValidator(workspaceRoot, analysisConfig);
+  const report = await validator.validate();
+
+  if (report.checkedDocuments.length === 0) {
+    console.log('⚠️  No generated documentation found to validate');
+    return 0;
+  }
+
+  const driftByDocument = new Map<string, DocumentationDrift[]>();
+  for (const drift of report.drift) {
+    driftByDocument.set(drift.document, [...(driftByDocument.get(drift.document) || []), drift]);
+  }
+
+  for (const document of report.checkedDocuments) {
+    const drifts = driftByDocument.get(document) || [];
+    if (drifts.length === 0) {
+      console.log(`✅ ${document}`);
+      continue;
+    }
+
+    console.log(`❌ ${document}`);
+    for (const drift of drifts) {
+      console.log(`   - ${drift.symbol} (line ${drift.line}): ${drift.message}`);
+    }
+  }
+
+  console.log(`\nChecked ${report.documentedSymbols} documented symbols against ${report.exportedSymbols} exported symbols`);
+
+  if (report.undocumentedSymbols.length > 0) {
+    // Generated docs may cover only the symbols that changed, so missing ones do not fail the check
+    console.log(`⚠️  ${report.undocumentedSymbols.length} exported symbol(s) are not documented (not counted as drift):`);
+    for (const symbol of report.undocumentedSymbols.slice(0, MAX_LISTED_UNDOCUMENTED)) {
+      console.log(`   - ${symbol.name} (${symbol.kind}, ${symbol.filePath})`);
+    }
+    if (report.undocumentedSymbols.length > MAX_LISTED_UNDOCUMENTED) {
+      console.log(`   ... and ${report.undocumentedSymbols.length - MAX_LISTED_UNDOCUMENTED} more`);
+    }
+  }
+
+  if (report.isStale) {
+    console.log(`❌ Documentation is stale: ${report.drift.length} drifted symbol(s). Run auto-doc-sync to regenerate it.`);
+    return 1;
+  }
+
+  console.log('✅ Documentation is up to date');
+  return 0;
+}
@@ -0,0 +1,7 @@
+/**
+ * Documentation validation - checks generated docs against the exported API
+ */
+
+export * from './types';
+export * from './validator';
+export * from './cli';
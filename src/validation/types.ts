@@ -0,0 +1,47 @@
+/**
+ * Documentation validation types
+ */
+
+export interface ValidationTargets {
+  apiSpecPath: string;
+  readmePath: string;
+}
+
+export interface DocumentedSymbol {
+  name: string;
+  document: string;
+  line: number;
+  qualifier?: string;
+  parameterTypes?: string[];
+  returnType?: string;
+}
+
+export interface ExportedSymbol {
+  name: string;
+  kind: 'function' | 'class' | 'method' | 'interface' | 'type' | 'enum' | 'const';
+  filePath: string;
+  signatures: Array<{ parameterTypes: string[]; returnType: string }>;
+}
+
+export interface DocumentationDrift {
+  symbol: string;
+  document: string;
+  line: number;
+  kind: 'missing-symbol' | 'parameters-changed' | 'return-type-changed';
+  message: string;
+}
+
+export interface ValidationReport {
+  checkedDocuments: string[];
+  documentedSymbols: number;
+  exportedSymbols: number;
+  drift: DocumentationDrift[];
+  /** Exported symbols none of the checked documents describe; reported, but not drift */
+  undocumentedSymbols: ExportedSymbol[];
+  isStale: boolean;
+}
+
+export const DEFAULT_VALIDATION_TARGETS: ValidationTargets = {
+  apiSpecPath: '.kiro/specs/api.md',
+  readmePath: 'README.md'
+};
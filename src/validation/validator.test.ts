@@ -0,0 +1,168 @@
+/**
+ * Tests for documentation validation against the exported API
+ * Feature: auto-doc-sync, Property 7: Post-update validation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DocumentationValidator } from './validator';
+import { AnalysisConfig } from '../analysis/types';
+
+describe('DocumentationValidator', () => {
+  const config: AnalysisConfig = {
+    includePatterns: ['**/*.ts'],
+    excludePatterns: ['**/node_modules/**', '**/*.test.*'],
+    maxFileSize: 1024 * 1024,
+    analysisDepth: 'deep'
+  };
+  let workspace: string;
+
+  const write = async (relativePath: string, content: string) => {
+    await fs.mkdir(path.dirname(path.join(workspace, relativePath)), { recursive: true });
+    await fs.writeFile(path.join(workspace, relativePath), content);
+  };
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'validate-docs-'));
+    await write('src/client.ts', `
+export class Client {
+  send(to: string, body: string): Promise<void> { return Promise.resolve(); }
+  private retry(): void {}
+}
+export function connect(url: string): Client { return new Client(); }
+export interface Options { url: string; }`);
+    await write('src/client.test.ts', 'export function testOnly(): void {}');
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  it('should report removed symbols and changed signatures per symbol in the API spec', async () => {
+    await write('.kiro/specs/api.md', `# API Documentation
+
+## API Endpoints
+
+### connect
+
+**Method:** \`function\`
+
+**Parameters:**
+- \`url\` (string) - Target
+
+**Returns:** \`Client\`
+
+### Client.send
+
+**Parameters:**
+- \`to\` (string)
+
+**Returns:** \`Promise<void>\`
+
+### Client.retry
+
+**Returns:** \`void\`
+
+### Client
+
+**Method:** \`class\`
+
+**Returns:** class
+
+## Types
+
+### Options
+
+### testOnly
+
+## Changed Files
+
+- \`src/removed.ts\`
+`);
+
+    const report = await new DocumentationValidator(workspace, config).validate();
+
+    expect(report.checkedDocuments).toEqual(['.kiro/specs/api.md']);
+    expect(report.drift.map(d => `${d.kind}:${d.symbol}`)).toEqual([
+      'parameters-changed:Client.send',
+      'missing-symbol:Client.retry',
+      'missing-symbol:testOnly'
+    ]);
+    expect(report.undocumentedSymbols).toEqual([]);
+    expect(report.isStale).toBe(true);
+  });
+
+  it('should check README API bullets in both generated formats using the class heading as qualifier', async () => {
+    await write('README.md', `# Project
+
+## Features
+
+- **Client**: the client (not an API entry)
+
+## API Reference
+
+### Client
+
+- **send(to: string, body: string): Promise<void>**
+- **send(to: string): Promise<string>**
+
+## Features & API
+
+**Features:**
+
+- **connect**(number): ignored feature bullet
+
+**API:**
+
+- **connect**(string) → Client: Connects
+- **disconnect**(): Gone
+
+## Installation
+
+- **notAnApi**(x): outside managed sections
+`);
+
+    const report = await new DocumentationValidator(workspace, config).validate();
+
+    expect(report.documentedSymbols).toBe(4);
+    expect(report.drift.map(d => `${d.kind}:${d.symbol}:${d.line}`)).toEqual([
+      'parameters-changed:send:12',
+      'return-type-changed:send:12',
+      'missing-symbol:disconnect:23'
+    ]);
+    // The class counts as documented through its method; the interface is mentioned nowhere
+    expect(report.undocumentedSymbols).toEqual([{ name: 'Options', kind: 'interface', filePath: 'src/client.ts', signatures: [] }]);
+  });
+
+  it('should check every source file when no include patterns are configured', async () => {
+    await write('.kiro/specs/api.md', '## API Endpoints\n\n### disconnect\n');
+
+    const report = await new DocumentationValidator(workspace, { ...config, includePatterns: [] }).validate();
+
+    expect(report.exportedSymbols).toBeGreaterThan(0);
+    expect(report.drift.map(d => `${d.kind}:${d.symbol}`)).toEqual(['missing-symbol:disconnect']);
+    expect(report.isStale).toBe(true);
+  });
+
+  it('should consider documentation generated from the current API up to date', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.uniqueArray(fc.stringMatching(/^[a-z][a-zA-Z0-9]{0,8}$/), { minLength: 1, maxLength: 5 }),
+        async (names) => {
+          await write('src/generated.ts', names.map(name => `export function fn_${name}(value: number): string { return ''; }`).join('\n'));
+          await write('.kiro/specs/api.md', '## API Endpoints\n\n' + names.map(name =>
+            `### fn_${name}\n\n**Parameters:**\n- \`value\` (number)\n\n**Returns:** \`string\`\n`
+          ).join('\n'));
+
+          const report = await new DocumentationValidator(workspace, config).validate();
+          expect(report.drift).toEqual([]);
+          expect(report.isStale).toBe(false);
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+});
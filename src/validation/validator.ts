@@ -0,0 +1,436 @@
+/**
+ * Validates generated documentation against the current exported API without calling the AI
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AnalysisConfig } from '../analysis/types';
+import { SymbolExtractor } from '../analysis/symbol-extractor';
+import { matchesAnyGlob } from '../analysis/glob';
+import { FunctionDefinition } from '../types';
+import {
+  ValidationTargets,
+  DocumentedSymbol,
+  ExportedSymbol,
+  DocumentationDrift,
+  ValidationReport,
+  DEFAULT_VALIDATION_TARGETS
+} from './types';
+
+const ANALYZABLE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+const ALWAYS_SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+const API_SPEC_SECTIONS = new Set(['API Endpoints', 'Endpoints', 'Types']);
+
+export class DocumentationValidator {
+  private symbolExtractor = new SymbolExtractor();
+
+  constructor(
+    private workspaceRoot: string,
+    private config: AnalysisConfig,
+    private targets: ValidationTargets = DEFAULT_VALIDATION_TARGETS
+  ) {}
+
+  /**
+   * Check every symbol the documentation describes against the exported API in the workspace,
+   * and list the exports it does not describe
+   */
+  async validate(): Promise<ValidationReport> {
+    const exportedSymbols = await this.collectExportedSymbols();
+    const index = this.indexSymbols(exportedSymbols);
+    const checkedDocuments: string[] = [];
+    const documentedSymbols: DocumentedSymbol[] = [];
+
+    const apiSpec = await this.readDocument(this.targets.apiSpecPath);
+    if (apiSpec !== undefined) {
+      checkedDocuments.push(this.targets.apiSpecPath);
+      documentedSymbols.push(...this.parseAPISpec(apiSpec, this.targets.apiSpecPath));
+    }
+
+    const readme = await this.readDocument(this.targets.readmePath);
+    if (readme !== undefined) {
+      checkedDocuments.push(this.targets.readmePath);
+      documentedSymbols.push(...this.parseREADME(readme, this.targets.readmePath));
+    }
+
+    const drift = documentedSymbols.flatMap(symbol => this.checkSymbol(symbol, index));
+
+    return {
+      checkedDocuments,
+      documentedSymbols: documentedSymbols.length,
+      exportedSymbols: exportedSymbols.length,
+      drift,
+      undocumentedSymbols: checkedDocuments.length > 0 ? this.findUndocumentedSymbols(exportedSymbols, documentedSymbols) : [],
+      isStale: drift.length > 0
+    };
+  }
+
+  /**
+   * Parse the symbols described in the API Endpoints and Types sections of the API spec
+   */
+  parseAPISpec(content: string, document: string): DocumentedSymbol[] {
+    const symbols: DocumentedSymbol[] = [];
+    const lines = content.split(/\r?\n/);
+    let inSection = false;
+    let inParameters = false;
+    let current: DocumentedSymbol | undefined;
+    let isClass = false;
+
+    const flush = () => {
+      if (current && isClass) {
+        delete current.parameterTypes;
+        delete current.returnType;
+      }
+      if (current) symbols.push(current);
+      current = undefined;
+      isClass = false;
+    };
+
+    lines.forEach((line, index) => {
+      const h2 = line.match(/^##\s+(.+?)\s*$/);
+      if (h2) {
+        flush();
+        inSection = API_SPEC_SECTIONS.has(h2[1]);
+        return;
+      }
+      if (!inSection) return;
+
+      const h3 = line.match(/^###\s+(.+?)\s*$/);
+      if (h3) {
+        flush();
+        inParameters = false;
+        const name = this.normalizeName(h3[1]);
+        if (name) current = { name, document, line: index + 1 };
+        return;
+      }
+      if (!current) return;
+
+      if (/^\*\*Method:\*\*\s*`?class`?/.test(line)) {
+        isClass = true;
+      } else if (/^\*\*Parameters:\*\*/.test(line)) {
+        inParameters = true;
+        current.parameterTypes = [];
+      } else if (inParameters && line.startsWith('- `')) {
+        const typeStart = line.indexOf('` (');
+        current.parameterTypes!.push(typeStart >= 0 ? this.readBalanced(line, typeStart + 2) || '' : '');
+      } else if (/^\*\*Returns:\*\*/.test(line)) {
+        inParameters = false;
+        current.returnType = line.replace(/^\*\*Returns:\*\*\s*/, '').replace(/`/g, '').trim();
+        current.parameterTypes = current.parameterTypes || [];
+      }
+    });
+    flush();
+
+    return symbols;
+  }
+
+  /**
+   * Parse callable API bullets from the README sections that document the API
+   */
+  parseREADME(content: string, document: string): DocumentedSymbol[] {
+    const symbols: DocumentedSymbol[] = [];
+    const lines = content.split(/\r?\n/);
+    let sectionLevel = 0;
+    let qualifier: string | undefined;
+    let inFeatureList = false;
+
+    lines.forEach((line, index) => {
+      const heading = line.match(/^(#{1,6})\s+(.+?)\s*$/);
+      if (heading) {
+        const level = heading[1].length;
+        if (sectionLevel > 0 && level <= sectionLevel) {
+          sectionLevel = 0;
+        }
+        if (sectionLevel === 0 && /\bAPI\b/i.test(heading[2])) {
+          sectionLevel = level;
+          qualifier = undefined;
+          inFeatureList = false;
+        } else if (sectionLevel > 0) {
+          qualifier = this.normalizeName(heading[2]) || undefined;
+        }
+        return;
+      }
+      if (sectionLevel === 0) return;
+
+      // The generated "Features & API" section lists features before a bold API label
+      if (/^\*\*Features:\*\*/.test(line)) {
+        inFeatureList = true;
+      } else if (/^\*\*API:\*\*/.test(line)) {
+        inFeatureList = false;
+      } else if (!inFeatureList && line.startsWith('- **')) {
+        const symbol = this.parseREADMEBullet(line, document, index + 1, qualifier);
+        if (symbol) symbols.push(symbol);
+      }
+    });
+
+    return symbols;
+  }
+
+  /**
+   * Parse `- **name(a: A): R**` or `- **name**(A) → R: description` bullets
+   */
+  private parseREADMEBullet(line: string, document: string, lineNumber: number, qualifier?: string): DocumentedSymbol | undefined {
+    const rest = line.slice(4);
+    const nameMatch = rest.match(/^[\w$.]+/);
+    if (!nameMatch) return undefined;
+
+    const name = nameMatch[0];
+    let position = name.length;
+    let insideBold = true;
+
+    if (rest.startsWith('**', position)) {
+      insideBold = false;
+      position += 2;
+    }
+
+    // Only bullets with a parameter list describe a callable we can verify
+    if (rest[position] !== '(') return undefined;
+
+    const params = this.readBalanced(rest, position);
+    if (params === undefined) return undefined;
+    position += params.length + 2;
+
+    let returnType: string | undefined;
+    const tail = rest.slice(position);
+    if (insideBold) {
+      const match = tail.match(/^:\s*(.+?)\*\*/);
+      returnType = match ? match[1].trim() : undefined;
+    } else {
+      const match = tail.match(/^\s*→\s*(.+?)(?::\s|$)/);
+      returnType = match ? match[1].trim() : undefined;
+    }
+
+    return {
+      name,
+      document,
+      line: lineNumber,
+      qualifier,
+      // The compact form lists bare types; the bold form lists `name: type` pairs
+      parameterTypes: this.splitTopLevel(params).map(param => this.parameterType(param) || (insideBold ? '' : param)),
+      returnType
+    };
+  }
+
+  private checkSymbol(symbol: DocumentedSymbol, index: Map<string, ExportedSymbol[]>): DocumentationDrift[] {
+    const candidates = (symbol.qualifier && index.get(`${symbol.qualifier}.${symbol.name}`)) || index.get(symbol.name);
+    const drift = (kind: DocumentationDrift['kind'], message: string): DocumentationDrift => ({
+      symbol: symbol.name,
+      document: symbol.document,
+      line: symbol.line,
+      kind,
+      message
+    });
+
+    if (!candidates) {
+      return [drift('missing-symbol', 'documented but not found in the current exported API')];
+    }
+
+    const signatures = candidates.flatMap(candidate => candidate.signatures);
+    if (signatures.length === 0) return [];
+
+    const results: DocumentationDrift[] = [];
+    const actual = signatures[0];
+
+    if (symbol.parameterTypes && !signatures.some(sig => this.parametersMatch(symbol.parameterTypes!, sig.parameterTypes))) {
+      results.push(drift(
+        'parameters-changed',
+        `parameters documented as (${symbol.parameterTypes.join(', ')}) but the current signature takes (${actual.parameterTypes.join(', ')})`
+      ));
+    }
+
+    if (symbol.returnType && !signatures.some(sig => this.normalizeType(sig.returnType) === this.normalizeType(symbol.returnType!))) {
+      results.push(drift(
+        'return-type-changed',
+        `return type documented as ${symbol.returnType} but the current signature returns ${actual.returnType}`
+      ));
+    }
+
+    return results;
+  }
+
+  /**
+   * Top-level exports no documented symbol refers to. A class or interface counts as documented
+   * when any of its methods is; methods themselves are not listed.
+   */
+  private findUndocumentedSymbols(exportedSymbols: ExportedSymbol[], documentedSymbols: DocumentedSymbol[]): ExportedSymbol[] {
+    const documented = new Set<string>();
+    for (const symbol of documentedSymbols) {
+      const qualified = symbol.qualifier ? `${symbol.qualifier}.${symbol.name}` : symbol.name;
+      documented.add(symbol.name);
+      documented.add(qualified);
+      documented.add(qualified.split('.')[0]);
+    }
+
+    return exportedSymbols.filter(symbol => symbol.kind !== 'method' && !documented.has(symbol.name));
+  }
+
+  private parametersMatch(documented: string[], actual: string[]): boolean {
+    return documented.length === actual.length &&
+      documented.every((type, i) => type === '' || this.normalizeType(type) === this.normalizeType(actual[i]));
+  }
+
+  private async collectExportedSymbols(): Promise<ExportedSymbol[]> {
+    const symbols: ExportedSymbol[] = [];
+
+    for (const filePath of await this.findSourceFiles('')) {
+      let code: string;
+      try {
+        code = await fs.readFile(path.join(this.workspaceRoot, filePath), 'utf-8');
+      } catch {
+        continue;
+      }
+
+      let extracted;
+      try {
+        extracted = this.symbolExtractor.extract(code, filePath);
+      } catch (error) {
+        console.warn(`Failed to parse ${filePath}: ${error}`);
+        continue;
+      }
+
+      for (const func of extracted.extractedFunctions.filter(f => f.isExported)) {
+        symbols.push({ name: func.name, kind: 'function', filePath, signatures: this.signaturesOf(func) });
+      }
+
+      const owners = [
+        ...extracted.extractedClasses.map(owner => ({ owner, kind: 'class' as const })),
+        ...extracted.extractedInterfaces.map(owner => ({ owner, kind: 'interface' as const }))
+      ];
+
+      for (const { owner, kind } of owners.filter(o => o.owner.isExported)) {
+        symbols.push({ name: owner.name, kind, filePath, signatures: [] });
+
+        for (const method of owner.methods.filter(m => !m.visibility || m.visibility === 'public')) {
+          symbols.push({ name: `${owner.name}.${method.name}`, kind: 'method', filePath, signatures: this.signaturesOf(method) });
+        }
+      }
+
+      for (const alias of extracted.extractedTypeAliases.filter(a => a.isExported)) {
+        symbols.push({ name: alias.name, kind: 'type', filePath, signatures: [] });
+      }
+      for (const enumDef of extracted.extractedEnums.filter(e => e.isExported)) {
+        symbols.push({ name: enumDef.name, kind: 'enum', filePath, signatures: [] });
+      }
+      for (const constant of extracted.extractedConstants.filter(c => c.isExported)) {
+        symbols.push({ name: constant.name, kind: 'const', filePath, signatures: [] });
+      }
+    }
+
+    return symbols;
+  }
+
+  /**
+   * Index symbols by name; methods are reachable both qualified and by their bare name
+   */
+  private indexSymbols(symbols: ExportedSymbol[]): Map<string, ExportedSymbol[]> {
+    const index = new Map<string, ExportedSymbol[]>();
+    const add = (key: string, symbol: ExportedSymbol) => index.set(key, [...(index.get(key) || []), symbol]);
+
+    for (const symbol of symbols) {
+      add(symbol.name, symbol);
+      if (symbol.kind === 'method') {
+        add(symbol.name.slice(symbol.name.indexOf('.') + 1), symbol);
+      }
+    }
+
+    return index;
+  }
+
+  private async findSourceFiles(relativeDir: string): Promise<string[]> {
+    const files: string[] = [];
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(this.workspaceRoot, relativeDir), { withFileTypes: true });
+    } catch {
+      return files;
+    }
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (!ALWAYS_SKIPPED_DIRECTORIES.has(entry.name) && !matchesAnyGlob(`${relativePath}/`, this.config.excludePatterns)) {
+          files.push(...await this.findSourceFiles(relativePath));
+        }
+      } else if (
+        entry.isFile() &&
+        ANALYZABLE_EXTENSIONS.includes(path.extname(entry.name)) &&
+        // An empty include list includes everything, as in the analyzer
+        (this.config.includePatterns.length === 0 || matchesAnyGlob(relativePath, this.config.includePatterns)) &&
+        !matchesAnyGlob(relativePath, this.config.excludePatterns)
+      ) {
+        const stats = await fs.stat(path.join(this.workspaceRoot, relativePath));
+        if (stats.size <= this.config.maxFileSize) {
+          files.push(relativePath);
+        }
+      }
+    }
+
+    return files;
+  }
+
+  private signaturesOf(func: FunctionDefinition): ExportedSymbol['signatures'] {
+    const signatures = func.overloads && func.overloads.length > 0 ? func.overloads : [func];
+    return signatures.map(sig => ({
+      parameterTypes: sig.parameters.map(p => p.type),
+      returnType: sig.returnType
+    }));
+  }
+
+  private async readDocument(relativePath: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(path.join(this.workspaceRoot, relativePath), 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private normalizeName(heading: string): string {
+    const name = heading.replace(/`/g, '').replace(/\(\)$/, '').trim();
+    return /^[\w$]+(\.[\w$]+)*$/.test(name) ? name : '';
+  }
+
+  private normalizeType(type: string): string {
+    return type.replace(/\s+/g, '').replace(/;$/, '');
+  }
+
+  private parameterType(param: string): string {
+    const colon = this.splitTopLevel(param, ':');
+    return colon.length > 1 ? colon.slice(1).join(':').trim() : '';
+  }
+
+  /**
+   * Read the contents of the bracket group opening at `start`, honouring nesting
+   */
+  private readBalanced(text: string, start: number): string | undefined {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+      if (text[i] === '(') depth++;
+      if (text[i] === ')' && --depth === 0) {
+        return text.slice(start + 1, i);
+      }
+    }
+    return undefined;
+  }
+
+  private splitTopLevel(text: string, separator: string = ','): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if ('<({['.includes(char)) depth++;
+      if (')}]'.includes(char) || (char === '>' && text[i - 1] !== '=')) depth--;
+
+      if (char === separator && depth === 0) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+
+    return parts.map(part => part.trim()).filter(part => part.length > 0);
+  }
+}